@@ -3,11 +3,11 @@
 
 
 import React, { useState, useEffect, useMemo } from 'react';
-import type { Core, Section, Microfossil, Folder, SampleCore, NearbyCore } from './types';
+import type { Core, Section, Microfossil, Folder, SampleCore, NearbyCore, CatalogueAccess } from './types';
 import CoreSelector from './components/CoreSelector';
 import CoreDashboard from './components/CoreDashboard';
 import AddCoreModal from './components/AddCoreModal';
-import { BarChart3, Microscope, PlusCircle, LogOut, Loader2, List, Map as MapIcon, ChevronsLeft, ChevronsRight, Image, Info, Settings } from 'lucide-react';
+import { BarChart3, Microscope, PlusCircle, LogOut, Loader2, List, Map as MapIcon, ChevronsLeft, ChevronsRight, Image, Info, Settings, Library } from 'lucide-react';
 import Logo from './components/Logo';
 import { supabase } from './services/supabaseClient';
 import * as coreService from './services/coreService';
@@ -23,6 +23,7 @@ import ConfirmModal from './components/ConfirmModal';
 import AddFossilModal from './components/AddFossilModal';
 import Toast from './components/Toast';
 import NearbyCoresModal from './components/NearbyCoresModal';
+import FossilCatalogueModal from './components/FossilCatalogueModal';
 
 
 type SidebarView = 'list' | 'map' | 'imageAnalysis';
@@ -33,6 +34,8 @@ const App: React.FC = () => {
   const [cores, setCores] = useState<Core[]>([]);
   const [folders, setFolders] = useState<Folder[]>([]);
   const [microfossils, setMicrofossils] = useState<Microfossil[]>([]);
+  const [catalogueAccess, setCatalogueAccess] = useState<CatalogueAccess>({ labs: [], isCurator: false });
+  const [isCatalogueModalOpen, setIsCatalogueModalOpen] = useState(false);
   const [selectedCore, setSelectedCore] = useState<Core | null>(null);
   const [isCoreModalOpen, setIsCoreModalOpen] = useState(false);
   const [isAccountModalOpen, setIsAccountModalOpen] = useState(false);
@@ -131,9 +134,11 @@ const App: React.FC = () => {
     setLoading(true);
     try {
         const { cores, folders } = await coreService.fetchFoldersAndCores(userId);
-        const { microfossils } = await coreService.fetchMicrofossils();
+        const access = await coreService.fetchCatalogueAccess(userId);
+        const { microfossils } = await coreService.fetchMicrofossils(userId, access.labs.map(lab => lab.id));
         setCores(cores);
         setFolders(folders);
+        setCatalogueAccess(access);
         setMicrofossils(microfossils);
     } catch (error: any) {
         console.error('Error loading data:', error.message);
@@ -151,6 +156,7 @@ const App: React.FC = () => {
         setCores([]);
         setFolders([]);
         setMicrofossils([]);
+        setCatalogueAccess({ labs: [], isCurator: false });
         setSelectedCore(null);
         setInitialDataLoaded(false);
     }
@@ -236,7 +242,8 @@ const App: React.FC = () => {
   
   const handleAddFossil = async (newFossil: Microfossil) => {
     try {
-        const savedFossil = await coreService.addFossil(newFossil);
+        if (!session) return;
+        const savedFossil = await coreService.addFossil(newFossil, session.user.id);
         setMicrofossils(prev => [...prev, savedFossil]);
         setIsAddFossilModalOpen(false);
         setFossilToCreate(null);
@@ -335,6 +342,21 @@ const App: React.FC = () => {
     setIsCoreModalOpen(true);
   }
   
+  // Joining or leaving a lab changes which catalogue entries are visible.
+  const refreshCatalogues = async () => {
+    if (!session) return;
+    const access = await coreService.fetchCatalogueAccess(session.user.id);
+    const { microfossils } = await coreService.fetchMicrofossils(session.user.id, access.labs.map(lab => lab.id));
+    setCatalogueAccess(access);
+    setMicrofossils(microfossils);
+  };
+
+  const handleFossilUpdated = (updatedFossil: Microfossil) => {
+    setMicrofossils(prev => prev.some(f => f.id === updatedFossil.id)
+        ? prev.map(f => f.id === updatedFossil.id ? updatedFossil : f)
+        : [...prev, updatedFossil]);
+  };
+
   const handleOpenAddFossilModal = (data: Partial<Microfossil> | null = null) => {
     setFossilToCreate(data);
     setIsAddFossilModalOpen(true);
@@ -427,6 +449,9 @@ const App: React.FC = () => {
                             <h1 className="text-2xl font-bold tracking-tight">PaleoCore</h1>
                         </div>
                         <div className="flex items-center">
+                            <button onClick={() => setIsCatalogueModalOpen(true)} className="p-2 rounded-md text-content-muted hover:bg-background-tertiary hover:text-accent-primary-hover transition-colors" title="Fossil Catalogues">
+                                <Library size={20}/>
+                            </button>
                             <button onClick={() => setIsAccountModalOpen(true)} className="p-2 rounded-md text-content-muted hover:bg-background-tertiary hover:text-accent-primary-hover transition-colors" title="Account Settings">
                                 <Settings size={20}/>
                             </button>
@@ -495,6 +520,9 @@ const App: React.FC = () => {
             </div>
              {isSidebarCollapsed && (
                 <>
+                    <button onClick={() => setIsCatalogueModalOpen(true)} className="w-full flex items-center justify-center p-2 rounded-md text-content-muted hover:bg-background-tertiary hover:text-accent-primary-hover transition-colors" title="Fossil Catalogues">
+                        <Library size={20}/>
+                    </button>
                     <button onClick={() => setIsAccountModalOpen(true)} className="w-full flex items-center justify-center p-2 rounded-md text-content-muted hover:bg-background-tertiary hover:text-accent-primary-hover transition-colors" title="Account Settings">
                         <Settings size={20}/>
                     </button>
@@ -515,10 +543,12 @@ const App: React.FC = () => {
                 core={selectedCore}
                 microfossils={microfossils}
                 onEditCore={handleOpenEditCoreModal}
+                onSaveCore={handleSaveCore}
                 onDeleteCore={handleDeleteCore}
                 onGoToMap={handleGoToMap}
                 setToast={setToast}
                 onAddFossil={handleOpenAddFossilModal}
+                userId={session.user.id}
                 userEmail={session.user.email!}
                 onOpenNearbyCores={handleOpenNearbyCoresModal}
               />
@@ -541,7 +571,7 @@ const App: React.FC = () => {
         )}
         {sidebarView === 'imageAnalysis' && (
             <div className="h-full overflow-y-auto">
-                <ImageAnalysisView onAddFossil={handleOpenAddFossilModal} />
+                <ImageAnalysisView onAddFossil={handleOpenAddFossilModal} microfossils={microfossils} />
             </div>
         )}
       </main>
@@ -565,6 +595,20 @@ const App: React.FC = () => {
                    setFossilToCreate(null);
                }}
                fossilToCreate={fossilToCreate}
+               microfossils={microfossils}
+               labs={catalogueAccess.labs}
+               userId={session?.user.id}
+           />
+       )}
+
+       {isCatalogueModalOpen && session && (
+           <FossilCatalogueModal
+               onClose={() => setIsCatalogueModalOpen(false)}
+               userId={session.user.id}
+               microfossils={microfossils}
+               access={catalogueAccess}
+               onAccessChanged={refreshCatalogues}
+               onFossilUpdated={handleFossilUpdated}
            />
        )}
 
@@ -0,0 +1,178 @@
+import React, { useState, useMemo, useEffect } from 'react';
+import type { Section, TiePoint, AccumulationRateSettings } from '../types';
+import { LineChart, Line, XAxis, YAxis, CartesianGrid, Tooltip, ResponsiveContainer } from 'recharts';
+import { calculateAccumulationRates, accumulationColumnOptions, depthWeightedMean, intervalSteps, sampleSteps, componentMarColumn, LSR_COLUMN, BULK_MAR_COLUMN } from '../services/accumulationRateService';
+import { PROXY_LABELS } from '../constants';
+import { Gauge, AlertTriangle } from 'lucide-react';
+
+interface AccumulationRatePanelProps {
+  sections: Section[];
+  tiePoints: TiePoint[];
+  settings: AccumulationRateSettings;
+  onSettingsChange: (settings: AccumulationRateSettings) => void;
+}
+
+const COLORS = ['#8884d8', '#82ca9d', '#ffc658', '#ff8042', '#00C49F', '#FFBB28'];
+const CHART_HEIGHT = 360;
+
+const AccumulationRatePanel: React.FC<AccumulationRatePanelProps> = ({ sections, tiePoints, settings, onSettingsChange }) => {
+  const [sectionId, setSectionId] = useState(sections[0]?.id ?? '');
+
+  useEffect(() => {
+    if (!sections.some(s => s.id === sectionId)) setSectionId(sections[0]?.id ?? '');
+  }, [sections, sectionId]);
+
+  const columns = useMemo(() => accumulationColumnOptions(sections), [sections]);
+  const section = sections.find(s => s.id === sectionId);
+  const result = useMemo(
+    () => section ? calculateAccumulationRates([section], tiePoints, settings)[0] : null,
+    [section, tiePoints, settings]
+  );
+
+  const ageDepth = useMemo(() => {
+    if (!section) return [];
+    return settings.source === 'tiePoints'
+      ? tiePoints.filter(tp => tp.sectionId === section.id).map(tp => ({ depth: tp.depth, age: tp.age })).sort((a, b) => a.depth - b.depth)
+      : section.dataPoints
+          .filter(dp => typeof dp.depth === 'number' && typeof dp.age === 'number')
+          .map(dp => ({ depth: dp.depth as number, age: dp.age as number }))
+          .sort((a, b) => a.depth - b.depth);
+  }, [section, tiePoints, settings.source]);
+
+  const marColumns = [BULK_MAR_COLUMN, ...settings.componentColumns.map(componentMarColumn)];
+  const marLabel = (column: string) => column === BULK_MAR_COLUMN
+    ? 'Bulk'
+    : PROXY_LABELS[column.replace(/MAR$/, '')]?.replace(/\s*\(.*\)$/, '') || column.replace(/MAR$/, '');
+
+  const depthDomain = useMemo((): [number, number] => {
+    const depths = [...ageDepth.map(p => p.depth), ...(result?.intervals.flatMap(iv => [iv.topDepth, iv.bottomDepth]) ?? [])];
+    return depths.length > 0 ? [Math.min(...depths), Math.max(...depths)] : [0, 1];
+  }, [ageDepth, result]);
+
+  const reversals = result?.intervals.filter(iv => iv.rate === null).length ?? 0;
+  const hasMar = !!result?.samples.some(s => typeof s[BULK_MAR_COLUMN] === 'number');
+
+  const toggleComponent = (column: string) => {
+    onSettingsChange({
+      ...settings,
+      componentColumns: settings.componentColumns.includes(column)
+        ? settings.componentColumns.filter(c => c !== column)
+        : [...settings.componentColumns, column],
+    });
+  };
+
+  const inputClass = "bg-background-interactive border border-border-secondary rounded-md p-1.5 text-xs";
+  const depthAxis = (
+    <YAxis
+      type="number"
+      dataKey="depth"
+      domain={depthDomain}
+      reversed
+      tick={{ fontSize: 11, fill: 'var(--recharts-axis-stroke)' }}
+      label={{ value: PROXY_LABELS.depth, angle: -90, position: 'insideLeft', fontSize: 12 }}
+    />
+  );
+  const tooltip = <Tooltip formatter={(value: any) => typeof value === 'number' ? value.toFixed(3) : value} labelFormatter={(label) => `${Number(label).toFixed(1)} cm`} />;
+
+  return (
+    <div className="mt-6 p-4 bg-background-primary/30 rounded-xl border border-border-primary/50">
+      <div className="flex items-center justify-between flex-wrap gap-3 mb-3">
+        <h3 className="text-lg font-semibold text-content-primary flex items-center gap-2"><Gauge size={20} className="text-accent-primary"/> Sedimentation & Accumulation Rates</h3>
+        <div className="flex items-center gap-2 flex-wrap">
+          <select value={sectionId} onChange={e => setSectionId(e.target.value)} className={inputClass}>
+            {sections.map(s => <option key={s.id} value={s.id}>{s.name}</option>)}
+          </select>
+          <select value={settings.source} onChange={e => onSettingsChange({ ...settings, source: e.target.value as AccumulationRateSettings['source'] })} className={inputClass} title="Age control the rate intervals are taken from">
+            <option value="ages">Between dated samples</option>
+            <option value="tiePoints">Between tie-points</option>
+          </select>
+          <label className="text-xs text-content-muted flex items-center gap-2">
+            Dry bulk density
+            <select value={settings.densityColumn} onChange={e => onSettingsChange({ ...settings, densityColumn: e.target.value })} className={inputClass}>
+              <option value="">None</option>
+              {columns.map(c => <option key={c} value={c}>{PROXY_LABELS[c] || c}</option>)}
+            </select>
+          </label>
+        </div>
+      </div>
+      {settings.densityColumn && (
+        <div className="flex items-center gap-2 flex-wrap mb-3 text-xs">
+          <span className="text-content-muted">Components (wt%):</span>
+          {columns.filter(c => c !== settings.densityColumn).map(c => (
+            <button
+              key={c}
+              onClick={() => toggleComponent(c)}
+              className={`px-2 py-1 rounded-md transition-colors ${settings.componentColumns.includes(c) ? 'bg-accent-primary/20 text-accent-primary-hover' : 'bg-background-interactive text-content-muted hover:bg-background-interactive-hover'}`}
+            >
+              {PROXY_LABELS[c] || c}
+            </button>
+          ))}
+        </div>
+      )}
+
+      {!result || result.intervals.length === 0 ? (
+        <p className="text-xs text-center text-content-muted py-8">
+          {settings.source === 'tiePoints' ? 'This section needs at least two tie-points.' : 'Generate an age model to date this section first.'}
+        </p>
+      ) : (
+        <>
+          <div className="grid grid-cols-1 md:grid-cols-3 gap-2">
+            <div style={{ height: CHART_HEIGHT }}>
+              <ResponsiveContainer>
+                <LineChart layout="vertical" data={ageDepth} margin={{ top: 5, right: 10, left: 10, bottom: 20 }}>
+                  <CartesianGrid strokeDasharray="3 3" />
+                  <XAxis type="number" dataKey="age" domain={['auto', 'auto']} tick={{ fontSize: 11, fill: 'var(--recharts-axis-stroke)' }} label={{ value: PROXY_LABELS.age, position: 'insideBottom', offset: -12, fontSize: 12 }} />
+                  {depthAxis}
+                  {tooltip}
+                  <Line dataKey="age" name="Age (ka)" stroke="var(--accent-primary)" dot={settings.source === 'tiePoints'} isAnimationActive={false} />
+                </LineChart>
+              </ResponsiveContainer>
+            </div>
+            <div style={{ height: CHART_HEIGHT }}>
+              <ResponsiveContainer>
+                <LineChart layout="vertical" data={intervalSteps(result.intervals)} margin={{ top: 5, right: 10, left: 10, bottom: 20 }}>
+                  <CartesianGrid strokeDasharray="3 3" />
+                  <XAxis type="number" dataKey="value" domain={[0, 'auto']} tick={{ fontSize: 11, fill: 'var(--recharts-axis-stroke)' }} label={{ value: PROXY_LABELS[LSR_COLUMN], position: 'insideBottom', offset: -12, fontSize: 12 }} />
+                  {depthAxis}
+                  {tooltip}
+                  <Line dataKey="value" name="LSR (cm/kyr)" stroke={COLORS[0]} strokeWidth={2} dot={false} isAnimationActive={false} />
+                </LineChart>
+              </ResponsiveContainer>
+            </div>
+            <div style={{ height: CHART_HEIGHT }}>
+              {hasMar ? (
+                <ResponsiveContainer>
+                  <LineChart layout="vertical" margin={{ top: 5, right: 10, left: 10, bottom: 20 }}>
+                    <CartesianGrid strokeDasharray="3 3" />
+                    <XAxis type="number" dataKey="value" domain={[0, 'auto']} tick={{ fontSize: 11, fill: 'var(--recharts-axis-stroke)' }} label={{ value: PROXY_LABELS[BULK_MAR_COLUMN], position: 'insideBottom', offset: -12, fontSize: 12 }} />
+                    {depthAxis}
+                    {tooltip}
+                    {marColumns.map((column, index) => (
+                      <Line key={column} data={sampleSteps(result.samples, column)} dataKey="value" name={marLabel(column)} stroke={COLORS[(index + 1) % COLORS.length]} strokeWidth={index === 0 ? 2 : 1.5} dot={false} isAnimationActive={false} />
+                    ))}
+                  </LineChart>
+                </ResponsiveContainer>
+              ) : (
+                <div className="flex items-center justify-center h-full text-xs text-content-muted text-center px-4">
+                  Select a dry bulk density column to compute mass accumulation rates.
+                </div>
+              )}
+            </div>
+          </div>
+
+          <div className="flex items-center gap-4 flex-wrap mt-3 text-xs text-content-secondary">
+            <span>Mean LSR: <span className="font-semibold text-content-primary">{depthWeightedMean(result.samples, LSR_COLUMN)?.toFixed(2) ?? '—'} cm/kyr</span></span>
+            {hasMar && marColumns.map(column => (
+              <span key={column}>{marLabel(column)} MAR: <span className="font-semibold text-content-primary">{depthWeightedMean(result.samples, column)?.toFixed(3) ?? '—'} g/cm²/kyr</span></span>
+            ))}
+            {reversals > 0 && (
+              <span className="flex items-center gap-1 text-danger-primary"><AlertTriangle size={14} /> {reversals} interval(s) with an age reversal have no rate.</span>
+            )}
+          </div>
+        </>
+      )}
+    </div>
+  );
+};
+
+export default AccumulationRatePanel;
@@ -1,8 +1,11 @@
 
 import React, { useState, useEffect } from 'react';
-import type { Core, Section, Microfossil, SectionFossilRecord, Folder, PartialMicrofossil, FossilAbundance, FossilPreservation } from '../types';
+import type { Core, Section, Microfossil, SectionFossilRecord, Folder, PartialMicrofossil, FossilAbundance, FossilPreservation, PolarityZone, MagneticPolarity } from '../types';
 import { X, Save, Plus, Trash2 } from 'lucide-react';
 import AddFossilModal from './AddFossilModal';
+import CatalogueBadge from './CatalogueBadge';
+import { groupByCatalogue } from '../services/fossilCatalogueService';
+import { validatePolarityRecord } from '../services/magnetostratigraphyService';
 
 interface AddCoreModalProps {
     mode: 'core' | 'section';
@@ -39,6 +42,35 @@ const InputField = ({ id, label, type, value, onChange, required = false, step,
     </div>
 );
 
+// Polarity zones are edited as text so partially typed numbers survive re-renders.
+interface PolarityZoneDraft {
+    topDepth: string;
+    bottomDepth: string;
+    polarity: MagneticPolarity;
+    inclination: string;
+    confidence: PolarityZone['confidence'];
+}
+
+const zoneToDraft = (zone: PolarityZone): PolarityZoneDraft => ({
+    topDepth: zone.topDepth.toString(),
+    bottomDepth: zone.bottomDepth.toString(),
+    polarity: zone.polarity,
+    inclination: zone.inclination?.toString() ?? '',
+    confidence: zone.confidence,
+});
+
+const draftsToZones = (drafts: PolarityZoneDraft[]): PolarityZone[] =>
+    drafts
+        .filter(d => d.topDepth !== '' && d.bottomDepth !== '')
+        .map(d => ({
+            topDepth: parseFloat(d.topDepth),
+            bottomDepth: parseFloat(d.bottomDepth),
+            polarity: d.polarity,
+            ...(d.inclination !== '' && { inclination: parseFloat(d.inclination) }),
+            confidence: d.confidence,
+        }))
+        .sort((a, b) => a.topDepth - b.topDepth);
+
 const SelectField = ({ id, label, value, onChange, children, required = false, disabled = false }: {id: string, label: string, value: string, onChange: (e: React.ChangeEvent<HTMLSelectElement>) => void, children: React.ReactNode, required?: boolean, disabled?: boolean}) => {
     const selectIcon = `url("data:image/svg+xml,%3csvg xmlns='http://www.w3.org/2000/svg' fill='none' viewBox='0 0 20 20'%3e%3cpath stroke='var(--text-muted)' stroke-linecap='round' stroke-linejoin='round' stroke-width='1.5' d='M6 8l4 4 4-4'/%3e%3c/svg%3e")`;
     return (
@@ -73,6 +105,8 @@ const AddCoreModal: React.FC<AddCoreModalProps> = (props) => {
     const [waterDepth, setWaterDepth] = useState('');
     const [project, setProject] = useState('');
     const [folderId, setFolderId] = useState<string>('');
+    const [deltaR, setDeltaR] = useState('');
+    const [deltaRError, setDeltaRError] = useState('');
     
     // Section state
     const [sectionId, setSectionId] = useState('');
@@ -90,6 +124,7 @@ const AddCoreModal: React.FC<AddCoreModalProps> = (props) => {
     const [grainSize, setGrainSize] = useState('');
     const [tephraLayers, setTephraLayers] = useState('');
     const [paleomagneticReversals, setPaleomagneticReversals] = useState('');
+    const [polarityDrafts, setPolarityDrafts] = useState<PolarityZoneDraft[]>([]);
     const [sectionDepth, setSectionDepth] = useState('');
     const [sampleInterval, setSampleInterval] = useState('');
     const [collectionTime, setCollectionTime] = useState('');
@@ -106,6 +141,8 @@ const AddCoreModal: React.FC<AddCoreModalProps> = (props) => {
             setWaterDepth(c?.waterDepth.toString() || '');
             setProject(c?.project || '');
             setFolderId(c?.folder_id || '');
+            setDeltaR(c?.reservoirCorrection?.deltaR.toString() || '');
+            setDeltaRError(c?.reservoirCorrection?.deltaRError.toString() || '');
         } else { // section mode
             const s = props.sectionToEdit;
             setSectionId(s?.id || '');
@@ -122,6 +159,7 @@ const AddCoreModal: React.FC<AddCoreModalProps> = (props) => {
             setGrainSize(s?.grainSize || '');
             setTephraLayers(s?.tephraLayers || '');
             setPaleomagneticReversals(s?.paleomagneticReversals || '');
+            setPolarityDrafts((s?.polarityRecord || []).map(zoneToDraft));
             setSectionDepth(s?.sectionDepth?.toString() || '');
             setSampleInterval(s?.sampleInterval?.toString() || '');
             setCollectionTime(s?.collectionTime || '');
@@ -130,7 +168,8 @@ const AddCoreModal: React.FC<AddCoreModalProps> = (props) => {
 
 
     const isCoreFormValid = coreId && coreName && lat && lon && waterDepth;
-    const isSectionFormValid = sectionName && recoveryDate && ageRange;
+    const polarityError = isCoreMode ? null : validatePolarityRecord(draftsToZones(polarityDrafts));
+    const isSectionFormValid = sectionName && recoveryDate && ageRange && !polarityError;
     const isFormValid = isCoreMode ? isCoreFormValid : isSectionFormValid;
 
     const handleAddRecord = () => {
@@ -155,6 +194,21 @@ const AddCoreModal: React.FC<AddCoreModalProps> = (props) => {
         ));
     };
     
+    const handleAddPolarityZone = () => {
+        const last = polarityDrafts[polarityDrafts.length - 1];
+        setPolarityDrafts(prev => [...prev, {
+            topDepth: last?.bottomDepth ?? '',
+            bottomDepth: '',
+            polarity: last?.polarity === 'normal' ? 'reversed' : 'normal',
+            inclination: '',
+            confidence: 'high',
+        }]);
+    };
+
+    const handlePolarityZoneChange = (index: number, field: keyof PolarityZoneDraft, value: string) => {
+        setPolarityDrafts(prev => prev.map((d, i) => i === index ? { ...d, [field]: value } : d));
+    };
+
     const handleSubmit = async (e: React.FormEvent) => {
         e.preventDefault();
         if (!isFormValid) return;
@@ -166,6 +220,8 @@ const AddCoreModal: React.FC<AddCoreModalProps> = (props) => {
                 location: { lat: parseFloat(lat), lon: parseFloat(lon) },
                 waterDepth: parseInt(waterDepth, 10),
                 project,
+                reservoirCorrection: deltaR ? { deltaR: parseFloat(deltaR), deltaRError: deltaRError ? Math.abs(parseFloat(deltaRError)) : 0 } : undefined,
+                compositeDepth: props.coreToEdit?.compositeDepth,
                 folder_id: folderId || undefined,
             };
             props.onSaveCore(coreData);
@@ -187,6 +243,14 @@ const AddCoreModal: React.FC<AddCoreModalProps> = (props) => {
                 summary: isEditMode && props.sectionToEdit ? props.sectionToEdit.summary : '',
                 sectionImage: sectionImage || `data:image/svg+xml,${encodeURIComponent(`<svg width="800" height="100" xmlns="http://www.w3.org/2000/svg"><rect width="800" height="100" fill="#1e293b" /><text x="50%" y="50%" dominant-baseline="middle" text-anchor="middle" font-family="sans-serif" font-size="24" fill="#94a3b8">${sectionName}</text></svg>`)}`,
                 collector, lithology, munsellColor, grainSize, tephraLayers, paleomagneticReversals,
+                polarityRecord: polarityDrafts.length > 0 ? draftsToZones(polarityDrafts) : undefined,
+                sstCalibrations: isEditMode && props.sectionToEdit ? props.sectionToEdit.sstCalibrations : undefined,
+                seawaterD18O: isEditMode && props.sectionToEdit ? props.sectionToEdit.seawaterD18O : undefined,
+                tephraRecord: isEditMode && props.sectionToEdit ? props.sectionToEdit.tephraRecord : undefined,
+                censusSamples: isEditMode && props.sectionToEdit ? props.sectionToEdit.censusSamples : undefined,
+                assemblageZones: isEditMode && props.sectionToEdit ? props.sectionToEdit.assemblageZones : undefined,
+                transferFunction: isEditMode && props.sectionToEdit ? props.sectionToEdit.transferFunction : undefined,
+                ratioProxies: isEditMode && props.sectionToEdit ? props.sectionToEdit.ratioProxies : undefined,
             };
             props.onSaveSection(sectionData);
         }
@@ -235,6 +299,10 @@ const AddCoreModal: React.FC<AddCoreModalProps> = (props) => {
                 <InputField id="lon" label="Longitude" type="number" value={lon} onChange={e => setLon(e.target.value)} required step="0.01"/>
                 <InputField id="waterDepth" label="Water Depth (m)" type="number" value={waterDepth} onChange={e => setWaterDepth(e.target.value)} required />
             </div>
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                <InputField id="deltaR" label="Marine Reservoir ΔR (¹⁴C yr)" type="number" value={deltaR} onChange={e => setDeltaR(e.target.value)} placeholder="e.g., 50 (relative to Marine20)"/>
+                <InputField id="deltaRError" label="ΔR Uncertainty (± ¹⁴C yr)" type="number" value={deltaRError} onChange={e => setDeltaRError(e.target.value)} placeholder="e.g., 30"/>
+            </div>
         </div>
       </>
     );
@@ -282,9 +350,49 @@ const AddCoreModal: React.FC<AddCoreModalProps> = (props) => {
                      <InputField id="lithology" label="Lithology" type="text" value={lithology} onChange={e => setLithology(e.target.value)} placeholder="e.g., Calcareous Ooze"/>
                      <InputField id="munsellColor" label="Munsell Color" type="text" value={munsellColor} onChange={e => setMunsellColor(e.target.value)} placeholder="e.g., 10YR 4/10"/>
                      <InputField id="grainSize" label="Grain Size" type="text" value={grainSize} onChange={e => setGrainSize(e.target.value)} placeholder="e.g., 63-125 Microns"/>
-                     <InputField id="tephraLayers" label="Tephra Layers" type="text" value={tephraLayers} onChange={e => setTephraLayers(e.target.value)} placeholder="e.g., L1 @ 50; L2 @ 120"/>
-                     <InputField id="paleomagneticReversals" label="Paleomagnetic Reversals" type="text" value={paleomagneticReversals} onChange={e => setPaleomagneticReversals(e.target.value)} placeholder="e.g., 0.01"/>
+                     <InputField id="tephraLayers" label="Tephra Notes" type="text" value={tephraLayers} onChange={e => setTephraLayers(e.target.value)} placeholder="e.g., cryptotephra search 0-300 cm"/>
+                     <InputField id="paleomagneticReversals" label="Paleomagnetic Notes" type="text" value={paleomagneticReversals} onChange={e => setPaleomagneticReversals(e.target.value)} placeholder="e.g., AF demagnetised to 20 mT"/>
+                </div>
+            </div>
+
+            <div className="p-4 bg-background-secondary/40 rounded-lg border border-border-primary space-y-3">
+                <div className="flex justify-between items-center">
+                     <h3 className="text-md font-semibold text-content-secondary">Polarity Record</h3>
+                     <button type="button" onClick={handleAddPolarityZone} className="flex items-center gap-1 text-xs text-accent-primary hover:text-accent-primary-hover transition-colors font-semibold">
+                         <Plus size={14}/>
+                         Add Zone
+                     </button>
                 </div>
+                {polarityDrafts.length > 0 ? (
+                    <div className="space-y-2">
+                        <div className="grid grid-cols-6 gap-2 text-xs text-content-muted">
+                            <span>Top (cmbsf)</span><span>Bottom (cmbsf)</span><span>Polarity</span><span>Inclination (°)</span><span>Confidence</span><span />
+                        </div>
+                        {polarityDrafts.map((draft, index) => (
+                            <div key={index} className="grid grid-cols-6 gap-2 items-center">
+                                <input type="number" value={draft.topDepth} onChange={e => handlePolarityZoneChange(index, 'topDepth', e.target.value)} className="bg-background-interactive border border-border-secondary rounded-lg p-1.5 text-sm text-content-primary" />
+                                <input type="number" value={draft.bottomDepth} onChange={e => handlePolarityZoneChange(index, 'bottomDepth', e.target.value)} className="bg-background-interactive border border-border-secondary rounded-lg p-1.5 text-sm text-content-primary" />
+                                <select value={draft.polarity} onChange={e => handlePolarityZoneChange(index, 'polarity', e.target.value)} className="bg-background-interactive border border-border-secondary rounded-lg p-1.5 text-sm text-content-primary">
+                                    <option value="normal">Normal</option>
+                                    <option value="reversed">Reversed</option>
+                                    <option value="uncertain">Uncertain</option>
+                                </select>
+                                <input type="number" min={-90} max={90} value={draft.inclination} onChange={e => handlePolarityZoneChange(index, 'inclination', e.target.value)} placeholder="optional" className="bg-background-interactive border border-border-secondary rounded-lg p-1.5 text-sm text-content-primary placeholder-content-muted" />
+                                <select value={draft.confidence} onChange={e => handlePolarityZoneChange(index, 'confidence', e.target.value)} className="bg-background-interactive border border-border-secondary rounded-lg p-1.5 text-sm text-content-primary">
+                                    <option value="high">High</option>
+                                    <option value="medium">Medium</option>
+                                    <option value="low">Low</option>
+                                </select>
+                                <button type="button" onClick={() => setPolarityDrafts(prev => prev.filter((_, i) => i !== index))} className="p-1 justify-self-start text-content-muted hover:text-danger-primary transition">
+                                    <Trash2 size={16} />
+                                </button>
+                            </div>
+                        ))}
+                        {polarityError && <p className="text-xs text-danger-primary">{polarityError}</p>}
+                    </div>
+                ) : (
+                    <p className="text-center text-content-muted text-sm py-2">No polarity zones. Add normal and reversed intervals to match them against the GPTS.</p>
+                )}
             </div>
 
             <div className="p-4 bg-background-secondary/40 rounded-lg border border-border-primary space-y-4">
@@ -300,8 +408,12 @@ const AddCoreModal: React.FC<AddCoreModalProps> = (props) => {
                         <label htmlFor="fossil-select" className="block text-sm font-medium text-content-secondary mb-1">Add Fossil Record</label>
                          <SelectField id="fossil-select" label="" value={fossilToAdd} onChange={(e) => setFossilToAdd(e.target.value)} disabled={availableFossils.length === 0}>
                             <option value="">{availableFossils.length > 0 ? 'Select a species...' : 'All species added'}</option>
-                            {availableFossils.map(fossil => (
-                                <option key={fossil.id} value={fossil.id} className="italic">{fossil.taxonomy.genus} {fossil.taxonomy.species}</option>
+                            {groupByCatalogue(availableFossils).map(group => (
+                                <optgroup key={group.key} label={group.label}>
+                                    {group.fossils.map(fossil => (
+                                        <option key={fossil.id} value={fossil.id} className="italic">{fossil.taxonomy.genus} {fossil.taxonomy.species}</option>
+                                    ))}
+                                </optgroup>
                             ))}
                         </SelectField>
                     </div>
@@ -316,7 +428,10 @@ const AddCoreModal: React.FC<AddCoreModalProps> = (props) => {
                         return (
                             <div key={record.fossilId} className="bg-background-tertiary/60 p-3 rounded-lg border border-border-primary animate-fade-in-fast">
                                 <div className="flex justify-between items-center mb-3">
-                                    <h4 className="font-semibold text-content-primary italic">{fossil.taxonomy.genus} {fossil.taxonomy.species}</h4>
+                                    <div className="flex items-center gap-2 flex-wrap">
+                                        <h4 className="font-semibold text-content-primary italic">{fossil.taxonomy.genus} {fossil.taxonomy.species}</h4>
+                                        <CatalogueBadge fossil={fossil} />
+                                    </div>
                                     <button type="button" onClick={() => handleRemoveRecord(record.fossilId)} className="p-1 text-content-muted hover:text-danger-primary transition">
                                         <Trash2 size={16} />
                                     </button>
@@ -401,6 +516,7 @@ const AddCoreModal: React.FC<AddCoreModalProps> = (props) => {
                  <AddFossilModal 
                     onAddFossil={handleSaveNewFossil} 
                     onClose={() => setIsAddFossilModalOpen(false)}
+                    microfossils={props.microfossils}
                  />
              )}
              <style>{`
@@ -1,17 +1,25 @@
 
 
 
-import React, { useState, useEffect } from 'react';
-import type { Microfossil, Taxonomy, PartialMicrofossil } from '../types';
-import { X, Save, BookOpen, Microscope, Thermometer, Image } from 'lucide-react';
+import React, { useState, useEffect, useMemo, useRef } from 'react';
+import type { Microfossil, Taxonomy, PartialMicrofossil, Lab } from '../types';
+import {
+    getAuthoritySnapshot, storeAuthoritySnapshot, clearAuthoritySnapshot, importAuthorityFile, resolveTaxonName, authorityFromMatch,
+    acceptedTaxonomy, findCatalogueDuplicates, describeDuplicate, taxonomyName, type AuthoritySnapshot,
+} from '../services/taxonomicAuthorityService';
+import { isCodeTaken } from '../services/fossilCatalogueService';
+import { X, Save, BookOpen, Microscope, Thermometer, Image, Library, FileUp, Trash2, Loader2, AlertTriangle } from 'lucide-react';
 
 interface AddFossilModalProps {
     onAddFossil: (fossil: Microfossil) => void;
     onClose: () => void;
     fossilToCreate?: Partial<Microfossil> | null;
+    microfossils?: Microfossil[];
+    labs?: Lab[];
+    userId?: string;
 }
 
-const initialFossilState: Omit<Microfossil, 'id' | 'taxonomy'> & { taxonomy: Taxonomy } = {
+const initialFossilState: Omit<Microfossil, 'id' | 'code' | 'taxonomy'> & { taxonomy: Taxonomy } = {
     taxonomy: {
         kingdom: 'Rhizaria',
         phylum: 'Foraminifera',
@@ -56,9 +64,18 @@ const SubInputField = ({ id, label, value, onChange, name, required = false }: {
     </div>
 );
 
-const AddFossilModal: React.FC<AddFossilModalProps> = ({ onAddFossil, onClose, fossilToCreate }) => {
+const suggestedFossilCode = (genus: string, species: string) => `${genus.charAt(0).toUpperCase()}_${species.toLowerCase()}`;
+
+const AddFossilModal: React.FC<AddFossilModalProps> = ({ onAddFossil, onClose, fossilToCreate, microfossils = [], labs = [], userId }) => {
     const [formData, setFormData] = useState(initialFossilState);
-    const [fossilId, setFossilId] = useState('');
+    const [fossilCode, setFossilCode] = useState('');
+    const [snapshot, setSnapshot] = useState<AuthoritySnapshot | null>(() => getAuthoritySnapshot());
+    const [isImporting, setIsImporting] = useState(false);
+    const [authorityError, setAuthorityError] = useState('');
+    const [confirmDuplicate, setConfirmDuplicate] = useState(false);
+    const [catalogueTarget, setCatalogueTarget] = useState('personal'); // 'personal' or a lab id
+    const [submitForCuration, setSubmitForCuration] = useState(false);
+    const authorityInputRef = useRef<HTMLInputElement>(null);
 
     useEffect(() => {
         if (fossilToCreate) {
@@ -76,15 +93,60 @@ const AddFossilModal: React.FC<AddFossilModalProps> = ({ onAddFossil, onClose, f
                 },
                 imageUrl: fossilToCreate.imageUrl || prev.imageUrl,
             }));
-            if (fossilToCreate.taxonomy?.genus && fossilToCreate.taxonomy?.species) {
-                const genus = fossilToCreate.taxonomy.genus.charAt(0).toUpperCase();
-                const species = fossilToCreate.taxonomy.species.toLowerCase();
-                setFossilId(`${genus}_${species}`);
+            if (fossilToCreate.code) {
+                setFossilCode(fossilToCreate.code);
+            } else if (fossilToCreate.taxonomy?.genus && fossilToCreate.taxonomy?.species) {
+                setFossilCode(suggestedFossilCode(fossilToCreate.taxonomy.genus, fossilToCreate.taxonomy.species));
             }
         }
     }, [fossilToCreate]);
 
-    const isFormValid = fossilId.trim() !== '' && formData.taxonomy.genus.trim() !== '' && formData.taxonomy.species.trim() !== '';
+    const enteredName = taxonomyName(formData.taxonomy);
+    const match = useMemo(() => snapshot && formData.taxonomy.species.trim() ? resolveTaxonName(enteredName, snapshot) : null, [snapshot, enteredName, formData.taxonomy.species]);
+    const duplicates = useMemo(
+        () => findCatalogueDuplicates({ taxonomy: formData.taxonomy }, microfossils, snapshot),
+        [formData.taxonomy, microfossils, snapshot]
+    );
+    const target = catalogueTarget === 'personal'
+        ? { catalogue: 'personal' as const, labId: null }
+        : { catalogue: 'lab' as const, labId: catalogueTarget };
+    const codeTaken = fossilCode.trim() !== '' && isCodeTaken(fossilCode, target, microfossils, userId);
+
+    useEffect(() => setConfirmDuplicate(false), [duplicates.length]);
+
+    const isFormValid = fossilCode.trim() !== '' && formData.taxonomy.genus.trim() !== '' && formData.taxonomy.species.trim() !== ''
+        && !codeTaken && (duplicates.length === 0 || confirmDuplicate);
+
+    const handleAuthorityFile = async (e: React.ChangeEvent<HTMLInputElement>) => {
+        const file = e.target.files?.[0];
+        e.target.value = '';
+        if (!file) return;
+        setIsImporting(true);
+        try {
+            const imported = await importAuthorityFile(file);
+            storeAuthoritySnapshot(imported);
+            setSnapshot(imported);
+            setAuthorityError('');
+        } catch (err: any) {
+            setAuthorityError(err.message);
+        } finally {
+            setIsImporting(false);
+        }
+    };
+
+    const handleClearAuthority = () => {
+        clearAuthoritySnapshot();
+        setSnapshot(null);
+    };
+
+    const handleUseAcceptedName = () => {
+        if (!match) return;
+        const taxonomy = acceptedTaxonomy(formData.taxonomy, match.accepted);
+        if (fossilCode === '' || fossilCode === suggestedFossilCode(formData.taxonomy.genus, formData.taxonomy.species)) {
+            setFossilCode(suggestedFossilCode(taxonomy.genus, taxonomy.species));
+        }
+        setFormData(prev => ({ ...prev, taxonomy }));
+    };
 
     const handleTaxonomyChange = (e: React.ChangeEvent<HTMLInputElement>) => {
         setFormData(prev => ({ ...prev, taxonomy: { ...prev.taxonomy, [e.target.name]: e.target.value } }));
@@ -102,9 +164,18 @@ const AddFossilModal: React.FC<AddFossilModalProps> = ({ onAddFossil, onClose, f
         e.preventDefault();
         if (!isFormValid) return;
         
+        const authority = match && snapshot ? authorityFromMatch(match, snapshot, enteredName) : fossilToCreate?.authority;
         const newFossil: Microfossil = {
-            id: fossilId,
-            ...formData
+            // A section record may already point at the id handed in with the fossil to create.
+            id: fossilToCreate?.id ?? crypto.randomUUID(),
+            code: fossilCode.trim(),
+            ...formData,
+            ...(authority && { authority }),
+            ownership: {
+                ...target,
+                ownerId: null, // set to the signed-in user when saved
+                reviewStatus: submitForCuration ? 'pending' : 'none',
+            },
         };
 
         onAddFossil(newFossil);
@@ -118,17 +189,36 @@ const AddFossilModal: React.FC<AddFossilModalProps> = ({ onAddFossil, onClose, f
                     <button onClick={onClose} className="text-slate-400 hover:text-white transition-colors"><X size={24} /></button>
                 </div>
                 <form onSubmit={handleSubmit} className="space-y-6">
-                    <div>
-                        <label htmlFor="fossilId" className="block text-sm font-medium text-slate-300 mb-1">Unique Fossil ID* (e.g., G_sacculifer)</label>
-                        <input
-                            type="text"
-                            id="fossilId"
-                            value={fossilId}
-                            onChange={(e) => setFossilId(e.target.value)}
-                            required
-                            placeholder="A unique identifier"
-                            className="w-full bg-slate-700 border border-slate-600 rounded-lg p-2 text-slate-200 placeholder-slate-500 focus:ring-2 focus:ring-cyan-500 focus:outline-none transition"
-                        />
+                    <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                        <div>
+                            <label htmlFor="fossilCode" className="block text-sm font-medium text-slate-300 mb-1">Fossil Code* (e.g., G_sacculifer)</label>
+                            <input
+                                type="text"
+                                id="fossilCode"
+                                value={fossilCode}
+                                onChange={(e) => setFossilCode(e.target.value)}
+                                required
+                                placeholder="Unique within the chosen catalogue"
+                                className="w-full bg-slate-700 border border-slate-600 rounded-lg p-2 text-slate-200 placeholder-slate-500 focus:ring-2 focus:ring-cyan-500 focus:outline-none transition"
+                            />
+                            {codeTaken && <p className="text-xs text-red-400 mt-1">This catalogue already has an entry with this code.</p>}
+                        </div>
+                        <div>
+                            <label htmlFor="catalogue" className="block text-sm font-medium text-slate-300 mb-1">Catalogue</label>
+                            <select
+                                id="catalogue"
+                                value={catalogueTarget}
+                                onChange={(e) => setCatalogueTarget(e.target.value)}
+                                className="w-full bg-slate-700 border border-slate-600 rounded-lg p-2 text-slate-200 focus:ring-2 focus:ring-cyan-500 focus:outline-none transition"
+                            >
+                                <option value="personal">Personal (only you)</option>
+                                {labs.map(lab => <option key={lab.id} value={lab.id}>Lab · {lab.name}</option>)}
+                            </select>
+                            <label className="flex items-center gap-2 mt-2 text-xs text-slate-400">
+                                <input type="checkbox" checked={submitForCuration} onChange={(e) => setSubmitForCuration(e.target.checked)} />
+                                Submit to the curators for the shared curated catalogue
+                            </label>
+                        </div>
                     </div>
                     
                     <FormSection title="Taxonomy" icon={<BookOpen size={18}/>}>
@@ -147,6 +237,56 @@ const AddFossilModal: React.FC<AddFossilModalProps> = ({ onAddFossil, onClose, f
                         </div>
                     </FormSection>
 
+                    <FormSection title="Taxonomic Authority" icon={<Library size={18}/>}>
+                        <div className="flex items-center gap-2 flex-wrap text-xs">
+                            <button type="button" onClick={() => authorityInputRef.current?.click()} disabled={isImporting} className="flex items-center gap-1 px-3 py-1.5 rounded-md bg-slate-800 border border-slate-600 text-slate-200 hover:bg-slate-700 font-semibold disabled:opacity-50">
+                                {isImporting ? <Loader2 size={14} className="animate-spin" /> : <FileUp size={14} />} {snapshot ? 'Replace name list' : 'Import name list'}
+                            </button>
+                            <input type="file" accept=".csv,.txt,.tsv,.zip" ref={authorityInputRef} onChange={handleAuthorityFile} className="sr-only" />
+                            {snapshot ? (
+                                <>
+                                    <span className="text-slate-400">{snapshot.source}: {snapshot.fileName}, {snapshot.taxa.length} names</span>
+                                    <button type="button" onClick={handleClearAuthority} className="p-1 text-slate-400 hover:text-red-400" title="Forget the name list"><Trash2 size={12} /></button>
+                                </>
+                            ) : (
+                                <span className="text-slate-500">A WoRMS or Mikrotax CSV export, or a Darwin Core Archive (.zip), resolves synonyms to accepted names.</span>
+                            )}
+                        </div>
+                        {authorityError && <p className="text-xs text-red-400">{authorityError}</p>}
+                        {snapshot && formData.taxonomy.species.trim() !== '' && (
+                            match ? (
+                                <div className="text-sm text-slate-300 space-y-1">
+                                    <p>
+                                        Accepted name: <em>{match.accepted.name}</em> {match.accepted.authorship}
+                                        <span className="text-xs text-slate-500"> · {snapshot.source} {match.accepted.id}</span>
+                                    </p>
+                                    {match.isSynonym && (
+                                        <p className="flex items-center gap-2 text-amber-300 text-xs">
+                                            <AlertTriangle size={14} /> <em>{match.matched.name}</em> is a synonym.
+                                            <button type="button" onClick={handleUseAcceptedName} className="text-cyan-400 hover:underline font-semibold">Use the accepted name</button>
+                                        </p>
+                                    )}
+                                    {match.alternatives.length > 0 && (
+                                        <p className="text-xs text-slate-400">The abbreviated genus could also stand for: {match.alternatives.map(t => t.name).join(', ')}.</p>
+                                    )}
+                                </div>
+                            ) : (
+                                <p className="text-xs text-slate-400"><em>{enteredName}</em> is not in the imported name list.</p>
+                            )
+                        )}
+                    </FormSection>
+
+                    {duplicates.length > 0 && (
+                        <div className="p-3 rounded-lg bg-amber-500/10 border border-amber-500/40 text-sm text-amber-200 space-y-1">
+                            <p className="flex items-center gap-2 font-semibold"><AlertTriangle size={16} /> This species may already exist in the catalogue</p>
+                            {duplicates.map(d => <p key={d.fossil.id} className="text-xs">{describeDuplicate(d)}</p>)}
+                            <label className="flex items-center gap-2 text-xs text-slate-300">
+                                <input type="checkbox" checked={confirmDuplicate} onChange={e => setConfirmDuplicate(e.target.checked)} />
+                                It is a different taxon; save it anyway
+                            </label>
+                        </div>
+                    )}
+
                     <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
                         <FormSection title="Morphology & Stratigraphy" icon={<Microscope size={18}/>}>
                            <SubInputField id="stratigraphicRange" label="Stratigraphic Range" name="stratigraphicRange" value={formData.stratigraphicRange} onChange={handleMainChange} />
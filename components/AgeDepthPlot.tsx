@@ -0,0 +1,158 @@
+import React, { useState, useMemo, useEffect } from 'react';
+import type { Section, TiePoint } from '../types';
+import { ComposedChart, Line, Area, Scatter, ErrorBar, Cell, XAxis, YAxis, CartesianGrid, Tooltip, Legend, ReferenceLine, ResponsiveContainer } from 'recharts';
+import { checkTiePoints } from '../services/ageModelService';
+import { PROXY_LABELS } from '../constants';
+import { AlertTriangle, Save, Trash2, X } from 'lucide-react';
+
+interface AgeDepthPlotProps {
+  sections: Section[];
+  tiePoints: TiePoint[];
+  onTiePointsChange: (tiePoints: TiePoint[]) => void;
+  chartRef?: React.Ref<HTMLDivElement>;
+  actions?: React.ReactNode;
+}
+
+const AgeDepthPlot: React.FC<AgeDepthPlotProps> = ({ sections, tiePoints, onTiePointsChange, chartRef, actions }) => {
+  const [sectionId, setSectionId] = useState(sections[0]?.id ?? '');
+  const [maxRateRatio, setMaxRateRatio] = useState(5);
+  const [selectedId, setSelectedId] = useState<string | null>(null);
+  const [draft, setDraft] = useState({ depth: '', age: '', uncertainty: '' });
+
+  useEffect(() => {
+    if (!sections.some(s => s.id === sectionId)) setSectionId(sections[0]?.id ?? '');
+  }, [sections, sectionId]);
+
+  const section = sections.find(s => s.id === sectionId);
+  const sectionTiePoints = useMemo(
+    () => tiePoints.filter(tp => tp.sectionId === sectionId).sort((a, b) => a.depth - b.depth),
+    [tiePoints, sectionId]
+  );
+  const flags = useMemo(() => checkTiePoints(tiePoints, sectionId, { maxRateRatio }), [tiePoints, sectionId, maxRateRatio]);
+  const flaggedIds = new Set(flags.flatMap(f => f.tiePointIds));
+
+  const model = useMemo(() => (section?.dataPoints ?? [])
+    .filter(dp => typeof dp.depth === 'number' && typeof dp.age === 'number')
+    .map(dp => ({
+      depth: dp.depth as number,
+      age: dp.age as number,
+      ...(typeof dp.ageLower === 'number' && typeof dp.ageUpper === 'number' && { ageRange: [dp.ageLower, dp.ageUpper] }),
+    }))
+    .sort((a, b) => a.depth - b.depth), [section]);
+  const hasEnvelope = model.some(p => 'ageRange' in p);
+
+  const selected = sectionTiePoints.find(tp => tp.id === selectedId) ?? null;
+
+  useEffect(() => {
+    if (selected) {
+      setDraft({ depth: String(selected.depth), age: String(selected.age), uncertainty: selected.ageUncertainty !== undefined ? String(selected.ageUncertainty) : '' });
+    }
+  }, [selected]);
+
+  const handleSave = () => {
+    if (!selected) return;
+    const depth = parseFloat(draft.depth);
+    const age = parseFloat(draft.age);
+    if (isNaN(depth) || isNaN(age)) return;
+    const uncertainty = parseFloat(draft.uncertainty);
+    onTiePointsChange(tiePoints.map(tp => {
+      if (tp.id !== selected.id) return tp;
+      const { ageUncertainty: _previous, ...rest } = tp;
+      return { ...rest, depth, age, ...(!isNaN(uncertainty) && uncertainty > 0 && { ageUncertainty: uncertainty }) };
+    }));
+    setSelectedId(null);
+  };
+
+  const handleDelete = () => {
+    if (!selected) return;
+    onTiePointsChange(tiePoints.filter(tp => tp.id !== selected.id));
+    setSelectedId(null);
+  };
+
+  const scatterData = sectionTiePoints.map(tp => ({ id: tp.id, depth: tp.depth, age: tp.age, ageError: tp.ageUncertainty ?? 0, label: tp.label }));
+  const inputClass = "w-full bg-background-interactive border border-border-secondary rounded-md p-1.5 text-xs";
+
+  return (
+    <div className="mt-6 p-4 bg-background-primary/30 rounded-xl border border-border-primary/50">
+      <div className="flex items-center justify-between flex-wrap gap-3 mb-3">
+        <h3 className="text-lg font-semibold text-content-primary">Age–Depth Model</h3>
+        <div className="flex items-center gap-2 flex-wrap">
+          <select value={sectionId} onChange={e => { setSectionId(e.target.value); setSelectedId(null); }} className={`${inputClass} w-auto`}>
+            {sections.map(s => <option key={s.id} value={s.id}>{s.name}</option>)}
+          </select>
+          <label className="text-xs text-content-muted flex items-center gap-2" title="Flag neighbouring intervals whose sedimentation rates differ by more than this factor">
+            Flag rate jumps &gt;
+            <input type="number" min={1.5} step={0.5} value={maxRateRatio} onChange={e => setMaxRateRatio(Math.max(1.5, parseFloat(e.target.value) || 5))} className={`${inputClass} w-16`} />
+            ×
+          </label>
+          {actions}
+        </div>
+      </div>
+
+      <div ref={chartRef} style={{ width: '100%', height: 420 }}>
+        {sectionTiePoints.length === 0 && model.length === 0 ? (
+          <div className="flex items-center justify-center h-full text-xs text-content-muted">This section has no tie-points or ages yet.</div>
+        ) : (
+          <ResponsiveContainer>
+            <ComposedChart layout="vertical" margin={{ top: 5, right: 20, left: 10, bottom: 20 }}>
+              <CartesianGrid strokeDasharray="3 3" />
+              <XAxis type="number" dataKey="age" domain={['auto', 'auto']} tick={{ fontSize: 12, fill: 'var(--recharts-axis-stroke)' }} label={{ value: PROXY_LABELS.age, position: 'insideBottom', offset: -15, fontSize: 14 }} />
+              <YAxis type="number" dataKey="depth" domain={['auto', 'auto']} reversed tick={{ fontSize: 12, fill: 'var(--recharts-axis-stroke)' }} label={{ value: PROXY_LABELS.depth, angle: -90, position: 'insideLeft', fontSize: 14 }} />
+              <Tooltip
+                formatter={(value: any, name: string) => Array.isArray(value) ? `${value[0].toFixed(2)} – ${value[1].toFixed(2)}` : typeof value === 'number' ? value.toFixed(2) : value}
+                labelFormatter={(label) => `${Number(label).toFixed(1)} cm`}
+              />
+              <Legend wrapperStyle={{ paddingTop: '20px' }} />
+              {hasEnvelope && (
+                <Area data={model} dataKey="ageRange" name="95% range" stroke="none" fill="var(--accent-primary)" fillOpacity={0.15} isAnimationActive={false} />
+              )}
+              {model.length > 0 && (
+                <Line data={model} dataKey="age" name="Age model" stroke="var(--accent-primary)" strokeWidth={2} dot={false} isAnimationActive={false} />
+              )}
+              {flags.map((flag, i) => (
+                <ReferenceLine key={`flag-${i}`} y={flag.depth} stroke="var(--danger-primary)" strokeDasharray="4 3" ifOverflow="extendDomain" />
+              ))}
+              <Scatter data={scatterData} name="Tie-points" fill="var(--accent-secondary)" onClick={(point: any) => setSelectedId(point?.payload?.id ?? point?.id ?? null)} className="cursor-pointer" isAnimationActive={false}>
+                <ErrorBar dataKey="ageError" direction="x" width={4} stroke="var(--text-secondary)" />
+                {scatterData.map(tp => (
+                  <Cell key={tp.id} fill={flaggedIds.has(tp.id) ? 'var(--danger-primary)' : tp.id === selectedId ? 'var(--accent-primary)' : 'var(--accent-secondary)'} />
+                ))}
+              </Scatter>
+            </ComposedChart>
+          </ResponsiveContainer>
+        )}
+      </div>
+
+      {selected && (
+        <div className="mt-3 p-3 bg-background-tertiary/50 rounded-lg border border-border-primary/50">
+          <div className="flex items-center justify-between mb-2">
+            <p className="text-xs font-semibold text-content-primary">Edit tie-point{selected.label ? ` · ${selected.label}` : ''}</p>
+            <button onClick={() => setSelectedId(null)} className="p-1 text-content-muted hover:text-content-primary"><X size={14} /></button>
+          </div>
+          <div className="grid grid-cols-5 gap-2 items-center">
+            <input type="number" value={draft.depth} onChange={e => setDraft({ ...draft, depth: e.target.value })} className={inputClass} title="Depth (cmbsf)" />
+            <input type="number" value={draft.age} onChange={e => setDraft({ ...draft, age: e.target.value })} className={inputClass} title="Age (ka)" />
+            <input type="number" min={0} value={draft.uncertainty} placeholder="± 1σ (ka)" onChange={e => setDraft({ ...draft, uncertainty: e.target.value })} className={inputClass} title="1σ age uncertainty (ka)" />
+            <button onClick={handleSave} className="flex items-center justify-center gap-1 p-1.5 rounded-md bg-accent-primary/20 text-accent-primary-hover hover:bg-accent-primary/30 text-xs"><Save size={14} /> Save</button>
+            <button onClick={handleDelete} className="flex items-center justify-center gap-1 p-1.5 rounded-md bg-danger-primary/20 text-danger-primary hover:bg-danger-primary/40 text-xs"><Trash2 size={14} /> Delete</button>
+          </div>
+        </div>
+      )}
+
+      {flags.length > 0 ? (
+        <ul className="mt-3 space-y-1 text-xs text-danger-primary">
+          {flags.map((flag, i) => (
+            <li key={i} className="flex items-start gap-1">
+              <AlertTriangle size={14} className="flex-shrink-0" />
+              <span><span className="font-semibold">{flag.kind === 'reversal' ? 'Age reversal' : 'Rate jump'}:</span> {flag.message}</span>
+            </li>
+          ))}
+        </ul>
+      ) : sectionTiePoints.length > 1 && (
+        <p className="mt-3 text-xs text-content-muted">No reversals or sedimentation-rate jumps above {maxRateRatio}× between tie-points. Click a tie-point to edit or delete it.</p>
+      )}
+    </div>
+  );
+};
+
+export default AgeDepthPlot;
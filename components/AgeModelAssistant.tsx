@@ -1,18 +1,28 @@
 
 import React, { useState } from 'react';
-import type { Section, TiePoint } from '../types';
-import { Layers, Plus, Trash2, MapPin, Calendar, Clock } from 'lucide-react';
+import type { Section, TiePoint, ReservoirCorrection, CorrelationTie } from '../types';
+import { Layers, Plus, Trash2, MapPin, Calendar, Clock, GitCompareArrows } from 'lucide-react';
+import { correlationTiesToTiePoints } from '../services/compositeDepthService';
+import RadiocarbonCalibrationPanel from './RadiocarbonCalibrationPanel';
+import OrbitalTuningPanel from './OrbitalTuningPanel';
+import BiostratigraphyPanel from './BiostratigraphyPanel';
+import MagnetostratigraphyPanel from './MagnetostratigraphyPanel';
+import TephrochronologyPanel from './TephrochronologyPanel';
 
 interface AgeModelAssistantProps {
   sections: Section[];
   tiePoints: TiePoint[];
   onTiePointsChange: (newTiePoints: TiePoint[]) => void;
+  reservoirCorrection?: ReservoirCorrection;
+  correlationTies?: CorrelationTie[];
 }
 
-const AgeModelAssistant: React.FC<AgeModelAssistantProps> = ({ sections, tiePoints, onTiePointsChange }) => {
+const AgeModelAssistant: React.FC<AgeModelAssistantProps> = ({ sections, tiePoints, onTiePointsChange, reservoirCorrection, correlationTies = [] }) => {
   const [selectedSection, setSelectedSection] = useState<string>(sections[0]?.id || '');
   const [depth, setDepth] = useState<string>('');
   const [age, setAge] = useState<string>('');
+  const [uncertainty, setUncertainty] = useState<string>('');
+  const [importNote, setImportNote] = useState<string>('');
 
   const handleAddTiePoint = () => {
     if (selectedSection && depth && age) {
@@ -21,13 +31,23 @@ const AgeModelAssistant: React.FC<AgeModelAssistantProps> = ({ sections, tiePoin
         sectionId: selectedSection,
         depth: parseFloat(depth),
         age: parseFloat(age),
+        ...(uncertainty && { ageUncertainty: Math.abs(parseFloat(uncertainty)) }),
       };
       onTiePointsChange([...tiePoints, newTiePoint]);
       setDepth('');
       setAge('');
+      setUncertainty('');
     }
   };
 
+  const handleImportCorrelationTies = () => {
+    const imported = correlationTiesToTiePoints(correlationTies, sections, tiePoints);
+    if (imported.length > 0) onTiePointsChange([...tiePoints, ...imported]);
+    setImportNote(imported.length > 0
+      ? `Added ${imported.length} tie-point(s) from correlation ties.`
+      : 'No correlation tie has a dated end that is not already a tie-point.');
+  };
+
   const handleRemoveTiePoint = (id: string) => {
     onTiePointsChange(tiePoints.filter(tp => tp.id !== id));
   };
@@ -44,11 +64,11 @@ const AgeModelAssistant: React.FC<AgeModelAssistantProps> = ({ sections, tiePoin
       <div className="space-y-3 mb-4 max-h-40 overflow-y-auto pr-2 -mr-2">
         {tiePoints.length > 0 ? (
           tiePoints.map(tp => (
-            <div key={tp.id} className="flex items-center justify-between bg-background-primary/50 p-2 rounded-md text-sm">
+            <div key={tp.id} className="flex items-center justify-between bg-background-primary/50 p-2 rounded-md text-sm" title={tp.label}>
                 <div className="flex items-center gap-4">
                     <span className="font-bold text-content-secondary w-28 truncate" title={getSectionName(tp.sectionId)}>{getSectionName(tp.sectionId)}</span>
                     <span className="flex items-center gap-1 text-content-muted"><MapPin size={12}/> {tp.depth}</span>
-                    <span className="flex items-center gap-1 text-content-muted"><Calendar size={12}/> {tp.age} ka</span>
+                    <span className="flex items-center gap-1 text-content-muted"><Calendar size={12}/> {tp.age}{tp.ageUncertainty ? ` ± ${tp.ageUncertainty}` : ''} ka</span>
                 </div>
                 <button onClick={() => handleRemoveTiePoint(tp.id)} className="p-1 text-content-muted hover:text-danger-primary">
                     <Trash2 size={14} />
@@ -83,6 +103,15 @@ const AgeModelAssistant: React.FC<AgeModelAssistantProps> = ({ sections, tiePoin
             onChange={e => setAge(e.target.value)}
             className="w-full bg-background-interactive border border-border-secondary rounded-md p-1.5 text-xs"
           />
+          <input
+            type="number"
+            placeholder="± 1σ (ka)"
+            value={uncertainty}
+            min={0}
+            onChange={e => setUncertainty(e.target.value)}
+            className="w-full bg-background-interactive border border-border-secondary rounded-md p-1.5 text-xs"
+            title="Optional 1σ age uncertainty, used by the Bayesian age model"
+          />
           <button
             onClick={handleAddTiePoint}
             disabled={!selectedSection || !depth || !age}
@@ -92,6 +121,47 @@ const AgeModelAssistant: React.FC<AgeModelAssistantProps> = ({ sections, tiePoin
           </button>
         </div>
       </div>
+
+      {correlationTies.length > 0 && (
+        <div className="border-t border-border-primary pt-4 mt-4">
+          <button
+            onClick={handleImportCorrelationTies}
+            className="w-full flex items-center justify-center gap-2 p-2 rounded-md bg-accent-secondary/20 text-accent-secondary hover:bg-accent-secondary/40 transition-colors text-xs font-semibold"
+            title="Transfer ages across the hole-to-hole tie lines of the composite depth view"
+          >
+            <GitCompareArrows size={14} /> Import {correlationTies.length} correlation tie(s)
+          </button>
+          {importNote && <p className="text-xs text-content-muted mt-2">{importNote}</p>}
+        </div>
+      )}
+
+      <RadiocarbonCalibrationPanel
+        sections={sections}
+        selectedSectionId={selectedSection}
+        reservoirCorrection={reservoirCorrection}
+        onAddTiePoints={newTiePoints => onTiePointsChange([...tiePoints, ...newTiePoints])}
+      />
+
+      <OrbitalTuningPanel
+        sections={sections}
+        selectedSectionId={selectedSection}
+        onAddTiePoints={newTiePoints => onTiePointsChange([...tiePoints, ...newTiePoints])}
+      />
+
+      <BiostratigraphyPanel
+        sections={sections}
+        onAddTiePoints={newTiePoints => onTiePointsChange([...tiePoints, ...newTiePoints])}
+      />
+
+      <MagnetostratigraphyPanel
+        sections={sections}
+        onAddTiePoints={newTiePoints => onTiePointsChange([...tiePoints, ...newTiePoints])}
+      />
+
+      <TephrochronologyPanel
+        sections={sections}
+        onAddTiePoints={newTiePoints => onTiePointsChange([...tiePoints, ...newTiePoints])}
+      />
     </div>
   );
 };
@@ -0,0 +1,157 @@
+import React, { useState, useMemo } from 'react';
+import type { AgeModelVersion, Section } from '../types';
+import { diffAgeModelVersions } from '../services/ageModelService';
+import { History, Save, RotateCcw, Star, Trash2, GitCompare, Loader2 } from 'lucide-react';
+
+interface AgeModelVersionsPanelProps {
+  sections: Section[];
+  versions: AgeModelVersion[];
+  canSave: boolean;
+  onSave: (name: string, makeActive: boolean) => Promise<void>;
+  onRestore: (version: AgeModelVersion) => void;
+  onSetActive: (versionId: string | null) => Promise<void>;
+  onDelete: (versionId: string) => Promise<void>;
+}
+
+const formatVersionDate = (createdAt?: string) =>
+  createdAt ? new Date(createdAt).toLocaleString() : '';
+
+const AgeModelVersionsPanel: React.FC<AgeModelVersionsPanelProps> = ({ sections, versions, canSave, onSave, onRestore, onSetActive, onDelete }) => {
+  const [name, setName] = useState('');
+  const [makeActive, setMakeActive] = useState(true);
+  const [isSaving, setIsSaving] = useState(false);
+  const [diffIds, setDiffIds] = useState<{ from: string; to: string }>({ from: '', to: '' });
+
+  const sectionNames = useMemo(() => new Map(sections.map(s => [s.id, s.name])), [sections]);
+
+  const diff = useMemo(() => {
+    const from = versions.find(v => v.id === diffIds.from);
+    const to = versions.find(v => v.id === diffIds.to);
+    if (!from || !to || from.id === to.id) return null;
+    return { from, to, result: diffAgeModelVersions(from, to) };
+  }, [versions, diffIds]);
+
+  const handleSave = async () => {
+    if (!name.trim()) return;
+    setIsSaving(true);
+    try {
+      await onSave(name.trim(), makeActive);
+      setName('');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const inputClass = "w-full bg-background-interactive border border-border-secondary rounded-md p-1.5 text-xs";
+
+  return (
+    <div className="p-4 bg-background-tertiary/50 rounded-xl shadow-lg border border-border-primary/50 space-y-3">
+      <h3 className="text-lg font-semibold text-content-primary flex items-center gap-2">
+        <History size={18} className="text-accent-primary" /> Saved Age Models
+      </h3>
+
+      <div className="space-y-2">
+        <div className="flex items-stretch gap-2">
+          <input
+            type="text"
+            placeholder="Version name"
+            value={name}
+            onChange={e => setName(e.target.value)}
+            className={inputClass}
+          />
+          <button
+            onClick={handleSave}
+            disabled={!canSave || !name.trim() || isSaving}
+            className="px-3 rounded-md bg-accent-primary/20 text-accent-primary-hover hover:bg-accent-primary/30 transition-colors disabled:opacity-50"
+            title={canSave ? 'Save the current age model' : 'Generate an age model first'}
+          >
+            {isSaving ? <Loader2 size={14} className="animate-spin" /> : <Save size={14} />}
+          </button>
+        </div>
+        <label className="flex items-center gap-2 text-xs text-content-secondary">
+          <input type="checkbox" checked={makeActive} onChange={e => setMakeActive(e.target.checked)} />
+          Use as active model for charts and reports
+        </label>
+      </div>
+
+      {versions.length === 0 ? (
+        <p className="text-xs text-content-muted">No saved versions for this core yet.</p>
+      ) : (
+        <ul className="max-h-60 overflow-y-auto space-y-2 pr-2 -mr-2">
+          {versions.map(version => (
+            <li key={version.id} className={`p-2 rounded-md text-xs ${version.isActive ? 'bg-accent-primary/10 border border-accent-primary/40' : 'bg-background-primary/50'}`}>
+              <div className="flex items-center justify-between gap-2">
+                <div className="min-w-0">
+                  <p className="font-bold text-content-secondary truncate flex items-center gap-1">
+                    {version.name}
+                    {version.isActive && <span className="text-[10px] uppercase tracking-wide text-accent-primary">Active</span>}
+                  </p>
+                  <p className="text-content-muted truncate">
+                    {version.method} · {version.tiePoints.length} tie-points · {version.author} · {formatVersionDate(version.createdAt)}
+                  </p>
+                </div>
+                <div className="flex items-center gap-1 flex-shrink-0">
+                  <button onClick={() => onRestore(version)} className="p-1 rounded hover:bg-background-interactive text-content-muted hover:text-content-primary" title="Restore into the editor">
+                    <RotateCcw size={12} />
+                  </button>
+                  <button
+                    onClick={() => onSetActive(version.isActive ? null : version.id)}
+                    className={`p-1 rounded hover:bg-background-interactive ${version.isActive ? 'text-accent-primary' : 'text-content-muted hover:text-content-primary'}`}
+                    title={version.isActive ? 'Unset active model' : 'Set as active model'}
+                  >
+                    <Star size={12} />
+                  </button>
+                  <button onClick={() => onDelete(version.id)} className="p-1 rounded hover:bg-danger-primary/20 text-danger-primary" title="Delete version">
+                    <Trash2 size={12} />
+                  </button>
+                </div>
+              </div>
+            </li>
+          ))}
+        </ul>
+      )}
+
+      {versions.length > 1 && (
+        <div className="border-t border-border-primary pt-3 space-y-2">
+          <h4 className="text-sm font-semibold text-content-secondary flex items-center gap-2">
+            <GitCompare size={14} className="text-accent-primary" /> Compare Versions
+          </h4>
+          <div className="flex items-center gap-2">
+            <select value={diffIds.from} onChange={e => setDiffIds(prev => ({ ...prev, from: e.target.value }))} className={inputClass}>
+              <option value="">From…</option>
+              {versions.map(v => <option key={v.id} value={v.id}>{v.name}</option>)}
+            </select>
+            <select value={diffIds.to} onChange={e => setDiffIds(prev => ({ ...prev, to: e.target.value }))} className={inputClass}>
+              <option value="">To…</option>
+              {versions.map(v => <option key={v.id} value={v.id}>{v.name}</option>)}
+            </select>
+          </div>
+          {diff && (
+            <div className="bg-background-primary/50 p-2 rounded-md text-xs space-y-1 text-content-muted">
+              {diff.result.methodChanged && (
+                <p><strong className="text-content-secondary">Method:</strong> {diff.from.method} → {diff.to.method}</p>
+              )}
+              {diff.result.changedParameters.map(p => (
+                <p key={p.key}><strong className="text-content-secondary">{p.key}:</strong> {String(p.from ?? '—')} → {String(p.to ?? '—')}</p>
+              ))}
+              <p>
+                <strong className="text-content-secondary">Tie-points:</strong>{' '}
+                +{diff.result.addedTiePoints.length} / −{diff.result.removedTiePoints.length} / {diff.result.changedTiePoints.length} re-dated
+              </p>
+              {diff.result.sections.map(s => (
+                <p key={s.sectionId}>
+                  <strong className="text-content-secondary">{sectionNames.get(s.sectionId) || s.sectionId}:</strong>{' '}
+                  {s.comparedDepths > 0
+                    ? `max |Δage| ${s.maxAbsDifference.toFixed(2)} ka, mean ${s.meanAbsDifference.toFixed(2)} ka (${s.comparedDepths} depths)`
+                    : 'no common dated depths'}
+                </p>
+              ))}
+            </div>
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default AgeModelVersionsPanel;
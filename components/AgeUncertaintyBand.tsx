@@ -0,0 +1,42 @@
+import React from 'react';
+import type { DataPoint } from '../types';
+
+// Recharts injects the chart's axis maps into components rendered through <Customized />.
+interface AxisLike {
+    scale: (value: number) => number;
+}
+
+interface AgeUncertaintyBandProps {
+    points: DataPoint[];
+    proxyKey: string;
+    yAxisId?: string | number;
+    fill?: string;
+    xAxisMap?: Record<string, AxisLike>;
+    yAxisMap?: Record<string, AxisLike>;
+}
+
+/**
+ * Shaded ribbon spanning each point's 95% age range (ageLower–ageUpper) at its
+ * proxy value. Must be rendered via recharts' <Customized /> so it receives the
+ * axis scales; draws nothing if the points carry no age envelope.
+ */
+const AgeUncertaintyBand: React.FC<AgeUncertaintyBandProps> = ({ points, proxyKey, yAxisId, fill = 'var(--accent-primary)', xAxisMap, yAxisMap }) => {
+    if (!xAxisMap || !yAxisMap) return null;
+    const xAxis = Object.values<AxisLike>(xAxisMap)[0];
+    const yAxis = (yAxisId !== undefined ? yAxisMap[yAxisId] : undefined) ?? Object.values<AxisLike>(yAxisMap)[0];
+    if (!xAxis || !yAxis) return null;
+
+    const envelope = points
+        .filter(dp => typeof dp.ageLower === 'number' && typeof dp.ageUpper === 'number' && typeof dp[proxyKey] === 'number')
+        .sort((a, b) => (a.age ?? 0) - (b.age ?? 0));
+    if (envelope.length < 2) return null;
+
+    const toXY = (age: number, value: number) => `${xAxis.scale(age).toFixed(2)} ${yAxis.scale(value).toFixed(2)}`;
+    const lowerEdge = envelope.map(dp => toXY(dp.ageLower as number, dp[proxyKey] as number));
+    const upperEdge = [...envelope].reverse().map(dp => toXY(dp.ageUpper as number, dp[proxyKey] as number));
+    const pathData = `M ${[...lowerEdge, ...upperEdge].join(' L ')} Z`;
+
+    return <path d={pathData} fill={fill} fillOpacity={0.15} stroke="none" pointerEvents="none" />;
+};
+
+export default AgeUncertaintyBand;
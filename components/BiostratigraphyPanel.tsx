@@ -0,0 +1,94 @@
+import React, { useState } from 'react';
+import type { Section, TiePoint } from '../types';
+import { proposeDatumTiePoints, type DatumProposal, type DatumConflict } from '../services/biostratigraphyService';
+import { Microscope, Check, X, CheckCheck, AlertTriangle } from 'lucide-react';
+
+interface BiostratigraphyPanelProps {
+  sections: Section[];
+  onAddTiePoints: (newTiePoints: TiePoint[]) => void;
+}
+
+const KIND_CLASS: Record<DatumProposal['kind'], string> = {
+  FAD: 'text-accent-secondary',
+  LAD: 'text-accent-primary',
+  range: 'text-content-secondary',
+};
+
+const BiostratigraphyPanel: React.FC<BiostratigraphyPanelProps> = ({ sections, onAddTiePoints }) => {
+  const [proposals, setProposals] = useState<DatumProposal[]>([]);
+  const [conflicts, setConflicts] = useState<DatumConflict[]>([]);
+  const [hasRun, setHasRun] = useState(false);
+
+  const sectionName = (id: string) => sections.find(s => s.id === id)?.name ?? id;
+
+  const handlePropose = () => {
+    const result = proposeDatumTiePoints(sections);
+    setProposals(result.proposals);
+    setConflicts(result.conflicts);
+    setHasRun(true);
+  };
+
+  const handleAccept = (accepted: DatumProposal[]) => {
+    onAddTiePoints(accepted.map(p => p.tiePoint));
+    const acceptedIds = new Set(accepted.map(p => p.tiePoint.id));
+    setProposals(prev => prev.filter(p => !acceptedIds.has(p.tiePoint.id)));
+  };
+
+  const handleReject = (id: string) => {
+    setProposals(prev => prev.filter(p => p.tiePoint.id !== id));
+  };
+
+  return (
+    <div className="border-t border-border-primary pt-4 mt-4 space-y-2">
+      <div className="flex items-center justify-between">
+        <h4 className="text-sm font-semibold text-content-secondary flex items-center gap-2">
+          <Microscope size={14} className="text-accent-primary" /> Biostratigraphic Datums
+        </h4>
+        <button
+          onClick={handlePropose}
+          disabled={sections.length === 0}
+          className="px-3 py-1 rounded-md bg-accent-primary/20 text-accent-primary-hover hover:bg-accent-primary/30 transition-colors text-xs font-semibold disabled:opacity-50"
+          title="Propose tie-points from FAD/LAD datums (GTS2020) of the taxa recorded in the sections"
+        >
+          Propose
+        </button>
+      </div>
+      {hasRun && proposals.length === 0 && conflicts.length === 0 && (
+        <p className="text-xs text-content-muted">No datum taxa with a crossed FAD/LAD or a bracketing range in the fossil records.</p>
+      )}
+      {proposals.length > 0 && (
+        <div className="space-y-1">
+          {proposals.map(p => (
+            <div key={p.tiePoint.id} className="flex items-center justify-between bg-background-primary/50 p-1.5 rounded-md text-xs" title={p.description}>
+              <span className="text-content-muted">
+                <strong className={KIND_CLASS[p.kind]}>{p.tiePoint.label}</strong>
+                <span className="block">{sectionName(p.tiePoint.sectionId)} · {p.tiePoint.depth} cm → {p.tiePoint.age} ± {p.tiePoint.ageUncertainty} ka</span>
+              </span>
+              <div className="flex items-center gap-1">
+                <button onClick={() => handleAccept([p])} className="p-1 rounded text-success-primary hover:bg-success-primary/20" title="Accept tie-point">
+                  <Check size={12} />
+                </button>
+                <button onClick={() => handleReject(p.tiePoint.id)} className="p-1 rounded text-danger-primary hover:bg-danger-primary/20" title="Reject tie-point">
+                  <X size={12} />
+                </button>
+              </div>
+            </div>
+          ))}
+          <button
+            onClick={() => handleAccept(proposals)}
+            className="flex items-center gap-1 text-xs text-accent-primary hover:text-accent-primary-hover font-semibold"
+          >
+            <CheckCheck size={12} /> Accept all
+          </button>
+        </div>
+      )}
+      {conflicts.map(c => (
+        <p key={c.sectionId} className="flex items-start gap-1 text-xs text-danger-primary">
+          <AlertTriangle size={12} className="flex-shrink-0 mt-0.5" /> {c.message} Possible reworking or diachroneity.
+        </p>
+      ))}
+    </div>
+  );
+};
+
+export default BiostratigraphyPanel;
@@ -0,0 +1,31 @@
+import React from 'react';
+import type { Microfossil } from '../types';
+import { catalogueOf, ownershipLabel, reviewLabel } from '../services/fossilCatalogueService';
+import { Globe, Users, Lock } from 'lucide-react';
+
+const STYLES = {
+  curated: 'bg-success-primary/15 text-success-primary border-success-primary/40',
+  lab: 'bg-accent-primary/15 text-accent-primary border-accent-primary/40',
+  personal: 'bg-background-interactive text-content-secondary border-border-secondary',
+};
+
+const ICONS = { curated: Globe, lab: Users, personal: Lock };
+
+/** Which catalogue a species comes from, with its curation state. */
+const CatalogueBadge: React.FC<{ fossil: Microfossil }> = ({ fossil }) => {
+  const catalogue = catalogueOf(fossil);
+  const Icon = ICONS[catalogue];
+  const review = reviewLabel(fossil);
+  return (
+    <span className="inline-flex items-center gap-1 flex-wrap">
+      <span className={`inline-flex items-center gap-1 px-2 py-0.5 rounded-full border text-[11px] font-semibold not-italic ${STYLES[catalogue]}`}>
+        <Icon size={11} /> {ownershipLabel(fossil)}
+      </span>
+      {review && (
+        <span className="px-2 py-0.5 rounded-full border border-border-secondary text-[11px] text-content-muted not-italic" title={fossil.ownership?.reviewNote}>{review}</span>
+      )}
+    </span>
+  );
+};
+
+export default CatalogueBadge;
@@ -0,0 +1,324 @@
+import React, { useState, useMemo } from 'react';
+import type { Section, Microfossil, CensusSample, MorphotypeSchemeId } from '../types';
+import { AreaChart, Area, XAxis, YAxis, CartesianGrid, Tooltip, Legend, ResponsiveContainer } from 'recharts';
+import { censusRows, censusTaxa, stackedCensusData, parseSplitFraction, validateCensusSample, OTHER_TAXA_KEY, UNASSIGNED_KEY, type CensusMeasure } from '../services/censusService';
+import { groupByCatalogue } from '../services/fossilCatalogueService';
+import { applyRatioProxies, schemeById, schemesForTaxon } from '../services/ratioProxyService';
+import { PROXY_LABELS } from '../constants';
+import { Tally5, Plus, Save, Pencil, Trash2, X } from 'lucide-react';
+
+interface CensusCountsPanelProps {
+  section: Section;
+  microfossils: Microfossil[];
+  onUpdateSection: (section: Section) => void;
+}
+
+interface SampleDraft {
+  subsection: string;
+  depth: string;
+  totalCounted: string;
+  split: string;
+  sieveSize: string;
+  dryWeight: string;
+  counts: Record<string, string>;
+  morphotypes: { fossilId: string; scheme: MorphotypeSchemeId; counts: Record<string, string> }[];
+}
+
+const COLORS = ['#8884d8', '#82ca9d', '#ffc658', '#ff8042', '#00C49F', '#FFBB28', '#a4de6c', '#d0ed57'];
+const MAX_STACKED_TAXA = COLORS.length;
+
+const sampleToDraft = (sample: CensusSample): SampleDraft => ({
+  subsection: sample.subsection ?? '',
+  depth: sample.depth.toString(),
+  totalCounted: sample.totalCounted.toString(),
+  split: sample.splitFraction.toString(),
+  sieveSize: sample.sieveSize.toString(),
+  dryWeight: sample.dryWeight?.toString() ?? '',
+  counts: Object.fromEntries(Object.entries(sample.counts).map(([fossilId, count]) => [fossilId, count.toString()])),
+  morphotypes: (sample.morphotypes ?? []).map(split => ({
+    fossilId: split.fossilId,
+    scheme: split.scheme,
+    counts: Object.fromEntries(Object.entries(split.counts).map(([morphotype, count]) => [morphotype, count.toString()])),
+  })),
+});
+
+const CensusCountsPanel: React.FC<CensusCountsPanelProps> = ({ section, microfossils, onUpdateSection }) => {
+  const samples = useMemo(() => [...(section.censusSamples ?? [])].sort((a, b) => a.depth - b.depth), [section.censusSamples]);
+  const [draft, setDraft] = useState<SampleDraft | null>(null);
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [taxonToAdd, setTaxonToAdd] = useState('');
+  const [taxonToSplit, setTaxonToSplit] = useState('');
+  const [schemeToSplit, setSchemeToSplit] = useState<MorphotypeSchemeId>('coiling');
+  const [error, setError] = useState<string | null>(null);
+  const [measure, setMeasure] = useState<CensusMeasure>('percent');
+  const [axis, setAxis] = useState<'depth' | 'age'>('depth');
+
+  const taxonName = (fossilId: string) => {
+    if (fossilId === OTHER_TAXA_KEY) return 'Other taxa';
+    if (fossilId === UNASSIGNED_KEY) return 'Not itemised';
+    const fossil = microfossils.find(f => f.id === fossilId);
+    return fossil ? `${fossil.taxonomy.genus} ${fossil.taxonomy.species}` : fossilId;
+  };
+
+  const rows = useMemo(() => censusRows(section), [section]);
+  const taxa = useMemo(() => censusTaxa(section), [section]);
+  const stackedTaxa = taxa.slice(0, MAX_STACKED_TAXA);
+  const chartData = useMemo(() => stackedCensusData(rows, stackedTaxa, measure), [rows, stackedTaxa, measure]);
+  const canPlotAge = rows.length > 0 && rows.every(r => r.age !== undefined);
+  const plotAxis = axis === 'age' && canPlotAge ? 'age' : 'depth';
+  const stackKeys = [...stackedTaxa, ...(taxa.length > MAX_STACKED_TAXA ? [OTHER_TAXA_KEY] : []), UNASSIGNED_KEY];
+
+  const draftTaxa = draft
+    ? Array.from(new Set([...section.microfossilRecords.map(r => r.fossilId), ...Object.keys(draft.counts)]))
+    : [];
+  const addableFossils = microfossils.filter(f => !draftTaxa.includes(f.id));
+  const splitSchemes = schemesForTaxon(microfossils.find(f => f.id === taxonToSplit))
+    .filter(scheme => !draft?.morphotypes.some(m => m.fossilId === taxonToSplit && m.scheme === scheme.id));
+
+  const startEdit = (sample: CensusSample | null) => {
+    setError(null);
+    setEditingId(sample?.id ?? null);
+    setDraft(sample ? sampleToDraft(sample) : { subsection: '', depth: '', totalCounted: '', split: '1', sieveSize: '150', dryWeight: '', counts: {}, morphotypes: [] });
+  };
+
+  const handleSubsectionChange = (subsection: string) => {
+    if (!draft) return;
+    const point = section.dataPoints.find(dp => dp.subsection === subsection);
+    setDraft({ ...draft, subsection, ...(typeof point?.depth === 'number' && { depth: point.depth.toString() }) });
+  };
+
+  const handleTaxonToSplitChange = (fossilId: string) => {
+    setTaxonToSplit(fossilId);
+    const [usual] = schemesForTaxon(microfossils.find(f => f.id === fossilId))
+      .filter(scheme => !draft?.morphotypes.some(m => m.fossilId === fossilId && m.scheme === scheme.id));
+    if (usual) setSchemeToSplit(usual.id);
+  };
+
+  const handleAddSplit = () => {
+    if (!draft || !taxonToSplit || !splitSchemes.some(scheme => scheme.id === schemeToSplit)) return;
+    setDraft({ ...draft, morphotypes: [...draft.morphotypes, { fossilId: taxonToSplit, scheme: schemeToSplit, counts: {} }] });
+    setTaxonToSplit('');
+  };
+
+  const updateSplit = (index: number, morphotype: string, value: string) => {
+    if (!draft) return;
+    setDraft({ ...draft, morphotypes: draft.morphotypes.map((m, i) => i === index ? { ...m, counts: { ...m.counts, [morphotype]: value } } : m) });
+  };
+
+  const handleSaveDraft = () => {
+    if (!draft) return;
+    const dryWeight = parseFloat(draft.dryWeight);
+    const sample: CensusSample = {
+      id: editingId ?? `census-${Date.now()}`,
+      ...(draft.subsection && { subsection: draft.subsection }),
+      depth: parseFloat(draft.depth),
+      counts: Object.fromEntries(Object.entries(draft.counts)
+        .filter(([, count]: [string, string]) => count.trim() !== '')
+        .map(([fossilId, count]) => [fossilId, Number(count)])),
+      totalCounted: Number(draft.totalCounted),
+      splitFraction: parseSplitFraction(draft.split),
+      sieveSize: parseFloat(draft.sieveSize),
+      ...(!isNaN(dryWeight) && { dryWeight }),
+    };
+    const morphotypes = draft.morphotypes
+      .map(split => ({
+        fossilId: split.fossilId,
+        scheme: split.scheme,
+        counts: Object.fromEntries(Object.entries(split.counts)
+          .filter(([, count]: [string, string]) => count.trim() !== '')
+          .map(([morphotype, count]) => [morphotype, Number(count)])),
+      }))
+      .filter(split => Object.keys(split.counts).length > 0);
+    if (morphotypes.length > 0) sample.morphotypes = morphotypes;
+    const validationError = validateCensusSample(sample);
+    if (validationError) {
+      setError(validationError);
+      return;
+    }
+    const next = editingId ? samples.map(s => s.id === editingId ? sample : s) : [...samples, sample];
+    onUpdateSection(applyRatioProxies({ ...section, censusSamples: next }, microfossils));
+    setDraft(null);
+    setEditingId(null);
+  };
+
+  const handleDelete = (id: string) => {
+    onUpdateSection(applyRatioProxies({ ...section, censusSamples: samples.filter(s => s.id !== id) }, microfossils));
+  };
+
+  const inputClass = "w-full bg-background-interactive border border-border-secondary rounded-md p-1.5 text-xs";
+  const itemisedTotal = draft ? Object.values(draft.counts).reduce((sum: number, c: string) => sum + (Number(c) || 0), 0) : 0;
+
+  return (
+    <div className="p-4 bg-background-tertiary/50 rounded-xl shadow-lg border border-border-primary/50">
+      <div className="flex items-center justify-between flex-wrap gap-3 mb-2">
+        <h3 className="text-lg font-semibold text-content-primary flex items-center gap-2"><Tally5 size={20} className="text-accent-primary"/> Census Counts</h3>
+        <button onClick={() => startEdit(null)} className="flex items-center gap-1 text-xs text-accent-primary hover:text-accent-primary-hover font-semibold">
+          <Plus size={14} /> Add sample
+        </button>
+      </div>
+      <p className="text-xs text-content-muted mb-3">
+        Specimen counts per taxon and sample. Percentages use the total counted; abundances per gram also need the split and the dry weight. Morphotype sub-counts (coiling direction, test colour, ...) become ratio columns in the data points.
+      </p>
+
+      {draft && (
+        <div className="mb-4 p-3 bg-background-primary/40 rounded-lg border border-border-primary/50 space-y-2">
+          <div className="flex items-center justify-between">
+            <p className="text-xs font-semibold text-content-primary">{editingId ? 'Edit sample' : 'New sample'}</p>
+            <button onClick={() => { setDraft(null); setEditingId(null); }} className="p-1 text-content-muted hover:text-content-primary"><X size={14} /></button>
+          </div>
+          <div className="grid grid-cols-2 md:grid-cols-6 gap-2">
+            <select value={draft.subsection} onChange={e => handleSubsectionChange(e.target.value)} className={inputClass} title="Sample (data point) the count belongs to">
+              <option value="">No linked sample</option>
+              {section.dataPoints.map((dp, i) => dp.subsection && <option key={i} value={dp.subsection}>{dp.subsection}</option>)}
+            </select>
+            <input type="number" value={draft.depth} onChange={e => setDraft({ ...draft, depth: e.target.value })} placeholder="Depth (cmbsf)" className={inputClass} />
+            <input type="number" min={1} value={draft.totalCounted} onChange={e => setDraft({ ...draft, totalCounted: e.target.value })} placeholder="Total counted" className={inputClass} />
+            <input type="text" value={draft.split} onChange={e => setDraft({ ...draft, split: e.target.value })} placeholder="Split (e.g. 1/8)" className={inputClass} title="Fraction of the sample counted" />
+            <input type="number" min={1} value={draft.sieveSize} onChange={e => setDraft({ ...draft, sieveSize: e.target.value })} placeholder="Sieve (µm)" className={inputClass} title="Sieve size (µm)" />
+            <input type="number" min={0} step="0.01" value={draft.dryWeight} onChange={e => setDraft({ ...draft, dryWeight: e.target.value })} placeholder="Dry weight (g)" className={inputClass} />
+          </div>
+          <div className="grid grid-cols-2 md:grid-cols-4 gap-2">
+            {draftTaxa.map(fossilId => (
+              <label key={fossilId} className="flex items-center gap-2 text-xs text-content-secondary">
+                <span className="flex-grow truncate italic" title={taxonName(fossilId)}>{taxonName(fossilId)}</span>
+                <input type="number" min={0} step={1} value={draft.counts[fossilId] ?? ''} onChange={e => setDraft({ ...draft, counts: { ...draft.counts, [fossilId]: e.target.value } })} className={`${inputClass} w-20`} />
+              </label>
+            ))}
+          </div>
+          <div className="flex items-center gap-2">
+            <select value={taxonToAdd} onChange={e => setTaxonToAdd(e.target.value)} className={`${inputClass} w-auto`} disabled={addableFossils.length === 0}>
+              <option value="">Add a counted taxon...</option>
+              {groupByCatalogue(addableFossils).map(group => (
+                <optgroup key={group.key} label={group.label}>
+                  {group.fossils.map(f => <option key={f.id} value={f.id}>{f.taxonomy.genus} {f.taxonomy.species}</option>)}
+                </optgroup>
+              ))}
+            </select>
+            <button
+              onClick={() => { if (taxonToAdd) { setDraft({ ...draft, counts: { ...draft.counts, [taxonToAdd]: '' } }); setTaxonToAdd(''); } }}
+              disabled={!taxonToAdd}
+              className="px-2 py-1 rounded-md bg-accent-primary/20 text-accent-primary-hover hover:bg-accent-primary/30 text-xs font-semibold disabled:opacity-50"
+            >
+              Add
+            </button>
+            <span className="text-xs text-content-muted ml-auto">Itemised: {itemisedTotal}{draft.totalCounted ? ` of ${draft.totalCounted}` : ''}</span>
+          </div>
+          <div className="pt-2 border-t border-border-primary/50 space-y-2">
+            <p className="text-xs font-semibold text-content-secondary">Morphotype sub-counts</p>
+            {draft.morphotypes.map((split, index) => {
+              const scheme = schemeById(split.scheme);
+              const subTotal = Object.values(split.counts).reduce((sum: number, c: string) => sum + (Number(c) || 0), 0);
+              return (
+                <div key={`${split.fossilId}-${split.scheme}`} className="flex items-center gap-2 flex-wrap text-xs text-content-secondary">
+                  <span className="w-40 truncate"><span className="italic">{taxonName(split.fossilId)}</span> · {scheme.label.toLowerCase()}</span>
+                  {scheme.morphotypes.map(morphotype => (
+                    <label key={morphotype.id} className="flex items-center gap-1">
+                      {morphotype.label}
+                      <input type="number" min={0} step={1} value={split.counts[morphotype.id] ?? ''} onChange={e => updateSplit(index, morphotype.id, e.target.value)} className={`${inputClass} w-20`} />
+                    </label>
+                  ))}
+                  <span className="text-content-muted">{subTotal}{draft.counts[split.fossilId] ? ` of ${draft.counts[split.fossilId]}` : ''}</span>
+                  <button onClick={() => setDraft({ ...draft, morphotypes: draft.morphotypes.filter((_, i) => i !== index) })} className="p-1 text-content-muted hover:text-danger-primary" title="Remove sub-counts"><X size={12} /></button>
+                </div>
+              );
+            })}
+            <div className="flex items-center gap-2">
+              <select value={taxonToSplit} onChange={e => handleTaxonToSplitChange(e.target.value)} className={`${inputClass} w-auto`} disabled={draftTaxa.length === 0}>
+                <option value="">Split a taxon by morphotype...</option>
+                {draftTaxa.map(fossilId => <option key={fossilId} value={fossilId}>{taxonName(fossilId)}</option>)}
+              </select>
+              <select value={schemeToSplit} onChange={e => setSchemeToSplit(e.target.value as MorphotypeSchemeId)} className={`${inputClass} w-auto`} disabled={!taxonToSplit || splitSchemes.length === 0}>
+                {splitSchemes.map(scheme => <option key={scheme.id} value={scheme.id}>{scheme.label}</option>)}
+              </select>
+              <button
+                onClick={handleAddSplit}
+                disabled={!taxonToSplit || !splitSchemes.some(scheme => scheme.id === schemeToSplit)}
+                className="px-2 py-1 rounded-md bg-accent-primary/20 text-accent-primary-hover hover:bg-accent-primary/30 text-xs font-semibold disabled:opacity-50"
+              >
+                Split
+              </button>
+            </div>
+          </div>
+          {error && <p className="text-xs text-danger-primary">{error}</p>}
+          <button onClick={handleSaveDraft} className="flex items-center gap-1 px-3 py-1.5 rounded-md bg-accent-primary/20 text-accent-primary-hover hover:bg-accent-primary/30 text-xs font-semibold">
+            <Save size={14} /> Save sample
+          </button>
+        </div>
+      )}
+
+      {samples.length === 0 ? (
+        <p className="text-xs text-content-muted text-center py-2">No census counts for this section yet.</p>
+      ) : (
+        <>
+          <table className="w-full text-xs mb-4">
+            <thead>
+              <tr className="text-content-muted text-left">
+                <th className="p-1">Depth (cm)</th><th className="p-1">Sample</th><th className="p-1">Counted</th><th className="p-1">Split</th><th className="p-1">Sieve</th><th className="p-1">Specimens/g</th><th />
+              </tr>
+            </thead>
+            <tbody>
+              {samples.map(sample => {
+                const row = rows.find(r => r.sampleId === sample.id);
+                return (
+                  <tr key={sample.id} className="border-t border-border-primary/50">
+                    <td className="p-1 font-mono">{sample.depth}</td>
+                    <td className="p-1">{sample.subsection ?? '—'}</td>
+                    <td className="p-1 font-mono">{sample.totalCounted}</td>
+                    <td className="p-1 font-mono">{sample.splitFraction}</td>
+                    <td className="p-1 font-mono">&gt;{sample.sieveSize} µm</td>
+                    <td className="p-1 font-mono">{row?.totalPerGram != null ? row.totalPerGram.toFixed(0) : '—'}</td>
+                    <td className="p-1 text-right whitespace-nowrap">
+                      <button onClick={() => startEdit(sample)} className="p-1 text-content-muted hover:text-content-primary" title="Edit sample"><Pencil size={12} /></button>
+                      <button onClick={() => handleDelete(sample.id)} className="p-1 text-content-muted hover:text-danger-primary" title="Delete sample"><Trash2 size={12} /></button>
+                    </td>
+                  </tr>
+                );
+              })}
+            </tbody>
+          </table>
+
+          <div className="flex items-center gap-2 flex-wrap mb-2">
+            <select value={measure} onChange={e => setMeasure(e.target.value as CensusMeasure)} className={`${inputClass} w-auto`}>
+              <option value="percent">Relative abundance (%)</option>
+              <option value="perGram">Specimens per gram</option>
+            </select>
+            <select value={plotAxis} onChange={e => setAxis(e.target.value as 'depth' | 'age')} className={`${inputClass} w-auto`}>
+              <option value="depth">Against depth</option>
+              <option value="age" disabled={!canPlotAge}>Against age</option>
+            </select>
+          </div>
+          {chartData.length === 0 ? (
+            <p className="text-xs text-content-muted text-center py-6">Enter dry weights to plot abundances per gram.</p>
+          ) : (
+            <div style={{ width: '100%', height: 420 }}>
+              <ResponsiveContainer>
+                <AreaChart layout="vertical" data={chartData} margin={{ top: 5, right: 20, left: 10, bottom: 20 }}>
+                  <CartesianGrid strokeDasharray="3 3" />
+                  <XAxis type="number" domain={measure === 'percent' ? [0, 100] : [0, 'auto']} tick={{ fontSize: 12, fill: 'var(--recharts-axis-stroke)' }} label={{ value: measure === 'percent' ? 'Relative abundance (%)' : 'Specimens per gram', position: 'insideBottom', offset: -15, fontSize: 14 }} />
+                  <YAxis type="number" dataKey={plotAxis} domain={['auto', 'auto']} reversed tick={{ fontSize: 12, fill: 'var(--recharts-axis-stroke)' }} label={{ value: PROXY_LABELS[plotAxis], angle: -90, position: 'insideLeft', fontSize: 14 }} />
+                  <Tooltip formatter={(value: any) => typeof value === 'number' ? value.toFixed(1) : value} labelFormatter={(label) => plotAxis === 'age' ? `${Number(label).toFixed(1)} ka` : `${Number(label).toFixed(1)} cm`} />
+                  <Legend wrapperStyle={{ paddingTop: '20px' }} />
+                  {stackKeys.map((key, index) => (
+                    <Area
+                      key={key}
+                      type="linear"
+                      dataKey={key}
+                      name={taxonName(key)}
+                      stackId="census"
+                      stroke={key === UNASSIGNED_KEY || key === OTHER_TAXA_KEY ? 'var(--text-muted)' : COLORS[index % COLORS.length]}
+                      fill={key === UNASSIGNED_KEY || key === OTHER_TAXA_KEY ? 'var(--text-muted)' : COLORS[index % COLORS.length]}
+                      fillOpacity={key === UNASSIGNED_KEY ? 0.15 : 0.6}
+                      isAnimationActive={false}
+                    />
+                  ))}
+                </AreaChart>
+              </ResponsiveContainer>
+            </div>
+          )}
+        </>
+      )}
+    </div>
+  );
+};
+
+export default CensusCountsPanel;
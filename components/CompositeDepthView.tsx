@@ -0,0 +1,255 @@
+import React, { useState, useMemo, useEffect } from 'react';
+import type { Core, Section, AffineTableEntry, AffineType, CompositeDepthModel, DepthSpliceInterval, CorrelationTie } from '../types';
+import { LineChart, Line, XAxis, YAxis, CartesianGrid, Tooltip, Legend, ResponsiveContainer } from 'recharts';
+import { syncAffineTable, applyCompositeDepth, correlateOffset, applyTie, offsetsFromTies, buildDefaultSplice, spliceDataPoints, exportAffineTableCsv, exportSpliceTableCsv, CCSF_COLUMN } from '../services/compositeDepthService';
+import { downloadCsv } from '../services/csvExportService';
+import { PROXY_LABELS, NON_PROXY_KEYS } from '../constants';
+import { Ruler, Link2, Save, Loader2, Download, Plus, Trash2, Wand2 } from 'lucide-react';
+import CorrelationView from './CorrelationView';
+
+interface CompositeDepthViewProps {
+  core: Core;
+  sections: Section[];
+  onSaveCompositeDepth: (model: CompositeDepthModel) => Promise<void>;
+  setToast: (toast: { message: string; type: 'success' | 'error' | 'info'; show: boolean }) => void;
+}
+
+const COLORS = ['#8884d8', '#82ca9d', '#ffc658', '#ff8042', '#00C49F', '#FFBB28'];
+const AFFINE_TYPES: AffineType[] = ['REF', 'TIE', 'SET'];
+
+const CompositeDepthView: React.FC<CompositeDepthViewProps> = ({ core, sections, onSaveCompositeDepth, setToast }) => {
+  const [affineTable, setAffineTable] = useState<AffineTableEntry[]>(() => syncAffineTable(sections, core.compositeDepth?.affineTable));
+  const [splice, setSplice] = useState<DepthSpliceInterval[]>(core.compositeDepth?.splice ?? []);
+  const [ties, setTies] = useState<CorrelationTie[]>(core.compositeDepth?.ties ?? []);
+  const [proxyKey, setProxyKey] = useState('');
+  const [maxShift, setMaxShift] = useState(300);
+  const [references, setReferences] = useState<Record<string, string>>({});
+  const [isSaving, setIsSaving] = useState(false);
+
+  useEffect(() => {
+    setAffineTable(prev => syncAffineTable(sections, prev));
+  }, [sections]);
+
+  const availableProxies = useMemo(() => {
+    const proxies = new Set<string>();
+    sections.forEach(s => s.dataPoints.forEach(dp => Object.keys(dp).forEach(key => {
+      if (!NON_PROXY_KEYS.includes(key) && typeof dp[key] === 'number') proxies.add(key);
+    })));
+    return Array.from(proxies);
+  }, [sections]);
+
+  useEffect(() => {
+    if (!availableProxies.includes(proxyKey)) {
+      setProxyKey(availableProxies.find(p => /suscept/i.test(p)) ?? availableProxies[0] ?? '');
+    }
+  }, [availableProxies, proxyKey]);
+
+  const model: CompositeDepthModel = { affineTable, splice, ties, updatedAt: new Date().toISOString() };
+  const compositeSections = useMemo(() => applyCompositeDepth(sections, { affineTable, splice, updatedAt: '' }), [sections, affineTable, splice]);
+  const splicePoints = useMemo(() => spliceDataPoints(sections, { affineTable, splice, updatedAt: '' }), [sections, affineTable, splice]);
+  const sectionName = (id: string) => sections.find(s => s.id === id)?.name ?? id;
+  const offsetOf = (id: string) => affineTable.find(e => e.sectionId === id)?.offset ?? 0;
+
+  const updateEntry = (sectionId: string, changes: Partial<AffineTableEntry>) => {
+    setAffineTable(prev => prev.map(e => e.sectionId === sectionId ? { ...e, ...changes } : e));
+  };
+
+  const handleOffsetChange = (sectionId: string, value: string) => {
+    const offset = parseFloat(value);
+    if (isNaN(offset)) return;
+    // A hand-edited offset is no longer the result of a correlation.
+    updateEntry(sectionId, { offset, affineType: 'SET', tie: undefined });
+  };
+
+  const handleCorrelate = (entry: AffineTableEntry) => {
+    const referenceId = references[entry.sectionId] ?? affineTable.find(e => e.sectionId !== entry.sectionId)?.sectionId;
+    const section = sections.find(s => s.id === entry.sectionId);
+    const reference = sections.find(s => s.id === referenceId);
+    if (!section || !reference || !proxyKey) return;
+    try {
+      const result = correlateOffset(section, reference, proxyKey, offsetOf(reference.id), { currentOffset: entry.offset, maxShift });
+      setAffineTable(prev => applyTie(prev, section.id, result, { referenceSectionId: reference.id, proxyKey }));
+      setToast({ message: `${section.name} tied to ${reference.name}: offset ${result.offset} cm (r = ${result.correlation.toFixed(3)}, n = ${result.overlap}).`, type: 'success', show: true });
+    } catch (e: any) {
+      setToast({ message: `Correlation failed: ${e.message}`, type: 'error', show: true });
+    }
+  };
+
+  const handleApplyTieOffsets = () => {
+    const updated = offsetsFromTies(affineTable, sections, ties, proxyKey);
+    const placed = updated.filter((entry, i) => entry.offset !== affineTable[i].offset || entry.affineType !== affineTable[i].affineType).length;
+    setAffineTable(updated);
+    setToast({ message: placed > 0 ? `Offsets of ${placed} section(s) set from the tie lines.` : 'No section is tied to a placed reference yet.', type: placed > 0 ? 'success' : 'info', show: true });
+  };
+
+  const updateSplice = (index: number, changes: Partial<DepthSpliceInterval>) => {
+    setSplice(prev => prev.map((s, i) => i === index ? { ...s, ...changes } : s));
+  };
+
+  const handleSave = async () => {
+    setIsSaving(true);
+    try {
+      await onSaveCompositeDepth(model);
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const inputClass = "w-full bg-background-interactive border border-border-secondary rounded-md p-1.5 text-xs";
+  const buttonClass = "flex items-center gap-2 px-3 py-2 rounded-lg text-xs font-semibold transition-colors disabled:opacity-50 disabled:cursor-not-allowed";
+
+  return (
+    <div className="space-y-6">
+      <div className="p-4 bg-background-tertiary/50 rounded-xl border border-border-primary/50">
+        <div className="flex items-center justify-between flex-wrap gap-3 mb-3">
+          <h3 className="text-lg font-semibold text-content-primary flex items-center gap-2"><Ruler size={20} className="text-accent-primary"/> Composite Depth (CCSF-A)</h3>
+          <div className="flex items-center gap-3">
+            <label className="text-xs text-content-muted flex items-center gap-2">
+              Correlate on
+              <select value={proxyKey} onChange={e => setProxyKey(e.target.value)} className={`${inputClass} w-auto`}>
+                {availableProxies.length === 0 ? <option value="">No data</option> : availableProxies.map(p => <option key={p} value={p}>{PROXY_LABELS[p] || p}</option>)}
+              </select>
+            </label>
+            <label className="text-xs text-content-muted flex items-center gap-2">
+              Search ± (cm)
+              <input type="number" min={1} value={maxShift} onChange={e => setMaxShift(Math.max(1, parseInt(e.target.value, 10) || 1))} className={`${inputClass} w-20`} />
+            </label>
+            <button onClick={handleSave} disabled={isSaving} className={`${buttonClass} bg-accent-primary/80 text-accent-primary-text hover:bg-accent-primary`}>
+              {isSaving ? <Loader2 size={14} className="animate-spin" /> : <Save size={14} />} Save
+            </button>
+          </div>
+        </div>
+        <p className="text-xs text-content-muted mb-3">Offsets are added to CSF-A depths (cmbsf). Correlate each hole against an already placed one, then build the splice. {core.compositeDepth && `Last saved ${new Date(core.compositeDepth.updatedAt).toLocaleString()}.`}</p>
+
+        <div className="overflow-x-auto">
+          <table className="w-full text-xs text-left text-content-secondary">
+            <thead className="text-content-muted uppercase bg-background-tertiary">
+              <tr>
+                <th className="px-3 py-2">Section</th>
+                <th className="px-3 py-2 w-16">Hole</th>
+                <th className="px-3 py-2 w-28">Offset (cm)</th>
+                <th className="px-3 py-2 w-24">Type</th>
+                <th className="px-3 py-2">Tie</th>
+                <th className="px-3 py-2">Correlate with</th>
+              </tr>
+            </thead>
+            <tbody className="divide-y divide-border-primary">
+              {affineTable.map(entry => (
+                <tr key={entry.sectionId} className="bg-background-secondary">
+                  <td className="px-3 py-2 font-semibold text-content-primary">{sectionName(entry.sectionId)}</td>
+                  <td className="px-3 py-2"><input value={entry.hole} onChange={e => updateEntry(entry.sectionId, { hole: e.target.value.toUpperCase() })} className={inputClass} /></td>
+                  <td className="px-3 py-2"><input type="number" step="any" key={`${entry.sectionId}-${entry.offset}`} defaultValue={entry.offset} onBlur={e => handleOffsetChange(entry.sectionId, e.target.value)} className={inputClass} /></td>
+                  <td className="px-3 py-2">
+                    <select value={entry.affineType} onChange={e => updateEntry(entry.sectionId, { affineType: e.target.value as AffineType })} className={inputClass}>
+                      {AFFINE_TYPES.map(t => <option key={t} value={t}>{t}</option>)}
+                    </select>
+                  </td>
+                  <td className="px-3 py-2 text-content-muted">
+                    {entry.tie ? `${sectionName(entry.tie.referenceSectionId)} · ${PROXY_LABELS[entry.tie.proxyKey] || entry.tie.proxyKey} · r = ${entry.tie.correlation.toFixed(3)} (n = ${entry.tie.overlap})` : '—'}
+                  </td>
+                  <td className="px-3 py-2">
+                    <div className="flex items-center gap-1">
+                      <select
+                        value={references[entry.sectionId] ?? affineTable.find(e => e.sectionId !== entry.sectionId)?.sectionId ?? ''}
+                        onChange={e => setReferences(prev => ({ ...prev, [entry.sectionId]: e.target.value }))}
+                        className={inputClass}
+                        disabled={affineTable.length < 2}
+                      >
+                        {affineTable.filter(e => e.sectionId !== entry.sectionId).map(e => <option key={e.sectionId} value={e.sectionId}>{sectionName(e.sectionId)}</option>)}
+                      </select>
+                      <button onClick={() => handleCorrelate(entry)} disabled={affineTable.length < 2 || !proxyKey} className="p-1.5 rounded bg-accent-secondary/20 text-accent-secondary hover:bg-accent-secondary/40 disabled:opacity-50" title="Find the offset that best correlates this section with the selected one">
+                        <Link2 size={14} />
+                      </button>
+                    </div>
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      </div>
+
+      <CorrelationView
+        sections={sections}
+        proxyKey={proxyKey}
+        ties={ties}
+        onTiesChange={setTies}
+        onApplyOffsets={handleApplyTieOffsets}
+      />
+
+      <div className="p-4 bg-background-tertiary/50 rounded-xl border border-border-primary/50">
+        <div style={{ width: '100%', height: 400 }}>
+          <ResponsiveContainer>
+            <LineChart margin={{ top: 5, right: 20, left: 10, bottom: 20 }}>
+              <CartesianGrid strokeDasharray="3 3" />
+              <XAxis dataKey={CCSF_COLUMN} type="number" domain={['dataMin', 'dataMax']} allowDuplicatedCategory={false} tick={{ fontSize: 12, fill: 'var(--recharts-axis-stroke)' }} label={{ value: PROXY_LABELS[CCSF_COLUMN], position: 'insideBottom', offset: -15, fontSize: 14 }} />
+              <YAxis domain={['auto', 'auto']} tick={{ fontSize: 12, fill: 'var(--recharts-axis-stroke)' }} label={{ value: PROXY_LABELS[proxyKey] || proxyKey, angle: -90, position: 'insideLeft', fontSize: 14 }} />
+              <Tooltip formatter={(value: any) => typeof value === 'number' ? value.toFixed(3) : value} labelFormatter={(label) => `CCSF-A: ${Number(label).toFixed(1)} cm`} />
+              <Legend wrapperStyle={{ paddingTop: '20px' }} />
+              {compositeSections.map((section, index) => (
+                <Line
+                  key={section.id}
+                  data={section.dataPoints.filter(dp => typeof dp[CCSF_COLUMN] === 'number' && typeof dp[proxyKey] === 'number').sort((a, b) => (a[CCSF_COLUMN] as number) - (b[CCSF_COLUMN] as number))}
+                  dataKey={proxyKey}
+                  name={section.name}
+                  stroke={COLORS[index % COLORS.length]}
+                  strokeOpacity={splice.length > 0 ? 0.4 : 1}
+                  dot={false}
+                  isAnimationActive={false}
+                />
+              ))}
+              {splicePoints.length > 0 && (
+                <Line data={splicePoints.filter(dp => typeof dp[proxyKey] === 'number')} dataKey={proxyKey} name="Splice" stroke="var(--accent-primary)" strokeWidth={2} dot={false} isAnimationActive={false} />
+              )}
+            </LineChart>
+          </ResponsiveContainer>
+        </div>
+      </div>
+
+      <div className="p-4 bg-background-tertiary/50 rounded-xl border border-border-primary/50">
+        <div className="flex items-center justify-between flex-wrap gap-3 mb-3">
+          <h3 className="text-lg font-semibold text-content-primary">Depth Splice</h3>
+          <div className="flex items-center gap-2 flex-wrap">
+            <button onClick={() => setSplice(buildDefaultSplice(sections, model))} className={`${buttonClass} bg-accent-secondary/20 text-accent-secondary hover:bg-accent-secondary/40`}>
+              <Wand2 size={14} /> Build from offsets
+            </button>
+            <button onClick={() => setSplice(prev => [...prev, { sectionId: sections[0]?.id ?? '', topDepth: prev[prev.length - 1]?.bottomDepth ?? 0, bottomDepth: prev[prev.length - 1]?.bottomDepth ?? 0, spliceType: 'TIE' }])} disabled={sections.length === 0} className={`${buttonClass} bg-background-interactive text-content-primary hover:bg-background-interactive-hover`}>
+              <Plus size={14} /> Add interval
+            </button>
+            <button onClick={() => downloadCsv(exportAffineTableCsv(core, sections, model), `${core.id}_affine_table.csv`)} className={`${buttonClass} bg-success-primary/80 text-white hover:bg-success-primary`}>
+              <Download size={14} /> Affine table
+            </button>
+            <button onClick={() => downloadCsv(exportSpliceTableCsv(core, sections, model), `${core.id}_splice_table.csv`)} disabled={splice.length === 0} className={`${buttonClass} bg-success-primary/80 text-white hover:bg-success-primary`}>
+              <Download size={14} /> Splice table
+            </button>
+          </div>
+        </div>
+        {splice.length === 0 ? (
+          <p className="text-xs text-content-muted">No splice yet. Build one from the current offsets or add intervals by hand.</p>
+        ) : (
+          <div className="space-y-2">
+            {splice.map((interval, index) => (
+              <div key={index} className="grid grid-cols-12 gap-2 items-center text-xs">
+                <select value={interval.sectionId} onChange={e => updateSplice(index, { sectionId: e.target.value })} className={`${inputClass} col-span-4`}>
+                  {sections.map(s => <option key={s.id} value={s.id}>{s.name}</option>)}
+                </select>
+                <input type="number" step="any" key={`top-${index}-${interval.topDepth}`} defaultValue={interval.topDepth} onBlur={e => { const v = parseFloat(e.target.value); if (!isNaN(v)) updateSplice(index, { topDepth: v }); }} className={`${inputClass} col-span-3`} title="Top (CCSF-A, cm)" />
+                <input type="number" step="any" key={`bottom-${index}-${interval.bottomDepth}`} defaultValue={interval.bottomDepth} onBlur={e => { const v = parseFloat(e.target.value); if (!isNaN(v)) updateSplice(index, { bottomDepth: v }); }} className={`${inputClass} col-span-3`} title="Bottom (CCSF-A, cm)" />
+                <select value={interval.spliceType} onChange={e => updateSplice(index, { spliceType: e.target.value as DepthSpliceInterval['spliceType'] })} className={`${inputClass} col-span-1`}>
+                  <option value="TIE">TIE</option>
+                  <option value="APPEND">APPEND</option>
+                </select>
+                <button onClick={() => setSplice(prev => prev.filter((_, i) => i !== index))} className="col-span-1 p-1.5 rounded text-danger-primary hover:bg-danger-primary/20 justify-self-center" title="Remove interval">
+                  <Trash2 size={14} />
+                </button>
+              </div>
+            ))}
+            <p className="text-xs text-content-muted">Top and bottom are CCSF-A depths in cm. {splicePoints.length} samples in the splice.</p>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default CompositeDepthView;
@@ -1,10 +1,15 @@
 
 
 import React, { useState, useEffect, useMemo } from 'react';
-import type { Core, Section, Microfossil, PartialMicrofossil, DataPoint, LabAnalysis } from '../types';
+import type { Core, Section, Microfossil, PartialMicrofossil, DataPoint, LabAnalysis, AgeModelVersion, CompositeDepthModel, AccumulationRateSettings } from '../types';
 import * as coreService from '../services/coreService';
+import { applyGeneratedAges } from '../services/ageModelService';
+import { applyCompositeDepth } from '../services/compositeDepthService';
+import { applyRatioProxies } from '../services/ratioProxyService';
+import { calculateAccumulationRates, defaultAccumulationSettings } from '../services/accumulationRateService';
 import { supabase } from '../services/supabaseClient';
 import { generateFullCoreReport } from '../services/pdfService';
+import { DEFAULT_RANGE_CHART_OPTIONS, type RangeChartOptions } from '../services/rangeChartService';
 
 
 import CoreDetails from './CoreDetails';
@@ -13,10 +18,13 @@ import DataEntryTab from './DataEntryTab';
 import FossilRecordsTab from './FossilRecordsTab';
 import DashboardTab from './DashboardTab';
 import AddCoreModal from './AddCoreModal';
-import CoreSynthesisView from './CoreSynthesisView';
+import CoreSynthesisView, { type AgeModelDraft } from './CoreSynthesisView';
 import StratigraphicColumn from './StratigraphicColumn';
+import SpectralAnalysisView from './SpectralAnalysisView';
+import CompositeDepthView from './CompositeDepthView';
+import RangeChartView from './RangeChartView';
 
-import { LayoutDashboard, Database, Bug, Bot, PlusCircle, Loader2, Pencil, Trash2, FileText, Filter, Blend, BarChartHorizontal } from 'lucide-react';
+import { LayoutDashboard, Database, Bug, Bot, PlusCircle, Loader2, Pencil, Trash2, FileText, Filter, Blend, BarChartHorizontal, AudioWaveform, Ruler, ChartNoAxesColumn } from 'lucide-react';
 
 const calculateAveragesFromDataPoints = (dataPoints: DataPoint[]): LabAnalysis => {
     if (!dataPoints || dataPoints.length === 0) {
@@ -55,20 +63,24 @@ interface CoreDashboardProps {
   core: Core;
   microfossils: Microfossil[];
   onEditCore: (core: Core) => void;
+  onSaveCore: (core: Core) => Promise<void>;
   onDeleteCore: (coreId: string) => void;
   onGoToMap: () => void;
   setToast: (toast: { message: string; type: 'success' | 'error' | 'info'; show: boolean; }) => void;
   onAddFossil: (fossil: PartialMicrofossil) => void;
+  userId: string;
   userEmail: string;
   onOpenNearbyCores: (core: Core) => void;
 }
 
-type Tab = 'dashboard' | 'data_entry' | 'fossils' | 'synthesis' | 'ai';
+type Tab = 'dashboard' | 'data_entry' | 'fossils' | 'composite' | 'synthesis' | 'spectral' | 'range' | 'ai';
 
-const CoreDashboard: React.FC<CoreDashboardProps> = ({ core, microfossils, onEditCore, onDeleteCore, onGoToMap, setToast, onAddFossil, userEmail, onOpenNearbyCores }) => {
+const CoreDashboard: React.FC<CoreDashboardProps> = ({ core, microfossils, onEditCore, onSaveCore, onDeleteCore, onGoToMap, setToast, onAddFossil, userId, userEmail, onOpenNearbyCores }) => {
   const [activeTab, setActiveTab] = useState<Tab>('dashboard');
   const [sections, setSections] = useState<Section[]>([]);
   const [calibratedSections, setCalibratedSections] = useState<Section[] | null>(null);
+  const [compositeSplice, setCompositeSplice] = useState<DataPoint[]>([]);
+  const [ageModels, setAgeModels] = useState<AgeModelVersion[]>([]);
   const [selectedSection, setSelectedSection] = useState<Section | null>(null);
   const [loadingSections, setLoadingSections] = useState(true);
   
@@ -79,12 +91,29 @@ const CoreDashboard: React.FC<CoreDashboardProps> = ({ core, microfossils, onEdi
 
   const [isGeneratingFullReport, setIsGeneratingFullReport] = useState(false);
   const [synthesisChartData, setSynthesisChartData] = useState<{ dataUrl: string; aspectRatio: number } | null>(null);
+  const [ageDepthChartData, setAgeDepthChartData] = useState<{ dataUrl: string; aspectRatio: number } | null>(null);
+  const [accumulationSettings, setAccumulationSettings] = useState<AccumulationRateSettings | null>(null);
+  const [rangeChartOptions, setRangeChartOptions] = useState<RangeChartOptions>(DEFAULT_RANGE_CHART_OPTIONS);
   
   const availableEpochs = useMemo(() => {
     const epochs = new Set(sections.map(s => s.epoch));
     return ['all', ...Array.from(epochs)];
   }, [sections]);
 
+  const activeAgeModel = useMemo(() => ageModels.find(v => v.isActive) ?? null, [ageModels]);
+
+  // Sections with the active age model's ages and the composite depth applied; used by charts and reports.
+  const datedSections = useMemo(
+    () => applyCompositeDepth(activeAgeModel ? applyGeneratedAges(sections, activeAgeModel.generatedAges) : sections, core.compositeDepth),
+    [sections, activeAgeModel, core.compositeDepth]
+  );
+
+  // Until the user picks columns, the density and component columns are guessed from the data.
+  const effectiveAccumulationSettings = useMemo(
+    () => accumulationSettings ?? defaultAccumulationSettings(sections),
+    [accumulationSettings, sections]
+  );
+
   const filteredSections = useMemo(() => {
     if (epochFilter === 'all') {
       return sections;
@@ -106,9 +135,14 @@ const CoreDashboard: React.FC<CoreDashboardProps> = ({ core, microfossils, onEdi
   const fetchSections = async () => {
     setLoadingSections(true);
     setCalibratedSections(null); // Reset synthesis data on re-fetch
-    setSynthesisChartData(null); // Reset captured chart on re-fetch
+    setCompositeSplice([]);
+    setSynthesisChartData(null); // Reset captured charts on re-fetch
+    setAgeDepthChartData(null);
     try {
-      const fetchedSections = await coreService.fetchSectionsForCore(core.id);
+      const [fetchedSections, fetchedAgeModels] = await Promise.all([
+        coreService.fetchSectionsForCore(core.id),
+        coreService.fetchAgeModels(core.id),
+      ]);
       
       const sectionsWithAverages = fetchedSections.map(section => {
         if (section.dataPoints && section.dataPoints.length > 0) {
@@ -119,6 +153,11 @@ const CoreDashboard: React.FC<CoreDashboardProps> = ({ core, microfossils, onEdi
       });
 
       setSections(sectionsWithAverages);
+      setAgeModels(fetchedAgeModels);
+      const active = fetchedAgeModels.find(v => v.isActive);
+      if (active) {
+        setCalibratedSections(applyGeneratedAges(sectionsWithAverages, active.generatedAges));
+      }
       
       const sectionToSelect = editingSection
           ? sectionsWithAverages.find(s => s.id === editingSection.id)
@@ -181,6 +220,59 @@ const CoreDashboard: React.FC<CoreDashboardProps> = ({ core, microfossils, onEdi
     }
   };
 
+  const handleSaveCompositeDepth = (model: CompositeDepthModel) => onSaveCore({ ...core, compositeDepth: model });
+
+  const handleSaveAgeModel = async (draft: AgeModelDraft) => {
+    try {
+        const saved = await coreService.saveAgeModel({ ...draft, coreId: core.id, author: userEmail }, userId);
+        setAgeModels(prev => [saved, ...prev.map(v => saved.isActive ? { ...v, isActive: false } : v)]);
+        setToast({ message: `Age model "${saved.name}" saved.`, type: 'success', show: true });
+    } catch (error: any) {
+        setToast({ message: `Error saving age model: ${error.message}`, type: 'error', show: true });
+    }
+  };
+
+  const handleSetActiveAgeModel = async (ageModelId: string | null) => {
+    try {
+        await coreService.setActiveAgeModel(core.id, ageModelId);
+        setAgeModels(prev => prev.map(v => ({ ...v, isActive: v.id === ageModelId })));
+        const active = ageModels.find(v => v.id === ageModelId);
+        setCalibratedSections(active ? applyGeneratedAges(sections, active.generatedAges) : null);
+        setToast({ message: active ? `"${active.name}" is now the active age model.` : 'No active age model.', type: 'info', show: true });
+    } catch (error: any) {
+        setToast({ message: `Error updating active age model: ${error.message}`, type: 'error', show: true });
+    }
+  };
+
+  const handleDeleteAgeModel = async (ageModelId: string) => {
+    const name = ageModels.find(v => v.id === ageModelId)?.name || 'this age model';
+    try {
+        await coreService.deleteAgeModel(ageModelId);
+        setAgeModels(prev => prev.filter(v => v.id !== ageModelId));
+        setToast({ message: `Age model "${name}" deleted.`, type: 'success', show: true });
+    } catch (error: any) {
+        setToast({ message: `Error deleting age model: ${error.message}`, type: 'error', show: true });
+    }
+  };
+
+  // The dashboard shows the active model's ages and the CCSF column; keep them out of the stored section data.
+  // Ratio proxy columns are the only data-point edits made there, so they are rewritten on the stored points.
+  const handleUpdateDashboardSection = (updatedSection: Section) => {
+    const stored = sections.find(s => s.id === updatedSection.id);
+    if (!stored) {
+      handleUpdateSectionData(updatedSection);
+      return;
+    }
+    const { ratioProxies: _shown, ...rest } = updatedSection;
+    const speciesRatios = updatedSection.ratioProxies?.speciesRatios ?? [];
+    const storedColumns = stored.ratioProxies?.columns ?? [];
+    handleUpdateSectionData(applyRatioProxies({
+      ...rest,
+      dataPoints: stored.dataPoints,
+      ...((speciesRatios.length > 0 || storedColumns.length > 0) && { ratioProxies: { speciesRatios, columns: storedColumns } }),
+    }, microfossils));
+  };
+
   const handleGenerateFullReport = async () => {
     if (sections.length === 0) {
         setToast({ message: 'Core has no sections to generate a report.', type: 'info', show: true });
@@ -191,7 +283,11 @@ const CoreDashboard: React.FC<CoreDashboardProps> = ({ core, microfossils, onEdi
     try {
       // Give the UI a moment to update before the browser freezes for PDF generation
       await new Promise(resolve => setTimeout(resolve, 50));
-      generateFullCoreReport(core, sections, microfossils, userEmail, synthesisChartData);
+      const accumulationResults = calculateAccumulationRates(datedSections, activeAgeModel?.tiePoints ?? [], effectiveAccumulationSettings);
+      const accumulation = accumulationResults.some(r => r.intervals.length > 0)
+        ? { results: accumulationResults, settings: effectiveAccumulationSettings }
+        : null;
+      generateFullCoreReport(core, datedSections, microfossils, userEmail, synthesisChartData, accumulation, ageDepthChartData, rangeChartOptions);
     } catch (e) {
       console.error("Error generating full report:", e);
       setToast({ message: 'Failed to generate full core report.', type: 'error', show: true });
@@ -225,7 +321,7 @@ const CoreDashboard: React.FC<CoreDashboardProps> = ({ core, microfossils, onEdi
             </div>
         )
     }
-    if (!selectedSection && activeTab !== 'synthesis') {
+    if (!selectedSection && activeTab !== 'composite' && activeTab !== 'synthesis' && activeTab !== 'spectral' && activeTab !== 'range') {
         return (
             <div className="flex flex-col items-center justify-center h-96 text-content-muted bg-background-tertiary/20 rounded-xl border-2 border-dashed border-border-primary">
                 <FileText size={48} className="mb-4" />
@@ -237,20 +333,37 @@ const CoreDashboard: React.FC<CoreDashboardProps> = ({ core, microfossils, onEdi
     
     switch (activeTab) {
       case 'dashboard':
-        return selectedSection ? <DashboardTab core={core} section={selectedSection} microfossils={microfossils} onUpdateSection={handleUpdateSectionData} setToast={setToast} userEmail={userEmail} /> : null;
+        return selectedSection ? <DashboardTab core={core} section={datedSections.find(s => s.id === selectedSection.id) ?? selectedSection} microfossils={microfossils} onUpdateSection={handleUpdateDashboardSection} setToast={setToast} userEmail={userEmail} /> : null;
       case 'data_entry':
-        return selectedSection ? <DataEntryTab section={selectedSection} onUpdateSection={handleUpdateSectionData} /> : null;
+        return selectedSection ? <DataEntryTab section={selectedSection} microfossils={microfossils} onUpdateSection={handleUpdateSectionData} /> : null;
       case 'fossils':
-        return selectedSection ? <FossilRecordsTab section={selectedSection} microfossils={microfossils} onUpdateSection={handleUpdateSectionData} /> : null;
+        return selectedSection ? <FossilRecordsTab section={datedSections.find(s => s.id === selectedSection.id) ?? selectedSection} microfossils={microfossils} onUpdateSection={handleUpdateDashboardSection} /> : null;
+      case 'composite':
+        return <CompositeDepthView key={core.id} core={core} sections={sections} onSaveCompositeDepth={handleSaveCompositeDepth} setToast={setToast} />;
       case 'synthesis':
         return <CoreSynthesisView 
                   sections={sections} 
+                  reservoirCorrection={core.reservoirCorrection}
                   calibratedSections={calibratedSections} 
                   onCalibratedDataChange={setCalibratedSections}
+                  ageModels={ageModels}
+                  onSaveAgeModel={handleSaveAgeModel}
+                  onSetActiveAgeModel={handleSetActiveAgeModel}
+                  onDeleteAgeModel={handleDeleteAgeModel}
                   setToast={setToast}
                   onCaptureChart={setSynthesisChartData}
                   isChartCaptured={!!synthesisChartData}
+                  onCaptureAgeDepthChart={setAgeDepthChartData}
+                  isAgeDepthChartCaptured={!!ageDepthChartData}
+                  onCompositeSpliceChange={setCompositeSplice}
+                  correlationTies={core.compositeDepth?.ties}
+                  accumulationSettings={effectiveAccumulationSettings}
+                  onAccumulationSettingsChange={setAccumulationSettings}
                />;
+      case 'spectral':
+        return <SpectralAnalysisView calibratedSections={calibratedSections ?? []} compositeSplice={compositeSplice} />;
+      case 'range':
+        return <RangeChartView coreId={core.id} sections={datedSections} microfossils={microfossils} options={rangeChartOptions} onOptionsChange={setRangeChartOptions} />;
       case 'ai':
         return selectedSection ? <PaleoAiAssistant section={selectedSection} /> : null;
       default:
@@ -361,7 +474,10 @@ const CoreDashboard: React.FC<CoreDashboardProps> = ({ core, microfossils, onEdi
             <TabButton tabName="dashboard" icon={<LayoutDashboard size={16}/>} label="Dashboard" />
             <TabButton tabName="data_entry" icon={<Database size={16}/>} label="Data Entry" />
             <TabButton tabName="fossils" icon={<Bug size={16}/>} label="Microfossils" />
+            <TabButton tabName="composite" icon={<Ruler size={16}/>} label="Composite Depth" disabled={sections.length === 0} />
             <TabButton tabName="synthesis" icon={<Blend size={16}/>} label="Synthesis" disabled={sections.length === 0} />
+            <TabButton tabName="spectral" icon={<AudioWaveform size={16}/>} label="Spectral" disabled={!calibratedSections} />
+            <TabButton tabName="range" icon={<ChartNoAxesColumn size={16}/>} label="Range Chart" disabled={sections.length === 0} />
             <TabButton tabName="ai" icon={<Bot size={16}/>} label="AI Assistant" />
         </nav>
         <div className="animate-fade-in">
@@ -1,36 +1,89 @@
 
 import React, { useState, useMemo, useEffect, useRef } from 'react';
-import type { Section, TiePoint, SpliceInterval, DataPoint } from '../types';
+import type { Section, TiePoint, SpliceInterval, DataPoint, AgeModelMethod, AgeModelEngine, AgeModelVersion, ReservoirCorrection, CorrelationTie, AccumulationRateSettings } from '../types';
 import AgeModelAssistant from './AgeModelAssistant';
+import AgeModelVersionsPanel from './AgeModelVersionsPanel';
 import MultiSectionChart from './MultiSectionChart';
+import AccumulationRatePanel from './AccumulationRatePanel';
+import AgeDepthPlot from './AgeDepthPlot';
 import { generateAgeModel } from '../services/geminiService';
-import { Blend, Wand2, Loader2, AlertCircle, Camera, CheckCircle, XCircle, Globe } from 'lucide-react';
+import { generateLocalAgeModel, extractGeneratedAges, applyGeneratedAges, AGE_MODEL_METHOD_LABELS } from '../services/ageModelService';
+import { generateBayesianAgeModel } from '../services/bayesianAgeModelService';
+import { Blend, Wand2, Loader2, AlertCircle, Camera, CheckCircle, XCircle, Calculator, GitCompare } from 'lucide-react';
 import html2canvas from 'html2canvas';
-import { LR04_DATA } from '../data/lr04';
+import ReferenceCurveSelector from './ReferenceCurveSelector';
+import type { ReferenceCurve, ReferenceCurveId } from '../data/referenceCurves';
+import { getReferenceCurves } from '../services/referenceCurveService';
+import { NON_PROXY_KEYS } from '../constants';
+
+export type AgeModelDraft = Pick<AgeModelVersion, 'name' | 'method' | 'parameters' | 'tiePoints' | 'spliceIntervals' | 'generatedAges' | 'isActive'>;
 
 interface CoreSynthesisViewProps {
   sections: Section[];
+  reservoirCorrection?: ReservoirCorrection;
   calibratedSections: Section[] | null;
   onCalibratedDataChange: (calibratedSections: Section[]) => void;
+  ageModels: AgeModelVersion[];
+  onSaveAgeModel: (draft: AgeModelDraft) => Promise<void>;
+  onSetActiveAgeModel: (ageModelId: string | null) => Promise<void>;
+  onDeleteAgeModel: (ageModelId: string) => Promise<void>;
   setToast: (toast: { message: string; type: 'success' | 'error' | 'info'; show: boolean }) => void;
   onCaptureChart: (chartData: { dataUrl: string; aspectRatio: number } | null) => void;
   isChartCaptured: boolean;
+  onCaptureAgeDepthChart: (chartData: { dataUrl: string; aspectRatio: number } | null) => void;
+  isAgeDepthChartCaptured: boolean;
+  onCompositeSpliceChange: (splice: DataPoint[]) => void;
+  correlationTies?: CorrelationTie[];
+  accumulationSettings: AccumulationRateSettings;
+  onAccumulationSettingsChange: (settings: AccumulationRateSettings) => void;
 }
 
 
-const CoreSynthesisView: React.FC<CoreSynthesisViewProps> = ({ sections, calibratedSections, onCalibratedDataChange, setToast, onCaptureChart, isChartCaptured }) => {
+const toSpliceRecord = (intervals: SpliceInterval[]): Record<string, SpliceInterval> =>
+  Object.fromEntries(intervals.map(si => [si.sectionId, si]));
+
+const CoreSynthesisView: React.FC<CoreSynthesisViewProps> = ({ sections, reservoirCorrection, calibratedSections, onCalibratedDataChange, ageModels, onSaveAgeModel, onSetActiveAgeModel, onDeleteAgeModel, setToast, onCaptureChart, isChartCaptured, onCaptureAgeDepthChart, isAgeDepthChartCaptured, onCompositeSpliceChange, correlationTies, accumulationSettings, onAccumulationSettingsChange }) => {
+  const activeAgeModel = ageModels.find(v => v.isActive);
   const [tiePoints, setTiePoints] = useState<TiePoint[]>([]);
   const [isLoading, setIsLoading] = useState(false);
   const [error, setError] = useState<string | null>(null);
   const [selectedProxy, setSelectedProxy] = useState<string>('delta18O');
   const chartRef = useRef<HTMLDivElement>(null);
+  const ageDepthChartRef = useRef<HTMLDivElement>(null);
 
   const [spliceIntervals, setSpliceIntervals] = useState<Record<string, SpliceInterval>>({});
-  const [showLr04, setShowLr04] = useState(false);
+  const [referenceCurves, setReferenceCurves] = useState<ReferenceCurve[]>(getReferenceCurves);
+  const [selectedReferenceIds, setSelectedReferenceIds] = useState<ReferenceCurveId[]>([]);
+
+  const [engine, setEngine] = useState<AgeModelEngine>('ai');
+  const [smoothing, setSmoothing] = useState(0.5);
+  // Method and parameters that produced the current calibratedSections, recorded when saving.
+  const [generatedWith, setGeneratedWith] = useState<Pick<AgeModelVersion, 'method' | 'parameters'> | null>(null);
+  const [aiSections, setAiSections] = useState<Section[] | null>(null);
+  const [localSections, setLocalSections] = useState<{ label: string; sections: Section[] } | null>(null);
+  const [lastEngineRun, setLastEngineRun] = useState<'ai' | 'local' | null>(null);
+  const [showComparison, setShowComparison] = useState(false);
+
+  // Loads a saved version's tie-points, splice, engine and parameters into the editor.
+  const loadVersion = (version: AgeModelVersion) => {
+    setTiePoints(version.tiePoints);
+    setSpliceIntervals(prev => ({ ...prev, ...toSpliceRecord(version.spliceIntervals) }));
+    setEngine(version.method);
+    if (typeof version.parameters.smoothing === 'number') setSmoothing(version.parameters.smoothing);
+    setGeneratedWith({ method: version.method, parameters: version.parameters });
+    setShowComparison(false);
+  };
 
+  // The editor follows the active version: on mount, once the versions have loaded and whenever
+  // another one is activated. Deactivating keeps the tie-points being edited.
   useEffect(() => {
-    setSpliceIntervals(
-      Object.fromEntries(sections.map(s => [s.id, { sectionId: s.id, startAge: null, endAge: null }]))
+    if (activeAgeModel) loadVersion(activeAgeModel);
+    else setGeneratedWith(null);
+  }, [activeAgeModel?.id]);
+
+  useEffect(() => {
+    setSpliceIntervals(prev =>
+      Object.fromEntries(sections.map(s => [s.id, prev[s.id] ?? { sectionId: s.id, startAge: null, endAge: null }]))
     );
   }, [sections]);
 
@@ -42,7 +95,7 @@ const CoreSynthesisView: React.FC<CoreSynthesisViewProps> = ({ sections, calibra
     dataToDisplay.forEach(section => {
       section.dataPoints.forEach(dp => {
         Object.keys(dp).forEach(key => {
-            if (key !== 'depth' && key !== 'age' && key !== 'subsection') {
+            if (!NON_PROXY_KEYS.includes(key)) {
                 proxies.add(key);
             }
         });
@@ -68,8 +121,25 @@ const CoreSynthesisView: React.FC<CoreSynthesisViewProps> = ({ sections, calibra
     setIsLoading(true);
     setError(null);
     try {
-      const result = await generateAgeModel(sections, tiePoints);
-      onCalibratedDataChange(result);
+      if (engine === 'ai') {
+        const result = await generateAgeModel(sections, tiePoints);
+        setAiSections(result);
+        setLastEngineRun('ai');
+        setGeneratedWith({ method: engine, parameters: {} });
+        onCalibratedDataChange(result);
+      } else if (engine === 'bayesian') {
+        const result = generateBayesianAgeModel(sections, tiePoints);
+        setLocalSections({ label: 'Bayesian', sections: result });
+        setLastEngineRun('local');
+        setGeneratedWith({ method: engine, parameters: { iterations: 1000, accumulationShape: 1.5, seed: 1 } });
+        onCalibratedDataChange(result);
+      } else {
+        const result = generateLocalAgeModel(sections, tiePoints, engine, { smoothing });
+        setLocalSections({ label: AGE_MODEL_METHOD_LABELS[engine], sections: result });
+        setLastEngineRun('local');
+        setGeneratedWith({ method: engine, parameters: engine === 'spline' ? { smoothing } : {} });
+        onCalibratedDataChange(result);
+      }
       setToast({ message: 'Age models generated successfully!', type: 'success', show: true });
     } catch (err: any) {
       setError(err.message);
@@ -79,34 +149,72 @@ const CoreSynthesisView: React.FC<CoreSynthesisViewProps> = ({ sections, calibra
     }
   };
   
-  const handleCaptureChart = async () => {
-    if (!chartRef.current) {
+  // The comparison overlay shows whichever engine's result is not currently active.
+  const comparison = useMemo(() => {
+      if (lastEngineRun === 'ai' && localSections) {
+          return { sections: localSections.sections, label: localSections.label };
+      }
+      if (lastEngineRun === 'local' && aiSections) {
+          return { sections: aiSections, label: 'AI' };
+      }
+      return null;
+  }, [lastEngineRun, aiSections, localSections]);
+
+  const handleSaveVersion = async (name: string, makeActive: boolean) => {
+    if (!calibratedSections || !generatedWith) return;
+    await onSaveAgeModel({
+      name,
+      method: generatedWith.method,
+      parameters: generatedWith.parameters,
+      tiePoints,
+      spliceIntervals: Object.values(spliceIntervals),
+      generatedAges: extractGeneratedAges(calibratedSections),
+      isActive: makeActive,
+    });
+  };
+
+  const handleRestoreVersion = (version: AgeModelVersion) => {
+    loadVersion(version);
+    onCalibratedDataChange(applyGeneratedAges(sections, version.generatedAges));
+    setToast({ message: `Restored age model "${version.name}".`, type: 'info', show: true });
+  };
+
+  const captureChart = async (element: HTMLDivElement | null, onCapture: (chartData: { dataUrl: string; aspectRatio: number }) => void, name: string) => {
+    if (!element) {
         setToast({ message: 'Chart element not found.', type: 'error', show: true });
         return;
     }
     setToast({ message: 'Capturing high-resolution chart image...', type: 'info', show: true });
     try {
         const chartBackgroundColor = getComputedStyle(document.documentElement).getPropertyValue('--bg-tertiary').trim();
-        const canvas = await html2canvas(chartRef.current, {
+        const canvas = await html2canvas(element, {
             useCORS: true,
             backgroundColor: chartBackgroundColor || '#334155', // Fallback color
             scale: 3, // Render at 3x resolution for high-quality PDF output
         });
         const dataUrl = canvas.toDataURL('image/png');
         const aspectRatio = canvas.width / canvas.height;
-        onCaptureChart({ dataUrl, aspectRatio });
-        setToast({ message: 'Synthesis chart captured for PDF report.', type: 'success', show: true });
+        onCapture({ dataUrl, aspectRatio });
+        setToast({ message: `${name} captured for PDF report.`, type: 'success', show: true });
     } catch (error) {
         console.error('Error capturing chart:', error);
         setToast({ message: 'Failed to capture chart image.', type: 'error', show: true });
     }
   };
 
+  const handleCaptureChart = () => captureChart(chartRef.current, onCaptureChart, 'Synthesis chart');
+  const handleCaptureAgeDepthChart = () => captureChart(ageDepthChartRef.current, onCaptureAgeDepthChart, 'Age–depth chart');
+
   const handleRemoveChartFromReport = () => {
       onCaptureChart(null);
       setToast({ message: 'Synthesis chart removed from PDF report.', type: 'info', show: true });
   }
 
+  const handleRemoveAgeDepthChartFromReport = () => {
+      onCaptureAgeDepthChart(null);
+      setToast({ message: 'Age–depth chart removed from PDF report.', type: 'info', show: true });
+  }
+
   const handleSpliceIntervalChange = (sectionId: string, type: 'startAge' | 'endAge', value: string) => {
     const numValue = value === '' ? null : parseFloat(value);
     setSpliceIntervals(prev => ({
@@ -140,6 +248,11 @@ const CoreSynthesisView: React.FC<CoreSynthesisViewProps> = ({ sections, calibra
       return allPoints.sort((a, b) => ((a.age as number) || 0) - ((b.age as number) || 0));
   }, [calibratedSections, spliceIntervals]);
 
+  useEffect(() => {
+    onCompositeSpliceChange(compositeSplice);
+  // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [compositeSplice]);
+
   if (sections.length === 0) {
     return (
         <div className="flex flex-col items-center justify-center p-12 bg-background-tertiary/50 rounded-xl text-content-muted border border-border-primary/50">
@@ -158,19 +271,71 @@ const CoreSynthesisView: React.FC<CoreSynthesisViewProps> = ({ sections, calibra
           sections={sections}
           tiePoints={tiePoints}
           onTiePointsChange={setTiePoints}
+          reservoirCorrection={reservoirCorrection}
+          correlationTies={correlationTies}
         />
-        <div className="p-4 bg-background-tertiary/50 rounded-xl shadow-lg border border-border-primary/50">
+        <div className="p-4 bg-background-tertiary/50 rounded-xl shadow-lg border border-border-primary/50 space-y-3">
+            <div>
+                <label htmlFor="engine-select" className="block text-xs font-medium text-content-muted mb-1">Age Model Engine</label>
+                <select
+                    id="engine-select"
+                    value={engine}
+                    onChange={e => setEngine(e.target.value as AgeModelEngine)}
+                    className="w-full bg-background-interactive border border-border-secondary rounded-md p-1.5 text-xs"
+                >
+                    <option value="ai">AI (Gemini, proxy-informed)</option>
+                    {(Object.keys(AGE_MODEL_METHOD_LABELS) as AgeModelMethod[]).map(method => (
+                        <option key={method} value={method}>{AGE_MODEL_METHOD_LABELS[method]}</option>
+                    ))}
+                    <option value="bayesian">Bayesian Monte Carlo (95% envelope)</option>
+                </select>
+            </div>
+            {engine === 'spline' && (
+                <div>
+                    <label htmlFor="smoothing-input" className="block text-xs font-medium text-content-muted mb-1">Smoothing: {smoothing.toFixed(2)}</label>
+                    <input
+                        id="smoothing-input"
+                        type="range"
+                        min={0}
+                        max={0.95}
+                        step={0.05}
+                        value={smoothing}
+                        onChange={e => setSmoothing(parseFloat(e.target.value))}
+                        className="w-full accent-accent-primary"
+                    />
+                </div>
+            )}
             <button
                 onClick={handleGenerateAgeModel}
                 disabled={isLoading || tiePoints.length < 2}
                 className="w-full flex items-center justify-center gap-2 px-6 py-3 rounded-lg bg-accent-primary text-accent-primary-text font-bold hover:bg-accent-primary-hover transition-all duration-200 shadow-lg hover:shadow-cyan-500/30 disabled:bg-background-interactive disabled:cursor-wait"
             >
-                {isLoading ? <Loader2 className="animate-spin" /> : <Wand2 />}
-                {isLoading ? 'Generating Models...' : 'Generate Age Models with AI'}
+                {isLoading ? <Loader2 className="animate-spin" /> : engine === 'ai' ? <Wand2 /> : <Calculator />}
+                {isLoading ? 'Generating Models...' : engine === 'ai' ? 'Generate Age Models with AI' : 'Generate Age Models Locally'}
             </button>
+            <label className={`flex items-center gap-2 text-xs ${comparison ? 'text-content-secondary' : 'text-content-muted/50'}`} title="Run both the AI and a local engine to compare them">
+                <input
+                    type="checkbox"
+                    checked={showComparison && !!comparison}
+                    onChange={e => setShowComparison(e.target.checked)}
+                    disabled={!comparison}
+                />
+                <GitCompare size={14} />
+                {comparison ? `Compare with ${comparison.label}` : 'Compare AI and local models'}
+            </label>
             {error && <p className="text-danger-primary text-xs mt-2 text-center">{error}</p>}
         </div>
 
+        <AgeModelVersionsPanel
+          sections={sections}
+          versions={ageModels}
+          canSave={!!calibratedSections && !!generatedWith}
+          onSave={handleSaveVersion}
+          onRestore={handleRestoreVersion}
+          onSetActive={onSetActiveAgeModel}
+          onDelete={onDeleteAgeModel}
+        />
+
         <div className="p-4 bg-background-tertiary/50 rounded-xl shadow-lg border border-border-primary/50 space-y-4">
              <h3 className="text-lg font-semibold text-content-primary">Composite Splice Intervals</h3>
              <div className="max-h-60 overflow-y-auto space-y-3 pr-2 -mr-2">
@@ -221,16 +386,13 @@ const CoreSynthesisView: React.FC<CoreSynthesisViewProps> = ({ sections, calibra
                          availableProxies.map(p => <option key={p} value={p}>{p}</option>)}
                      </select>
                 </div>
-                <div className="flex items-center gap-2" title={xAxisKey === 'depth' ? 'Generate an age model to enable LR04 overlay' : 'Toggle LR04 Overlay'}>
-                    <span className="text-xs font-semibold text-content-secondary flex items-center gap-1.5"><Globe size={14}/> LR04</span>
-                    <button
-                        onClick={() => setShowLr04(prev => !prev)}
-                        disabled={xAxisKey === 'depth'}
-                        className={`relative inline-flex h-6 w-11 flex-shrink-0 cursor-pointer rounded-full border-2 border-transparent transition-colors duration-200 ease-in-out focus:outline-none focus:ring-2 focus:ring-accent-primary focus:ring-offset-2 focus:ring-offset-background-tertiary disabled:opacity-50 disabled:cursor-not-allowed ${showLr04 ? 'bg-accent-primary' : 'bg-background-interactive'}`}
-                    >
-                        <span className={`inline-block h-5 w-5 transform rounded-full bg-white shadow ring-0 transition duration-200 ease-in-out ${showLr04 ? 'translate-x-5' : 'translate-x-0'}`} />
-                    </button>
-                </div>
+                <ReferenceCurveSelector
+                    curves={referenceCurves}
+                    selectedIds={selectedReferenceIds}
+                    onSelectedChange={setSelectedReferenceIds}
+                    onCurvesChange={setReferenceCurves}
+                    disabled={xAxisKey === 'depth'}
+                />
                  <div className="flex items-center gap-2">
                     <button
                       onClick={handleCaptureChart}
@@ -263,8 +425,9 @@ const CoreSynthesisView: React.FC<CoreSynthesisViewProps> = ({ sections, calibra
                     spliceData={compositeSplice}
                     proxyKey={selectedProxy}
                     xAxisKey={xAxisKey}
-                    showLr04={showLr04}
-                    lr04Data={LR04_DATA}
+                    referenceCurves={referenceCurves.filter(c => selectedReferenceIds.includes(c.id))}
+                    comparisonSections={showComparison ? comparison?.sections : null}
+                    comparisonLabel={comparison?.label}
                 />
             ) : (
                 <div className="flex items-center justify-center h-96 text-content-muted">
@@ -273,6 +436,43 @@ const CoreSynthesisView: React.FC<CoreSynthesisViewProps> = ({ sections, calibra
                 </div>
             )}
         </div>
+        <AgeDepthPlot
+            sections={dataToDisplay}
+            tiePoints={tiePoints}
+            onTiePointsChange={setTiePoints}
+            chartRef={ageDepthChartRef}
+            actions={
+              <div className="flex items-center gap-2">
+                <button
+                  onClick={handleCaptureAgeDepthChart}
+                  className={`flex items-center gap-2 px-3 py-2 rounded-lg transition-colors text-xs font-semibold ${
+                    isAgeDepthChartCaptured
+                      ? 'bg-success-primary/20 text-success-primary hover:bg-success-primary/30'
+                      : 'bg-accent-secondary/20 text-accent-secondary hover:bg-accent-secondary/40'
+                  }`}
+                  title={isAgeDepthChartCaptured ? "Update captured chart" : "Add this chart to the full PDF report"}
+                >
+                  {isAgeDepthChartCaptured ? <CheckCircle size={14} /> : <Camera size={14} />}
+                  {isAgeDepthChartCaptured ? 'Update in Report' : 'Add to Report'}
+                </button>
+                {isAgeDepthChartCaptured && (
+                  <button
+                    onClick={handleRemoveAgeDepthChartFromReport}
+                    className="p-2 rounded-lg bg-danger-primary/20 text-danger-primary hover:bg-danger-primary/40 transition-colors"
+                    title="Remove chart from report"
+                  >
+                    <XCircle size={14} />
+                  </button>
+                )}
+              </div>
+            }
+        />
+        <AccumulationRatePanel
+            sections={dataToDisplay}
+            tiePoints={tiePoints}
+            settings={accumulationSettings}
+            onSettingsChange={onAccumulationSettingsChange}
+        />
       </div>
     </div>
   );
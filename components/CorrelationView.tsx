@@ -0,0 +1,252 @@
+import React, { useState, useMemo, useRef } from 'react';
+import type { Section, CorrelationTie } from '../types';
+import { tieCorrelation } from '../services/compositeDepthService';
+import { PROXY_LABELS } from '../constants';
+import { GitCompareArrows, Trash2, ArrowDownToLine } from 'lucide-react';
+
+interface CorrelationViewProps {
+  sections: Section[];
+  proxyKey: string;
+  ties: CorrelationTie[];
+  onTiesChange: (ties: CorrelationTie[]) => void;
+  onApplyOffsets: () => void;
+}
+
+const COLORS = ['#8884d8', '#82ca9d', '#ffc658', '#ff8042', '#00C49F', '#FFBB28'];
+const COLUMN_WIDTH = 180;
+const GAP = 90;
+const MARGIN = { top: 30, right: 10, bottom: 10, left: 50 };
+const HEIGHT = 560;
+
+type DragState = { tieId: string; end: 'section' | 'reference'; moved: boolean };
+
+const CorrelationView: React.FC<CorrelationViewProps> = ({ sections, proxyKey, ties, onTiesChange, onApplyOffsets }) => {
+  const [columnIds, setColumnIds] = useState<string[]>(() => sections.slice(0, 3).map(s => s.id));
+  const [pending, setPending] = useState<{ column: number; depth: number } | null>(null);
+  const [drag, setDrag] = useState<DragState | null>(null);
+  const svgRef = useRef<SVGSVGElement>(null);
+  const suppressClick = useRef(false);
+
+  const columns = useMemo(() => columnIds.map(id => sections.find(s => s.id === id)).filter((s): s is Section => !!s), [columnIds, sections]);
+  const width = MARGIN.left + columns.length * COLUMN_WIDTH + Math.max(0, columns.length - 1) * GAP + MARGIN.right;
+  const sectionName = (id: string) => sections.find(s => s.id === id)?.name ?? id;
+
+  const series = useMemo(() => columns.map(section => section.dataPoints
+    .filter(dp => typeof dp.depth === 'number' && typeof dp[proxyKey] === 'number')
+    .map(dp => ({ depth: dp.depth as number, value: dp[proxyKey] as number }))
+    .sort((a, b) => a.depth - b.depth)), [columns, proxyKey]);
+
+  // One CSF-A depth scale shared by all columns, so tie lines slope by the offset between holes.
+  const depthDomain = useMemo(() => {
+    const depths = series.flat().map(p => p.depth);
+    if (depths.length === 0) return { min: 0, max: 100 };
+    const min = Math.min(...depths);
+    const max = Math.max(...depths);
+    return max > min ? { min, max } : { min, max: min + 1 };
+  }, [series]);
+
+  const depthToY = (depth: number) => MARGIN.top + (depth - depthDomain.min) / (depthDomain.max - depthDomain.min) * (HEIGHT - MARGIN.top - MARGIN.bottom);
+  const yToDepth = (y: number) => {
+    const depth = depthDomain.min + (y - MARGIN.top) / (HEIGHT - MARGIN.top - MARGIN.bottom) * (depthDomain.max - depthDomain.min);
+    return parseFloat(Math.min(depthDomain.max, Math.max(depthDomain.min, depth)).toFixed(1));
+  };
+  const columnX = (index: number) => MARGIN.left + index * (COLUMN_WIDTH + GAP);
+
+  const correlations = useMemo(() => columns.slice(1).map((section, i) => tieCorrelation(section, columns[i], proxyKey, ties)), [columns, proxyKey, ties]);
+
+  const toSvgPoint = (event: React.MouseEvent) => {
+    const svg = svgRef.current;
+    const matrix = svg?.getScreenCTM();
+    if (!svg || !matrix) return null;
+    const point = svg.createSVGPoint();
+    point.x = event.clientX;
+    point.y = event.clientY;
+    return point.matrixTransform(matrix.inverse());
+  };
+
+  const handleClick = (event: React.MouseEvent) => {
+    if (suppressClick.current) {
+      suppressClick.current = false;
+      return;
+    }
+    const point = toSvgPoint(event);
+    if (!point) return;
+    const column = columns.findIndex((_, i) => point.x >= columnX(i) && point.x <= columnX(i) + COLUMN_WIDTH);
+    if (column < 0 || point.y < MARGIN.top || point.y > HEIGHT - MARGIN.bottom) {
+      setPending(null);
+      return;
+    }
+    const depth = yToDepth(point.y);
+    if (!pending || Math.abs(pending.column - column) !== 1) {
+      setPending({ column, depth });
+      return;
+    }
+    // The left column of the pair is the reference.
+    const [left, right] = pending.column < column ? [pending, { column, depth }] : [{ column, depth }, pending];
+    onTiesChange([...ties, {
+      id: `tie-${Date.now()}`,
+      sectionId: columns[right.column].id,
+      depth: right.depth,
+      referenceSectionId: columns[left.column].id,
+      referenceDepth: left.depth,
+    }]);
+    setPending(null);
+  };
+
+  const handleMouseMove = (event: React.MouseEvent) => {
+    if (!drag) return;
+    const point = toSvgPoint(event);
+    if (!point) return;
+    const depth = yToDepth(point.y);
+    onTiesChange(ties.map(t => t.id !== drag.tieId ? t : drag.end === 'section' ? { ...t, depth } : { ...t, referenceDepth: depth }));
+    if (!drag.moved) setDrag({ ...drag, moved: true });
+  };
+
+  const endDrag = () => {
+    if (drag?.moved) suppressClick.current = true;
+    setDrag(null);
+  };
+
+  const toggleColumn = (id: string) => {
+    setPending(null);
+    setColumnIds(prev => prev.includes(id)
+      ? prev.filter(c => c !== id)
+      : sections.filter(s => prev.includes(s.id) || s.id === id).map(s => s.id));
+  };
+
+  const depthTicks = Array.from({ length: 6 }, (_, i) => depthDomain.min + i * (depthDomain.max - depthDomain.min) / 5);
+
+  const renderColumn = (section: Section, index: number) => {
+    const points = series[index];
+    const x0 = columnX(index);
+    const values = points.map(p => p.value);
+    const minValue = Math.min(...values);
+    const range = Math.max(...values) - minValue || 1;
+    const path = points.map(p => `${(x0 + 8 + (p.value - minValue) / range * (COLUMN_WIDTH - 16)).toFixed(1)},${depthToY(p.depth).toFixed(1)}`).join(' ');
+    return (
+      <g key={section.id}>
+        <rect x={x0} y={MARGIN.top} width={COLUMN_WIDTH} height={HEIGHT - MARGIN.top - MARGIN.bottom} fill="var(--bg-primary)" fillOpacity={0.3} stroke="var(--border-primary)" />
+        <text x={x0 + COLUMN_WIDTH / 2} y={MARGIN.top - 10} textAnchor="middle" fontSize={12} fill="var(--text-primary)">{section.name}</text>
+        {points.length > 1 && <polyline points={path} fill="none" stroke={COLORS[index % COLORS.length]} strokeWidth={1.5} />}
+        {points.length === 0 && <text x={x0 + COLUMN_WIDTH / 2} y={HEIGHT / 2} textAnchor="middle" fontSize={11} fill="var(--text-muted)">No data</text>}
+        {pending?.column === index && (
+          <line x1={x0} x2={x0 + COLUMN_WIDTH} y1={depthToY(pending.depth)} y2={depthToY(pending.depth)} stroke="var(--accent-primary)" strokeDasharray="4 3" />
+        )}
+      </g>
+    );
+  };
+
+  const renderTie = (tie: CorrelationTie) => {
+    const sectionColumn = columns.findIndex(s => s.id === tie.sectionId);
+    const referenceColumn = columns.findIndex(s => s.id === tie.referenceSectionId);
+    if (sectionColumn < 0 || referenceColumn < 0) return null;
+    // Draw from the inner edges of the two columns, whichever side each is on.
+    const ends = [
+      { end: 'reference' as const, column: referenceColumn, depth: tie.referenceDepth },
+      { end: 'section' as const, column: sectionColumn, depth: tie.depth },
+    ].map(e => ({ ...e, x: columnX(e.column) + (e.column < (e.end === 'section' ? referenceColumn : sectionColumn) ? COLUMN_WIDTH : 0), y: depthToY(e.depth) }));
+    const active = drag?.tieId === tie.id;
+    return (
+      <g key={tie.id}>
+        <line x1={ends[0].x} y1={ends[0].y} x2={ends[1].x} y2={ends[1].y} stroke="var(--accent-primary)" strokeWidth={active ? 2 : 1.25} />
+        {ends.map(e => (
+          <circle
+            key={e.end}
+            cx={e.x}
+            cy={e.y}
+            r={5}
+            fill="var(--accent-primary)"
+            stroke="var(--bg-secondary)"
+            className="cursor-ns-resize"
+            onMouseDown={event => { event.stopPropagation(); setDrag({ tieId: tie.id, end: e.end, moved: false }); }}
+            onClick={event => { event.stopPropagation(); suppressClick.current = false; }}
+          >
+            <title>{`${sectionName(e.end === 'section' ? tie.sectionId : tie.referenceSectionId)}: ${e.depth} cm`}</title>
+          </circle>
+        ))}
+      </g>
+    );
+  };
+
+  return (
+    <div className="p-4 bg-background-tertiary/50 rounded-xl border border-border-primary/50">
+      <div className="flex items-center justify-between flex-wrap gap-3 mb-3">
+        <h3 className="text-lg font-semibold text-content-primary flex items-center gap-2"><GitCompareArrows size={20} className="text-accent-primary"/> Hole-to-Hole Correlation</h3>
+        <div className="flex items-center gap-2 flex-wrap">
+          <button onClick={() => onTiesChange([])} disabled={ties.length === 0} className="flex items-center gap-2 px-3 py-2 rounded-lg text-xs font-semibold transition-colors bg-background-interactive text-content-primary hover:bg-background-interactive-hover disabled:opacity-50 disabled:cursor-not-allowed">
+            <Trash2 size={14} /> Clear ties
+          </button>
+          <button onClick={onApplyOffsets} disabled={ties.length === 0} className="flex items-center gap-2 px-3 py-2 rounded-lg text-xs font-semibold transition-colors bg-accent-secondary/20 text-accent-secondary hover:bg-accent-secondary/40 disabled:opacity-50 disabled:cursor-not-allowed">
+            <ArrowDownToLine size={14} /> Apply to affine table
+          </button>
+        </div>
+      </div>
+      <div className="flex flex-wrap gap-2 mb-3">
+        {sections.map(s => (
+          <button
+            key={s.id}
+            onClick={() => toggleColumn(s.id)}
+            className={`px-2 py-1 rounded-md text-xs transition-colors ${columnIds.includes(s.id) ? 'bg-accent-primary/20 text-accent-primary-hover' : 'bg-background-interactive text-content-muted hover:bg-background-interactive-hover'}`}
+          >
+            {s.name}
+          </button>
+        ))}
+      </div>
+      <p className="text-xs text-content-muted mb-3">
+        {PROXY_LABELS[proxyKey] || proxyKey} against CSF-A depth. Click a feature in one column and the matching feature in a neighbouring column to add a tie; drag the tie ends to refine them. The left column of a pair is the reference.
+      </p>
+
+      {columns.length < 2 ? (
+        <p className="text-xs text-center text-content-muted py-8">Select at least two sections to correlate.</p>
+      ) : (
+        <div className="overflow-x-auto">
+          <svg
+            ref={svgRef}
+            width={width}
+            height={HEIGHT}
+            viewBox={`0 0 ${width} ${HEIGHT}`}
+            className={`select-none ${drag ? 'cursor-ns-resize' : 'cursor-crosshair'}`}
+            onClick={handleClick}
+            onMouseMove={handleMouseMove}
+            onMouseUp={endDrag}
+            onMouseLeave={endDrag}
+            aria-label="Hole-to-hole correlation"
+          >
+            {depthTicks.map(d => (
+              <g key={d}>
+                <line x1={MARGIN.left - 4} x2={MARGIN.left} y1={depthToY(d)} y2={depthToY(d)} stroke="var(--recharts-axis-stroke)" />
+                <text x={MARGIN.left - 6} y={depthToY(d) + 3} textAnchor="end" fontSize={10} fill="var(--recharts-axis-stroke)">{d.toFixed(0)}</text>
+              </g>
+            ))}
+            <text transform={`translate(12, ${HEIGHT / 2}) rotate(-90)`} textAnchor="middle" fontSize={11} fill="var(--text-muted)">Depth CSF-A (cm)</text>
+            {columns.map(renderColumn)}
+            {correlations.map((fit, i) => (
+              <text key={i} x={columnX(i) + COLUMN_WIDTH + GAP / 2} y={MARGIN.top - 10} textAnchor="middle" fontSize={11} fill={fit ? 'var(--accent-secondary)' : 'var(--text-muted)'}>
+                {fit ? `r = ${fit.correlation.toFixed(2)}` : 'no ties'}
+              </text>
+            ))}
+            {ties.map(renderTie)}
+          </svg>
+        </div>
+      )}
+
+      {ties.length > 0 && (
+        <div className="mt-3 space-y-1 max-h-40 overflow-y-auto">
+          {ties.map(tie => (
+            <div key={tie.id} className="flex items-center justify-between bg-background-primary/30 p-2 rounded-md text-xs text-content-secondary">
+              <span>
+                <span className="font-semibold text-content-primary">{sectionName(tie.sectionId)}</span> {tie.depth} cm ↔ <span className="font-semibold text-content-primary">{sectionName(tie.referenceSectionId)}</span> {tie.referenceDepth} cm
+                <span className="text-content-muted"> (offset {(tie.referenceDepth - tie.depth).toFixed(1)} cm)</span>
+              </span>
+              <button onClick={() => onTiesChange(ties.filter(t => t.id !== tie.id))} className="p-1 text-content-muted hover:text-danger-primary" title="Remove tie">
+                <Trash2 size={14} />
+              </button>
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default CorrelationView;
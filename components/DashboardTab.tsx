@@ -2,13 +2,14 @@
 
 import React, { useState, useMemo, useEffect } from 'react';
 import type { Core, Section, Microfossil, PaleoEvent } from '../types';
-import { Beaker, FileText, Layers, Loader2, Sparkles, Download, FileJson, Pencil, X, Check, BrainCircuit, LineChart } from 'lucide-react';
+import { Beaker, FileText, Layers, Loader2, Sparkles, Download, FileJson, Pencil, X, Check, BrainCircuit, LineChart, Sigma } from 'lucide-react';
 import { generateSectionSummary, detectPaleoEvents } from '../services/geminiService';
 import { generateSectionReport } from '../services/pdfService';
+import { detectStatisticalEvents } from '../services/eventDetectionService';
 import SummaryCard from './SummaryCard';
 import DataTable from './DataTable';
 import 'jspdf-autotable'; // Import for table generation
-import { PROXY_LABELS } from '../constants';
+import { PROXY_LABELS, NON_PROXY_KEYS } from '../constants';
 import SingleSectionChart from './SingleSectionChart';
 
 
@@ -29,6 +30,8 @@ const DashboardTab: React.FC<DashboardTabProps> = ({ core, section, microfossils
   
   const [isDetectingEvents, setIsDetectingEvents] = useState(false);
   const [detectedEvents, setDetectedEvents] = useState<PaleoEvent[]>([]);
+  const [statisticalEvents, setStatisticalEvents] = useState<PaleoEvent[]>([]);
+  const [significance, setSignificance] = useState(0.01);
   const [selectedProxy, setSelectedProxy] = useState<string>('');
   const [xAxis, setXAxis] = useState<'age' | 'depth'>('depth');
 
@@ -38,7 +41,7 @@ const DashboardTab: React.FC<DashboardTabProps> = ({ core, section, microfossils
     const proxies = new Set<string>();
     section.dataPoints.forEach(dp => {
       Object.keys(dp).forEach(key => {
-        if (typeof dp[key] === 'number' && key !== 'depth' && key !== 'age') {
+        if (typeof dp[key] === 'number' && !NON_PROXY_KEYS.includes(key)) {
             proxies.add(key);
         }
       });
@@ -49,6 +52,7 @@ const DashboardTab: React.FC<DashboardTabProps> = ({ core, section, microfossils
   useEffect(() => {
     // Reset state when section changes
     setDetectedEvents([]);
+    setStatisticalEvents([]);
     setIsDetectingEvents(false);
     
     // Set default axis and proxy
@@ -99,6 +103,25 @@ const DashboardTab: React.FC<DashboardTabProps> = ({ core, section, microfossils
     }
   };
 
+  const handleDetectStatisticalEvents = () => {
+    if (!hasAgeData) {
+        setToast({ message: 'Event detection requires an age model. Please generate one in the Synthesis tab.', type: 'error', show: true });
+        return;
+    }
+    try {
+        const events = detectStatisticalEvents(section.dataPoints, selectedProxy, { significance });
+        setStatisticalEvents(events);
+        const matched = events.filter(e => e.catalogueMatch).length;
+        setToast({
+            message: events.length > 0 ? `Found ${events.length} significant shifts/excursions (${matched} matched to known events).` : `No shifts or excursions significant at p < ${significance}.`,
+            type: events.length > 0 ? 'success' : 'info',
+            show: true,
+        });
+    } catch (error: any) {
+        setToast({ message: `Error detecting events: ${error.message}`, type: 'error', show: true });
+    }
+  };
+
   const exportToCsv = () => {
     if (section.dataPoints.length === 0) {
       setToast({ message: 'No data points to export.', type: 'info', show: true });
@@ -202,7 +225,7 @@ const DashboardTab: React.FC<DashboardTabProps> = ({ core, section, microfossils
                 </div>
             </div>
         </div>
-        <SingleSectionChart data={section.dataPoints} xAxisKey={xAxis} yAxisKey={selectedProxy} events={detectedEvents} />
+        <SingleSectionChart data={section.dataPoints} xAxisKey={xAxis} yAxisKey={selectedProxy} events={[...detectedEvents, ...statisticalEvents]} />
       </div>
       
       <div className="bg-background-tertiary/50 p-4 rounded-xl shadow-lg border border-border-primary/50">
@@ -251,24 +274,58 @@ const DashboardTab: React.FC<DashboardTabProps> = ({ core, section, microfossils
         )}
       </div>
 
-      <div className="bg-background-tertiary/50 p-4 rounded-xl shadow-lg border border-border-primary/50">
-        <h3 className="text-lg font-semibold text-content-primary flex items-center gap-2 mb-3"><BrainCircuit size={20} className="text-accent-primary"/> AI-Powered Event Detection</h3>
-        <button onClick={handleDetectEvents} disabled={!hasAgeData || isDetectingEvents} className="flex items-center gap-2 px-4 py-2 rounded-lg bg-accent-primary/80 text-accent-primary-text hover:bg-accent-primary transition-colors text-sm font-semibold disabled:bg-slate-600 disabled:cursor-not-allowed">
-            {isDetectingEvents ? <Loader2 size={16} className="animate-spin" /> : <BrainCircuit size={16}/>}
-            {isDetectingEvents ? 'Detecting Events...' : 'Detect Paleo Events'}
-        </button>
-        {!hasAgeData && <p className="text-xs text-content-muted mt-2">Event detection requires an age model. Please generate one in the 'Synthesis' tab.</p>}
-        {detectedEvents.length > 0 && (
-            <div className="mt-4 space-y-3 max-h-60 overflow-y-auto pr-2">
-                {detectedEvents.map(event => (
-                    <div key={event.eventName} className="p-3 bg-background-primary/50 rounded-lg">
-                        <h4 className="font-bold text-content-primary">{event.eventName}</h4>
-                        <p className="text-xs font-mono text-accent-secondary">({event.startAge} - {event.endAge} ka)</p>
-                        <p className="text-sm text-content-secondary mt-1">{event.description}</p>
-                    </div>
-                ))}
-            </div>
-        )}
+      <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
+        <div className="bg-background-tertiary/50 p-4 rounded-xl shadow-lg border border-border-primary/50">
+          <h3 className="text-lg font-semibold text-content-primary flex items-center gap-2 mb-3"><BrainCircuit size={20} className="text-accent-primary"/> AI-Powered Event Detection</h3>
+          <button onClick={handleDetectEvents} disabled={!hasAgeData || isDetectingEvents} className="flex items-center gap-2 px-4 py-2 rounded-lg bg-accent-primary/80 text-accent-primary-text hover:bg-accent-primary transition-colors text-sm font-semibold disabled:bg-slate-600 disabled:cursor-not-allowed">
+              {isDetectingEvents ? <Loader2 size={16} className="animate-spin" /> : <BrainCircuit size={16}/>}
+              {isDetectingEvents ? 'Detecting Events...' : 'Detect Paleo Events'}
+          </button>
+          {!hasAgeData && <p className="text-xs text-content-muted mt-2">Event detection requires an age model. Please generate one in the 'Synthesis' tab.</p>}
+          {detectedEvents.length > 0 && (
+              <div className="mt-4 space-y-3 max-h-60 overflow-y-auto pr-2">
+                  {detectedEvents.map((event, index) => (
+                      <div key={index} className="p-3 bg-background-primary/50 rounded-lg">
+                          <h4 className="font-bold text-content-primary">{event.eventName}</h4>
+                          <p className="text-xs font-mono text-accent-secondary">({event.startAge} - {event.endAge} ka)</p>
+                          <p className="text-sm text-content-secondary mt-1">{event.description}</p>
+                      </div>
+                  ))}
+              </div>
+          )}
+        </div>
+
+        <div className="bg-background-tertiary/50 p-4 rounded-xl shadow-lg border border-border-primary/50">
+          <h3 className="text-lg font-semibold text-content-primary flex items-center gap-2 mb-3"><Sigma size={20} className="text-accent-primary"/> Statistical Event Detection</h3>
+          <div className="flex items-center gap-3 flex-wrap">
+              <button onClick={handleDetectStatisticalEvents} disabled={!hasAgeData || !selectedProxy} className="flex items-center gap-2 px-4 py-2 rounded-lg bg-accent-primary/80 text-accent-primary-text hover:bg-accent-primary transition-colors text-sm font-semibold disabled:bg-slate-600 disabled:cursor-not-allowed">
+                  <Sigma size={16}/> Detect Shifts &amp; Excursions
+              </button>
+              <label className="text-xs font-medium text-content-muted">
+                  Significance:
+                  <select value={significance} onChange={e => setSignificance(parseFloat(e.target.value))} className={`${selectClass} ml-2`} style={{ backgroundImage: selectIcon, backgroundPosition: 'right 0.5rem center', backgroundSize: '1.5em 1.5em' }}>
+                      <option value={0.05}>p &lt; 0.05</option>
+                      <option value={0.01}>p &lt; 0.01</option>
+                      <option value={0.001}>p &lt; 0.001</option>
+                  </select>
+              </label>
+          </div>
+          <p className="text-xs text-content-muted mt-2">Changepoints (PELT) and running-median z-score excursions in {PROXY_LABELS[selectedProxy] || selectedProxy || 'the selected proxy'}, matched against Heinrich, D-O, Younger Dryas and MIS boundary ages.</p>
+          {statisticalEvents.length > 0 && (
+              <div className="mt-4 space-y-3 max-h-60 overflow-y-auto pr-2">
+                  {statisticalEvents.map((event, index) => (
+                      <div key={index} className="p-3 bg-background-primary/50 rounded-lg">
+                          <div className="flex items-center justify-between gap-2">
+                              <h4 className="font-bold text-content-primary">{event.eventName}</h4>
+                              <span className="text-[10px] uppercase tracking-wide text-content-muted">{event.kind}</span>
+                          </div>
+                          <p className="text-xs font-mono text-accent-secondary">({event.startAge.toFixed(2)} - {event.endAge.toFixed(2)} ka) · effect {event.effectSize?.toFixed(2)}</p>
+                          <p className="text-sm text-content-secondary mt-1">{event.description}</p>
+                      </div>
+                  ))}
+              </div>
+          )}
+        </div>
       </div>
 
       <div className="bg-background-tertiary/50 p-4 rounded-xl shadow-lg border border-border-primary/50">
@@ -1,18 +1,24 @@
 import React from 'react';
-import type { Section } from '../types';
+import type { Section, Microfossil } from '../types';
 import DataTable from './DataTable';
 import DataInputManager from './DataInputManager';
+import TephraLayerEditor from './TephraLayerEditor';
 
 interface DataEntryTabProps {
   section: Section;
+  microfossils: Microfossil[];
   onUpdateSection: (section: Section) => void;
 }
 
-const DataEntryTab: React.FC<DataEntryTabProps> = ({ section, onUpdateSection }) => {
+const DataEntryTab: React.FC<DataEntryTabProps> = ({ section, microfossils, onUpdateSection }) => {
   return (
     <div className="space-y-6">
       <div className="bg-background-tertiary/50 p-4 rounded-xl shadow-lg border border-border-primary/50">
-        <DataInputManager section={section} onUpdateSection={onUpdateSection} />
+        <DataInputManager section={section} microfossils={microfossils} onUpdateSection={onUpdateSection} />
+      </div>
+
+      <div className="bg-background-tertiary/50 p-4 rounded-xl shadow-lg border border-border-primary/50">
+        <TephraLayerEditor section={section} onUpdateSection={onUpdateSection} />
       </div>
       
       <div className="bg-background-tertiary/50 p-4 rounded-xl shadow-lg border border-border-primary/50">
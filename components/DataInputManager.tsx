@@ -1,10 +1,14 @@
 import React, { useState, useRef } from 'react';
-import type { Section, DataPoint, LabAnalysis } from '../types';
+import type { Section, DataPoint, LabAnalysis, SstCalibrationRecord, SeawaterD18OSettings, Microfossil } from '../types';
 import { UploadCloud, CheckCircle, AlertCircle, Loader2, Database, PlusCircle } from 'lucide-react';
 import Papa from 'papaparse';
 import { mapCsvHeaders } from '../services/geminiService';
 import HeaderMappingModal from './HeaderMappingModal';
+import SstCalibrationPanel from './SstCalibrationPanel';
+import SeawaterIsotopePanel from './SeawaterIsotopePanel';
+import TransferFunctionPanel from './TransferFunctionPanel';
 import { PROXY_LABELS } from '../constants';
+import { recalculateDerivedColumns, setSstCalibrations, setSeawaterD18O } from '../services/proxyCalibrationService';
 
 const calculateAveragesFromDataPoints = (dataPoints: DataPoint[]): LabAnalysis => {
     if (!dataPoints || dataPoints.length === 0) {
@@ -41,6 +45,7 @@ const calculateAveragesFromDataPoints = (dataPoints: DataPoint[]): LabAnalysis =
 
 interface DataInputManagerProps {
   section: Section;
+  microfossils: Microfossil[];
   onUpdateSection: (section: Section) => void;
 }
 
@@ -51,6 +56,7 @@ const initialFormState: Record<string, string> = {
   delta13C: '',
   mgCaRatio: '',
   tex86: '',
+  uk37: '',
   alkenoneSST: '',
   baCa: '',
   srCa: '',
@@ -59,11 +65,11 @@ const initialFormState: Record<string, string> = {
 };
 
 const manualEntryFields = [
-    'depth', 'delta18O', 'delta13C', 'mgCaRatio', 'tex86',
+    'depth', 'delta18O', 'delta13C', 'mgCaRatio', 'tex86', 'uk37',
     'alkenoneSST', 'baCa', 'srCa', 'cdCa', 'radiocarbonDate'
 ];
 
-const DataInputManager: React.FC<DataInputManagerProps> = ({ section, onUpdateSection }) => {
+const DataInputManager: React.FC<DataInputManagerProps> = ({ section, microfossils, onUpdateSection }) => {
   const [formState, setFormState] = useState({
     ...initialFormState,
     subsection: `Sample ${section.dataPoints.length + 1}`,
@@ -80,6 +86,22 @@ const DataInputManager: React.FC<DataInputManagerProps> = ({ section, onUpdateSe
   const [csvHeaders, setCsvHeaders] = useState<string[]>([]);
   const [headerMap, setHeaderMap] = useState<Record<string, string | null>>({});
 
+  // Derived (calibrated) columns are refreshed before every save so they always follow their sources.
+  const commitSection = (updated: Section) => {
+    const recalculated = recalculateDerivedColumns(updated);
+    onUpdateSection({ ...recalculated, labAnalysis: calculateAveragesFromDataPoints(recalculated.dataPoints) });
+  };
+
+  const handleCalibrationsChange = (calibrations: SstCalibrationRecord[]) => {
+    const updated = setSstCalibrations(section, calibrations);
+    onUpdateSection({ ...updated, labAnalysis: calculateAveragesFromDataPoints(updated.dataPoints) });
+  };
+
+  const handleSeawaterChange = (settings: SeawaterD18OSettings | undefined) => {
+    const updated = setSeawaterD18O(section, settings);
+    onUpdateSection({ ...updated, labAnalysis: calculateAveragesFromDataPoints(updated.dataPoints) });
+  };
+
   const handleFormChange = (e: React.ChangeEvent<HTMLInputElement>) => {
     const { name, value } = e.target;
     setFormState(prev => ({ ...prev, [name]: value }));
@@ -126,8 +148,7 @@ const DataInputManager: React.FC<DataInputManagerProps> = ({ section, onUpdateSe
     
     newDataPoints.sort((a, b) => (a.depth || 0) - (b.depth || 0));
     
-    const newLabAnalysis = calculateAveragesFromDataPoints(newDataPoints);
-    onUpdateSection({ ...section, dataPoints: newDataPoints, labAnalysis: newLabAnalysis });
+    commitSection({ ...section, dataPoints: newDataPoints });
 
     setFormState({
         ...initialFormState,
@@ -240,9 +261,8 @@ const DataInputManager: React.FC<DataInputManagerProps> = ({ section, onUpdateSe
             });
 
             const mergedPoints = Array.from(sectionPointsMap.values()).sort((a,b) => (a.depth || 0) - (b.depth || 0));
-            const newLabAnalysis = calculateAveragesFromDataPoints(mergedPoints);
 
-            onUpdateSection({ ...section, dataPoints: mergedPoints, labAnalysis: newLabAnalysis });
+            commitSection({ ...section, dataPoints: mergedPoints });
             setStatus({ type: 'success', msg: `${addedCount} new subsections added, ${updatedCount} updated.` });
             resetFileInput();
             setTimeout(() => setStatus(null), 4000);
@@ -334,6 +354,12 @@ const DataInputManager: React.FC<DataInputManagerProps> = ({ section, onUpdateSe
         </div>
       </div>
       
+      <SstCalibrationPanel calibrations={section.sstCalibrations ?? []} onChange={handleCalibrationsChange} />
+
+      <TransferFunctionPanel section={section} microfossils={microfossils} onChange={commitSection} />
+
+      <SeawaterIsotopePanel section={section} onChange={handleSeawaterChange} />
+
       {status && (
         <div className={`mt-4 p-3 rounded-lg flex items-center gap-2 text-sm animate-fade-in-fast ${status.type === 'success' ? 'bg-success-primary/20 text-success-primary' : status.type === 'error' ? 'bg-danger-primary/20 text-danger-primary' : 'bg-accent-secondary/20 text-accent-secondary'}`}>
             {isProcessing ? <Loader2 size={18} className="animate-spin"/> : status.type === 'success' ? <CheckCircle size={18}/> : <AlertCircle size={18}/>}
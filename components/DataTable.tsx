@@ -2,6 +2,7 @@ import React from 'react';
 import type { DataPoint, LabAnalysis } from '../types';
 import { Table } from 'lucide-react';
 import { PROXY_LABELS } from '../constants';
+import { withMisHeader, columnValue, MIS_COLUMN } from '../services/marineIsotopeStageService';
 
 interface DataTableProps {
   data: DataPoint[];
@@ -29,6 +30,7 @@ const DataTable: React.FC<DataTableProps> = ({ data, averages }) => {
   } else {
     headers = allHeaders;
   }
+  headers = withMisHeader(headers, data);
 
   const getAverage = (header: string): string | null => {
     if (!averages) return null;
@@ -58,11 +60,14 @@ const DataTable: React.FC<DataTableProps> = ({ data, averages }) => {
         <tbody className="divide-y divide-border-primary">
           {data.map((dp, index) => (
             <tr key={dp.subsection || index} className="bg-background-secondary hover:bg-background-tertiary/60">
-              {headers.map(header => (
-                <td key={header} className="px-6 py-3 font-mono">
-                  {dp[header] === null || dp[header] === undefined ? '-' : typeof dp[header] === 'number' ? (dp[header] as number).toFixed(4) : String(dp[header])}
-                </td>
-              ))}
+              {headers.map(header => {
+                const value = columnValue(dp, header);
+                return (
+                  <td key={header} className="px-6 py-3 font-mono">
+                    {value === null || value === undefined ? '-' : typeof value === 'number' && header !== MIS_COLUMN ? value.toFixed(4) : String(value)}
+                  </td>
+                );
+              })}
             </tr>
           ))}
         </tbody>
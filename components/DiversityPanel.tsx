@@ -0,0 +1,172 @@
+import React, { useState, useMemo } from 'react';
+import type { Section, AssemblageZone } from '../types';
+import { LineChart, Line, XAxis, YAxis, CartesianGrid, Tooltip, ReferenceArea, ResponsiveContainer } from 'recharts';
+import {
+  diversityRows, defaultRarefactionSize, runConiss, conissZones, exportDiversityCsv, exportZonesCsv, DIVERSITY_LABELS,
+  type DiversityIndex, type ConissResult,
+} from '../services/diversityService';
+import { downloadCsv } from '../services/csvExportService';
+import { Sigma, Download, Save, Trash2 } from 'lucide-react';
+
+interface DiversityPanelProps {
+  section: Section;
+  onUpdateSection: (section: Section) => void;
+}
+
+const INDICES: DiversityIndex[] = ['shannon', 'simpson', 'fisherAlpha', 'rarefied', 'dominance'];
+const MAX_ZONES = 10;
+const CHART_HEIGHT = 360;
+const CHART_MARGIN = { top: 5, right: 10, bottom: 20 };
+const X_AXIS_HEIGHT = 30; // recharts default, kept so the dendrogram lines up with the plot area
+
+const zoneShade = (index: number) => index % 2 === 0 ? 'var(--accent-primary)' : 'var(--text-muted)';
+
+/** CONISS dendrogram: samples down the depth axis, total dispersion across. */
+const ConissDendrogram: React.FC<{ result: ConissResult; zones: AssemblageZone[] }> = ({ result, zones }) => {
+  const width = 160;
+  const top = CHART_MARGIN.top;
+  const height = CHART_HEIGHT - CHART_MARGIN.top - CHART_MARGIN.bottom - X_AXIS_HEIGHT;
+  const minDepth = result.depths[0];
+  const depthSpan = result.depths[result.depths.length - 1] - minDepth || 1;
+  const toY = (depth: number) => top + ((depth - minDepth) / depthSpan) * height;
+  const toX = (dispersion: number) => 4 + (dispersion / (result.totalDispersion || 1)) * (width - 8);
+
+  // Each cluster is drawn from its mean sample position; it is keyed by its first sample.
+  const nodes = new Map<number, { y: number; x: number; size: number }>(result.depths.map((depth, i) => [i, { y: toY(depth), x: toX(0), size: 1 }]));
+  const segments = result.merges.map(merge => {
+    const upper = nodes.get(merge.left)!;
+    const lower = nodes.get(merge.right)!;
+    const x = toX(merge.dispersion);
+    nodes.set(merge.left, { y: (upper.y * upper.size + lower.y * lower.size) / (upper.size + lower.size), x, size: upper.size + lower.size });
+    nodes.delete(merge.right);
+    return `M ${upper.x} ${upper.y} H ${x} V ${lower.y} H ${lower.x}`;
+  });
+
+  return (
+    <svg width={width} height={CHART_HEIGHT} className="flex-shrink-0">
+      {zones.slice(1).map(zone => (
+        <line key={zone.id} x1={0} x2={width} y1={toY(zone.topDepth)} y2={toY(zone.topDepth)} stroke="var(--danger-primary)" strokeDasharray="4 3" />
+      ))}
+      {segments.map((d, i) => <path key={i} d={d} fill="none" stroke="var(--text-secondary)" strokeWidth="1" />)}
+      <text x={width / 2} y={CHART_HEIGHT - 4} fill="var(--text-muted)" fontSize="11" textAnchor="middle">Total dispersion</text>
+    </svg>
+  );
+};
+
+const DiversityPanel: React.FC<DiversityPanelProps> = ({ section, onUpdateSection }) => {
+  const [rarefactionInput, setRarefactionInput] = useState('');
+  const defaultSize = useMemo(() => defaultRarefactionSize(section), [section]);
+  const rarefactionSize = parseInt(rarefactionInput, 10) > 0 ? parseInt(rarefactionInput, 10) : defaultSize;
+  const rows = useMemo(() => diversityRows(section, rarefactionSize), [section, rarefactionSize]);
+  const coniss = useMemo(() => runConiss(section), [section]);
+  const [zoneCount, setZoneCount] = useState<number | null>(null);
+  const chosenZones = zoneCount ?? coniss?.significantZones ?? 1;
+  const previewZones = useMemo(() => coniss ? conissZones(coniss, chosenZones) : [], [coniss, chosenZones]);
+  const savedZones = section.assemblageZones ?? [];
+  const shownZones = coniss ? previewZones : savedZones;
+
+  if ((section.censusSamples?.length ?? 0) === 0) return null;
+
+  const handleSaveZones = () => onUpdateSection({ ...section, assemblageZones: previewZones });
+  const handleClearZones = () => {
+    const { assemblageZones: _removed, ...rest } = section;
+    onUpdateSection(rest);
+  };
+
+  const inputClass = "bg-background-interactive border border-border-secondary rounded-md p-1.5 text-xs";
+  const buttonClass = "flex items-center gap-1 px-3 py-1.5 rounded-md text-xs font-semibold disabled:opacity-50";
+  const depthDomain = rows.length > 0 ? [rows[0].depth, rows[rows.length - 1].depth] : [0, 1];
+
+  return (
+    <div className="p-4 bg-background-tertiary/50 rounded-xl shadow-lg border border-border-primary/50">
+      <div className="flex items-center justify-between mb-2 flex-wrap gap-2">
+        <h3 className="text-lg font-semibold text-content-primary flex items-center gap-2"><Sigma size={20} className="text-accent-primary"/> Diversity &amp; Assemblage Zones</h3>
+        <div className="flex items-center gap-2">
+          <button onClick={() => downloadCsv(exportDiversityCsv(rows, shownZones, rarefactionSize), `${section.core_id}_${section.name}_diversity.csv`)} disabled={rows.length === 0} className={`${buttonClass} bg-success-primary/80 text-white hover:bg-success-primary`}>
+            <Download size={14} /> Indices
+          </button>
+          <button onClick={() => downloadCsv(exportZonesCsv(shownZones), `${section.core_id}_${section.name}_zones.csv`)} disabled={shownZones.length === 0} className={`${buttonClass} bg-success-primary/80 text-white hover:bg-success-primary`}>
+            <Download size={14} /> Zones
+          </button>
+        </div>
+      </div>
+      <p className="text-xs text-content-muted mb-3">
+        Indices use the itemised counts of each sample. Zones come from CONISS on square-root transformed percentages; the broken-stick model suggests how many are significant. Saved zones are drawn on the stratigraphic column.
+      </p>
+
+      <div className="flex items-center gap-3 flex-wrap mb-3 text-xs">
+        <label className="flex items-center gap-2 text-content-secondary">
+          Rarefy to
+          <input type="number" min={1} value={rarefactionInput} placeholder={defaultSize.toString()} onChange={e => setRarefactionInput(e.target.value)} className={`${inputClass} w-20`} />
+          specimens
+        </label>
+        {coniss ? (
+          <>
+            <label className="flex items-center gap-2 text-content-secondary">
+              Zones
+              <select value={chosenZones} onChange={e => setZoneCount(parseInt(e.target.value, 10))} className={inputClass}>
+                {Array.from({ length: Math.min(MAX_ZONES, coniss.depths.length) }, (_, i) => i + 1).map(n => (
+                  <option key={n} value={n}>{n}{n === coniss.significantZones ? ' (broken stick)' : ''}</option>
+                ))}
+              </select>
+            </label>
+            <button onClick={handleSaveZones} className={`${buttonClass} bg-accent-primary/20 text-accent-primary-hover hover:bg-accent-primary/30`}>
+              <Save size={14} /> Save zones
+            </button>
+          </>
+        ) : (
+          <span className="text-content-muted">CONISS needs at least three counted samples.</span>
+        )}
+        {savedZones.length > 0 && (
+          <button onClick={handleClearZones} className="flex items-center gap-1 text-danger-primary hover:underline">
+            <Trash2 size={12} /> Clear saved zones ({savedZones.map(z => z.label).join(', ')})
+          </button>
+        )}
+      </div>
+
+      {rows.length > 0 && (
+        <div className="flex overflow-x-auto">
+          {INDICES.map((index, i) => (
+            <div key={index} className="flex-1 min-w-[140px]" style={{ height: CHART_HEIGHT }}>
+              <ResponsiveContainer>
+                <LineChart layout="vertical" data={rows.filter(row => row[index] !== null)} margin={{ ...CHART_MARGIN, left: i === 0 ? 10 : -20 }}>
+                  <CartesianGrid strokeDasharray="3 3" />
+                  {shownZones.map((zone, z) => (
+                    <ReferenceArea key={zone.id} y1={zone.topDepth} y2={zone.bottomDepth} fill={zoneShade(z)} fillOpacity={0.08} ifOverflow="hidden" />
+                  ))}
+                  <XAxis type="number" height={X_AXIS_HEIGHT} domain={['auto', 'auto']} tick={{ fontSize: 11, fill: 'var(--recharts-axis-stroke)' }} label={{ value: DIVERSITY_LABELS[index], position: 'insideBottom', offset: -15, fontSize: 11 }} />
+                  <YAxis type="number" dataKey="depth" domain={depthDomain} reversed tick={i === 0 ? { fontSize: 11, fill: 'var(--recharts-axis-stroke)' } : false} label={i === 0 ? { value: 'Depth (cmbsf)', angle: -90, position: 'insideLeft', fontSize: 12 } : undefined} />
+                  <Tooltip formatter={(value: any) => typeof value === 'number' ? value.toFixed(3) : value} labelFormatter={(label) => `${Number(label).toFixed(1)} cm`} />
+                  <Line type="linear" dataKey={index} name={DIVERSITY_LABELS[index]} stroke="var(--accent-primary)" dot={{ r: 2 }} isAnimationActive={false} />
+                </LineChart>
+              </ResponsiveContainer>
+            </div>
+          ))}
+          {coniss && <ConissDendrogram result={coniss} zones={previewZones} />}
+        </div>
+      )}
+
+      {shownZones.length > 0 && (
+        <table className="w-full text-xs mt-3">
+          <thead>
+            <tr className="text-content-muted text-left">
+              <th className="p-1">Zone</th><th className="p-1">Top (cm)</th><th className="p-1">Bottom (cm)</th><th className="p-1">Samples</th>
+            </tr>
+          </thead>
+          <tbody>
+            {shownZones.map(zone => (
+              <tr key={zone.id} className="border-t border-border-primary/50">
+                <td className="p-1 font-semibold text-content-secondary">{zone.label}</td>
+                <td className="p-1 font-mono">{zone.topDepth}</td>
+                <td className="p-1 font-mono">{zone.bottomDepth}</td>
+                <td className="p-1 font-mono">{zone.sampleCount}</td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      )}
+    </div>
+  );
+};
+
+export default DiversityPanel;
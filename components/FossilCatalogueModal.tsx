@@ -0,0 +1,233 @@
+import React, { useState, useEffect } from 'react';
+import type { Microfossil, CatalogueAccess } from '../types';
+import * as coreService from '../services/coreService';
+import { catalogueOf, isOwnEntry } from '../services/fossilCatalogueService';
+import CatalogueBadge from './CatalogueBadge';
+import { X, Library, Users, Plus, LogIn, LogOut, Send, Check, Ban, Loader2, AlertTriangle, CheckCircle } from 'lucide-react';
+
+interface FossilCatalogueModalProps {
+    onClose: () => void;
+    userId: string;
+    microfossils: Microfossil[];
+    access: CatalogueAccess;
+    onAccessChanged: () => Promise<void>;
+    onFossilUpdated: (fossil: Microfossil) => void;
+}
+
+const fossilName = (fossil: Microfossil) => `${fossil.taxonomy.genus} ${fossil.taxonomy.species}`;
+
+const FossilCatalogueModal: React.FC<FossilCatalogueModalProps> = ({ onClose, userId, microfossils, access, onAccessChanged, onFossilUpdated }) => {
+    const [newLabName, setNewLabName] = useState('');
+    const [inviteCode, setInviteCode] = useState('');
+    const [pending, setPending] = useState<Microfossil[]>([]);
+    const [reviewNotes, setReviewNotes] = useState<Record<string, string>>({});
+    const [busy, setBusy] = useState<string | null>(null);
+    const [error, setError] = useState<string | null>(null);
+    const [message, setMessage] = useState<string | null>(null);
+
+    const ownEntries = microfossils
+        .filter(f => isOwnEntry(f, userId) && catalogueOf(f) !== 'curated')
+        .sort((a, b) => fossilName(a).localeCompare(fossilName(b)));
+
+    useEffect(() => {
+        if (!access.isCurator) return;
+        coreService.fetchPendingReviews().then(setPending).catch((err: any) => setError(err.message));
+    }, [access.isCurator]);
+
+    // Runs one action at a time, keyed so only its button shows a spinner.
+    const run = async (key: string, action: () => Promise<string | void>) => {
+        setBusy(key);
+        setError(null);
+        setMessage(null);
+        try {
+            const result = await action();
+            if (result) setMessage(result);
+        } catch (err: any) {
+            setError(err.message);
+        } finally {
+            setBusy(null);
+        }
+    };
+
+    const handleCreateLab = () => run('create', async () => {
+        await coreService.createLab(newLabName.trim());
+        setNewLabName('');
+        await onAccessChanged();
+        return `Lab "${newLabName.trim()}" created. Share its invite code with your colleagues.`;
+    });
+
+    const handleJoinLab = () => run('join', async () => {
+        await coreService.joinLab(inviteCode.trim());
+        setInviteCode('');
+        await onAccessChanged();
+        return 'You joined the lab; its catalogue is now available.';
+    });
+
+    const handleLeaveLab = (labId: string) => run(`leave-${labId}`, async () => {
+        await coreService.leaveLab(labId, userId);
+        await onAccessChanged();
+    });
+
+    const handleMove = (fossil: Microfossil, target: string) => run(`move-${fossil.id}`, async () => {
+        const updated = target === 'personal'
+            ? await coreService.moveFossilToCatalogue(fossil.id, 'personal', null)
+            : await coreService.moveFossilToCatalogue(fossil.id, 'lab', target);
+        onFossilUpdated(updated);
+    });
+
+    const handleSubmitForReview = (fossil: Microfossil) => run(`submit-${fossil.id}`, async () => {
+        onFossilUpdated(await coreService.submitFossilForReview(fossil.id));
+        return `${fossilName(fossil)} was sent to the curators.`;
+    });
+
+    const handleReview = (fossil: Microfossil, approve: boolean) => run(`review-${fossil.id}`, async () => {
+        const updated = await coreService.reviewFossil(fossil.id, approve, reviewNotes[fossil.id] ?? '', userId);
+        setPending(prev => prev.filter(f => f.id !== fossil.id));
+        if (approve || isOwnEntry(updated, userId)) onFossilUpdated(updated);
+        return `${fossilName(fossil)} ${approve ? 'is now in the curated catalogue' : 'was declined'}.`;
+    });
+
+    const inputClass = "bg-background-interactive border border-border-secondary rounded-lg p-2 text-sm text-content-primary placeholder-content-muted focus:ring-2 focus:ring-accent-primary focus:outline-none transition";
+    const buttonClass = "flex items-center gap-1 px-3 py-2 rounded-lg text-sm font-semibold transition disabled:opacity-50";
+    const spinner = (key: string, icon: React.ReactNode) => busy === key ? <Loader2 size={14} className="animate-spin" /> : icon;
+
+    return (
+        <div className="fixed inset-0 bg-black/70 backdrop-blur-sm flex items-center justify-center z-50 animate-fade-in-fast" onClick={onClose}>
+            <div className="bg-background-tertiary rounded-xl shadow-2xl p-8 w-full max-w-3xl border border-border-primary m-4 max-h-[90vh] flex flex-col" onClick={(e) => e.stopPropagation()}>
+                <div className="flex justify-between items-center mb-6">
+                    <div>
+                        <h2 className="text-2xl font-bold text-content-primary flex items-center gap-2"><Library /> Fossil Catalogues</h2>
+                        <p className="text-content-muted text-sm">Personal entries are visible to you only, lab entries to the lab's members, curated entries to everyone.</p>
+                    </div>
+                    <button type="button" onClick={onClose} className="text-content-muted hover:text-content-primary transition-colors"><X size={24} /></button>
+                </div>
+
+                {error && <div className="p-3 mb-4 rounded-lg flex items-center gap-2 text-sm bg-danger-primary/20 text-danger-primary"><AlertTriangle size={18}/>{error}</div>}
+                {message && <div className="p-3 mb-4 rounded-lg flex items-center gap-2 text-sm bg-success-primary/20 text-success-primary"><CheckCircle size={18}/>{message}</div>}
+
+                <div className="flex-grow overflow-y-auto pr-2 space-y-6">
+                    <div className="bg-background-primary/50 p-6 rounded-xl border border-border-primary space-y-4">
+                        <h3 className="text-xl font-semibold text-content-primary flex items-center gap-2"><Users /> Labs</h3>
+                        {access.labs.length === 0 ? (
+                            <p className="text-sm text-content-muted">You are not a member of any lab yet.</p>
+                        ) : (
+                            <ul className="space-y-2">
+                                {access.labs.map(lab => (
+                                    <li key={lab.id} className="flex items-center justify-between gap-3 p-3 rounded-lg bg-background-tertiary/60 border border-border-primary">
+                                        <div>
+                                            <p className="font-semibold text-content-primary">{lab.name} <span className="text-xs text-content-muted font-normal">({lab.role})</span></p>
+                                            <p className="text-xs text-content-muted">Invite code: <span className="font-mono text-content-secondary select-all">{lab.inviteCode}</span></p>
+                                        </div>
+                                        <button onClick={() => handleLeaveLab(lab.id)} disabled={busy !== null} className={`${buttonClass} text-danger-primary hover:bg-danger-primary/10`}>
+                                            {spinner(`leave-${lab.id}`, <LogOut size={14} />)} Leave
+                                        </button>
+                                    </li>
+                                ))}
+                            </ul>
+                        )}
+                        <div className="grid grid-cols-1 md:grid-cols-2 gap-3">
+                            <div className="flex gap-2">
+                                <input type="text" value={newLabName} onChange={e => setNewLabName(e.target.value)} placeholder="New lab name" className={`${inputClass} flex-grow`} />
+                                <button onClick={handleCreateLab} disabled={busy !== null || newLabName.trim() === ''} className={`${buttonClass} bg-accent-primary/20 text-accent-primary-hover hover:bg-accent-primary/30`}>
+                                    {spinner('create', <Plus size={14} />)} Create
+                                </button>
+                            </div>
+                            <div className="flex gap-2">
+                                <input type="text" value={inviteCode} onChange={e => setInviteCode(e.target.value)} placeholder="Invite code" className={`${inputClass} flex-grow font-mono`} />
+                                <button onClick={handleJoinLab} disabled={busy !== null || inviteCode.trim() === ''} className={`${buttonClass} bg-accent-primary/20 text-accent-primary-hover hover:bg-accent-primary/30`}>
+                                    {spinner('join', <LogIn size={14} />)} Join
+                                </button>
+                            </div>
+                        </div>
+                    </div>
+
+                    <div className="bg-background-primary/50 p-6 rounded-xl border border-border-primary space-y-3">
+                        <h3 className="text-xl font-semibold text-content-primary">My Entries</h3>
+                        <p className="text-sm text-content-muted">Share an entry with a lab, or submit it to the curators for the catalogue every user sees.</p>
+                        {ownEntries.length === 0 ? (
+                            <p className="text-sm text-content-muted">You have no personal or lab entries.</p>
+                        ) : (
+                            <ul className="space-y-2">
+                                {ownEntries.map(fossil => (
+                                    <li key={fossil.id} className="p-3 rounded-lg bg-background-tertiary/60 border border-border-primary space-y-2">
+                                        <div className="flex items-center justify-between gap-3 flex-wrap">
+                                            <div>
+                                                <p className="font-semibold text-content-primary italic">{fossilName(fossil)} <span className="text-xs text-content-muted not-italic font-mono">{fossil.code}</span></p>
+                                                <CatalogueBadge fossil={fossil} />
+                                            </div>
+                                            <div className="flex items-center gap-2">
+                                                <select
+                                                    value={catalogueOf(fossil) === 'lab' ? fossil.ownership?.labId ?? 'personal' : 'personal'}
+                                                    onChange={e => handleMove(fossil, e.target.value)}
+                                                    disabled={busy !== null}
+                                                    className={`${inputClass} text-xs`}
+                                                >
+                                                    <option value="personal">Personal</option>
+                                                    {access.labs.map(lab => <option key={lab.id} value={lab.id}>Lab · {lab.name}</option>)}
+                                                </select>
+                                                <button
+                                                    onClick={() => handleSubmitForReview(fossil)}
+                                                    disabled={busy !== null || fossil.ownership?.reviewStatus === 'pending'}
+                                                    className={`${buttonClass} text-xs bg-success-primary/20 text-success-primary hover:bg-success-primary/30`}
+                                                >
+                                                    {spinner(`submit-${fossil.id}`, <Send size={14} />)} {fossil.ownership?.reviewStatus === 'rejected' ? 'Resubmit' : 'Submit for curation'}
+                                                </button>
+                                            </div>
+                                        </div>
+                                        {fossil.ownership?.reviewStatus === 'rejected' && fossil.ownership.reviewNote && (
+                                            <p className="text-xs text-content-muted">Curator's note: {fossil.ownership.reviewNote}</p>
+                                        )}
+                                    </li>
+                                ))}
+                            </ul>
+                        )}
+                    </div>
+
+                    {access.isCurator && (
+                        <div className="bg-background-primary/50 p-6 rounded-xl border border-border-primary space-y-3">
+                            <h3 className="text-xl font-semibold text-content-primary">Awaiting Curation</h3>
+                            {pending.length === 0 ? (
+                                <p className="text-sm text-content-muted">No entries are waiting for review.</p>
+                            ) : (
+                                <ul className="space-y-2">
+                                    {pending.map(fossil => (
+                                        <li key={fossil.id} className="p-3 rounded-lg bg-background-tertiary/60 border border-border-primary space-y-2">
+                                            <div className="flex items-center justify-between gap-3 flex-wrap">
+                                                <div>
+                                                    <p className="font-semibold text-content-primary italic">{fossilName(fossil)} <span className="text-xs text-content-muted not-italic font-mono">{fossil.code}</span></p>
+                                                    <p className="text-xs text-content-muted">{fossil.taxonomy.family}{fossil.authority ? ` · ${fossil.authority.acceptedName} ${fossil.authority.authorship}` : ''}</p>
+                                                </div>
+                                                <CatalogueBadge fossil={fossil} />
+                                            </div>
+                                            <div className="flex items-center gap-2">
+                                                <input
+                                                    type="text"
+                                                    value={reviewNotes[fossil.id] ?? ''}
+                                                    onChange={e => setReviewNotes(prev => ({ ...prev, [fossil.id]: e.target.value }))}
+                                                    placeholder="Note to the owner (optional)"
+                                                    className={`${inputClass} flex-grow text-xs`}
+                                                />
+                                                <button onClick={() => handleReview(fossil, true)} disabled={busy !== null} className={`${buttonClass} text-xs bg-success-primary/20 text-success-primary hover:bg-success-primary/30`}>
+                                                    {spinner(`review-${fossil.id}`, <Check size={14} />)} Approve
+                                                </button>
+                                                <button onClick={() => handleReview(fossil, false)} disabled={busy !== null} className={`${buttonClass} text-xs text-danger-primary hover:bg-danger-primary/10`}>
+                                                    <Ban size={14} /> Decline
+                                                </button>
+                                            </div>
+                                        </li>
+                                    ))}
+                                </ul>
+                            )}
+                        </div>
+                    )}
+                </div>
+            </div>
+            <style>{`
+                @keyframes fade-in-fast { from { opacity: 0; } to { opacity: 1; } }
+                .animate-fade-in-fast { animation: fade-in-fast 0.2s ease-out forwards; }
+            `}</style>
+        </div>
+    );
+};
+
+export default FossilCatalogueModal;
@@ -2,6 +2,10 @@
 import React from 'react';
 import type { Section, SectionFossilRecord, Microfossil } from '../types';
 import { Bug } from 'lucide-react';
+import CensusCountsPanel from './CensusCountsPanel';
+import DiversityPanel from './DiversityPanel';
+import RatioProxyPanel from './RatioProxyPanel';
+import CatalogueBadge from './CatalogueBadge';
 
 interface FossilRecordsTabProps {
   section: Section;
@@ -35,6 +39,7 @@ const FossilRecordCard: React.FC<FossilRecordCardProps> = ({ record, fossil, onR
             
             <h3 className="text-xl font-bold text-content-primary italic">{fossil.taxonomy.genus} {fossil.taxonomy.species}</h3>
             <p className="text-md text-content-secondary">{fossil.taxonomy.family}</p>
+            <div className="mt-2"><CatalogueBadge fossil={fossil} /></div>
             <p className="text-sm text-accent-primary mt-1 mb-6 font-semibold">{fossil.stratigraphicRange}</p>
 
             <div className="w-full space-y-4 text-left">
@@ -102,29 +107,32 @@ const FossilRecordsTab: React.FC<FossilRecordsTabProps> = ({ section, microfossi
         onUpdateSection(updatedSection);
     };
 
-    if (!section.microfossilRecords || section.microfossilRecords.length === 0) {
-        return (
-            <div className="flex flex-col items-center justify-center p-12 bg-background-tertiary/50 rounded-xl text-content-muted border border-border-primary/50">
-                <Bug size={48} className="mb-4" />
-                <h3 className="text-lg font-semibold text-content-primary">No Microfossils Associated</h3>
-                <p>Edit this section to associate key microfossil species for analysis.</p>
-            </div>
-        );
-    }
-    
     return (
-        <div className="grid grid-cols-1 md:grid-cols-2 xl:grid-cols-3 gap-6">
-           {section.microfossilRecords.map(record => {
-               const fossilDetails = microfossils.find(f => f.id === record.fossilId);
-               return (
-                    <FossilRecordCard 
-                        key={record.fossilId} 
-                        record={record}
-                        fossil={fossilDetails}
-                        onRecordChange={handleRecordChange}
-                    />
-                );
-            })}
+        <div className="space-y-6">
+            {!section.microfossilRecords || section.microfossilRecords.length === 0 ? (
+                <div className="flex flex-col items-center justify-center p-12 bg-background-tertiary/50 rounded-xl text-content-muted border border-border-primary/50">
+                    <Bug size={48} className="mb-4" />
+                    <h3 className="text-lg font-semibold text-content-primary">No Microfossils Associated</h3>
+                    <p>Edit this section to associate key microfossil species for analysis.</p>
+                </div>
+            ) : (
+                <div className="grid grid-cols-1 md:grid-cols-2 xl:grid-cols-3 gap-6">
+                   {section.microfossilRecords.map(record => {
+                       const fossilDetails = microfossils.find(f => f.id === record.fossilId);
+                       return (
+                            <FossilRecordCard 
+                                key={record.fossilId} 
+                                record={record}
+                                fossil={fossilDetails}
+                                onRecordChange={handleRecordChange}
+                            />
+                        );
+                    })}
+                </div>
+            )}
+            <CensusCountsPanel section={section} microfossils={microfossils} onUpdateSection={onUpdateSection} />
+            <RatioProxyPanel section={section} microfossils={microfossils} onUpdateSection={onUpdateSection} />
+            <DiversityPanel section={section} onUpdateSection={onUpdateSection} />
         </div>
     );
 };
@@ -2,16 +2,18 @@
 
 
 
-import React, { useState } from 'react';
-import type { PartialMicrofossil } from '../types';
-import { Image, UploadCloud, Bot, Loader2, AlertCircle, Save } from 'lucide-react';
+import React, { useState, useMemo } from 'react';
+import type { Microfossil, PartialMicrofossil } from '../types';
+import { Image, UploadCloud, Bot, Loader2, AlertCircle, AlertTriangle, Save } from 'lucide-react';
 import { identifyFossilFromImage, parseFossilAnalysis } from '../services/geminiService';
+import { getAuthoritySnapshot, resolveTaxonName, findCatalogueDuplicates, describeDuplicate, taxonomyName } from '../services/taxonomicAuthorityService';
 
 interface ImageAnalysisViewProps {
     onAddFossil: (data: PartialMicrofossil) => void;
+    microfossils: Microfossil[];
 }
 
-const ImageAnalysisView: React.FC<ImageAnalysisViewProps> = ({ onAddFossil }) => {
+const ImageAnalysisView: React.FC<ImageAnalysisViewProps> = ({ onAddFossil, microfossils }) => {
     const [imagePreview, setImagePreview] = useState<string | null>(null);
     const [imageFile, setImageFile] = useState<File | null>(null);
     const [analysisResult, setAnalysisResult] = useState<string>('');
@@ -60,6 +62,18 @@ const ImageAnalysisView: React.FC<ImageAnalysisViewProps> = ({ onAddFossil }) =>
         }
     };
     
+    // Checked against the catalogue before the record is created, so the
+    // same species is not added again under another name.
+    const identification = useMemo(() => {
+        if (!parsedFossil?.taxonomy?.genus || !parsedFossil.taxonomy.species) return null;
+        const taxonomy = { genus: parsedFossil.taxonomy.genus, species: parsedFossil.taxonomy.species };
+        const snapshot = getAuthoritySnapshot();
+        return {
+            match: snapshot ? resolveTaxonName(taxonomyName(taxonomy), snapshot) : null,
+            duplicates: findCatalogueDuplicates({ taxonomy }, microfossils, snapshot),
+        };
+    }, [parsedFossil, microfossils]);
+
     const handleSaveAsFossil = () => {
         if (parsedFossil) {
             onAddFossil(parsedFossil);
@@ -131,7 +145,18 @@ const ImageAnalysisView: React.FC<ImageAnalysisViewProps> = ({ onAddFossil }) =>
                     ) : analysisResult ? (
                         <div className="prose prose-sm prose-invert max-w-none text-slate-300">
                            {renderAnalysis(analysisResult)}
-                           <div className="mt-6 border-t border-slate-700 pt-4">
+                           <div className="mt-6 border-t border-slate-700 pt-4 space-y-3">
+                               {identification?.match?.isSynonym && (
+                                   <p className="text-xs text-slate-400 not-prose">
+                                       <em>{identification.match.matched.name}</em> is a synonym of <em>{identification.match.accepted.name}</em> {identification.match.accepted.authorship}.
+                                   </p>
+                               )}
+                               {identification && identification.duplicates.length > 0 && (
+                                   <div className="not-prose p-3 rounded-lg bg-amber-500/10 border border-amber-500/40 text-amber-200 text-xs space-y-1">
+                                       <p className="flex items-center gap-2 font-semibold text-sm"><AlertTriangle size={16} /> Already in the catalogue?</p>
+                                       {identification.duplicates.map(d => <p key={d.fossil.id}>{describeDuplicate(d)}</p>)}
+                                   </div>
+                               )}
                                <button 
                                    onClick={handleSaveAsFossil}
                                    disabled={!parsedFossil}
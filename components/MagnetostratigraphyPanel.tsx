@@ -0,0 +1,114 @@
+import React, { useState } from 'react';
+import type { Section, TiePoint } from '../types';
+import { matchToGpts, polarityReversals, type GptsMatch } from '../services/magnetostratigraphyService';
+import { getReferenceCurves } from '../services/referenceCurveService';
+import { Magnet, Check, X, CheckCheck } from 'lucide-react';
+
+interface MagnetostratigraphyPanelProps {
+  sections: Section[];
+  onAddTiePoints: (newTiePoints: TiePoint[]) => void;
+}
+
+const MagnetostratigraphyPanel: React.FC<MagnetostratigraphyPanelProps> = ({ sections, onAddTiePoints }) => {
+  const [modernTop, setModernTop] = useState(true);
+  const [matches, setMatches] = useState<GptsMatch[]>([]);
+  const [selectedMatchId, setSelectedMatchId] = useState<string | null>(null);
+  const [proposals, setProposals] = useState<TiePoint[]>([]);
+  const [error, setError] = useState<string | null>(null);
+
+  const reversalCount = polarityReversals(sections).length;
+  const sectionName = (id: string) => sections.find(s => s.id === id)?.name ?? id;
+
+  const selectMatch = (match: GptsMatch | undefined) => {
+    setSelectedMatchId(match?.id ?? null);
+    setProposals(match?.tiePoints ?? []);
+  };
+
+  const handleMatch = () => {
+    setError(null);
+    const gpts = getReferenceCurves().find(c => c.id === 'GPTS')?.intervals ?? [];
+    const result = matchToGpts(sections, gpts, { modernTop });
+    if (result.length === 0) setError('No GPTS correlation with a positive sedimentation rate fits these reversals.');
+    setMatches(result);
+    selectMatch(result[0]);
+  };
+
+  const handleAccept = (accepted: TiePoint[]) => {
+    onAddTiePoints(accepted);
+    const acceptedIds = new Set(accepted.map(tp => tp.id));
+    setProposals(prev => prev.filter(tp => !acceptedIds.has(tp.id)));
+  };
+
+  const handleReject = (id: string) => {
+    setProposals(prev => prev.filter(tp => tp.id !== id));
+  };
+
+  return (
+    <div className="border-t border-border-primary pt-4 mt-4 space-y-2">
+      <div className="flex items-center justify-between">
+        <h4 className="text-sm font-semibold text-content-secondary flex items-center gap-2">
+          <Magnet size={14} className="text-accent-primary" /> Magnetostratigraphy
+        </h4>
+        <button
+          onClick={handleMatch}
+          disabled={reversalCount === 0}
+          className="px-3 py-1 rounded-md bg-accent-primary/20 text-accent-primary-hover hover:bg-accent-primary/30 transition-colors text-xs font-semibold disabled:opacity-50"
+          title="Match the reversals of the sections' polarity records to the GPTS"
+        >
+          Match GPTS
+        </button>
+      </div>
+      <div className="flex items-center justify-between text-xs text-content-muted">
+        <span>{reversalCount > 0 ? `${reversalCount} reversal(s) in the polarity records` : 'No reversals: add polarity zones to the sections first.'}</span>
+        <label className="flex items-center gap-1" title="Include 0 cm = 0 ka in the fit (the record reaches the sediment surface)">
+          <input type="checkbox" checked={modernTop} onChange={e => setModernTop(e.target.checked)} /> Modern top
+        </label>
+      </div>
+      {error && <p className="text-xs text-danger-primary">{error}</p>}
+      {matches.length > 0 && (
+        <div className="space-y-1">
+          {matches.map((match, i) => (
+            <button
+              key={match.id}
+              onClick={() => selectMatch(match)}
+              className={`w-full text-left p-1.5 rounded-md text-xs transition-colors ${match.id === selectedMatchId ? 'bg-accent-primary/20 text-accent-primary-hover' : 'bg-background-primary/50 text-content-muted hover:bg-background-interactive'}`}
+            >
+              {i + 1}. From {match.startBoundary.youngerChron} ({match.startBoundary.age} ka) · {match.rate.toFixed(2)} cm/kyr · misfit {(match.misfit * 100).toFixed(1)}%
+            </button>
+          ))}
+          {reversalCount === 1 && !modernTop && (
+            <p className="text-xs text-content-muted">A single reversal cannot be placed without further age control; candidates are ordered by age.</p>
+          )}
+        </div>
+      )}
+      {proposals.length > 0 && (
+        <div className="space-y-1">
+          {proposals.map(tp => (
+            <div key={tp.id} className="flex items-center justify-between bg-background-primary/50 p-1.5 rounded-md text-xs">
+              <span className="text-content-muted">
+                <strong className="text-content-secondary">{tp.label}</strong>
+                <span className="block">{sectionName(tp.sectionId)} · {tp.depth} cm → {tp.age} ± {tp.ageUncertainty} ka</span>
+              </span>
+              <div className="flex items-center gap-1">
+                <button onClick={() => handleAccept([tp])} className="p-1 rounded text-success-primary hover:bg-success-primary/20" title="Accept tie-point">
+                  <Check size={12} />
+                </button>
+                <button onClick={() => handleReject(tp.id)} className="p-1 rounded text-danger-primary hover:bg-danger-primary/20" title="Reject tie-point">
+                  <X size={12} />
+                </button>
+              </div>
+            </div>
+          ))}
+          <button
+            onClick={() => handleAccept(proposals)}
+            className="flex items-center gap-1 text-xs text-accent-primary hover:text-accent-primary-hover font-semibold"
+          >
+            <CheckCheck size={12} /> Accept all
+          </button>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default MagnetostratigraphyPanel;
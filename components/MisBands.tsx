@@ -0,0 +1,19 @@
+import React from 'react';
+import { ReferenceArea } from 'recharts';
+import { stagesInRange, isGlacialStage } from '../services/marineIsotopeStageService';
+
+// Recharts only picks up ReferenceAreas that are direct children of the chart, so the bands are
+// returned as an array of elements to spread into it rather than as a wrapping component.
+export const renderMisBands = (minAge: number, maxAge: number, yAxisId?: string) =>
+  stagesInRange(minAge, maxAge).map(stage => (
+    <ReferenceArea
+      key={`mis-${stage.stage}`}
+      {...(yAxisId && { yAxisId })}
+      x1={Math.max(stage.top, minAge)}
+      x2={Math.min(stage.base, maxAge)}
+      fill={isGlacialStage(stage.stage) ? 'var(--accent-secondary)' : 'var(--text-muted)'}
+      fillOpacity={isGlacialStage(stage.stage) ? 0.08 : 0.02}
+      ifOverflow="hidden"
+      label={{ value: `MIS ${stage.stage}`, position: 'insideTopLeft', fontSize: 10, fill: 'var(--text-muted)' }}
+    />
+  ));
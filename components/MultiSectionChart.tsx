@@ -1,7 +1,10 @@
 
 import React from 'react';
 import type { Section, DataPoint } from '../types';
-import { LineChart, Line, XAxis, YAxis, CartesianGrid, Tooltip, Legend, ResponsiveContainer } from 'recharts';
+import type { ReferenceCurve } from '../data/referenceCurves';
+import { LineChart, Line, XAxis, YAxis, CartesianGrid, Tooltip, Legend, ResponsiveContainer, Customized, ReferenceArea } from 'recharts';
+import AgeUncertaintyBand from './AgeUncertaintyBand';
+import { renderMisBands } from './MisBands';
 import { PROXY_LABELS } from '../constants';
 
 interface MultiSectionChartProps {
@@ -9,21 +12,40 @@ interface MultiSectionChartProps {
   spliceData: DataPoint[];
   proxyKey: string;
   xAxisKey: 'depth' | 'age';
-  showLr04: boolean;
-  lr04Data: { age: number; d18O: number }[];
+  referenceCurves: ReferenceCurve[];
+  comparisonSections?: Section[] | null;
+  comparisonLabel?: string;
 }
 
 const COLORS = ['#8884d8', '#82ca9d', '#ffc658', '#ff8042', '#00C49F', '#FFBB28'];
+const REFERENCE_COLORS = ['var(--text-muted)', '#a78bfa', '#f472b6', '#38bdf8', '#facc15'];
 
-const MultiSectionChart: React.FC<MultiSectionChartProps> = ({ sections, spliceData, proxyKey, xAxisKey, showLr04, lr04Data }) => {
+const MultiSectionChart: React.FC<MultiSectionChartProps> = ({ sections, spliceData, proxyKey, xAxisKey, referenceCurves, comparisonSections, comparisonLabel = 'Comparison' }) => {
 
   // Prepare data for charting by sorting and ensuring it's valid
-  const processedSections = sections.map(section => ({
+  const prepareSections = (list: Section[]) => list.map(section => ({
     ...section,
     dataPoints: [...section.dataPoints]
       .filter(dp => dp[xAxisKey] !== undefined && dp[proxyKey] !== undefined)
       .sort((a, b) => (a[xAxisKey] as number) - (b[xAxisKey] as number))
   }));
+  const processedSections = prepareSections(sections);
+  const processedComparison = comparisonSections && xAxisKey === 'age' ? prepareSections(comparisonSections) : [];
+
+  // Reference curves are clipped to the dated interval so they don't stretch the age axis.
+  const sectionAges = processedSections.flatMap(s => s.dataPoints.map(dp => dp.age)).filter((a): a is number => typeof a === 'number');
+  const ageRange = sectionAges.length > 0 ? { min: Math.min(...sectionAges), max: Math.max(...sectionAges) } : null;
+  const showReferences = xAxisKey === 'age' && ageRange !== null;
+  const referenceSeries = showReferences
+    ? referenceCurves.filter(c => c.kind === 'series').map(curve => ({
+        curve,
+        data: curve.data.filter(p => p.age >= ageRange.min && p.age <= ageRange.max),
+      }))
+    : [];
+  const polarityIntervals = showReferences
+    ? referenceCurves.flatMap(c => c.intervals ?? [])
+        .filter(i => i.polarity === 'normal' && i.base >= ageRange.min && i.top <= ageRange.max)
+    : [];
 
   const yAxisLabel = PROXY_LABELS[proxyKey] || proxyKey;
   const xAxisLabel = xAxisKey === 'age' ? 'Age (ka)' : 'Depth (cmbsf)';
@@ -48,22 +70,47 @@ const MultiSectionChart: React.FC<MultiSectionChartProps> = ({ sections, spliceD
                     domain={['auto', 'auto']}
                     label={{ value: yAxisLabel, angle: -90, position: 'insideLeft', fontSize: 14, dx: -10 }}
                 />
-                {showLr04 && xAxisKey === 'age' && (
+                {referenceSeries.map(({ curve }) => (
                   <YAxis
-                    yAxisId="right"
+                    key={`axis-${curve.id}`}
+                    yAxisId={`ref-${curve.id}`}
                     orientation="right"
-                    reversed // d18O is typically plotted with enriched (colder) values downwards
+                    reversed={curve.reversed} // e.g. d18O is typically plotted with enriched (colder) values downwards
                     tick={{ fontSize: 12, fill: 'var(--recharts-axis-stroke)' }}
-                    domain={['dataMin - 0.2', 'dataMax + 0.2']}
-                    label={{ value: "LR04 δ¹⁸O (‰)", angle: 90, position: 'insideRight', fontSize: 14, dx: 10 }}
+                    domain={['auto', 'auto']}
+                    label={{ value: `${curve.id} ${curve.proxy} (${curve.units})`, angle: 90, position: 'insideRight', fontSize: 12, dx: 10 }}
                   />
-                )}
+                ))}
                 <Tooltip
                     formatter={(value: any, name: any) => [typeof value === 'number' ? value.toFixed(3) : value, PROXY_LABELS[name] || name]}
                     labelFormatter={(label) => `${xAxisLabel}: ${Number(label).toFixed(3)}`}
                 />
                 <Legend wrapperStyle={{ paddingTop: '20px' }} />
 
+                {showReferences && renderMisBands(ageRange.min, ageRange.max, 'left')}
+
+                {/* Shade normal-polarity chrons of the polarity timescale */}
+                {polarityIntervals.map(interval => (
+                    <ReferenceArea
+                        key={`chron-${interval.top}`}
+                        yAxisId="left"
+                        x1={Math.max(interval.top, ageRange?.min ?? interval.top)}
+                        x2={Math.min(interval.base, ageRange?.max ?? interval.base)}
+                        fill="var(--text-muted)"
+                        fillOpacity={0.12}
+                        ifOverflow="hidden"
+                        label={{ value: interval.name, position: 'insideTop', fontSize: 10, fill: 'var(--text-muted)' }}
+                    />
+                ))}
+
+                {/* Render the 95% age envelope of probabilistic age models */}
+                {xAxisKey === 'age' && processedSections.map((section, index) => (
+                    <Customized
+                        key={`envelope-${section.id}`}
+                        component={<AgeUncertaintyBand points={section.dataPoints} proxyKey={proxyKey} yAxisId="left" fill={COLORS[index % COLORS.length]} />}
+                    />
+                ))}
+
                 {/* Render line for each section */}
                 {processedSections.map((section, index) => (
                     <Line
@@ -80,6 +127,24 @@ const MultiSectionChart: React.FC<MultiSectionChartProps> = ({ sections, spliceD
                     />
                 ))}
 
+                {/* Render the alternative age model (e.g. AI vs. local engine) as dashed lines */}
+                {processedComparison.map((section, index) => (
+                    <Line
+                        key={`comparison-${section.id}`}
+                        yAxisId="left"
+                        dataKey={proxyKey}
+                        data={section.dataPoints}
+                        name={`${section.name} (${comparisonLabel})`}
+                        stroke={COLORS[index % COLORS.length]}
+                        strokeWidth={1.5}
+                        strokeDasharray="4 3"
+                        strokeOpacity={0.7}
+                        dot={false}
+                        connectNulls
+                        type="monotone"
+                    />
+                ))}
+
                 {/* Render the composite splice line */}
                 {spliceData.length > 0 && (
                      <Line
@@ -96,22 +161,22 @@ const MultiSectionChart: React.FC<MultiSectionChartProps> = ({ sections, spliceD
                     />
                 )}
 
-                {/* Render LR04 stack */}
-                {showLr04 && xAxisKey === 'age' && (
+                {/* Render reference curves */}
+                {referenceSeries.map(({ curve, data }, index) => (
                     <Line
-                        key="lr04-stack"
-                        yAxisId="right"
-                        dataKey="d18O"
-                        data={lr04Data}
-                        name="LR04 Benthic Stack"
-                        stroke="var(--text-muted)"
+                        key={`ref-${curve.id}`}
+                        yAxisId={`ref-${curve.id}`}
+                        dataKey="value"
+                        data={data}
+                        name={curve.name}
+                        stroke={REFERENCE_COLORS[index % REFERENCE_COLORS.length]}
                         strokeWidth={2}
                         strokeDasharray="5 5"
                         dot={false}
                         connectNulls
                         type="monotone"
                     />
-                )}
+                ))}
             </LineChart>
         </ResponsiveContainer>
     </div>
@@ -0,0 +1,115 @@
+import React, { useState } from 'react';
+import type { Section, TiePoint } from '../types';
+import { tuneSectionToReference, type TiePointProposal } from '../services/orbitalTuningService';
+import { getReferenceCurves, hasCurveData } from '../services/referenceCurveService';
+import type { ReferenceCurveId } from '../data/referenceCurves';
+import { Orbit, Check, X, CheckCheck } from 'lucide-react';
+
+interface OrbitalTuningPanelProps {
+  sections: Section[];
+  selectedSectionId: string;
+  onAddTiePoints: (newTiePoints: TiePoint[]) => void;
+}
+
+const scoreClass = (score: number) =>
+  score >= 0.7 ? 'text-success-primary' : score >= 0.4 ? 'text-content-secondary' : 'text-danger-primary';
+
+const OrbitalTuningPanel: React.FC<OrbitalTuningPanelProps> = ({ sections, selectedSectionId, onAddTiePoints }) => {
+  const [minRate, setMinRate] = useState('0.5');
+  const [maxRate, setMaxRate] = useState('10');
+  const [maxAge, setMaxAge] = useState('1000');
+  // Any loaded series can serve as the tuning target; benthic stacks are the usual choice.
+  const [targets] = useState(() => getReferenceCurves().filter(c => c.kind === 'series' && hasCurveData(c)));
+  const [targetId, setTargetId] = useState<ReferenceCurveId>('LR04');
+  const [proposals, setProposals] = useState<TiePointProposal[]>([]);
+  const [correlation, setCorrelation] = useState<number | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const handleTune = () => {
+    setError(null);
+    const section = sections.find(s => s.id === selectedSectionId);
+    if (!section) return;
+    try {
+      const target = targets.find(c => c.id === targetId);
+      const result = tuneSectionToReference(section, target?.data, {
+        minSedimentationRate: parseFloat(minRate),
+        maxSedimentationRate: parseFloat(maxRate),
+        maxAge: parseFloat(maxAge),
+      });
+      setProposals(result.proposals);
+      setCorrelation(result.correlation);
+    } catch (err: any) {
+      setProposals([]);
+      setCorrelation(null);
+      setError(err.message);
+    }
+  };
+
+  const handleAccept = (accepted: TiePointProposal[]) => {
+    onAddTiePoints(accepted.map(p => p.tiePoint));
+    const acceptedIds = new Set(accepted.map(p => p.tiePoint.id));
+    setProposals(prev => prev.filter(p => !acceptedIds.has(p.tiePoint.id)));
+  };
+
+  const handleReject = (id: string) => {
+    setProposals(prev => prev.filter(p => p.tiePoint.id !== id));
+  };
+
+  const inputClass = "w-full bg-background-interactive border border-border-secondary rounded-md p-1.5 text-xs";
+
+  return (
+    <div className="border-t border-border-primary pt-4 mt-4 space-y-2">
+      <h4 className="text-sm font-semibold text-content-secondary flex items-center gap-2">
+        <Orbit size={14} className="text-accent-primary" /> Orbital Tuning (δ¹⁸O)
+      </h4>
+      <select value={targetId} onChange={e => setTargetId(e.target.value as ReferenceCurveId)} className={inputClass} title="Reference record to align to">
+        {targets.map(c => <option key={c.id} value={c.id}>{c.name}{c.bundled === 'subset' ? ' (subset)' : ''}</option>)}
+      </select>
+      <div className="flex items-stretch gap-2">
+        <input type="number" placeholder="Min rate (cm/kyr)" title="Minimum sedimentation rate (cm/kyr)" value={minRate} min={0} onChange={e => setMinRate(e.target.value)} className={inputClass} />
+        <input type="number" placeholder="Max rate (cm/kyr)" title="Maximum sedimentation rate (cm/kyr)" value={maxRate} min={0} onChange={e => setMaxRate(e.target.value)} className={inputClass} />
+        <input type="number" placeholder="Max age (ka)" title="Oldest age the alignment may reach (ka)" value={maxAge} min={0} onChange={e => setMaxAge(e.target.value)} className={inputClass} />
+        <button
+          onClick={handleTune}
+          disabled={!selectedSectionId || !minRate || !maxRate || !maxAge}
+          className="px-3 rounded-md bg-accent-primary/20 text-accent-primary-hover hover:bg-accent-primary/30 transition-colors text-xs font-semibold disabled:opacity-50"
+        >
+          Tune
+        </button>
+      </div>
+      {correlation !== null && (
+        <p className="text-xs text-content-muted">
+          Overall correlation with {targetId}: <strong className={scoreClass(correlation)}>r = {correlation.toFixed(2)}</strong>
+        </p>
+      )}
+      {proposals.length > 0 && (
+        <div className="space-y-1">
+          {proposals.map(p => (
+            <div key={p.tiePoint.id} className="flex items-center justify-between bg-background-primary/50 p-1.5 rounded-md text-xs">
+              <span className="text-content-muted">
+                {p.tiePoint.depth} cm → {p.tiePoint.age} ka <strong className={scoreClass(p.score)}>(r = {p.score.toFixed(2)})</strong>
+              </span>
+              <div className="flex items-center gap-1">
+                <button onClick={() => handleAccept([p])} className="p-1 rounded text-success-primary hover:bg-success-primary/20" title="Accept tie-point">
+                  <Check size={12} />
+                </button>
+                <button onClick={() => handleReject(p.tiePoint.id)} className="p-1 rounded text-danger-primary hover:bg-danger-primary/20" title="Reject tie-point">
+                  <X size={12} />
+                </button>
+              </div>
+            </div>
+          ))}
+          <button
+            onClick={() => handleAccept(proposals)}
+            className="flex items-center gap-1 text-xs text-accent-primary hover:text-accent-primary-hover font-semibold"
+          >
+            <CheckCheck size={12} /> Accept all
+          </button>
+        </div>
+      )}
+      {error && <p className="text-danger-primary text-xs">{error}</p>}
+    </div>
+  );
+};
+
+export default OrbitalTuningPanel;
@@ -0,0 +1,171 @@
+import React, { useState } from 'react';
+import type { Section, TiePoint, CalibratedDate, CalibrationCurveId, ReservoirCorrection } from '../types';
+import { calibrateRadiocarbonDate, calibratedDateToTiePoint, formatCalibratedRanges, getCalibrationCurve, importCalibrationCurve, resetCalibrationCurve, CURVE_FILES } from '../services/radiocarbonService';
+import { Atom, Plus, Download, Upload, RotateCcw } from 'lucide-react';
+
+interface RadiocarbonCalibrationPanelProps {
+  sections: Section[];
+  selectedSectionId: string;
+  reservoirCorrection?: ReservoirCorrection;
+  onAddTiePoints: (newTiePoints: TiePoint[]) => void;
+}
+
+const describeDate = (calibrated: CalibratedDate) =>
+  `¹⁴C ${calibrated.c14Age} ± ${calibrated.c14Error} (${calibrated.curve})`;
+
+const RadiocarbonCalibrationPanel: React.FC<RadiocarbonCalibrationPanelProps> = ({ sections, selectedSectionId, reservoirCorrection, onAddTiePoints }) => {
+  const [depth, setDepth] = useState('');
+  const [c14Age, setC14Age] = useState('');
+  const [c14Error, setC14Error] = useState('');
+  const [curve, setCurve] = useState<CalibrationCurveId>('Marine20');
+  const [result, setResult] = useState<CalibratedDate | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [curveSource, setCurveSource] = useState(() => getCalibrationCurve('Marine20')?.importedFrom);
+
+  const handleCurveChange = (id: CalibrationCurveId) => {
+    setCurve(id);
+    setCurveSource(getCalibrationCurve(id)?.importedFrom);
+    setResult(null);
+  };
+
+  const handleImportCurve = async (file: File | undefined) => {
+    if (!file) return;
+    setError(null);
+    try {
+      setCurveSource(importCalibrationCurve(curve, file.name, await file.text()).importedFrom);
+      setResult(null);
+    } catch (err: any) {
+      setError(err.message);
+    }
+  };
+
+  const handleResetCurve = () => {
+    setError(null);
+    try {
+      resetCalibrationCurve(curve);
+      setCurveSource(undefined);
+      setResult(null);
+    } catch (err: any) {
+      setError(err.message);
+    }
+  };
+
+  const handleCalibrate = () => {
+    setError(null);
+    try {
+      setResult(calibrateRadiocarbonDate(parseFloat(c14Age), parseFloat(c14Error), curve, reservoirCorrection));
+    } catch (err: any) {
+      setResult(null);
+      setError(err.message);
+    }
+  };
+
+  const handleAdd = () => {
+    if (!result || !depth || !selectedSectionId) return;
+    onAddTiePoints([{ ...calibratedDateToTiePoint(result, selectedSectionId, parseFloat(depth)), label: describeDate(result) }]);
+    setDepth('');
+    setC14Age('');
+    setC14Error('');
+    setResult(null);
+  };
+
+  // Calibrates every data point of the selected section that carries a radiocarbonDate (ka BP).
+  // Points without their own radiocarbonError fall back to the ± entered above.
+  const handleCalibrateSectionData = () => {
+    setError(null);
+    const section = sections.find(s => s.id === selectedSectionId);
+    if (!section) return;
+    const fallbackError = parseFloat(c14Error);
+    const newTiePoints: TiePoint[] = [];
+    const failures: string[] = [];
+
+    section.dataPoints.forEach(dp => {
+      if (typeof dp.depth !== 'number' || typeof dp.radiocarbonDate !== 'number') return;
+      const ageYears = dp.radiocarbonDate * 1000;
+      const errorYears = typeof dp.radiocarbonError === 'number' ? dp.radiocarbonError * 1000 : fallbackError;
+      try {
+        const calibrated = calibrateRadiocarbonDate(ageYears, errorYears, curve, reservoirCorrection);
+        newTiePoints.push({ ...calibratedDateToTiePoint(calibrated, section.id, dp.depth), label: describeDate(calibrated) });
+      } catch (err: any) {
+        failures.push(`${dp.subsection || dp.depth}: ${err.message}`);
+      }
+    });
+
+    if (newTiePoints.length > 0) onAddTiePoints(newTiePoints);
+    if (failures.length > 0) setError(failures.join(' '));
+    else if (newTiePoints.length === 0) setError('No data points with a ¹⁴C date were found in this section.');
+  };
+
+  const inputClass = "w-full bg-background-interactive border border-border-secondary rounded-md p-1.5 text-xs";
+
+  return (
+    <div className="border-t border-border-primary pt-4 mt-4 space-y-2">
+      <h4 className="text-sm font-semibold text-content-secondary flex items-center gap-2">
+        <Atom size={14} className="text-accent-primary" /> Radiocarbon Calibration
+      </h4>
+      <div className="flex items-stretch gap-2">
+        <input type="number" placeholder="Depth (cmbsf)" value={depth} onChange={e => setDepth(e.target.value)} className={inputClass} />
+        <input type="number" placeholder="¹⁴C age (yr BP)" value={c14Age} onChange={e => setC14Age(e.target.value)} className={inputClass} />
+        <input type="number" placeholder="± 1σ (yr)" value={c14Error} min={0} onChange={e => setC14Error(e.target.value)} className={inputClass} />
+      </div>
+      <div className="flex items-stretch gap-2">
+        <select value={curve} onChange={e => handleCurveChange(e.target.value as CalibrationCurveId)} className={inputClass}>
+          <option value="Marine20">Marine20</option>
+          <option value="IntCal20">IntCal20</option>
+        </select>
+        <button
+          onClick={handleCalibrate}
+          disabled={!curveSource || !c14Age || !c14Error}
+          className="px-3 rounded-md bg-accent-primary/20 text-accent-primary-hover hover:bg-accent-primary/30 transition-colors text-xs font-semibold disabled:opacity-50"
+        >
+          Calibrate
+        </button>
+        <button
+          onClick={handleCalibrateSectionData}
+          disabled={!curveSource || !selectedSectionId}
+          className="p-2 rounded-md bg-accent-secondary/20 text-accent-secondary hover:bg-accent-secondary/40 transition-colors disabled:opacity-50"
+          title="Calibrate all ¹⁴C dates in the selected section's data and add them as tie-points"
+        >
+          <Download size={14} />
+        </button>
+      </div>
+      <div className="flex items-center gap-2 text-xs">
+        {curveSource ? (
+          <>
+            <span className="text-content-muted truncate">{curve}: {curveSource}</span>
+            <button onClick={handleResetCurve} className="p-1 text-content-muted hover:text-content-primary" title="Remove the imported table"><RotateCcw size={12} /></button>
+          </>
+        ) : (
+          <span className="text-amber-500">No {curve} curve loaded. Import {CURVE_FILES[curve]} from intcal.org to calibrate.</span>
+        )}
+        <label className="flex items-center gap-1 text-accent-primary hover:text-accent-primary-hover font-semibold cursor-pointer flex-shrink-0" title={`Import ${CURVE_FILES[curve]}`}>
+          <Upload size={12} /> Import
+          <input type="file" accept=".14c,.csv,.txt" className="hidden" onChange={e => { handleImportCurve(e.target.files?.[0]); e.target.value = ''; }} />
+        </label>
+      </div>
+      {curve === 'Marine20' && (
+        <p className="text-xs text-content-muted">
+          ΔR: {reservoirCorrection ? `${reservoirCorrection.deltaR} ± ${reservoirCorrection.deltaRError} ¹⁴C yr` : 'not set (0) — edit the core to add one'}
+        </p>
+      )}
+      {result && (
+        <div className="bg-background-primary/50 p-2 rounded-md text-xs space-y-1">
+          <p className="text-content-secondary"><strong>Median:</strong> {result.median} cal BP (σ {result.sd.toFixed(0)} yr)</p>
+          <p className="text-content-muted"><strong>Curve:</strong> {result.curve}, {result.curveSource}</p>
+          <p className="text-content-muted"><strong>68.2%:</strong> {formatCalibratedRanges(result.hpd68)}</p>
+          <p className="text-content-muted"><strong>95.4%:</strong> {formatCalibratedRanges(result.hpd95)}</p>
+          <button
+            onClick={handleAdd}
+            disabled={!depth}
+            className="flex items-center gap-1 text-accent-primary hover:text-accent-primary-hover font-semibold disabled:opacity-50"
+          >
+            <Plus size={12} /> Add as tie-point
+          </button>
+        </div>
+      )}
+      {error && <p className="text-danger-primary text-xs">{error}</p>}
+    </div>
+  );
+};
+
+export default RadiocarbonCalibrationPanel;
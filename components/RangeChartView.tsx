@@ -0,0 +1,128 @@
+import React, { useMemo, useRef } from 'react';
+import type { Section, Microfossil, FossilAbundance, FossilPreservation } from '../types';
+import {
+  buildRangeChart, rangeChartLayout, canPlotAgainstAge, rangeAxisLabel, ABUNDANCE_RADIUS, PRESERVATION_FILL, RANGE_CHART_INK,
+  type RangeChartOptions, type RangeChartAxis, type RangeChartSort,
+} from '../services/rangeChartService';
+import { ChartNoAxesColumn, Download } from 'lucide-react';
+
+interface RangeChartViewProps {
+  coreId: string;
+  sections: Section[];
+  microfossils: Microfossil[];
+  options: RangeChartOptions;
+  onOptionsChange: (options: RangeChartOptions) => void;
+}
+
+const LEGEND_ABUNDANCES: FossilAbundance[] = ['Abundant', 'Common', 'Few', 'Rare', 'Present'];
+const LEGEND_PRESERVATION: FossilPreservation[] = ['Good', 'Moderate', 'Poor'];
+
+const RangeChartView: React.FC<RangeChartViewProps> = ({ coreId, sections, microfossils, options, onOptionsChange }) => {
+  const svgRef = useRef<SVGSVGElement>(null);
+  const chart = useMemo(() => buildRangeChart(sections, microfossils, options), [sections, microfossils, options]);
+  const layout = useMemo(() => rangeChartLayout(chart), [chart]);
+  const ageAvailable = useMemo(() => canPlotAgainstAge(sections), [sections]);
+
+  const handleExportSvg = () => {
+    if (!svgRef.current) return;
+    const markup = new XMLSerializer().serializeToString(svgRef.current);
+    const blob = new Blob([`<?xml version="1.0" encoding="UTF-8"?>\n${markup}`], { type: 'image/svg+xml;charset=utf-8;' });
+    const link = document.createElement('a');
+    const url = URL.createObjectURL(blob);
+    link.setAttribute('href', url);
+    link.setAttribute('download', `${coreId}_range_chart.svg`);
+    document.body.appendChild(link);
+    link.click();
+    document.body.removeChild(link);
+    URL.revokeObjectURL(url);
+  };
+
+  const inputClass = "bg-background-interactive border border-border-secondary rounded-md p-1.5 text-xs";
+  const plotBottom = layout.plotTop + layout.plotHeight;
+  const plotRight = layout.left + chart.taxa.length * layout.columnWidth;
+
+  return (
+    <div className="bg-background-tertiary/50 p-4 rounded-xl shadow-lg border border-border-primary/50 space-y-3">
+      <div className="flex items-center justify-between flex-wrap gap-3">
+        <h3 className="text-lg font-semibold text-content-primary flex items-center gap-2"><ChartNoAxesColumn size={20} className="text-accent-primary"/> Range Chart</h3>
+        <div className="flex items-center gap-2 flex-wrap">
+          <select value={chart.axis} onChange={e => onOptionsChange({ ...options, axis: e.target.value as RangeChartAxis })} className={inputClass}>
+            <option value="depth">Against depth</option>
+            <option value="age" disabled={!ageAvailable}>Against age{ageAvailable ? '' : ' (needs an age model)'}</option>
+          </select>
+          <select value={options.sort} onChange={e => onOptionsChange({ ...options, sort: e.target.value as RangeChartSort })} className={inputClass}>
+            <option value="first">Sort by first occurrence</option>
+            <option value="last">Sort by last occurrence</option>
+            <option value="taxonomy">Sort by taxonomy</option>
+          </select>
+          <button onClick={handleExportSvg} disabled={chart.taxa.length === 0} className="flex items-center gap-1 px-3 py-1.5 rounded-md text-xs font-semibold bg-success-primary/80 text-white hover:bg-success-primary disabled:opacity-50">
+            <Download size={14} /> SVG
+          </button>
+        </div>
+      </div>
+      <p className="text-xs text-content-muted">
+        Every taxon recorded in the core's sections. Symbol size shows abundance, fill shows preservation; the line joins the first and last occurrence. The chart is included in the full core report with these settings.
+      </p>
+
+      {chart.taxa.length === 0 ? (
+        <p className="text-sm text-content-muted text-center py-8">No microfossil records in this core yet.</p>
+      ) : (
+        <div className="overflow-x-auto rounded-lg">
+          <svg ref={svgRef} xmlns="http://www.w3.org/2000/svg" width={layout.width} height={layout.height} viewBox={`0 0 ${layout.width} ${layout.height}`} fontFamily="Helvetica, Arial, sans-serif" aria-label={`Range chart of core ${coreId}`}>
+            <rect width={layout.width} height={layout.height} fill="#ffffff" />
+
+            {chart.intervals.map((interval, i) => (
+              <rect key={interval.sectionId} x={layout.left} y={layout.toY(interval.top)} width={plotRight - layout.left} height={Math.max(layout.toY(interval.bottom) - layout.toY(interval.top), 1)} fill={i % 2 === 0 ? '#f3f4f6' : '#ffffff'}>
+                <title>{`${interval.sectionName}: ${interval.top.toFixed(1)}–${interval.bottom.toFixed(1)} ${chart.axis === 'age' ? 'ka' : 'cm'}`}</title>
+              </rect>
+            ))}
+
+            <line x1={layout.left} y1={layout.plotTop} x2={layout.left} y2={plotBottom} stroke={RANGE_CHART_INK} />
+            {layout.ticks.map(tick => (
+              <g key={tick}>
+                <line x1={layout.left - 5} y1={layout.toY(tick)} x2={layout.left} y2={layout.toY(tick)} stroke={RANGE_CHART_INK} />
+                <text x={layout.left - 8} y={layout.toY(tick)} dy=".3em" fontSize="10" textAnchor="end" fill={RANGE_CHART_INK}>{tick}</text>
+              </g>
+            ))}
+            <text x={16} y={layout.plotTop + layout.plotHeight / 2} fontSize="11" textAnchor="middle" fill={RANGE_CHART_INK} transform={`rotate(-90, 16, ${layout.plotTop + layout.plotHeight / 2})`}>{rangeAxisLabel(chart.axis)}</text>
+
+            {chart.taxa.map((taxon, index) => {
+              const x = layout.columnX(index);
+              return (
+                <g key={taxon.fossilId}>
+                  <text x={x} y={layout.plotTop - 8} dy=".3em" fontSize="10" fontStyle="italic" fill={RANGE_CHART_INK} transform={`rotate(-70, ${x}, ${layout.plotTop - 8})`}>
+                    {taxon.name}
+                    <title>{`${taxon.name}${taxon.stratigraphicRange ? ` — known range: ${taxon.stratigraphicRange}` : ''}`}</title>
+                  </text>
+                  <line x1={x} y1={layout.toY(taxon.last)} x2={x} y2={layout.toY(taxon.first)} stroke={RANGE_CHART_INK} strokeWidth="1.5" />
+                  {taxon.occurrences.map(o => (
+                    <circle key={o.sectionId} cx={x} cy={layout.toY(o.position)} r={ABUNDANCE_RADIUS[o.abundance]} fill={PRESERVATION_FILL[o.preservation]} stroke={RANGE_CHART_INK} strokeWidth="1">
+                      <title>{`${taxon.name} in ${o.sectionName}: ${o.abundance}, ${o.preservation.toLowerCase()} preservation${o.observations ? ` — ${o.observations}` : ''}`}</title>
+                    </circle>
+                  ))}
+                </g>
+              );
+            })}
+
+            <g transform={`translate(${layout.left}, ${layout.legendY})`} fontSize="10" fill={RANGE_CHART_INK}>
+              {LEGEND_ABUNDANCES.map((abundance, i) => (
+                <g key={abundance} transform={`translate(${i * 62}, 0)`}>
+                  <circle cx={8} cy={0} r={ABUNDANCE_RADIUS[abundance]} fill={PRESERVATION_FILL.Good} stroke={RANGE_CHART_INK} />
+                  <text x={18} y={0} dy=".3em">{abundance}</text>
+                </g>
+              ))}
+              {LEGEND_PRESERVATION.map((preservation, i) => (
+                <g key={preservation} transform={`translate(${i * 82}, 20)`}>
+                  <circle cx={8} cy={0} r={ABUNDANCE_RADIUS.Common} fill={PRESERVATION_FILL[preservation]} stroke={RANGE_CHART_INK} />
+                  <text x={18} y={0} dy=".3em">{preservation} pres.</text>
+                </g>
+              ))}
+            </g>
+          </svg>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default RangeChartView;
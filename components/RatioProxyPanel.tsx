@@ -0,0 +1,151 @@
+import React, { useState, useMemo } from 'react';
+import type { Section, Microfossil, SpeciesRatio } from '../types';
+import { censusTaxa } from '../services/censusService';
+import { ratioColumns, ratioRows, applyRatioProxies, validateSpeciesRatio, suggestedSpeciesRatios } from '../services/ratioProxyService';
+import { Percent, Plus, Trash2, X } from 'lucide-react';
+
+interface RatioProxyPanelProps {
+  section: Section;
+  microfossils: Microfossil[];
+  onUpdateSection: (section: Section) => void;
+}
+
+const emptyRatio = (): Omit<SpeciesRatio, 'id'> => ({ column: '', label: '', numerator: [], complement: [] });
+
+const RatioProxyPanel: React.FC<RatioProxyPanelProps> = ({ section, microfossils, onUpdateSection }) => {
+  const [draft, setDraft] = useState<Omit<SpeciesRatio, 'id'> | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const columns = useMemo(() => ratioColumns(section, microfossils), [section, microfossils]);
+  const rows = useMemo(() => ratioRows(section, microfossils), [section, microfossils]);
+  const taxa = useMemo(() => censusTaxa(section), [section]);
+  const speciesRatios = section.ratioProxies?.speciesRatios ?? [];
+  const suggestions = suggestedSpeciesRatios(taxa, microfossils).filter(s => !columns.some(c => c.column === s.column));
+
+  if ((section.censusSamples?.length ?? 0) === 0) return null;
+
+  const taxonName = (fossilId: string) => {
+    const fossil = microfossils.find(f => f.id === fossilId);
+    return fossil ? `${fossil.taxonomy.genus} ${fossil.taxonomy.species}` : fossilId;
+  };
+
+  const saveRatios = (next: SpeciesRatio[]) => {
+    onUpdateSection(applyRatioProxies({ ...section, ratioProxies: { speciesRatios: next, columns: section.ratioProxies?.columns ?? [] } }, microfossils));
+  };
+
+  const handleAdd = (ratio: Omit<SpeciesRatio, 'id'>) => {
+    const candidate: SpeciesRatio = { ...ratio, id: `ratio-${Date.now()}`, label: ratio.label.trim(), column: ratio.column.trim() };
+    const validationError = validateSpeciesRatio(candidate, section, microfossils);
+    if (validationError) {
+      setError(validationError);
+      return;
+    }
+    saveRatios([...speciesRatios, candidate]);
+    setDraft(null);
+    setError(null);
+  };
+
+  const toggleTaxon = (side: 'numerator' | 'complement', fossilId: string) => {
+    if (!draft) return;
+    const current = draft[side];
+    setDraft({ ...draft, [side]: current.includes(fossilId) ? current.filter(id => id !== fossilId) : [...current, fossilId] });
+  };
+
+  const inputClass = "bg-background-interactive border border-border-secondary rounded-md p-1.5 text-xs";
+  const buttonClass = "flex items-center gap-1 px-2 py-1 rounded-md bg-accent-primary/20 text-accent-primary-hover hover:bg-accent-primary/30 text-xs font-semibold disabled:opacity-50";
+
+  return (
+    <div className="p-4 bg-background-tertiary/50 rounded-xl shadow-lg border border-border-primary/50">
+      <div className="flex items-center justify-between flex-wrap gap-3 mb-2">
+        <h3 className="text-lg font-semibold text-content-primary flex items-center gap-2"><Percent size={20} className="text-accent-primary"/> Ratio Proxies</h3>
+        <button onClick={() => { setDraft(emptyRatio()); setError(null); }} className="flex items-center gap-1 text-xs text-accent-primary hover:text-accent-primary-hover font-semibold">
+          <Plus size={14} /> Add species ratio
+        </button>
+      </div>
+      <p className="text-xs text-content-muted mb-3">
+        Morphotype ratios come from the sub-counts of each sample; species ratios divide the counts of some taxa by those taxa plus others. Both are written to the data points as proxy columns and updated whenever the counts change.
+      </p>
+
+      {suggestions.length > 0 && !draft && (
+        <div className="flex items-center gap-2 flex-wrap mb-3">
+          {suggestions.map(suggestion => (
+            <button key={suggestion.column} onClick={() => handleAdd(suggestion)} className={buttonClass}>
+              <Plus size={12} /> {suggestion.numerator.map(taxonName).join(' + ')} vs {suggestion.complement.map(taxonName).join(' + ')}
+            </button>
+          ))}
+        </div>
+      )}
+
+      {draft && (
+        <div className="mb-4 p-3 bg-background-primary/40 rounded-lg border border-border-primary/50 space-y-2">
+          <div className="flex items-center justify-between">
+            <p className="text-xs font-semibold text-content-primary">New species ratio</p>
+            <button onClick={() => { setDraft(null); setError(null); }} className="p-1 text-content-muted hover:text-content-primary"><X size={14} /></button>
+          </div>
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-2">
+            <input type="text" value={draft.label} onChange={e => setDraft({ ...draft, label: e.target.value })} placeholder="Name, e.g. N. pachyderma sinistral (%)" className={inputClass} />
+            <input type="text" value={draft.column} onChange={e => setDraft({ ...draft, column: e.target.value })} placeholder="Column key, e.g. pachydermaSinistral" className={`${inputClass} font-mono`} />
+          </div>
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-2 text-xs text-content-secondary">
+            {(['numerator', 'complement'] as const).map(side => (
+              <div key={side}>
+                <p className="font-semibold mb-1">{side === 'numerator' ? 'Percentage of' : 'Among these and'}</p>
+                {taxa.map(fossilId => (
+                  <label key={fossilId} className="flex items-center gap-2">
+                    <input type="checkbox" checked={draft[side].includes(fossilId)} onChange={() => toggleTaxon(side, fossilId)} className="accent-accent-primary" />
+                    <span className="italic">{taxonName(fossilId)}</span>
+                  </label>
+                ))}
+              </div>
+            ))}
+          </div>
+          {error && <p className="text-xs text-danger-primary">{error}</p>}
+          <button onClick={() => handleAdd(draft)} className={buttonClass}>
+            <Plus size={12} /> Add ratio
+          </button>
+        </div>
+      )}
+
+      {speciesRatios.length > 0 && (
+        <ul className="space-y-1 mb-3">
+          {speciesRatios.map(ratio => (
+            <li key={ratio.id} className="flex items-center gap-2 text-xs text-content-secondary">
+              <span className="font-semibold text-content-primary">{ratio.label}</span>
+              <span className="text-content-muted">
+                <span className="italic">{ratio.numerator.map(taxonName).join(' + ')}</span> / (… + <span className="italic">{ratio.complement.map(taxonName).join(' + ')}</span>)
+              </span>
+              <span className="font-mono text-content-muted">{ratio.column}</span>
+              <button onClick={() => saveRatios(speciesRatios.filter(r => r.id !== ratio.id))} className="p-1 text-content-muted hover:text-danger-primary ml-auto" title="Remove ratio"><Trash2 size={12} /></button>
+            </li>
+          ))}
+        </ul>
+      )}
+
+      {columns.length === 0 ? (
+        <p className="text-xs text-content-muted text-center py-2">Split a taxon by morphotype in a census sample, or add a species ratio.</p>
+      ) : (
+        <div className="overflow-x-auto">
+          <table className="w-full text-xs">
+            <thead>
+              <tr className="text-content-muted text-left">
+                <th className="p-1">Depth (cm)</th><th className="p-1">Sample</th>
+                {columns.map(c => <th key={c.column} className="p-1" title={c.column}>{c.label}</th>)}
+              </tr>
+            </thead>
+            <tbody>
+              {rows.map(row => (
+                <tr key={row.sampleId} className="border-t border-border-primary/50">
+                  <td className="p-1 font-mono">{row.depth}</td>
+                  <td className="p-1">{row.subsection ?? '—'}</td>
+                  {columns.map(c => <td key={c.column} className="p-1 font-mono">{row.values[c.column] !== undefined ? row.values[c.column].toFixed(1) : '—'}</td>)}
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default RatioProxyPanel;
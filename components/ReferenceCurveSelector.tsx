@@ -0,0 +1,104 @@
+import React, { useState } from 'react';
+import type { ReferenceCurve, ReferenceCurveId } from '../data/referenceCurves';
+import { importReferenceCurve, resetReferenceCurve, getReferenceCurves, hasCurveData } from '../services/referenceCurveService';
+import { Globe, Upload, RotateCcw, ChevronDown } from 'lucide-react';
+
+interface ReferenceCurveSelectorProps {
+  curves: ReferenceCurve[];
+  selectedIds: ReferenceCurveId[];
+  onSelectedChange: (ids: ReferenceCurveId[]) => void;
+  onCurvesChange: (curves: ReferenceCurve[]) => void;
+  disabled?: boolean;
+}
+
+const coverageLabel = (curve: ReferenceCurve) => {
+  if (curve.importedFrom) return `imported: ${curve.importedFrom}`;
+  if (curve.bundled === 'subset') return 'bundled subset';
+  if (curve.bundled === 'none') return 'import required';
+  return 'bundled';
+};
+
+const ReferenceCurveSelector: React.FC<ReferenceCurveSelectorProps> = ({ curves, selectedIds, onSelectedChange, onCurvesChange, disabled = false }) => {
+  const [isOpen, setIsOpen] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const toggle = (id: ReferenceCurveId) => {
+    onSelectedChange(selectedIds.includes(id) ? selectedIds.filter(s => s !== id) : [...selectedIds, id]);
+  };
+
+  const handleImport = async (curve: ReferenceCurve, file: File | undefined) => {
+    if (!file) return;
+    setError(null);
+    try {
+      const text = await file.text();
+      importReferenceCurve(curve.id, file.name, text);
+      onCurvesChange(getReferenceCurves());
+      if (!selectedIds.includes(curve.id)) onSelectedChange([...selectedIds, curve.id]);
+    } catch (err: any) {
+      setError(err.message);
+    }
+  };
+
+  const handleReset = (curve: ReferenceCurve) => {
+    setError(null);
+    try {
+      resetReferenceCurve(curve.id);
+      const updated = getReferenceCurves();
+      onCurvesChange(updated);
+      const reset = updated.find(c => c.id === curve.id);
+      if (reset && !hasCurveData(reset)) onSelectedChange(selectedIds.filter(s => s !== curve.id));
+    } catch (err: any) {
+      setError(err.message);
+    }
+  };
+
+  return (
+    <div className="relative" title={disabled ? 'Generate an age model to enable reference overlays' : 'Overlay reference curves'}>
+      <button
+        onClick={() => setIsOpen(prev => !prev)}
+        disabled={disabled}
+        className="flex items-center gap-1.5 px-3 py-2 rounded-lg bg-background-interactive text-xs font-semibold text-content-secondary hover:bg-background-interactive-hover transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+      >
+        <Globe size={14} /> Reference Curves{selectedIds.length > 0 ? ` (${selectedIds.length})` : ''} <ChevronDown size={12} />
+      </button>
+      {isOpen && !disabled && (
+        <div className="absolute right-0 z-20 mt-2 w-80 p-3 bg-background-secondary border border-border-primary rounded-lg shadow-xl space-y-2">
+          {curves.map(curve => {
+            const available = hasCurveData(curve);
+            return (
+              <div key={curve.id} className="flex items-start justify-between gap-2 text-xs">
+                <label className={`flex items-start gap-2 ${available ? 'text-content-secondary cursor-pointer' : 'text-content-muted/60'}`} title={curve.citation}>
+                  <input
+                    type="checkbox"
+                    className="mt-0.5"
+                    checked={selectedIds.includes(curve.id)}
+                    onChange={() => toggle(curve.id)}
+                    disabled={!available}
+                  />
+                  <span>
+                    <span className="font-semibold">{curve.name}</span>
+                    <span className="block text-content-muted">{curve.proxy} ({curve.units}) · {coverageLabel(curve)}</span>
+                  </span>
+                </label>
+                <div className="flex items-center gap-1 flex-shrink-0">
+                  <label className="p-1 rounded cursor-pointer text-content-muted hover:text-content-primary hover:bg-background-interactive" title={`Import the published data file (${curve.ageUnit}) from ${curve.sourceUrl}`}>
+                    <Upload size={12} />
+                    <input type="file" accept=".txt,.csv,.tab,.dat" className="hidden" onChange={e => { handleImport(curve, e.target.files?.[0]); e.target.value = ''; }} />
+                  </label>
+                  {curve.importedFrom && (
+                    <button onClick={() => handleReset(curve)} className="p-1 rounded text-content-muted hover:text-content-primary hover:bg-background-interactive" title="Discard the imported file">
+                      <RotateCcw size={12} />
+                    </button>
+                  )}
+                </div>
+              </div>
+            );
+          })}
+          {error && <p className="text-danger-primary text-xs">{error}</p>}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default ReferenceCurveSelector;
@@ -0,0 +1,165 @@
+import React, { useState, useMemo } from 'react';
+import type { Section, SeawaterD18OSettings, PaleotemperatureEquationId } from '../types';
+import { PALEOTEMPERATURE_EQUATIONS } from '../services/seawaterIsotopeService';
+import { getReferenceCurves, hasCurveData, importReferenceCurve } from '../services/referenceCurveService';
+import { PROXY_LABELS } from '../constants';
+import { Droplets, Upload } from 'lucide-react';
+
+interface SeawaterIsotopePanelProps {
+  section: Section;
+  onChange: (settings: SeawaterD18OSettings | undefined) => void;
+}
+
+// Columns that hold a temperature the calculation can use.
+const TEMPERATURE_COLUMNS = ['calculatedSST', 'sstMgCa', 'sstUk37', 'sstTex86', 'sstSrCa', 'sstTransfer', 'alkenoneSST', 'temperature'];
+
+const loadSeaLevelCurves = () => getReferenceCurves().filter(c => c.units === 'm' && hasCurveData(c));
+
+const defaultSettings = (): SeawaterD18OSettings => ({
+  equationId: 'bemis1998',
+  constants: { ...PALEOTEMPERATURE_EQUATIONS.bemis1998.constants },
+  temperatureColumn: 'calculatedSST',
+  d18OError: 0.08,
+  temperatureError: 1.0,
+  computedAt: new Date().toISOString(),
+});
+
+const SeawaterIsotopePanel: React.FC<SeawaterIsotopePanelProps> = ({ section, onChange }) => {
+  const settings = section.seawaterD18O;
+  const [seaLevelCurves, setSeaLevelCurves] = useState(loadSeaLevelCurves);
+  const [importError, setImportError] = useState<string | null>(null);
+  const sl16 = getReferenceCurves().find(c => c.id === 'SL16');
+  const availableTemperatureColumns = useMemo(
+    () => TEMPERATURE_COLUMNS.filter(col => section.dataPoints.some(dp => typeof dp[col] === 'number')),
+    [section.dataPoints]
+  );
+
+  const update = (changes: Partial<SeawaterD18OSettings>) => {
+    if (settings) onChange({ ...settings, ...changes });
+  };
+
+  const handleEquationChange = (equationId: PaleotemperatureEquationId) => {
+    update({ equationId, constants: { ...PALEOTEMPERATURE_EQUATIONS[equationId].constants } });
+  };
+
+  // The sea-level stack is not bundled; it can be imported here as well as in the reference-curve library.
+  const handleImportSeaLevel = async (file: File | undefined) => {
+    if (!file) return;
+    setImportError(null);
+    try {
+      importReferenceCurve('SL16', file.name, await file.text());
+      setSeaLevelCurves(loadSeaLevelCurves());
+    } catch (err: any) {
+      setImportError(err.message);
+    }
+  };
+
+  const handleNumber = (value: string, apply: (n: number) => void) => {
+    const numValue = parseFloat(value);
+    if (!isNaN(numValue)) apply(numValue);
+  };
+
+  const inputClass = "w-full bg-background-interactive border border-border-secondary rounded-md p-1.5 text-xs";
+  const labelClass = "block text-xs font-medium text-content-muted mb-1";
+  const equation = settings ? PALEOTEMPERATURE_EQUATIONS[settings.equationId] : null;
+
+  return (
+    <div className="p-4 bg-background-primary/30 rounded-lg border border-border-primary">
+      <div className="flex items-center justify-between mb-2">
+        <h3 className="text-lg font-semibold text-content-primary flex items-center gap-2"><Droplets size={20} className="text-accent-primary"/> Seawater δ¹⁸O</h3>
+        <label className="flex items-center gap-2 text-xs text-content-secondary">
+          <input type="checkbox" checked={!!settings} onChange={e => onChange(e.target.checked ? defaultSettings() : undefined)} />
+          Calculate
+        </label>
+      </div>
+      <p className="text-xs text-content-muted mb-3">Combines δ¹⁸O (‰ VPDB) with a temperature column to give δ¹⁸Osw (‰ VSMOW) with propagated 1σ. Recomputed whenever the inputs change.</p>
+
+      {settings && equation && (
+        <div className="space-y-3 text-xs">
+          <div className="grid grid-cols-2 md:grid-cols-4 gap-3">
+            <div>
+              <label className={labelClass}>Equation</label>
+              <select value={settings.equationId} onChange={e => handleEquationChange(e.target.value as PaleotemperatureEquationId)} className={inputClass} title={equation.citation}>
+                {Object.values(PALEOTEMPERATURE_EQUATIONS).map(eq => <option key={eq.id} value={eq.id}>{eq.label}</option>)}
+              </select>
+            </div>
+            <div>
+              <label className={labelClass}>Temperature column</label>
+              <select value={settings.temperatureColumn} onChange={e => update({ temperatureColumn: e.target.value })} className={inputClass}>
+                {Array.from(new Set([settings.temperatureColumn, ...availableTemperatureColumns])).map(col => (
+                  <option key={col} value={col}>{PROXY_LABELS[col] || col}</option>
+                ))}
+              </select>
+            </div>
+            <div>
+              <label className={labelClass}>δ¹⁸O ± 1σ (‰)</label>
+              <input type="number" step="any" min={0} defaultValue={settings.d18OError} onBlur={e => handleNumber(e.target.value, n => update({ d18OError: Math.abs(n) }))} className={inputClass} />
+            </div>
+            <div>
+              <label className={labelClass}>Temperature ± 1σ (°C)</label>
+              <input type="number" step="any" min={0} defaultValue={settings.temperatureError} onBlur={e => handleNumber(e.target.value, n => update({ temperatureError: Math.abs(n) }))} className={inputClass} />
+            </div>
+          </div>
+
+          <div className="flex items-center gap-2 flex-wrap text-content-muted">
+            <span className="font-semibold text-content-secondary">{equation.equation}</span>
+            {equation.presets && (
+              <select defaultValue="" onChange={e => { const preset = equation.presets?.find(p => p.label === e.target.value); if (preset) update({ constants: { ...preset.constants } }); }} className={`${inputClass} w-auto`}>
+                <option value="" disabled>Preset…</option>
+                {equation.presets.map(p => <option key={p.label} value={p.label}>{p.label}</option>)}
+              </select>
+            )}
+            {Object.entries(settings.constants).map(([key, value]) => (
+              <label key={`${settings.equationId}-${key}-${value}`} className="flex items-center gap-1">
+                {key}
+                <input type="number" step="any" defaultValue={value} onBlur={e => handleNumber(e.target.value, n => update({ constants: { ...settings.constants, [key]: n } }))} className={`${inputClass} w-20`} />
+              </label>
+            ))}
+          </div>
+
+          <div className="border-t border-border-primary pt-3">
+            <label className="flex items-center gap-2 text-content-secondary" title={seaLevelCurves.length === 0 ? 'Import a sea-level curve in the reference-curve library first' : undefined}>
+              <input
+                type="checkbox"
+                checked={!!settings.iceVolumeCorrection}
+                disabled={seaLevelCurves.length === 0}
+                onChange={e => update({
+                  iceVolumeCorrection: e.target.checked ? { curveId: seaLevelCurves[0].id, permilPerMetre: 0.008, seaLevelError: 10 } : undefined,
+                })}
+              />
+              Ice-volume correction {seaLevelCurves.length === 0 && <span className="text-content-muted">(no sea-level curve loaded)</span>}
+            </label>
+            {seaLevelCurves.length === 0 && sl16 && (
+              <label className="inline-flex items-center gap-1 mt-1 text-accent-primary hover:text-accent-primary-hover font-semibold cursor-pointer" title={`Age (ka) and sea level (m) columns, from ${sl16.sourceUrl}`}>
+                <Upload size={12} /> Import the {sl16.name}
+                <input type="file" accept=".txt,.csv,.tsv" className="hidden" onChange={e => { handleImportSeaLevel(e.target.files?.[0]); e.target.value = ''; }} />
+              </label>
+            )}
+            {importError && <p className="text-xs text-danger-primary mt-1">{importError}</p>}
+            {settings.iceVolumeCorrection && (
+              <div className="grid grid-cols-3 gap-3 mt-2">
+                <div>
+                  <label className={labelClass}>Sea-level curve</label>
+                  <select value={settings.iceVolumeCorrection.curveId} onChange={e => update({ iceVolumeCorrection: { ...settings.iceVolumeCorrection!, curveId: e.target.value } })} className={inputClass}>
+                    {seaLevelCurves.map(c => <option key={c.id} value={c.id}>{c.name}</option>)}
+                  </select>
+                </div>
+                <div>
+                  <label className={labelClass}>‰ per metre</label>
+                  <input type="number" step="any" defaultValue={settings.iceVolumeCorrection.permilPerMetre} onBlur={e => handleNumber(e.target.value, n => update({ iceVolumeCorrection: { ...settings.iceVolumeCorrection!, permilPerMetre: n } }))} className={inputClass} />
+                </div>
+                <div>
+                  <label className={labelClass}>Sea level ± 1σ (m)</label>
+                  <input type="number" step="any" min={0} defaultValue={settings.iceVolumeCorrection.seaLevelError} onBlur={e => handleNumber(e.target.value, n => update({ iceVolumeCorrection: { ...settings.iceVolumeCorrection!, seaLevelError: Math.abs(n) } }))} className={inputClass} />
+                </div>
+                <p className="col-span-3 text-content-muted">Applied to points that carry an age (ka) within the curve's range.</p>
+              </div>
+            )}
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default SeawaterIsotopePanel;
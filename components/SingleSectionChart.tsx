@@ -1,7 +1,9 @@
 import React from 'react';
 import type { DataPoint, PaleoEvent } from '../types';
 import { PROXY_LABELS } from '../constants';
-import { LineChart, Line, XAxis, YAxis, CartesianGrid, Tooltip, Legend, ResponsiveContainer, ReferenceArea, Label } from 'recharts';
+import { LineChart, Line, XAxis, YAxis, CartesianGrid, Tooltip, Legend, ResponsiveContainer, ReferenceArea, Label, Customized } from 'recharts';
+import AgeUncertaintyBand from './AgeUncertaintyBand';
+import { renderMisBands } from './MisBands';
 
 interface SingleSectionChartProps {
   data: DataPoint[];
@@ -24,6 +26,7 @@ const SingleSectionChart: React.FC<SingleSectionChartProps> = ({ data, xAxisKey,
   }
 
   const yAxisLabel = PROXY_LABELS[yAxisKey] || yAxisKey;
+  const ages = xAxisKey === 'age' ? chartData.map(dp => dp.age as number) : [];
   const xAxisLabel = xAxisKey === 'age' ? 'Age (ka)' : 'Depth (cmbsf)';
 
   return (
@@ -59,20 +62,29 @@ const SingleSectionChart: React.FC<SingleSectionChartProps> = ({ data, xAxisKey,
                     labelStyle={{ color: 'var(--text-primary)', fontWeight: 'bold' }}
                 />
                 <Legend wrapperStyle={{ paddingTop: '35px' }} />
+
+                {ages.length > 0 && renderMisBands(Math.min(...ages), Math.max(...ages))}
                 
-                {xAxisKey === 'age' && events.map((event, index) => (
-                    <ReferenceArea 
-                        key={index} 
-                        x1={event.endAge} // X-axis is reversed
-                        x2={event.startAge} // X-axis is reversed
-                        stroke="var(--event-annotation-stroke)"
-                        fill="var(--event-annotation-fill)"
-                        strokeOpacity={0.6}
-                        fillOpacity={0.2}
-                    >
-                      <Label value={event.eventName} position="top" fill="var(--event-annotation-stroke)" fontSize={12} offset={10} />
-                    </ReferenceArea>
-                ))}
+                {xAxisKey === 'age' && events.map((event, index) => {
+                    const palette = event.source === 'statistical' ? 'statistical' : 'annotation';
+                    return (
+                        <ReferenceArea 
+                            key={index} 
+                            x1={event.endAge} // X-axis is reversed
+                            x2={event.startAge} // X-axis is reversed
+                            stroke={`var(--event-${palette}-stroke)`}
+                            fill={`var(--event-${palette}-fill)`}
+                            strokeOpacity={0.6}
+                            fillOpacity={0.2}
+                        >
+                          <Label value={event.eventName} position={event.source === 'statistical' ? 'insideBottom' : 'top'} fill={`var(--event-${palette}-stroke)`} fontSize={12} offset={10} />
+                        </ReferenceArea>
+                    );
+                })}
+
+                {xAxisKey === 'age' && (
+                    <Customized component={<AgeUncertaintyBand points={chartData} proxyKey={yAxisKey} />} />
+                )}
 
                 <Line 
                     type="monotone" 
@@ -0,0 +1,284 @@
+import React, { useState, useMemo, useRef, useEffect } from 'react';
+import type { Section, DataPoint } from '../types';
+import { LineChart, Line, XAxis, YAxis, CartesianGrid, Tooltip, Legend, ResponsiveContainer, ReferenceArea } from 'recharts';
+import { extractTimeSeries, lombScargle, blackmanTukey, morletWavelet, ORBITAL_BANDS, type WaveletResult } from '../services/spectralAnalysisService';
+import { PROXY_LABELS, NON_PROXY_KEYS } from '../constants';
+import { AudioWaveform, AlertTriangle } from 'lucide-react';
+
+interface SpectralAnalysisViewProps {
+  calibratedSections: Section[];
+  compositeSplice: DataPoint[];
+}
+
+type SpectralMethod = 'lomb' | 'blackman' | 'wavelet';
+
+const SPLICE_SOURCE = '__splice__';
+
+const METHODS: { id: SpectralMethod; label: string }[] = [
+  { id: 'lomb', label: 'Lomb–Scargle' },
+  { id: 'blackman', label: 'Blackman–Tukey' },
+  { id: 'wavelet', label: 'Wavelet' },
+];
+
+// Orbital bands are shaded ±10% around their nominal period.
+const BAND_WIDTH = 0.1;
+
+// Low-to-high power colour ramp for the scalogram.
+const RAMP = [[13, 8, 135], [84, 2, 163], [139, 10, 165], [185, 50, 137], [219, 92, 104], [244, 136, 73], [254, 188, 43], [240, 249, 33]];
+
+const rampColor = (t: number) => {
+  const x = Math.max(0, Math.min(1, t)) * (RAMP.length - 1);
+  const i = Math.min(Math.floor(x), RAMP.length - 2);
+  const f = x - i;
+  return RAMP[i].map((c, k) => Math.round(c + f * (RAMP[i + 1][k] - c)));
+};
+
+const Scalogram: React.FC<{ result: WaveletResult }> = ({ result }) => {
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+
+  useEffect(() => {
+    const canvas = canvasRef.current;
+    const ctx = canvas?.getContext('2d');
+    if (!canvas || !ctx) return;
+    const styles = getComputedStyle(document.documentElement);
+    const textColor = styles.getPropertyValue('--text-muted').trim() || '#9ca3af';
+    const width = canvas.width;
+    const height = canvas.height;
+    const margin = { left: 56, right: 12, top: 10, bottom: 36 };
+    const plotW = width - margin.left - margin.right;
+    const plotH = height - margin.top - margin.bottom;
+    const { times, periods, power, coi } = result;
+    const tMin = times[0];
+    const tMax = times[times.length - 1];
+    const logMin = Math.log2(periods[0]);
+    const logMax = Math.log2(periods[periods.length - 1]);
+    // Older ages on the left, as in the synthesis chart; longer periods at the bottom.
+    const xOf = (t: number) => margin.left + (tMax - t) / (tMax - tMin || 1) * plotW;
+    const yOf = (period: number) => margin.top + (Math.log2(period) - logMin) / (logMax - logMin || 1) * plotH;
+
+    ctx.clearRect(0, 0, width, height);
+    const logPower = power.map(row => row.map(p => Math.log2(Math.max(p, 1e-6))));
+    const flat = logPower.flat().sort((a, b) => a - b);
+    const lo = flat[Math.floor(flat.length * 0.02)];
+    const hi = flat[Math.floor(flat.length * 0.98)];
+    const cellW = plotW / times.length + 1;
+    const cellH = plotH / periods.length + 1;
+    logPower.forEach((row, j) => {
+      const y = margin.top + j / periods.length * plotH;
+      row.forEach((value, i) => {
+        const [r, g, b] = rampColor((value - lo) / (hi - lo || 1));
+        ctx.fillStyle = `rgb(${r},${g},${b})`;
+        ctx.fillRect(xOf(times[i]) - cellW, y, cellW, cellH);
+      });
+    });
+
+    // Cone of influence: edge effects make power below it unreliable.
+    ctx.fillStyle = 'rgba(255,255,255,0.35)';
+    ctx.beginPath();
+    ctx.moveTo(xOf(times[0]), margin.top + plotH);
+    times.forEach((t, i) => ctx.lineTo(xOf(t), Math.min(yOf(Math.max(coi[i], periods[0])), margin.top + plotH)));
+    ctx.lineTo(xOf(times[times.length - 1]), margin.top + plotH);
+    ctx.closePath();
+    ctx.fill();
+
+    ctx.font = '11px sans-serif';
+    ctx.setLineDash([4, 3]);
+    ctx.strokeStyle = 'rgba(255,255,255,0.8)';
+    ORBITAL_BANDS.forEach(band => {
+      if (band.period < periods[0] || band.period > periods[periods.length - 1]) return;
+      const y = yOf(band.period);
+      ctx.beginPath();
+      ctx.moveTo(margin.left, y);
+      ctx.lineTo(margin.left + plotW, y);
+      ctx.stroke();
+      ctx.fillStyle = textColor;
+      ctx.textAlign = 'right';
+      ctx.fillText(`${band.period}`, margin.left - 6, y + 4);
+    });
+    ctx.setLineDash([]);
+
+    ctx.fillStyle = textColor;
+    ctx.textAlign = 'center';
+    for (let k = 0; k <= 5; k++) {
+      const t = tMin + k / 5 * (tMax - tMin);
+      ctx.fillText(t.toFixed(0), xOf(t), margin.top + plotH + 14);
+    }
+    ctx.fillText('Age (ka)', margin.left + plotW / 2, height - 4);
+    ctx.save();
+    ctx.translate(12, margin.top + plotH / 2);
+    ctx.rotate(-Math.PI / 2);
+    ctx.fillText('Period (kyr)', 0, 0);
+    ctx.restore();
+  }, [result]);
+
+  return <canvas ref={canvasRef} width={900} height={420} className="w-full h-auto" />;
+};
+
+const SpectralAnalysisView: React.FC<SpectralAnalysisViewProps> = ({ calibratedSections, compositeSplice }) => {
+  const [source, setSource] = useState<string>(compositeSplice.length > 0 ? SPLICE_SOURCE : calibratedSections[0]?.id ?? '');
+  const [proxyKey, setProxyKey] = useState('delta18O');
+  const [method, setMethod] = useState<SpectralMethod>('lomb');
+  const [lagFraction, setLagFraction] = useState(1 / 3);
+  const [logPower, setLogPower] = useState(false);
+
+  const sourcePoints = useMemo(() => {
+    if (source === SPLICE_SOURCE) return compositeSplice;
+    return calibratedSections.find(s => s.id === source)?.dataPoints ?? [];
+  }, [source, compositeSplice, calibratedSections]);
+
+  const availableProxies = useMemo(() => {
+    const proxies = new Set<string>();
+    sourcePoints.forEach(dp => Object.keys(dp).forEach(key => {
+      if (!NON_PROXY_KEYS.includes(key) && typeof dp[key] === 'number') proxies.add(key);
+    }));
+    return Array.from(proxies);
+  }, [sourcePoints]);
+
+  useEffect(() => {
+    if (availableProxies.length > 0 && !availableProxies.includes(proxyKey)) setProxyKey(availableProxies[0]);
+  }, [availableProxies, proxyKey]);
+
+  const series = useMemo(() => extractTimeSeries(sourcePoints, proxyKey), [sourcePoints, proxyKey]);
+
+  const analysis = useMemo(() => {
+    try {
+      if (method === 'lomb') return { spectrum: lombScargle(series), note: 'Dashed lines: false-alarm levels' };
+      if (method === 'blackman') {
+        const result = blackmanTukey(series, { lagFraction });
+        return { spectrum: result.spectrum, note: `AR(1) red noise, ρ = ${result.rho.toFixed(2)}, ${result.dof.toFixed(1)} degrees of freedom` };
+      }
+      return { wavelet: morletWavelet(series) };
+    } catch (e: any) {
+      return { error: e.message as string };
+    }
+  }, [series, method, lagFraction]);
+
+  if (calibratedSections.length === 0) {
+    return (
+      <div className="flex flex-col items-center justify-center p-12 bg-background-tertiary/50 rounded-xl text-content-muted border border-border-primary/50">
+        <AudioWaveform size={48} className="mb-4" />
+        <h3 className="text-lg font-semibold text-content-primary">No Age Model</h3>
+        <p>Calibrate the sections in the Synthesis tab to analyse their time series.</p>
+      </div>
+    );
+  }
+
+  const sampleSpacing = series.age.length > 1 ? (series.age[series.age.length - 1] - series.age[0]) / (series.age.length - 1) : null;
+  const inputClass = "w-full bg-background-interactive border border-border-secondary rounded-md p-2 text-sm";
+  const labelClass = "block text-sm font-medium text-content-muted mb-1";
+
+  return (
+    <div className="grid grid-cols-1 lg:grid-cols-4 gap-6">
+      <div className="lg:col-span-1 p-4 bg-background-tertiary/50 rounded-xl border border-border-primary/50 space-y-4 h-fit">
+        <h3 className="text-lg font-semibold text-content-primary flex items-center gap-2"><AudioWaveform size={20} className="text-accent-primary"/> Spectral Analysis</h3>
+        <div>
+          <label className={labelClass}>Series</label>
+          <select value={source} onChange={e => setSource(e.target.value)} className={inputClass}>
+            <option value={SPLICE_SOURCE} disabled={compositeSplice.length === 0}>Composite splice{compositeSplice.length === 0 ? ' (not defined)' : ''}</option>
+            {calibratedSections.map(s => <option key={s.id} value={s.id}>{s.name}</option>)}
+          </select>
+        </div>
+        <div>
+          <label className={labelClass}>Proxy</label>
+          <select value={proxyKey} onChange={e => setProxyKey(e.target.value)} className={inputClass}>
+            {availableProxies.length === 0 ? <option>No data</option> : availableProxies.map(p => <option key={p} value={p}>{PROXY_LABELS[p] || p}</option>)}
+          </select>
+        </div>
+        <div>
+          <label className={labelClass}>Method</label>
+          <div className="grid grid-cols-3 gap-1 bg-background-primary/30 rounded-md p-1">
+            {METHODS.map(m => (
+              <button
+                key={m.id}
+                onClick={() => setMethod(m.id)}
+                className={`px-2 py-1.5 text-xs font-semibold rounded ${method === m.id ? 'bg-accent-primary text-accent-primary-text' : 'text-content-muted hover:text-content-primary hover:bg-background-interactive'}`}
+              >
+                {m.label}
+              </button>
+            ))}
+          </div>
+        </div>
+        {method === 'blackman' && (
+          <div>
+            <label className={labelClass}>Maximum lag: {Math.round(lagFraction * 100)}% of record</label>
+            <input type="range" min={0.1} max={0.5} step={0.05} value={lagFraction} onChange={e => setLagFraction(parseFloat(e.target.value))} className="w-full" />
+            <p className="text-xs text-content-muted">Shorter lags give a smoother spectrum with more degrees of freedom.</p>
+          </div>
+        )}
+        {method !== 'wavelet' && (
+          <label className="flex items-center gap-2 text-sm text-content-secondary">
+            <input type="checkbox" checked={logPower} onChange={e => setLogPower(e.target.checked)} />
+            Logarithmic power axis
+          </label>
+        )}
+        <div className="text-xs text-content-muted space-y-1 border-t border-border-primary pt-3">
+          <p>{series.age.length} dated samples{series.age.length > 0 && `, ${series.age[0].toFixed(1)}–${series.age[series.age.length - 1].toFixed(1)} ka`}</p>
+          {sampleSpacing !== null && <p>Mean spacing {sampleSpacing.toFixed(2)} kyr (Nyquist period {(2 * sampleSpacing).toFixed(2)} kyr)</p>}
+          <p>Orbital bands: {ORBITAL_BANDS.map(b => `${b.period} kyr`).join(', ')}</p>
+        </div>
+      </div>
+
+      <div className="lg:col-span-3 p-4 bg-background-tertiary/50 rounded-xl border border-border-primary/50">
+        {'error' in analysis && analysis.error ? (
+          <div className="flex items-center gap-2 p-4 text-sm text-danger-primary bg-danger-primary/10 rounded-md">
+            <AlertTriangle size={16} /> {analysis.error}
+          </div>
+        ) : 'wavelet' in analysis && analysis.wavelet ? (
+          <div>
+            <Scalogram result={analysis.wavelet} />
+            <p className="text-xs text-content-muted mt-2">Morlet wavelet power (log scale, normalized by variance). Dashed lines mark the orbital periods; the pale region is the cone of influence.</p>
+          </div>
+        ) : 'spectrum' in analysis && analysis.spectrum ? (
+          <div>
+            <div style={{ width: '100%', height: 460 }}>
+              <ResponsiveContainer>
+                <LineChart data={logPower ? analysis.spectrum.filter(p => p.power > 0) : analysis.spectrum} margin={{ top: 5, right: 20, left: 10, bottom: 20 }}>
+                  <CartesianGrid strokeDasharray="3 3" />
+                  <XAxis
+                    dataKey="frequency"
+                    type="number"
+                    domain={[0, 'dataMax']}
+                    tick={{ fontSize: 12, fill: 'var(--recharts-axis-stroke)' }}
+                    tickFormatter={(f: number) => f.toFixed(3)}
+                    label={{ value: 'Frequency (cycles/kyr)', position: 'insideBottom', offset: -15, fontSize: 14 }}
+                  />
+                  <YAxis
+                    scale={logPower ? 'log' : 'auto'}
+                    domain={['auto', 'auto']}
+                    allowDataOverflow={logPower}
+                    tick={{ fontSize: 12, fill: 'var(--recharts-axis-stroke)' }}
+                    tickFormatter={(v: number) => v.toPrecision(2)}
+                    label={{ value: 'Power', angle: -90, position: 'insideLeft', fontSize: 14 }}
+                  />
+                  <Tooltip
+                    formatter={(value: any, name: any) => [typeof value === 'number' ? value.toPrecision(3) : value, name]}
+                    labelFormatter={(f) => `${Number(f).toFixed(4)} cycles/kyr (${(1 / Number(f)).toFixed(1)} kyr)`}
+                  />
+                  <Legend wrapperStyle={{ paddingTop: '20px' }} />
+                  {ORBITAL_BANDS.map(band => (
+                    <ReferenceArea
+                      key={band.period}
+                      x1={1 / (band.period * (1 + BAND_WIDTH))}
+                      x2={1 / (band.period * (1 - BAND_WIDTH))}
+                      fill="var(--accent-primary)"
+                      fillOpacity={0.12}
+                      ifOverflow="hidden"
+                      label={{ value: `${band.period}`, position: 'insideTop', fontSize: 10, fill: 'var(--text-muted)' }}
+                    />
+                  ))}
+                  <Line type="monotone" dataKey="power" name="Power" stroke="var(--accent-primary)" dot={false} strokeWidth={2} isAnimationActive={false} />
+                  <Line type="monotone" dataKey="conf90" name="90%" stroke="#82ca9d" strokeDasharray="4 3" dot={false} isAnimationActive={false} />
+                  <Line type="monotone" dataKey="conf95" name="95%" stroke="#ffc658" strokeDasharray="4 3" dot={false} isAnimationActive={false} />
+                  <Line type="monotone" dataKey="conf99" name="99%" stroke="#ff8042" strokeDasharray="4 3" dot={false} isAnimationActive={false} />
+                </LineChart>
+              </ResponsiveContainer>
+            </div>
+            {'note' in analysis && <p className="text-xs text-content-muted mt-2">{analysis.note}. Shaded: {ORBITAL_BANDS.map(b => `${b.label.toLowerCase()} (${b.period} kyr)`).join(', ')}.</p>}
+          </div>
+        ) : null}
+      </div>
+    </div>
+  );
+};
+
+export default SpectralAnalysisView;
@@ -0,0 +1,110 @@
+import React, { useState } from 'react';
+import type { SstCalibrationId, SstCalibrationRecord } from '../types';
+import { SST_CALIBRATIONS, createSstCalibration } from '../services/proxyCalibrationService';
+import { PROXY_LABELS } from '../constants';
+import { Thermometer, Plus, Trash2, ArrowUp, RefreshCw } from 'lucide-react';
+
+interface SstCalibrationPanelProps {
+  calibrations: SstCalibrationRecord[];
+  onChange: (calibrations: SstCalibrationRecord[]) => void;
+}
+
+const SstCalibrationPanel: React.FC<SstCalibrationPanelProps> = ({ calibrations, onChange }) => {
+  const available = (Object.keys(SST_CALIBRATIONS) as SstCalibrationId[]).filter(id => !calibrations.some(c => c.calibrationId === id));
+  const [newId, setNewId] = useState<SstCalibrationId | ''>('');
+
+  const handleAdd = () => {
+    if (!newId) return;
+    onChange([...calibrations, createSstCalibration(newId)]);
+    setNewId('');
+  };
+
+  const handleConstantChange = (index: number, key: string, value: string) => {
+    const numValue = parseFloat(value);
+    if (isNaN(numValue)) return;
+    onChange(calibrations.map((c, i) => i === index ? { ...c, constants: { ...c.constants, [key]: numValue } } : c));
+  };
+
+  const handlePreset = (index: number, presetLabel: string) => {
+    const preset = SST_CALIBRATIONS[calibrations[index].calibrationId].presets?.find(p => p.label === presetLabel);
+    if (!preset) return;
+    onChange(calibrations.map((c, i) => i === index ? { ...c, constants: { ...preset.constants } } : c));
+  };
+
+  const handleMakePrimary = (index: number) => {
+    onChange([calibrations[index], ...calibrations.filter((_, i) => i !== index)]);
+  };
+
+  const inputClass = "w-full bg-background-interactive border border-border-secondary rounded-md p-1.5 text-xs";
+
+  return (
+    <div className="p-4 bg-background-primary/30 rounded-lg border border-border-primary">
+      <h3 className="text-lg font-semibold text-content-primary flex items-center gap-2 mb-2"><Thermometer size={20} className="text-accent-primary"/> SST Calibrations</h3>
+      <p className="text-xs text-content-muted mb-3">Derived temperature columns are recomputed whenever their source column changes. The first calibration also fills {PROXY_LABELS.calculatedSST}.</p>
+
+      <div className="space-y-2">
+        {calibrations.map((calibration, index) => {
+          const definition = SST_CALIBRATIONS[calibration.calibrationId];
+          return (
+            <div key={calibration.calibrationId} className={`p-2 rounded-md text-xs ${index === 0 ? 'bg-accent-primary/10 border border-accent-primary/40' : 'bg-background-tertiary/50'}`}>
+              <div className="flex items-center justify-between gap-2">
+                <div title={definition.citation}>
+                  <p className="font-bold text-content-secondary">{definition.label}{index === 0 && <span className="ml-2 text-[10px] uppercase tracking-wide text-accent-primary">Primary</span>}</p>
+                  <p className="text-content-muted">
+                    {PROXY_LABELS[calibration.sourceColumn] || calibration.sourceColumn} → {PROXY_LABELS[calibration.targetColumn] || calibration.targetColumn} · {calibration.equation} · computed {new Date(calibration.computedAt).toLocaleString()}
+                  </p>
+                </div>
+                <div className="flex items-center gap-1 flex-shrink-0">
+                  {index > 0 && (
+                    <button onClick={() => handleMakePrimary(index)} className="p-1 rounded text-content-muted hover:text-content-primary hover:bg-background-interactive" title="Use for Calculated SST">
+                      <ArrowUp size={12} />
+                    </button>
+                  )}
+                  <button onClick={() => onChange(calibrations.filter((_, i) => i !== index))} className="p-1 rounded text-danger-primary hover:bg-danger-primary/20" title="Remove calibration and its derived column">
+                    <Trash2 size={12} />
+                  </button>
+                </div>
+              </div>
+              <div className="flex items-center gap-2 mt-2 flex-wrap">
+                {definition.presets && (
+                  <select defaultValue="" onChange={e => handlePreset(index, e.target.value)} className={`${inputClass} w-auto`}>
+                    <option value="" disabled>Preset…</option>
+                    {definition.presets.map(p => <option key={p.label} value={p.label}>{p.label}</option>)}
+                  </select>
+                )}
+                {Object.entries(calibration.constants).map(([key, value]) => (
+                  <label key={key} className="flex items-center gap-1 text-content-muted">
+                    {key}
+                    <input
+                      type="number"
+                      step="any"
+                      defaultValue={value}
+                      key={`${key}-${value}`}
+                      onBlur={e => handleConstantChange(index, key, e.target.value)}
+                      className={`${inputClass} w-20`}
+                    />
+                  </label>
+                ))}
+              </div>
+            </div>
+          );
+        })}
+      </div>
+
+      <div className="flex items-stretch gap-2 mt-3">
+        <select value={newId} onChange={e => setNewId(e.target.value as SstCalibrationId)} className={inputClass} disabled={available.length === 0}>
+          <option value="">{available.length === 0 ? 'All calibrations added' : 'Add a calibration…'}</option>
+          {available.map(id => <option key={id} value={id}>{SST_CALIBRATIONS[id].label}</option>)}
+        </select>
+        <button onClick={handleAdd} disabled={!newId} className="p-2 rounded-md bg-accent-primary/20 text-accent-primary-hover hover:bg-accent-primary/30 transition-colors disabled:opacity-50" title="Add calibration">
+          <Plus size={16} />
+        </button>
+        <button onClick={() => onChange(calibrations)} disabled={calibrations.length === 0} className="p-2 rounded-md bg-accent-secondary/20 text-accent-secondary hover:bg-accent-secondary/40 transition-colors disabled:opacity-50" title="Recompute derived columns">
+          <RefreshCw size={16} />
+        </button>
+      </div>
+    </div>
+  );
+};
+
+export default SstCalibrationPanel;
@@ -240,13 +240,32 @@ const StratigraphicColumn: React.FC<{ sections: Section[]; microfossils: Microfo
             };
         });
     }, [sortedSections, totalCoreDepth]);
-    
+
+    const polarityZones = useMemo(() =>
+        sortedSections
+            .flatMap(section => section.polarityRecord ?? [])
+            .filter(zone => zone.bottomDepth > 0 && zone.topDepth < totalCoreDepth),
+    [sortedSections, totalCoreDepth]);
+    const hasPolarity = polarityZones.length > 0;
+
+    const assemblageZones = useMemo(() =>
+        sortedSections.flatMap(section =>
+            [...(section.assemblageZones ?? [])]
+                .sort((a, b) => a.topDepth - b.topDepth)
+                .map((zone, index) => ({ ...zone, sectionName: section.name, isFirst: index === 0 }))
+        ).filter(zone => zone.bottomDepth > 0 && zone.topDepth < totalCoreDepth),
+    [sortedSections, totalCoreDepth]);
+    const hasZones = assemblageZones.length > 0;
 
     const columnWidth = 60;
+    const polarityWidth = 14;
+    const zoneWidth = 14;
     const scaleHeight = 350;
     const padding = { top: 20, right: 60, bottom: 20, left: 10 };
     const svgHeight = scaleHeight + padding.top + padding.bottom;
-    const svgWidth = columnWidth + padding.left + padding.right;
+    const polarityX = padding.left + columnWidth + padding.right - 8;
+    const zoneX = polarityX + (hasPolarity ? polarityWidth + 4 : 0);
+    const svgWidth = columnWidth + padding.left + padding.right + (hasPolarity ? polarityWidth + 4 : 0) + (hasZones ? zoneWidth + 4 : 0);
     
     const depthToY = (depth: number) => (depth / totalCoreDepth) * scaleHeight + padding.top;
 
@@ -266,6 +285,14 @@ const StratigraphicColumn: React.FC<{ sections: Section[]; microfossils: Microfo
             if (hoverSection) {
                 content = `${hoverSection.section.name} | ${content}`;
             }
+            const hoverZone = polarityZones.find(z => depth >= z.topDepth && depth < z.bottomDepth);
+            if (hoverZone) {
+                content = `${content} | ${hoverZone.polarity} polarity`;
+            }
+            const hoverAssemblage = assemblageZones.find(z => depth >= z.topDepth && depth < z.bottomDepth);
+            if (hoverAssemblage) {
+                content = `${content} | ${hoverAssemblage.sectionName} ${hoverAssemblage.label}`;
+            }
             setTooltip({
                 visible: true,
                 x: e.clientX - rect.left + 15,
@@ -369,6 +396,62 @@ const StratigraphicColumn: React.FC<{ sections: Section[]; microfossils: Microfo
                             ))}
                             <text x={padding.left + columnWidth + 35} y={padding.top + scaleHeight / 2} fill="var(--text-muted)" fontSize="12" transform={`rotate(-90, ${padding.left + columnWidth + 35}, ${padding.top + scaleHeight / 2})`} textAnchor="middle">Depth (cmbsf)</text>
                         </g>
+
+                        {/* Magnetic polarity column: normal black, reversed white, uncertain hatched, no data shaded */}
+                        {hasPolarity && (
+                            <g className="polarity-column">
+                                <defs>
+                                    <pattern id="polarity-uncertain" width="4" height="4" patternUnits="userSpaceOnUse" patternTransform="rotate(45)">
+                                        <rect width="4" height="4" fill="#ffffff" />
+                                        <line x1="0" y1="0" x2="0" y2="4" stroke="#7f7f7f" strokeWidth="1.5" />
+                                    </pattern>
+                                </defs>
+                                <rect x={polarityX} y={padding.top} width={polarityWidth} height={scaleHeight} fill="var(--bg-secondary)" />
+                                {polarityZones.map((zone, i) => {
+                                    const top = Math.max(zone.topDepth, 0);
+                                    const bottom = Math.min(zone.bottomDepth, totalCoreDepth);
+                                    return (
+                                        <rect
+                                            key={i}
+                                            x={polarityX}
+                                            y={depthToY(top)}
+                                            width={polarityWidth}
+                                            height={depthToY(bottom) - depthToY(top)}
+                                            fill={zone.polarity === 'normal' ? '#000000' : zone.polarity === 'reversed' ? '#ffffff' : 'url(#polarity-uncertain)'}
+                                            fillOpacity={zone.confidence === 'low' ? 0.6 : 1}
+                                        >
+                                            <title>{`${zone.polarity} ${zone.topDepth}–${zone.bottomDepth} cm${zone.inclination !== undefined ? `, I = ${zone.inclination}°` : ''} (${zone.confidence} confidence)`}</title>
+                                        </rect>
+                                    );
+                                })}
+                                <rect x={polarityX} y={padding.top} width={polarityWidth} height={scaleHeight} fill="none" stroke="var(--text-muted)" />
+                                <text x={polarityX + polarityWidth / 2} y={padding.top - 6} fill="var(--text-muted)" fontSize="9" textAnchor="middle">Pol.</text>
+                            </g>
+                        )}
+
+                        {/* Assemblage zones (CONISS): dashed boundaries across the column and a labelled zone strip */}
+                        {hasZones && (
+                            <g className="assemblage-zones">
+                                {assemblageZones.filter(zone => !zone.isFirst).map(zone => (
+                                    <line key={`boundary-${zone.id}`} x1={padding.left} x2={padding.left + columnWidth} y1={depthToY(zone.topDepth)} y2={depthToY(zone.topDepth)} stroke="var(--danger-primary)" strokeWidth="1" strokeDasharray="4 3" pointerEvents="none" />
+                                ))}
+                                {assemblageZones.map((zone, i) => {
+                                    const top = depthToY(Math.max(zone.topDepth, 0));
+                                    const height = depthToY(Math.min(zone.bottomDepth, totalCoreDepth)) - top;
+                                    return (
+                                        <g key={zone.id}>
+                                            <rect x={zoneX} y={top} width={zoneWidth} height={height} fill={i % 2 === 0 ? 'var(--accent-primary)' : 'var(--text-muted)'} fillOpacity={0.35} stroke="var(--text-muted)">
+                                                <title>{`${zone.sectionName} ${zone.label}: ${zone.topDepth}–${zone.bottomDepth} cm (${zone.sampleCount} samples)`}</title>
+                                            </rect>
+                                            {height > 24 && (
+                                                <text x={zoneX + zoneWidth / 2} y={top + height / 2} fill="var(--text-primary)" fontSize="8" textAnchor="middle" dominantBaseline="middle" transform={`rotate(-90, ${zoneX + zoneWidth / 2}, ${top + height / 2})`} pointerEvents="none">{zone.label}</text>
+                                            )}
+                                        </g>
+                                    );
+                                })}
+                                <text x={zoneX + zoneWidth / 2} y={padding.top - 6} fill="var(--text-muted)" fontSize="9" textAnchor="middle">Zone</text>
+                            </g>
+                        )}
                     </svg>
                 </div>
                 {tooltip.visible && (
@@ -0,0 +1,219 @@
+import React, { useState, useMemo } from 'react';
+import type { Section, TephraLayer, MajorOxide, OxideComposition } from '../types';
+import { MAJOR_OXIDES, OXIDE_LABELS, MIN_SIMILARITY, matchTephraLayer } from '../services/tephraService';
+import { TEPHRA_REFERENCES } from '../data/tephraReferences';
+import { Mountain, Plus, Save, Pencil, Trash2, Link2, Unlink, X } from 'lucide-react';
+
+interface TephraLayerEditorProps {
+  section: Section;
+  onUpdateSection: (section: Section) => void;
+}
+
+interface LayerDraft {
+  depth: string;
+  thickness: string;
+  shardCount: string;
+  notes: string;
+  mean: Record<MajorOxide, string>;
+  sd: Record<MajorOxide, string>;
+}
+
+const emptyOxides = (): Record<MajorOxide, string> =>
+  Object.fromEntries(MAJOR_OXIDES.map(oxide => [oxide, ''])) as Record<MajorOxide, string>;
+
+const emptyDraft = (): LayerDraft => ({ depth: '', thickness: '', shardCount: '', notes: '', mean: emptyOxides(), sd: emptyOxides() });
+
+const layerToDraft = (layer: TephraLayer): LayerDraft => ({
+  depth: layer.depth.toString(),
+  thickness: layer.thickness.toString(),
+  shardCount: layer.shardCount?.toString() ?? '',
+  notes: layer.notes ?? '',
+  mean: Object.fromEntries(MAJOR_OXIDES.map(oxide => [oxide, layer.glassMean?.[oxide]?.toString() ?? ''])) as Record<MajorOxide, string>,
+  sd: Object.fromEntries(MAJOR_OXIDES.map(oxide => [oxide, layer.glassSd?.[oxide]?.toString() ?? ''])) as Record<MajorOxide, string>,
+});
+
+const parseOxides = (values: Record<MajorOxide, string>): OxideComposition | undefined => {
+  const parsed = MAJOR_OXIDES
+    .filter(oxide => values[oxide] !== '' && !isNaN(parseFloat(values[oxide])))
+    .map(oxide => [oxide, parseFloat(values[oxide])]);
+  return parsed.length > 0 ? Object.fromEntries(parsed) : undefined;
+};
+
+const TephraLayerEditor: React.FC<TephraLayerEditorProps> = ({ section, onUpdateSection }) => {
+  const layers = useMemo(() => [...(section.tephraRecord ?? [])].sort((a, b) => a.depth - b.depth), [section.tephraRecord]);
+  const [draft, setDraft] = useState<LayerDraft | null>(null);
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [selectedId, setSelectedId] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const matches = useMemo(() => new Map(layers.map(layer => [layer.id, matchTephraLayer(layer)])), [layers]);
+  const selected = layers.find(l => l.id === selectedId) ?? null;
+
+  const saveLayers = (next: TephraLayer[]) => {
+    onUpdateSection({ ...section, tephraRecord: next });
+  };
+
+  const startEdit = (layer: TephraLayer | null) => {
+    setError(null);
+    setEditingId(layer?.id ?? null);
+    setDraft(layer ? layerToDraft(layer) : emptyDraft());
+  };
+
+  const handleSaveDraft = () => {
+    if (!draft) return;
+    const depth = parseFloat(draft.depth);
+    const thickness = parseFloat(draft.thickness);
+    if (isNaN(depth) || isNaN(thickness) || thickness < 0) {
+      setError('Enter the depth of the top of the layer and a thickness of 0 cm or more.');
+      return;
+    }
+    const previous = layers.find(l => l.id === editingId);
+    const shardCount = parseInt(draft.shardCount, 10);
+    const glassMean = parseOxides(draft.mean);
+    const glassSd = parseOxides(draft.sd);
+    const layer: TephraLayer = {
+      id: previous?.id ?? `tephra-${Date.now()}`,
+      depth,
+      thickness,
+      ...(glassMean && { glassMean }),
+      ...(glassSd && { glassSd }),
+      ...(!isNaN(shardCount) && { shardCount }),
+      ...(previous?.correlativeId && { correlativeId: previous.correlativeId }),
+      ...(draft.notes.trim() && { notes: draft.notes.trim() }),
+    };
+    saveLayers(previous ? layers.map(l => l.id === previous.id ? layer : l) : [...layers, layer]);
+    setDraft(null);
+    setEditingId(null);
+    setSelectedId(layer.id);
+  };
+
+  const handleDelete = (id: string) => {
+    saveLayers(layers.filter(l => l.id !== id));
+    if (selectedId === id) setSelectedId(null);
+  };
+
+  const setCorrelative = (layer: TephraLayer, correlativeId: string | undefined) => {
+    const { correlativeId: _previous, ...rest } = layer;
+    saveLayers(layers.map(l => l.id === layer.id ? { ...rest, ...(correlativeId && { correlativeId }) } : l));
+  };
+
+  const inputClass = "w-full bg-background-interactive border border-border-secondary rounded-md p-1.5 text-xs";
+
+  return (
+    <div className="p-4 bg-background-primary/30 rounded-lg border border-border-primary">
+      <div className="flex items-center justify-between mb-2">
+        <h3 className="text-lg font-semibold text-content-primary flex items-center gap-2"><Mountain size={20} className="text-accent-primary"/> Tephra Layers</h3>
+        <button onClick={() => startEdit(null)} className="flex items-center gap-1 text-xs text-accent-primary hover:text-accent-primary-hover font-semibold">
+          <Plus size={14} /> Add layer
+        </button>
+      </div>
+      <p className="text-xs text-content-muted mb-3">
+        Glass compositions are normalised and matched against the reference eruptions by similarity coefficient (≥ {MIN_SIMILARITY}) and statistical distance (99 % χ²). Accepted correlatives date the base of the layer in the age model.
+      </p>
+
+      {draft && (
+        <div className="mb-3 p-3 bg-background-tertiary/50 rounded-lg border border-border-primary/50 space-y-2">
+          <div className="flex items-center justify-between">
+            <p className="text-xs font-semibold text-content-primary">{editingId ? 'Edit layer' : 'New layer'}</p>
+            <button onClick={() => { setDraft(null); setEditingId(null); }} className="p-1 text-content-muted hover:text-content-primary"><X size={14} /></button>
+          </div>
+          <div className="grid grid-cols-2 md:grid-cols-4 gap-2">
+            <input type="number" value={draft.depth} onChange={e => setDraft({ ...draft, depth: e.target.value })} placeholder="Top depth (cmbsf)" className={inputClass} />
+            <input type="number" min={0} value={draft.thickness} onChange={e => setDraft({ ...draft, thickness: e.target.value })} placeholder="Thickness (cm)" className={inputClass} />
+            <input type="number" min={1} value={draft.shardCount} onChange={e => setDraft({ ...draft, shardCount: e.target.value })} placeholder="Shards analysed" className={inputClass} />
+            <input type="text" value={draft.notes} onChange={e => setDraft({ ...draft, notes: e.target.value })} placeholder="Notes" className={inputClass} />
+          </div>
+          <div className="grid grid-cols-10 gap-1 items-center text-xs">
+            <span />
+            {MAJOR_OXIDES.map(oxide => <span key={oxide} className="text-center text-content-muted">{OXIDE_LABELS[oxide]}</span>)}
+            <span className="text-content-muted">Mean (wt%)</span>
+            {MAJOR_OXIDES.map(oxide => (
+              <input key={oxide} type="number" step="0.01" value={draft.mean[oxide]} onChange={e => setDraft({ ...draft, mean: { ...draft.mean, [oxide]: e.target.value } })} className={inputClass} />
+            ))}
+            <span className="text-content-muted">1σ</span>
+            {MAJOR_OXIDES.map(oxide => (
+              <input key={oxide} type="number" step="0.01" min={0} value={draft.sd[oxide]} onChange={e => setDraft({ ...draft, sd: { ...draft.sd, [oxide]: e.target.value } })} className={inputClass} />
+            ))}
+          </div>
+          {error && <p className="text-xs text-danger-primary">{error}</p>}
+          <button onClick={handleSaveDraft} className="flex items-center gap-1 px-3 py-1.5 rounded-md bg-accent-primary/20 text-accent-primary-hover hover:bg-accent-primary/30 text-xs font-semibold">
+            <Save size={14} /> Save layer
+          </button>
+        </div>
+      )}
+
+      {layers.length === 0 ? (
+        <p className="text-xs text-content-muted text-center py-2">No tephra layers recorded for this section.</p>
+      ) : (
+        <table className="w-full text-xs">
+          <thead>
+            <tr className="text-content-muted text-left">
+              <th className="p-1">Depth (cm)</th><th className="p-1">Thickness</th><th className="p-1">Best match</th><th className="p-1">Correlative</th><th />
+            </tr>
+          </thead>
+          <tbody>
+            {layers.map(layer => {
+              const best = matches.get(layer.id)?.[0];
+              return (
+                <tr
+                  key={layer.id}
+                  onClick={() => setSelectedId(layer.id === selectedId ? null : layer.id)}
+                  className={`cursor-pointer border-t border-border-primary/50 ${layer.id === selectedId ? 'bg-accent-primary/10' : 'hover:bg-background-interactive/50'}`}
+                >
+                  <td className="p-1 font-mono">{layer.depth}</td>
+                  <td className="p-1 font-mono">{layer.thickness} cm</td>
+                  <td className={`p-1 ${best?.confident ? 'text-success-primary' : 'text-content-muted'}`}>
+                    {best ? `${best.reference.name} (SC ${best.similarity.toFixed(2)})` : 'No glass data'}
+                  </td>
+                  <td className="p-1 text-content-secondary">{layer.correlativeId ? TEPHRA_REFERENCES.find(r => r.id === layer.correlativeId)?.name ?? layer.correlativeId : '—'}</td>
+                  <td className="p-1 text-right whitespace-nowrap">
+                    <button onClick={e => { e.stopPropagation(); startEdit(layer); }} className="p-1 text-content-muted hover:text-content-primary" title="Edit layer"><Pencil size={12} /></button>
+                    <button onClick={e => { e.stopPropagation(); handleDelete(layer.id); }} className="p-1 text-content-muted hover:text-danger-primary" title="Delete layer"><Trash2 size={12} /></button>
+                  </td>
+                </tr>
+              );
+            })}
+          </tbody>
+        </table>
+      )}
+
+      {selected && (
+        <div className="mt-3">
+          <p className="text-xs font-semibold text-content-secondary mb-1">Matches for the layer at {selected.depth} cm</p>
+          {(matches.get(selected.id) ?? []).length === 0 ? (
+            <p className="text-xs text-content-muted">Enter at least three oxides of the glass composition to match this layer.</p>
+          ) : (
+            <table className="w-full text-xs">
+              <thead>
+                <tr className="text-content-muted text-left">
+                  <th className="p-1">Eruption</th><th className="p-1">Age (ka)</th><th className="p-1">SC</th><th className="p-1">D² / χ²₉₉</th><th />
+                </tr>
+              </thead>
+              <tbody>
+                {(matches.get(selected.id) ?? []).map(match => (
+                  <tr key={match.reference.id} className="border-t border-border-primary/50">
+                    <td className="p-1" title={`${match.reference.volcano} · ${match.reference.region}`}>
+                      <span className={match.confident ? 'text-success-primary font-semibold' : 'text-content-secondary'}>{match.reference.name}</span>
+                    </td>
+                    <td className="p-1 font-mono">{match.reference.age} ± {match.reference.ageUncertainty}</td>
+                    <td className="p-1 font-mono">{match.similarity.toFixed(3)}</td>
+                    <td className="p-1 font-mono">{match.distance.toFixed(1)} / {match.criticalDistance}</td>
+                    <td className="p-1 text-right">
+                      {selected.correlativeId === match.reference.id ? (
+                        <button onClick={() => setCorrelative(selected, undefined)} className="flex items-center gap-1 ml-auto text-danger-primary hover:underline"><Unlink size={12} /> Unassign</button>
+                      ) : (
+                        <button onClick={() => setCorrelative(selected, match.reference.id)} className="flex items-center gap-1 ml-auto text-accent-primary hover:underline"><Link2 size={12} /> Assign</button>
+                      )}
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default TephraLayerEditor;
@@ -0,0 +1,82 @@
+import React, { useState } from 'react';
+import type { Section, TiePoint } from '../types';
+import { proposeTephraTiePoints, type TephraTiePointProposal } from '../services/tephraService';
+import { Mountain, Check, X, CheckCheck } from 'lucide-react';
+
+interface TephrochronologyPanelProps {
+  sections: Section[];
+  onAddTiePoints: (newTiePoints: TiePoint[]) => void;
+}
+
+const TephrochronologyPanel: React.FC<TephrochronologyPanelProps> = ({ sections, onAddTiePoints }) => {
+  const [proposals, setProposals] = useState<TephraTiePointProposal[]>([]);
+  const [hasRun, setHasRun] = useState(false);
+
+  const layerCount = sections.reduce((sum, s) => sum + (s.tephraRecord?.length ?? 0), 0);
+  const sectionName = (id: string) => sections.find(s => s.id === id)?.name ?? id;
+
+  const handlePropose = () => {
+    setProposals(proposeTephraTiePoints(sections));
+    setHasRun(true);
+  };
+
+  const handleAccept = (accepted: TephraTiePointProposal[]) => {
+    onAddTiePoints(accepted.map(p => p.tiePoint));
+    const acceptedIds = new Set(accepted.map(p => p.tiePoint.id));
+    setProposals(prev => prev.filter(p => !acceptedIds.has(p.tiePoint.id)));
+  };
+
+  const handleReject = (id: string) => {
+    setProposals(prev => prev.filter(p => p.tiePoint.id !== id));
+  };
+
+  return (
+    <div className="border-t border-border-primary pt-4 mt-4 space-y-2">
+      <div className="flex items-center justify-between">
+        <h4 className="text-sm font-semibold text-content-secondary flex items-center gap-2">
+          <Mountain size={14} className="text-accent-primary" /> Tephrochronology
+        </h4>
+        <button
+          onClick={handlePropose}
+          disabled={layerCount === 0}
+          className="px-3 py-1 rounded-md bg-accent-primary/20 text-accent-primary-hover hover:bg-accent-primary/30 transition-colors text-xs font-semibold disabled:opacity-50"
+          title="Propose tie-points from tephra layers with an assigned or confidently matched eruption"
+        >
+          Propose
+        </button>
+      </div>
+      {layerCount === 0 && <p className="text-xs text-content-muted">No tephra layers: record them in the Data Entry tab.</p>}
+      {hasRun && proposals.length === 0 && layerCount > 0 && (
+        <p className="text-xs text-content-muted">No tephra layer has an assigned correlative or a confident glass match.</p>
+      )}
+      {proposals.length > 0 && (
+        <div className="space-y-1">
+          {proposals.map(p => (
+            <div key={p.tiePoint.id} className="flex items-center justify-between bg-background-primary/50 p-1.5 rounded-md text-xs" title={`${p.reference.volcano} · ${p.assigned ? 'assigned correlative' : 'best glass match'}`}>
+              <span className="text-content-muted">
+                <strong className={p.assigned ? 'text-accent-primary' : 'text-content-secondary'}>{p.tiePoint.label}</strong>
+                <span className="block">{sectionName(p.tiePoint.sectionId)} · base at {p.tiePoint.depth} cm → {p.tiePoint.age} ± {p.tiePoint.ageUncertainty} ka</span>
+              </span>
+              <div className="flex items-center gap-1">
+                <button onClick={() => handleAccept([p])} className="p-1 rounded text-success-primary hover:bg-success-primary/20" title="Accept tie-point">
+                  <Check size={12} />
+                </button>
+                <button onClick={() => handleReject(p.tiePoint.id)} className="p-1 rounded text-danger-primary hover:bg-danger-primary/20" title="Reject tie-point">
+                  <X size={12} />
+                </button>
+              </div>
+            </div>
+          ))}
+          <button
+            onClick={() => handleAccept(proposals)}
+            className="flex items-center gap-1 text-xs text-accent-primary hover:text-accent-primary-hover font-semibold"
+          >
+            <CheckCheck size={12} /> Accept all
+          </button>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default TephrochronologyPanel;
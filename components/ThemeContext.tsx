@@ -38,6 +38,8 @@ export const themes: Theme[] = [
       '--recharts-axis-stroke': '#94a3b8', // slate-400
       '--event-annotation-fill': 'rgba(167, 139, 250, 0.2)', // violet-400
       '--event-annotation-stroke': 'rgba(167, 139, 250, 0.8)',
+      '--event-statistical-fill': 'rgba(251, 191, 36, 0.2)', // amber-400
+      '--event-statistical-stroke': 'rgba(251, 191, 36, 0.8)',
     },
   },
   {
@@ -69,6 +71,8 @@ export const themes: Theme[] = [
       '--recharts-axis-stroke': '#64748b', // slate-500
       '--event-annotation-fill': 'rgba(124, 58, 237, 0.15)', // violet-600
       '--event-annotation-stroke': 'rgba(124, 58, 237, 0.8)',
+      '--event-statistical-fill': 'rgba(217, 119, 6, 0.15)', // amber-600
+      '--event-statistical-stroke': 'rgba(217, 119, 6, 0.8)',
     },
   },
   {
@@ -99,6 +103,8 @@ export const themes: Theme[] = [
         '--recharts-axis-stroke': '#89c2d9',
         '--event-annotation-fill': 'rgba(240, 100, 140, 0.2)',
         '--event-annotation-stroke': 'rgba(240, 100, 140, 0.8)',
+        '--event-statistical-fill': 'rgba(250, 204, 21, 0.2)',
+        '--event-statistical-stroke': 'rgba(250, 204, 21, 0.8)',
     },
   },
 ];
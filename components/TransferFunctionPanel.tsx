@@ -0,0 +1,210 @@
+import React, { useState, useRef } from 'react';
+import type { Section, Microfossil, TransferFunctionMethod } from '../types';
+import {
+  getCalibrationSet, storeCalibrationSet, clearCalibrationSet, parseCalibrationCsv, runTransferFunction, applyTransferFunction, clearTransferFunction,
+  DEFAULT_ANALOGUES, DEFAULT_COMPONENTS, MAX_COMPONENTS, type CalibrationSet, type TransferFunctionResult,
+} from '../services/transferFunctionService';
+import { Thermometer, FileUp, Trash2, Play, Loader2, AlertTriangle } from 'lucide-react';
+
+interface TransferFunctionPanelProps {
+  section: Section;
+  microfossils: Microfossil[];
+  onChange: (section: Section) => void;
+}
+
+const TransferFunctionPanel: React.FC<TransferFunctionPanelProps> = ({ section, microfossils, onChange }) => {
+  const record = section.transferFunction;
+  const [calibration, setCalibration] = useState<CalibrationSet | null>(() => getCalibrationSet());
+  const [method, setMethod] = useState<TransferFunctionMethod>(record?.method ?? 'MAT');
+  const [k, setK] = useState(record?.k ?? DEFAULT_ANALOGUES);
+  const [components, setComponents] = useState(record?.components ?? DEFAULT_COMPONENTS);
+  const [fillCalculatedSST, setFillCalculatedSST] = useState(record?.fillCalculatedSST ?? false);
+  const [result, setResult] = useState<TransferFunctionResult | null>(null);
+  const [isRunning, setIsRunning] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  const sampleCount = section.censusSamples?.length ?? 0;
+  const taxonName = (fossilId: string) => {
+    const fossil = microfossils.find(f => f.id === fossilId);
+    return fossil ? `${fossil.taxonomy.genus} ${fossil.taxonomy.species}` : fossilId;
+  };
+
+  const handleFile = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+    try {
+      const parsed = parseCalibrationCsv(await file.text(), file.name);
+      storeCalibrationSet(parsed);
+      setCalibration(parsed);
+      setResult(null);
+      setError(null);
+    } catch (err: any) {
+      setError(err.message);
+    }
+  };
+
+  const handleClearCalibration = () => {
+    clearCalibrationSet();
+    setCalibration(null);
+    setResult(null);
+  };
+
+  // Leave-one-out cross-validation refits the model once per calibration site,
+  // so let the spinner render before the work starts.
+  const handleRun = () => {
+    if (!calibration) return;
+    setIsRunning(true);
+    setError(null);
+    setTimeout(() => {
+      try {
+        setResult(runTransferFunction(section, calibration, microfossils, { method, ...(method === 'MAT' ? { k } : { components }) }));
+      } catch (err: any) {
+        setResult(null);
+        setError(err.message);
+      } finally {
+        setIsRunning(false);
+      }
+    }, 0);
+  };
+
+  const handleApply = () => {
+    if (!result) return;
+    onChange(applyTransferFunction(section, result, fillCalculatedSST));
+  };
+
+  const inputClass = "w-full bg-background-interactive border border-border-secondary rounded-md p-1.5 text-xs";
+  const labelClass = "block text-xs font-medium text-content-muted mb-1";
+  const noAnalogueCount = result?.reconstructions.filter(r => r.noAnalogue).length ?? 0;
+
+  return (
+    <div className="p-4 bg-background-primary/30 rounded-lg border border-border-primary">
+      <div className="flex items-center justify-between mb-2">
+        <h3 className="text-lg font-semibold text-content-primary flex items-center gap-2"><Thermometer size={20} className="text-accent-primary"/> Assemblage Transfer Function</h3>
+        {record && (
+          <button onClick={() => onChange(clearTransferFunction(section))} className="flex items-center gap-1 text-xs text-danger-primary hover:underline">
+            <Trash2 size={12} /> Remove columns
+          </button>
+        )}
+      </div>
+      <p className="text-xs text-content-muted mb-3">
+        Reconstructs SST from the census counts with the Modern Analogue Technique or WA-PLS, trained on a core-top calibration CSV (one row per site: taxon columns named like the catalogue, plus an SST column). Errors are leave-one-out RMSEP.
+      </p>
+
+      {record && (
+        <p className="text-xs text-content-secondary mb-3">
+          Applied: {record.method === 'MAT' ? `MAT, k = ${record.k}` : `WA-PLS, ${record.components} components`} on {record.calibrationName} ({record.calibrationSize} sites) · RMSEP {record.rmsep} °C · r² {record.r2}
+          {record.fillCalculatedSST && ' · fills Calculated SST'}
+        </p>
+      )}
+
+      <div className="space-y-3 text-xs">
+        <div className="flex items-center gap-2 flex-wrap">
+          <button onClick={() => fileInputRef.current?.click()} className="flex items-center gap-1 px-3 py-1.5 rounded-md bg-background-interactive text-content-primary hover:bg-background-interactive-hover font-semibold">
+            <FileUp size={14} /> {calibration ? 'Replace calibration set' : 'Import calibration set'}
+          </button>
+          <input type="file" accept=".csv,.txt" ref={fileInputRef} onChange={handleFile} className="sr-only" />
+          {calibration && (
+            <>
+              <span className="text-content-muted">{calibration.fileName}: {calibration.sst.length} sites, {calibration.taxa.length} taxa</span>
+              <button onClick={handleClearCalibration} className="p-1 text-content-muted hover:text-danger-primary" title="Forget the calibration set"><Trash2 size={12} /></button>
+            </>
+          )}
+        </div>
+
+        {calibration && (
+          <div className="grid grid-cols-2 md:grid-cols-4 gap-3 items-end">
+            <div>
+              <label className={labelClass}>Method</label>
+              <select value={method} onChange={e => { setMethod(e.target.value as TransferFunctionMethod); setResult(null); }} className={inputClass}>
+                <option value="MAT">Modern Analogue Technique</option>
+                <option value="WAPLS">WA-PLS</option>
+              </select>
+            </div>
+            {method === 'MAT' ? (
+              <div>
+                <label className={labelClass}>Analogues (k)</label>
+                <input type="number" min={1} max={calibration.sst.length - 1} value={k} onChange={e => setK(Math.max(1, parseInt(e.target.value, 10) || 1))} className={inputClass} />
+              </div>
+            ) : (
+              <div>
+                <label className={labelClass}>Components</label>
+                <select value={components} onChange={e => setComponents(parseInt(e.target.value, 10))} className={inputClass}>
+                  {Array.from({ length: MAX_COMPONENTS }, (_, i) => i + 1).map(n => <option key={n} value={n}>{n}</option>)}
+                </select>
+              </div>
+            )}
+            <button
+              onClick={handleRun}
+              disabled={sampleCount === 0 || isRunning}
+              className="flex items-center justify-center gap-1 px-3 py-1.5 rounded-md bg-accent-primary/20 text-accent-primary-hover hover:bg-accent-primary/30 font-semibold disabled:opacity-50"
+              title={sampleCount === 0 ? 'Record census counts in the Fossil Records tab first' : undefined}
+            >
+              {isRunning ? <Loader2 size={14} className="animate-spin" /> : <Play size={14} />} Cross-validate & reconstruct
+            </button>
+          </div>
+        )}
+
+        {error && <p className="text-danger-primary">{error}</p>}
+
+        {result && (
+          <div className="space-y-2">
+            <p className="text-content-secondary">
+              RMSEP <strong>{result.crossValidation.rmsep.toFixed(2)} °C</strong> · r² {result.crossValidation.r2.toFixed(3)} · no-analogue threshold (SCD) {result.record.noAnalogueThreshold}
+            </p>
+            {result.crossValidation.byComponents && (
+              <table className="text-xs">
+                <thead>
+                  <tr className="text-content-muted text-left"><th className="p-1">Components</th><th className="p-1">RMSEP (°C)</th><th className="p-1">r²</th></tr>
+                </thead>
+                <tbody>
+                  {result.crossValidation.byComponents.map(c => (
+                    <tr key={c.components} className={`border-t border-border-primary/50 ${c.components === components ? 'text-accent-primary font-semibold' : ''}`}>
+                      <td className="p-1">{c.components}</td><td className="p-1 font-mono">{c.rmsep.toFixed(2)}</td><td className="p-1 font-mono">{c.r2.toFixed(3)}</td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            )}
+            {result.unmatchedTaxa.length > 0 && (
+              <p className="text-content-muted">Not in the calibration set (ignored): {result.unmatchedTaxa.map(taxonName).join(', ')}</p>
+            )}
+            {noAnalogueCount > 0 && (
+              <p className="flex items-center gap-1 text-danger-primary"><AlertTriangle size={12} /> {noAnalogueCount} sample{noAnalogueCount > 1 ? 's have' : ' has'} no good modern analogue.</p>
+            )}
+            <table className="w-full text-xs">
+              <thead>
+                <tr className="text-content-muted text-left">
+                  <th className="p-1">Depth (cm)</th><th className="p-1">SST (°C)</th><th className="p-1">Min. SCD</th><th className="p-1">Counted in calibration taxa</th><th className="p-1">Analogue</th>
+                </tr>
+              </thead>
+              <tbody>
+                {result.reconstructions.map(r => (
+                  <tr key={r.sampleId} className="border-t border-border-primary/50">
+                    <td className="p-1 font-mono">{r.depth}</td>
+                    <td className="p-1 font-mono">{r.sst.toFixed(2)} ± {r.rmsep.toFixed(2)}</td>
+                    <td className="p-1 font-mono">{r.minDistance.toFixed(3)}</td>
+                    <td className="p-1 font-mono">{r.matchedPercent.toFixed(0)} %</td>
+                    <td className={`p-1 ${r.noAnalogue ? 'text-danger-primary font-semibold' : 'text-success-primary'}`}>{r.noAnalogue ? 'No good analogue' : 'OK'}</td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+            <div className="flex items-center justify-between gap-2 flex-wrap">
+              <label className="flex items-center gap-2 text-content-secondary">
+                <input type="checkbox" checked={fillCalculatedSST} onChange={e => setFillCalculatedSST(e.target.checked)} />
+                Use as Calculated SST (takes precedence over proxy calibrations; samples without a good analogue are skipped)
+              </label>
+              <button onClick={handleApply} disabled={result.reconstructions.length === 0} className="px-3 py-1.5 rounded-md bg-accent-primary/20 text-accent-primary-hover hover:bg-accent-primary/30 font-semibold disabled:opacity-50">
+                Write to data points
+              </button>
+            </div>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default TransferFunctionPanel;
@@ -7,6 +7,7 @@ import type { Microfossil, SampleCore } from './types';
 export const INITIAL_MICROFOSSIL_DATABASE: Record<string, Microfossil> = {
     'G_ruber': {
         id: 'G_ruber',
+        code: 'G_ruber',
         taxonomy: {
             kingdom: 'Rhizaria', phylum: 'Foraminifera', class: 'Globothalamea', order: 'Rotaliida',
             family: 'Globigerinidae', genus: 'Globigerinoides', species: 'ruber'
@@ -22,6 +23,7 @@ export const INITIAL_MICROFOSSIL_DATABASE: Record<string, Microfossil> = {
     },
     'N_pachyderma': {
         id: 'N_pachyderma',
+        code: 'N_pachyderma',
         taxonomy: {
             kingdom: 'Rhizaria', phylum: 'Foraminifera', class: 'Globothalamea', order: 'Rotaliida',
             family: 'Globorotaliidae', genus: 'Neogloboquadrina', species: 'pachyderma'
@@ -37,6 +39,7 @@ export const INITIAL_MICROFOSSIL_DATABASE: Record<string, Microfossil> = {
     },
     'G_bulloides': {
         id: 'G_bulloides',
+        code: 'G_bulloides',
         taxonomy: {
             kingdom: 'Rhizaria', phylum: 'Foraminifera', class: 'Globothalamea', order: 'Rotaliida',
             family: 'Globigerinidae', genus: 'Globigerina', species: 'bulloides'
@@ -141,11 +144,21 @@ export const COMMON_DATA_KEYS: Record<string, string[]> = {
     srCa: ['srca', 'sr/ca', 'srcaratio'],
     cdCa: ['cdca', 'cd/ca', 'cdcaratio'],
     radiocarbonDate: ['radiocarbondate', '14c_date', 'c14_date'],
+    radiocarbonError: ['radiocarbonerror', '14c_error', 'c14_error', '14c_sd'],
+    uk37: ['uk37', "uk'37", 'uk37_index', 'alkenone index'],
     CaCO3: ['caco3', 'caco3(%)', 'caco3 %', 'caco3wt%'],
     temperature: ['temp', 'sst', 'temperature'],
 };
 
 
+// =================================================================
+// NON-PROXY DATA KEYS
+// Data point columns that describe position or age rather than a measured
+// proxy; these are excluded from proxy pickers and analyses.
+// =================================================================
+export const NON_PROXY_KEYS: string[] = ['subsection', 'depth', 'ccsf', 'age', 'ageLower', 'ageUpper', 'mis', 'censusPoint', 'noAnalogue'];
+
+
 // =================================================================
 // GEOGRAPHICAL REGIONS FOR MAP FILTERING
 // Defines bounding boxes for major oceanic regions.
@@ -166,7 +179,11 @@ export const REGIONS: Record<string, { minLon: number; maxLon: number; minLat: n
 export const PROXY_LABELS: Record<string, string> = {
     subsection: 'Subsection',
     depth: 'Depth (cmbsf)',
+    ccsf: 'Depth CCSF-A (cm)',
     age: 'Age (ka)',
+    ageLower: 'Age 2.5% (ka)',
+    ageUpper: 'Age 97.5% (ka)',
+    mis: 'MIS',
     delta18O: 'δ¹⁸O (‰)',
     delta13C: 'δ¹³C (‰)',
     mgCaRatio: 'Mg/Ca',
@@ -176,9 +193,30 @@ export const PROXY_LABELS: Record<string, string> = {
     srCa: 'Sr/Ca',
     cdCa: 'Cd/Ca',
     radiocarbonDate: '¹⁴C Date (ka BP)',
+    radiocarbonError: '¹⁴C Error (± ka)',
     CaCO3: 'CaCO₃ (%)',
     temperature: 'Temperature (°C)',
     calculatedSST: 'Calculated SST (°C)',
+    uk37: "Uᴷ'₃₇",
+    sstMgCa: 'SST Mg/Ca (°C)',
+    sstUk37: "SST Uᴷ'₃₇ (°C)",
+    sstTex86: 'SST TEX86 (°C)',
+    sstSrCa: 'SST Sr/Ca (°C)',
+    d18Osw: 'δ¹⁸Osw (‰ VSMOW)',
+    d18OswError: 'δ¹⁸Osw ± 1σ (‰)',
+    d18OswIvc: 'δ¹⁸Osw ice-vol. corr. (‰ VSMOW)',
+    d18OswIvcError: 'δ¹⁸Osw-ivc ± 1σ (‰)',
+    sstTransfer: 'SST transfer fn. (°C)',
+    sstTransferRmsep: 'SST transfer fn. RMSEP (°C)',
+    analogueDistance: 'Min. SCD to analogue',
+    noAnalogue: 'No good analogue',
+    pachydermaSinistral: 'N. pachyderma sinistral (%)',
+    truncatulinoidesSinistral: 'G. truncatulinoides sinistral (%)',
+    menardiiSinistral: 'G. menardii sinistral (%)',
+    ruberPink: 'G. ruber pink (%)',
+    ruberSensuStricto: 'G. ruber s.s. (%)',
+    lsr: 'LSR (cm/kyr)',
+    bulkMAR: 'MAR (g/cm²/kyr)',
 };
 
 // =================================================================
@@ -187,7 +225,11 @@ export const PROXY_LABELS: Record<string, string> = {
 export const ODV_PROXY_LABELS: Record<string, string> = {
     subsection: 'Sample_ID',
     depth: 'Core_Depth [cm]',
+    ccsf: 'Composite_Depth_CCSF-A [cm]',
     age: 'Age [ka_BP]',
+    ageLower: 'Age_2.5pct [ka_BP]',
+    ageUpper: 'Age_97.5pct [ka_BP]',
+    mis: 'MIS',
     delta18O: 'd18O [permil]',
     delta13C: 'd13C [permil]',
     mgCaRatio: 'Mg/Ca [mmol/mol]',
@@ -197,7 +239,26 @@ export const ODV_PROXY_LABELS: Record<string, string> = {
     srCa: 'Sr/Ca [mmol/mol]',
     cdCa: 'Cd/Ca [umol/mol]',
     radiocarbonDate: 'Radiocarbon_Date [ka_BP]',
+    radiocarbonError: 'Radiocarbon_Error [ka]',
     CaCO3: 'CaCO3 [%]',
     temperature: 'Temperature [degC]',
     calculatedSST: 'Calculated_SST [degC]',
+    uk37: 'UK37 []',
+    sstMgCa: 'SST_MgCa [degC]',
+    sstUk37: 'SST_UK37 [degC]',
+    sstTex86: 'SST_TEX86 [degC]',
+    sstSrCa: 'SST_SrCa [degC]',
+    d18Osw: 'd18O_sw [permil_VSMOW]',
+    d18OswError: 'd18O_sw_1sigma [permil]',
+    d18OswIvc: 'd18O_sw_ivc [permil_VSMOW]',
+    d18OswIvcError: 'd18O_sw_ivc_1sigma [permil]',
+    sstTransfer: 'SST_Transfer_Function [degC]',
+    sstTransferRmsep: 'SST_Transfer_Function_RMSEP [degC]',
+    analogueDistance: 'Min_Squared_Chord_Distance []',
+    noAnalogue: 'No_Analogue_Flag []',
+    pachydermaSinistral: 'N_pachyderma_sinistral [%]',
+    truncatulinoidesSinistral: 'G_truncatulinoides_sinistral [%]',
+    menardiiSinistral: 'G_menardii_sinistral [%]',
+    ruberPink: 'G_ruber_pink [%]',
+    ruberSensuStricto: 'G_ruber_sensu_stricto [%]',
 };
\ No newline at end of file
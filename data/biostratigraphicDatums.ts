@@ -0,0 +1,63 @@
+// First (FAD) and last (LAD) appearance datums of standard Neogene–Quaternary marker taxa, in Ma.
+// Calcareous nannofossils and planktonic foraminifera follow the GTS2020 biochronology:
+// Raffi, I., Wade, B. S., Pälike, H., et al. (2020), Cenozoic calcareous nannofossil and planktonic foraminiferal
+// biochronology, in Gradstein, F. M., Ogg, J. G., Schmitz, M. D., and Ogg, G. M. (eds.), Geologic Time Scale 2020,
+// Elsevier, 1141-1215 (building on Backman et al., 2012, and Wade et al., 2011).
+// Diatom datums are the GTS2020 calibrations of the low-latitude, North Pacific and Southern Ocean zonations
+// (after Barron, 2003, and Cody et al., 2008) and are more strongly diachronous; the region is noted where it matters.
+// `uncertainty` is a 1σ allowance (Ma) for calibration error and diachroneity.
+// `fossilId` follows the app's Microfossil id convention (genus initial + species, e.g. G_ruber).
+// A datum of one form of an extant species gets its own suffixed id (e.g. G_ruber_pink), so records of
+// the species itself never carry a LAD.
+
+export type DatumGroup = 'planktonic foraminifera' | 'calcareous nannofossil' | 'diatom';
+
+export interface BiostratigraphicDatum {
+    fossilId: string;
+    genus: string;
+    species: string;
+    group: DatumGroup;
+    fad?: number; // Ma, base of range
+    lad?: number; // Ma, top of range
+    uncertainty: number; // Ma, 1σ
+    region?: string;
+}
+
+export const BIOSTRATIGRAPHIC_DATUMS: BiostratigraphicDatum[] = [
+    // Planktonic foraminifera
+    { fossilId: 'G_ruber_pink', genus: 'Globigerinoides', species: 'ruber (pink)', group: 'planktonic foraminifera', lad: 0.12, uncertainty: 0.01, region: 'Indo-Pacific' },
+    { fossilId: 'G_flexuosa', genus: 'Globorotalia', species: 'flexuosa', group: 'planktonic foraminifera', fad: 0.40, lad: 0.07, uncertainty: 0.02 },
+    { fossilId: 'G_tosaensis', genus: 'Globorotalia', species: 'tosaensis', group: 'planktonic foraminifera', fad: 3.35, lad: 0.61, uncertainty: 0.03 },
+    { fossilId: 'G_truncatulinoides', genus: 'Globorotalia', species: 'truncatulinoides', group: 'planktonic foraminifera', fad: 1.93, uncertainty: 0.05 },
+    { fossilId: 'G_obliquus', genus: 'Globigerinoides', species: 'obliquus', group: 'planktonic foraminifera', lad: 1.30, uncertainty: 0.05 },
+    { fossilId: 'G_fistulosus', genus: 'Globigerinoides', species: 'fistulosus', group: 'planktonic foraminifera', fad: 3.33, lad: 1.88, uncertainty: 0.03 },
+    { fossilId: 'N_acostaensis', genus: 'Neogloboquadrina', species: 'acostaensis', group: 'planktonic foraminifera', fad: 9.83, lad: 1.58, uncertainty: 0.05 },
+    { fossilId: 'G_miocenica', genus: 'Globorotalia', species: 'miocenica', group: 'planktonic foraminifera', fad: 3.77, lad: 2.39, uncertainty: 0.03, region: 'Atlantic' },
+    { fossilId: 'D_altispira', genus: 'Dentoglobigerina', species: 'altispira', group: 'planktonic foraminifera', lad: 3.47, uncertainty: 0.05, region: 'Pacific' },
+    { fossilId: 'S_seminulina', genus: 'Sphaeroidinellopsis', species: 'seminulina', group: 'planktonic foraminifera', lad: 3.59, uncertainty: 0.05 },
+    { fossilId: 'G_margaritae', genus: 'Globorotalia', species: 'margaritae', group: 'planktonic foraminifera', fad: 6.08, lad: 3.85, uncertainty: 0.05 },
+    { fossilId: 'G_crassaformis', genus: 'Globorotalia', species: 'crassaformis', group: 'planktonic foraminifera', fad: 4.31, uncertainty: 0.05 },
+    { fossilId: 'G_tumida', genus: 'Globorotalia', species: 'tumida', group: 'planktonic foraminifera', fad: 5.57, uncertainty: 0.05 },
+    { fossilId: 'G_conglobatus', genus: 'Globigerinoides', species: 'conglobatus', group: 'planktonic foraminifera', fad: 6.20, uncertainty: 0.05 },
+
+    // Calcareous nannofossils
+    { fossilId: 'E_huxleyi', genus: 'Emiliania', species: 'huxleyi', group: 'calcareous nannofossil', fad: 0.29, uncertainty: 0.01 },
+    { fossilId: 'P_lacunosa', genus: 'Pseudoemiliania', species: 'lacunosa', group: 'calcareous nannofossil', lad: 0.44, uncertainty: 0.01 },
+    { fossilId: 'R_asanoi', genus: 'Reticulofenestra', species: 'asanoi', group: 'calcareous nannofossil', fad: 1.14, lad: 0.91, uncertainty: 0.02 },
+    { fossilId: 'H_sellii', genus: 'Helicosphaera', species: 'sellii', group: 'calcareous nannofossil', lad: 1.26, uncertainty: 0.03 },
+    { fossilId: 'C_macintyrei', genus: 'Calcidiscus', species: 'macintyrei', group: 'calcareous nannofossil', lad: 1.60, uncertainty: 0.02 },
+    { fossilId: 'D_brouweri', genus: 'Discoaster', species: 'brouweri', group: 'calcareous nannofossil', lad: 1.93, uncertainty: 0.02 },
+    { fossilId: 'D_pentaradiatus', genus: 'Discoaster', species: 'pentaradiatus', group: 'calcareous nannofossil', lad: 2.39, uncertainty: 0.02 },
+    { fossilId: 'D_surculus', genus: 'Discoaster', species: 'surculus', group: 'calcareous nannofossil', lad: 2.53, uncertainty: 0.02 },
+    { fossilId: 'D_tamalis', genus: 'Discoaster', species: 'tamalis', group: 'calcareous nannofossil', lad: 2.80, uncertainty: 0.03 },
+    { fossilId: 'R_pseudoumbilicus', genus: 'Reticulofenestra', species: 'pseudoumbilicus', group: 'calcareous nannofossil', lad: 3.82, uncertainty: 0.03 },
+    { fossilId: 'D_quinqueramus', genus: 'Discoaster', species: 'quinqueramus', group: 'calcareous nannofossil', lad: 5.53, uncertainty: 0.03 },
+
+    // Diatoms
+    { fossilId: 'P_curvirostris', genus: 'Proboscia', species: 'curvirostris', group: 'diatom', lad: 0.30, uncertainty: 0.03, region: 'North Pacific' },
+    { fossilId: 'F_reinholdii', genus: 'Fragilariopsis', species: 'reinholdii', group: 'diatom', lad: 0.62, uncertainty: 0.05, region: 'low latitudes' },
+    { fossilId: 'A_oculatus', genus: 'Actinocyclus', species: 'oculatus', group: 'diatom', lad: 1.01, uncertainty: 0.05, region: 'North Pacific' },
+    { fossilId: 'N_koizumii', genus: 'Neodenticula', species: 'koizumii', group: 'diatom', lad: 2.00, uncertainty: 0.05, region: 'North Pacific' },
+    { fossilId: 'N_kamtschatica', genus: 'Neodenticula', species: 'kamtschatica', group: 'diatom', lad: 2.61, uncertainty: 0.05, region: 'North Pacific' },
+    { fossilId: 'F_kerguelensis', genus: 'Fragilariopsis', species: 'kerguelensis', group: 'diatom', fad: 2.30, uncertainty: 0.10, region: 'Southern Ocean' },
+];
@@ -0,0 +1,36 @@
+// Marine Isotope Stage boundaries of the LR04 benthic stack, in ka.
+// Lisiecki, L. E., and Raymo, M. E. (2005), A Pliocene-Pleistocene stack of 57 globally distributed benthic δ18O records,
+// Paleoceanography, 20, PA1003, doi:10.1029/2004PA001071 (Table 1; boundaries rounded to 1 kyr).
+// Odd-numbered stages are interglacial (warm), even-numbered stages glacial (cold); MIS 3 is an interstadial
+// period within the last glacial cycle.
+// Only MIS 1–20 (0–814 ka) are tabulated so far; older ages get no stage until the rest of LR04 Table 1
+// (to MIS 104 and the Pliocene lettered stages such as M2) is added.
+
+export interface MarineIsotopeStage {
+    stage: number;
+    top: number; // ka, younger boundary
+    base: number; // ka, older boundary
+}
+
+export const MARINE_ISOTOPE_STAGES: MarineIsotopeStage[] = [
+    { stage: 1, top: 0, base: 14 },
+    { stage: 2, top: 14, base: 29 },
+    { stage: 3, top: 29, base: 57 },
+    { stage: 4, top: 57, base: 71 },
+    { stage: 5, top: 71, base: 130 },
+    { stage: 6, top: 130, base: 191 },
+    { stage: 7, top: 191, base: 243 },
+    { stage: 8, top: 243, base: 300 },
+    { stage: 9, top: 300, base: 337 },
+    { stage: 10, top: 337, base: 374 },
+    { stage: 11, top: 374, base: 424 },
+    { stage: 12, top: 424, base: 478 },
+    { stage: 13, top: 478, base: 533 },
+    { stage: 14, top: 533, base: 563 },
+    { stage: 15, top: 563, base: 621 },
+    { stage: 16, top: 621, base: 676 },
+    { stage: 17, top: 676, base: 712 },
+    { stage: 18, top: 712, base: 761 },
+    { stage: 19, top: 761, base: 790 },
+    { stage: 20, top: 790, base: 814 },
+];
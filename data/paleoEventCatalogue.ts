@@ -0,0 +1,83 @@
+// Catalogue of well-dated paleoclimate events that statistically detected shifts are matched against.
+// Ages are in ka. Intervals are given youngest-first (startAge < endAge) like PaleoEvent; events known mainly
+// by an abrupt onset (Dansgaard–Oeschger warmings, Heinrich layers, stage boundaries) have startAge === endAge.
+// Sources:
+// - Greenland stadials/interstadials: Rasmussen, S. O., et al. (2014), Quaternary Science Reviews, 106, 14-28,
+//   doi:10.1016/j.quascirev.2014.09.007 (GICC05 onsets, converted from b2k and rounded to 0.1 kyr).
+// - Heinrich events: Hemming, S. R. (2004), Reviews of Geophysics, 42, RG1005, doi:10.1029/2003RG000128 (approximate ages).
+// - MIS boundaries: data/marineIsotopeStages.ts (LR04).
+
+import { MARINE_ISOTOPE_STAGES } from './marineIsotopeStages';
+
+export type CatalogueEventType = 'stadial' | 'interstadial' | 'heinrich' | 'mis-boundary';
+
+export interface CatalogueEvent {
+    name: string;
+    type: CatalogueEventType;
+    startAge: number; // ka, younger limit
+    endAge: number; // ka, older limit
+    description: string;
+}
+
+const DO_ONSETS: [string, number][] = [
+    ['GI-1', 14.6], ['GI-2', 23.3], ['GI-3', 27.7], ['GI-4', 28.8], ['GI-5', 32.4], ['GI-6', 33.7], ['GI-7', 35.4],
+    ['GI-8', 38.2], ['GI-9', 40.1], ['GI-10', 41.4], ['GI-11', 43.3], ['GI-12', 46.8], ['GI-13', 49.2],
+    ['GI-14', 54.2], ['GI-15', 55.7], ['GI-16', 58.2], ['GI-17', 59.4], ['GI-18', 64.0], ['GI-19', 72.3],
+    ['GI-20', 76.4], ['GI-21', 84.7], ['GI-22', 90.0], ['GI-23', 104.0], ['GI-24', 108.2], ['GI-25', 115.3],
+];
+
+const HEINRICH_EVENTS: [string, number][] = [
+    ['H2', 24], ['H3', 31], ['H4', 38], ['H5', 45], ['H6', 60],
+];
+
+export const PALEO_EVENT_CATALOGUE: CatalogueEvent[] = [
+    {
+        name: '8.2 ka event',
+        type: 'stadial',
+        startAge: 8.1,
+        endAge: 8.3,
+        description: 'Short Holocene cooling attributed to the final drainage of proglacial Lake Agassiz.',
+    },
+    {
+        name: 'Younger Dryas (GS-1)',
+        type: 'stadial',
+        startAge: 11.6,
+        endAge: 12.8,
+        description: 'Abrupt return to near-glacial conditions during the last deglaciation.',
+    },
+    {
+        name: 'Bølling–Allerød (GI-1)',
+        type: 'interstadial',
+        startAge: 12.8,
+        endAge: 14.6,
+        description: 'Deglacial warm interval between Heinrich Stadial 1 and the Younger Dryas.',
+    },
+    {
+        name: 'Heinrich Stadial 1',
+        type: 'heinrich',
+        startAge: 14.6,
+        endAge: 18.0,
+        description: 'Cold North Atlantic stadial containing Heinrich event H1 and a weakened AMOC.',
+    },
+    ...HEINRICH_EVENTS.map(([name, age]): CatalogueEvent => ({
+        name: `Heinrich event ${name}`,
+        type: 'heinrich',
+        startAge: age,
+        endAge: age,
+        description: 'Ice-rafted debris layer from a massive iceberg discharge into the North Atlantic.',
+    })),
+    ...DO_ONSETS.slice(1).map(([name, age]): CatalogueEvent => ({
+        name: `D-O interstadial ${name}`,
+        type: 'interstadial',
+        startAge: age,
+        endAge: age,
+        description: 'Onset of a Dansgaard–Oeschger warming in the Greenland ice-core record.',
+    })),
+    ...MARINE_ISOTOPE_STAGES.slice(1).map((stage): CatalogueEvent => ({
+        name: `MIS ${stage.stage - 1}/${stage.stage} boundary`,
+        type: 'mis-boundary',
+        startAge: stage.top,
+        endAge: stage.top,
+        description: `${stage.stage % 2 === 0 ? 'Warming' : 'Cooling'} transition from MIS ${stage.stage} to MIS ${stage.stage - 1} (LR04).`,
+    })),
+];
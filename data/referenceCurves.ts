@@ -0,0 +1,170 @@
+// Reference-curve library for correlation and orbital tuning.
+// Every curve carries its citation, value units and the age unit of its published data file. Bundled
+// values are stored in ka (thousands of years before 1950) whatever the source unit, so they can be
+// plotted directly against age models.
+// Only small curves are bundled. The dense records (full LR04, ProbStack, NGRIP, EPICA Dome C, Laskar
+// insolation, sea level) are loaded from their published data files through the importer in
+// services/referenceCurveService.ts; `sourceUrl` points to each file.
+
+import { LR04_DATA } from './lr04';
+
+export type ReferenceCurveId = 'LR04' | 'ProbStack' | 'NGRIP' | 'EDC' | 'La2004' | 'SL16' | 'GPTS';
+
+// 'kyr J2000': kyr from J2000, negative into the past (Laskar et al. online solutions).
+export type ReferenceAgeUnit = 'ka' | 'Ma' | 'yr BP' | 'yr b2k' | 'kyr J2000';
+
+export interface ReferenceSeriesPoint {
+    age: number; // ka
+    value: number;
+}
+
+export interface PolarityInterval {
+    top: number; // ka, younger boundary
+    base: number; // ka, older boundary
+    polarity: 'normal' | 'reversed';
+    name?: string;
+}
+
+export interface ReferenceCurve {
+    id: ReferenceCurveId;
+    name: string;
+    kind: 'series' | 'polarity';
+    proxy: string; // what the values measure, e.g. benthic δ18O
+    units: string; // units of the values
+    ageUnit: ReferenceAgeUnit; // age unit of the published data file
+    citation: string;
+    doi?: string;
+    sourceUrl: string;
+    reversed?: boolean; // plot with the axis inverted (e.g. δ18O, colder values down)
+    // 'full' = complete published record, 'subset' = reduced demonstration sample, 'none' = import required
+    bundled: 'full' | 'subset' | 'none';
+    importedFrom?: string; // file name, when the data was imported by the user
+    data: ReferenceSeriesPoint[];
+    intervals?: PolarityInterval[];
+}
+
+// Neogene–Quaternary chron boundaries (Ma), after the astronomically tuned scale adopted by GTS2012/GTS2020.
+const GPTS_BOUNDARIES_MA: [number, number, PolarityInterval['polarity'], string][] = [
+    [0, 0.773, 'normal', 'C1n (Brunhes)'],
+    [0.773, 0.990, 'reversed', 'C1r.1r'],
+    [0.990, 1.070, 'normal', 'C1r.1n (Jaramillo)'],
+    [1.070, 1.775, 'reversed', 'C1r.2r–C1r.3r'],
+    [1.775, 1.934, 'normal', 'C2n (Olduvai)'],
+    [1.934, 2.116, 'reversed', 'C2r.2r'],
+    [2.116, 2.140, 'normal', 'C2r.1n (Réunion)'],
+    [2.140, 2.595, 'reversed', 'C2r.1r'],
+    [2.595, 3.032, 'normal', 'C2An.1n'],
+    [3.032, 3.116, 'reversed', 'C2An.1r (Kaena)'],
+    [3.116, 3.207, 'normal', 'C2An.2n'],
+    [3.207, 3.330, 'reversed', 'C2An.2r (Mammoth)'],
+    [3.330, 3.596, 'normal', 'C2An.3n'],
+    [3.596, 4.187, 'reversed', 'C2Ar'],
+    [4.187, 4.300, 'normal', 'C3n.1n (Cochiti)'],
+    [4.300, 4.493, 'reversed', 'C3n.1r'],
+    [4.493, 4.631, 'normal', 'C3n.2n (Nunivak)'],
+    [4.631, 4.799, 'reversed', 'C3n.2r'],
+    [4.799, 4.896, 'normal', 'C3n.3n (Sidufjall)'],
+    [4.896, 4.997, 'reversed', 'C3n.3r'],
+    [4.997, 5.235, 'normal', 'C3n.4n (Thvera)'],
+    [5.235, 6.023, 'reversed', 'C3r'],
+    [6.023, 6.272, 'normal', 'C3An.1n'],
+    [6.272, 6.386, 'reversed', 'C3An.1r'],
+    [6.386, 6.727, 'normal', 'C3An.2n'],
+];
+
+export const REFERENCE_CURVES: ReferenceCurve[] = [
+    {
+        id: 'LR04',
+        name: 'LR04 Benthic Stack',
+        kind: 'series',
+        proxy: 'Benthic δ¹⁸O',
+        units: '‰ VPDB',
+        ageUnit: 'ka',
+        citation: 'Lisiecki, L. E., and Raymo, M. E. (2005), A Pliocene-Pleistocene stack of 57 globally distributed benthic δ18O records, Paleoceanography, 20, PA1003.',
+        doi: '10.1029/2004PA001071',
+        sourceUrl: 'https://lorraine-lisiecki.com/LR04stack.txt',
+        reversed: true,
+        bundled: 'subset',
+        data: LR04_DATA.map(d => ({ age: d.age, value: d.d18O })),
+    },
+    {
+        id: 'ProbStack',
+        name: 'Prob-stack (Ahn et al.)',
+        kind: 'series',
+        proxy: 'Benthic δ¹⁸O',
+        units: '‰ VPDB',
+        ageUnit: 'ka',
+        citation: 'Ahn, S., Khider, D., Lisiecki, L. E., and Lawrence, C. E. (2017), A probabilistic Pliocene–Pleistocene stack of benthic δ18O using a profile hidden Markov model, Dynamics and Statistics of the Climate System, 2(1), dzx002.',
+        doi: '10.1093/climsys/dzx002',
+        sourceUrl: 'https://lorraine-lisiecki.com/stack.html',
+        reversed: true,
+        bundled: 'none',
+        data: [],
+    },
+    {
+        id: 'NGRIP',
+        name: 'NGRIP δ¹⁸O (GICC05)',
+        kind: 'series',
+        proxy: 'Ice δ¹⁸O',
+        units: '‰ VSMOW',
+        ageUnit: 'yr b2k',
+        citation: 'North Greenland Ice Core Project members (2004), High-resolution record of Northern Hemisphere climate extending into the last interglacial period, Nature, 431, 147-151; GICC05modelext chronology.',
+        doi: '10.1038/nature02805',
+        sourceUrl: 'https://www.iceandclimate.nbi.ku.dk/data/',
+        bundled: 'none',
+        data: [],
+    },
+    {
+        id: 'EDC',
+        name: 'EPICA Dome C δD (AICC2012)',
+        kind: 'series',
+        proxy: 'Ice δD',
+        units: '‰ VSMOW',
+        ageUnit: 'yr BP',
+        citation: 'Jouzel, J., et al. (2007), Orbital and millennial Antarctic climate variability over the past 800,000 years, Science, 317, 793-796.',
+        doi: '10.1126/science.1141038',
+        sourceUrl: 'https://www.ncei.noaa.gov/access/paleo-search/study/6080',
+        bundled: 'none',
+        data: [],
+    },
+    {
+        id: 'La2004',
+        name: 'Insolation 65°N, 21 June (La2004)',
+        kind: 'series',
+        proxy: 'Summer insolation',
+        units: 'W/m²',
+        ageUnit: 'kyr J2000',
+        citation: 'Laskar, J., et al. (2004), A long-term numerical solution for the insolation quantities of the Earth, Astronomy & Astrophysics, 428, 261-285.',
+        doi: '10.1051/0004-6361:20041335',
+        sourceUrl: 'http://vo.imcce.fr/insola/earth/online/earth/earth.html',
+        bundled: 'none',
+        data: [],
+    },
+    {
+        id: 'SL16',
+        name: 'Sea-level stack (Spratt & Lisiecki)',
+        kind: 'series',
+        proxy: 'Relative sea level',
+        units: 'm',
+        ageUnit: 'ka',
+        citation: 'Spratt, R. M., and Lisiecki, L. E. (2016), A Late Pleistocene sea level stack, Climate of the Past, 12, 1079-1092.',
+        doi: '10.5194/cp-12-1079-2016',
+        sourceUrl: 'https://www.ncei.noaa.gov/access/paleo-search/study/19982',
+        bundled: 'none',
+        data: [],
+    },
+    {
+        id: 'GPTS',
+        name: 'Geomagnetic Polarity Timescale (GTS2020)',
+        kind: 'polarity',
+        proxy: 'Magnetic polarity',
+        units: 'normal / reversed',
+        ageUnit: 'Ma',
+        citation: 'Ogg, J. G. (2020), Geomagnetic Polarity Time Scale, in Geologic Time Scale 2020, Elsevier, 159-192; Cande, S. C., and Kent, D. V. (1995), J. Geophys. Res., 100, 6093-6095.',
+        doi: '10.1016/B978-0-12-824360-2.00005-X',
+        sourceUrl: 'https://timescalecreator.org',
+        bundled: 'subset', // 0–6.7 Ma; import a full chron table for older records
+        data: [],
+        intervals: GPTS_BOUNDARIES_MA.map(([top, base, polarity, name]) => ({ top: top * 1000, base: base * 1000, polarity, name })),
+    },
+];
@@ -0,0 +1,101 @@
+// Reference glass compositions of widespread marker tephras, for screening correlations of tephra layers.
+// Values are representative normalised (anhydrous, 100 %) EPMA glass means and 1σ shard-to-shard spreads
+// compiled from:
+//  Vedde Ash, Saksunarvatn Ash — Mangerud, J., et al. (1984), Quat. Res., 21, 85-104; Lane, C. S., et al. (2012),
+//   Quat. Sci. Rev., 33, 87-99; Grönvold, K., et al. (1995), Earth Planet. Sci. Lett., 135, 149-155.
+//   Ages on GICC05 (Rasmussen, S. O., et al., 2006, J. Geophys. Res., 111, D06102), converted from b2k to BP.
+//  Laacher See Tephra — Harms, E., and Schmincke, H.-U. (2000), Contrib. Mineral. Petrol., 138, 84-98;
+//   age from Reinig, F., et al. (2021), Nature, 595, 66-69.
+//  Campanian Ignimbrite / Y-5 — Tomlinson, E. L., et al. (2012), Geochim. Cosmochim. Acta, 93, 102-128;
+//   age from Giaccio, B., et al. (2017), Sci. Rep., 7, 45940.
+//  Youngest Toba Tuff — Smith, V. C., et al. (2011), Quat. Sci. Rev., 30, 3638-3660;
+//   age from Storey, M., et al. (2012), Proc. Natl. Acad. Sci., 109, 18684-18688.
+//  Kikai-Akahoya, Aira-Tanzawa — Smith, V. C., et al. (2013), Quat. Sci. Rev., 67, 121-137.
+// The compositions are summaries for a first match only. Confirm correlations against the full shard datasets
+// (e.g. RESET, Tephrabase) analysed under the same conditions as the unknown.
+
+import type { MajorOxide } from '../types';
+
+export interface TephraReference {
+    id: string;
+    name: string;
+    volcano: string;
+    region: string;
+    age: number; // ka BP (before 1950)
+    ageUncertainty: number; // ka, 1σ
+    mean: Record<MajorOxide, number>; // wt%, normalised
+    sd: Record<MajorOxide, number>; // wt%, 1σ
+}
+
+export const TEPHRA_REFERENCES: TephraReference[] = [
+    {
+        id: 'vedde',
+        name: 'Vedde Ash (rhyolitic)',
+        volcano: 'Katla, Iceland',
+        region: 'North Atlantic, Europe',
+        age: 11.97,
+        ageUncertainty: 0.04,
+        mean: { SiO2: 71.60, TiO2: 0.28, Al2O3: 13.32, FeOt: 3.69, MnO: 0.15, MgO: 0.26, CaO: 1.48, Na2O: 5.51, K2O: 3.71 },
+        sd: { SiO2: 0.60, TiO2: 0.03, Al2O3: 0.30, FeOt: 0.15, MnO: 0.03, MgO: 0.03, CaO: 0.10, Na2O: 0.30, K2O: 0.15 },
+    },
+    {
+        id: 'saksunarvatn',
+        name: 'Saksunarvatn Ash',
+        volcano: 'Grímsvötn, Iceland',
+        region: 'North Atlantic, Europe',
+        age: 10.30,
+        ageUncertainty: 0.09,
+        mean: { SiO2: 50.51, TiO2: 2.96, Al2O3: 13.23, FeOt: 14.43, MnO: 0.23, MgO: 5.46, CaO: 9.87, Na2O: 2.86, K2O: 0.45 },
+        sd: { SiO2: 0.60, TiO2: 0.15, Al2O3: 0.30, FeOt: 0.50, MnO: 0.03, MgO: 0.30, CaO: 0.30, Na2O: 0.15, K2O: 0.05 },
+    },
+    {
+        id: 'laacher-see',
+        name: 'Laacher See Tephra',
+        volcano: 'Laacher See, Eifel',
+        region: 'Central Europe',
+        age: 13.01,
+        ageUncertainty: 0.005,
+        mean: { SiO2: 58.80, TiO2: 0.20, Al2O3: 21.27, FeOt: 2.21, MnO: 0.22, MgO: 0.10, CaO: 0.95, Na2O: 10.03, K2O: 6.22 },
+        sd: { SiO2: 0.90, TiO2: 0.05, Al2O3: 0.40, FeOt: 0.30, MnO: 0.05, MgO: 0.05, CaO: 0.20, Na2O: 0.80, K2O: 0.50 },
+    },
+    {
+        id: 'campanian-ignimbrite',
+        name: 'Campanian Ignimbrite (Y-5)',
+        volcano: 'Campi Flegrei, Italy',
+        region: 'Mediterranean, Eastern Europe',
+        age: 39.85,
+        ageUncertainty: 0.07,
+        mean: { SiO2: 61.99, TiO2: 0.42, Al2O3: 18.87, FeOt: 3.04, MnO: 0.20, MgO: 0.40, CaO: 1.90, Na2O: 5.89, K2O: 7.29 },
+        sd: { SiO2: 0.50, TiO2: 0.04, Al2O3: 0.30, FeOt: 0.20, MnO: 0.04, MgO: 0.08, CaO: 0.20, Na2O: 0.40, K2O: 0.40 },
+    },
+    {
+        id: 'toba-ytt',
+        name: 'Youngest Toba Tuff (YTT)',
+        volcano: 'Toba, Sumatra',
+        region: 'Indian Ocean, South Asia',
+        age: 73.88,
+        ageUncertainty: 0.32,
+        mean: { SiO2: 77.28, TiO2: 0.06, Al2O3: 12.51, FeOt: 0.88, MnO: 0.07, MgO: 0.06, CaO: 0.80, Na2O: 3.15, K2O: 5.19 },
+        sd: { SiO2: 0.40, TiO2: 0.02, Al2O3: 0.20, FeOt: 0.10, MnO: 0.02, MgO: 0.02, CaO: 0.08, Na2O: 0.20, K2O: 0.25 },
+    },
+    {
+        id: 'kikai-akahoya',
+        name: 'Kikai-Akahoya (K-Ah)',
+        volcano: 'Kikai caldera, Japan',
+        region: 'NW Pacific, East Asia',
+        age: 7.23,
+        ageUncertainty: 0.04,
+        mean: { SiO2: 74.95, TiO2: 0.50, Al2O3: 12.86, FeOt: 2.46, MnO: 0.08, MgO: 0.45, CaO: 2.06, Na2O: 3.77, K2O: 2.87 },
+        sd: { SiO2: 0.70, TiO2: 0.05, Al2O3: 0.30, FeOt: 0.15, MnO: 0.02, MgO: 0.05, CaO: 0.15, Na2O: 0.20, K2O: 0.10 },
+    },
+    {
+        id: 'aira-tanzawa',
+        name: 'Aira-Tanzawa (AT)',
+        volcano: 'Aira caldera, Japan',
+        region: 'NW Pacific, East Asia',
+        age: 30.01,
+        ageUncertainty: 0.10,
+        mean: { SiO2: 78.17, TiO2: 0.14, Al2O3: 12.23, FeOt: 1.25, MnO: 0.05, MgO: 0.12, CaO: 1.10, Na2O: 3.56, K2O: 3.38 },
+        sd: { SiO2: 0.30, TiO2: 0.03, Al2O3: 0.20, FeOt: 0.10, MnO: 0.02, MgO: 0.03, CaO: 0.08, Na2O: 0.15, K2O: 0.15 },
+    },
+];
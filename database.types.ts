@@ -25,6 +25,10 @@ export type CoreLabAnalysis = {
     cdCa?: number | null;
     radiocarbonDate?: number | null;
 };
+export type CoreReservoirCorrection = {
+    deltaR: number;
+    deltaRError: number;
+};
 export type FossilTaxonomy = {
     kingdom: string;
     phylum: string;
@@ -39,6 +43,14 @@ export type FossilEcology = {
     depthHabitat: string;
     notes: string;
 };
+export type TaxonAuthorityInJson = {
+    accepted_name: string;
+    authorship: string;
+    year: number | null;
+    source: string;
+    source_id: string | null;
+    verbatim_name: string | null;
+};
 
 export type SectionFossilRecordInJson = {
     fossil_id: string;
@@ -47,8 +59,151 @@ export type SectionFossilRecordInJson = {
     observations: string;
 };
 
+export type SstCalibrationInJson = {
+    calibration_id: string;
+    source_column: string;
+    target_column: string;
+    equation: string;
+    constants: { [key: string]: number };
+    computed_at: string;
+};
+
+export type SeawaterD18OInJson = {
+    equation_id: string;
+    constants: { [key: string]: number };
+    temperature_column: string;
+    d18o_error: number;
+    temperature_error: number;
+    ice_volume_correction?: {
+        curve_id: string;
+        permil_per_metre: number;
+        sea_level_error: number;
+    } | null;
+    computed_at: string;
+};
+
+export type TransferFunctionInJson = {
+    method: string;
+    calibration_name: string;
+    calibration_size: number;
+    k?: number | null;
+    components?: number | null;
+    rmsep: number;
+    r2: number;
+    no_analogue_threshold: number;
+    fill_calculated_sst: boolean;
+    computed_at: string;
+};
+
+export type CensusSampleInJson = {
+    id: string;
+    subsection?: string | null;
+    depth: number;
+    counts: { [fossil_id: string]: number };
+    total_counted: number;
+    split_fraction: number;
+    sieve_size: number;
+    dry_weight?: number | null;
+    morphotypes?: MorphotypeCountInJson[] | null;
+};
+
+export type MorphotypeCountInJson = {
+    fossil_id: string;
+    scheme: string;
+    counts: { [morphotype: string]: number };
+};
+
+export type RatioProxyInJson = {
+    species_ratios: {
+        id: string;
+        column: string;
+        label: string;
+        numerator: string[];
+        complement: string[];
+    }[];
+    columns: string[];
+};
+
+export type AssemblageZoneInJson = {
+    id: string;
+    label: string;
+    top_depth: number;
+    bottom_depth: number;
+    sample_count: number;
+};
+
+export type PolarityZoneInJson = {
+    top_depth: number;
+    bottom_depth: number;
+    polarity: string;
+    inclination?: number | null;
+    confidence: string;
+};
+
+export type TephraLayerInJson = {
+    id: string;
+    depth: number;
+    thickness: number;
+    glass_mean?: { [oxide: string]: number } | null;
+    glass_sd?: { [oxide: string]: number } | null;
+    shard_count?: number | null;
+    correlative_id?: string | null;
+    notes?: string | null;
+};
+
+export type CompositeDepthInJson = {
+    affine_table: {
+        section_id: string;
+        hole: string;
+        offset: number;
+        affine_type: string;
+        tie?: {
+            reference_section_id: string;
+            proxy_key: string;
+            correlation: number;
+            overlap: number;
+        } | null;
+    }[];
+    splice: {
+        section_id: string;
+        top_depth: number;
+        bottom_depth: number;
+        splice_type: string;
+    }[];
+    ties?: {
+        id: string;
+        section_id: string;
+        depth: number;
+        reference_section_id: string;
+        reference_depth: number;
+    }[];
+    updated_at: string;
+};
+
 export type JsonDataPoint = { [key: string]: string | number | boolean | null };
 
+export type TiePointInJson = {
+    id: string;
+    section_id: string;
+    depth: number;
+    age: number;
+    age_uncertainty?: number | null;
+    label?: string | null;
+};
+
+export type SpliceIntervalInJson = {
+    section_id: string;
+    start_age: number | null;
+    end_age: number | null;
+};
+
+export type GeneratedAgeInJson = {
+    depth: number;
+    age: number;
+    age_lower?: number | null;
+    age_upper?: number | null;
+};
+
 
 // Represents a row in the new parent 'cores' table
 export type CoreRow = {
@@ -58,6 +213,8 @@ export type CoreRow = {
   location: CoreLocation;
   water_depth: number;
   project: string;
+  reservoir_correction: CoreReservoirCorrection | null;
+  composite_depth: CompositeDepthInJson | null;
   folder_id: string | null;
   created_at: string;
 };
@@ -84,21 +241,77 @@ export type SectionRow = {
   munsell_color: string | null;
   grain_size: string | null;
   tephra_layers: string | null;
+  tephra_record: TephraLayerInJson[] | null;
+  census_samples: CensusSampleInJson[] | null;
+  assemblage_zones: AssemblageZoneInJson[] | null;
   paleomagnetic_reversals: string | null;
+  polarity_record: PolarityZoneInJson[] | null;
+  sst_calibrations: SstCalibrationInJson[] | null;
+  seawater_d18o: SeawaterD18OInJson | null;
+  transfer_function: TransferFunctionInJson | null;
+  ratio_proxies: RatioProxyInJson | null;
   created_at: string;
 }
 
 // Represents a row in the 'microfossils' table
 export type MicrofossilRow = {
     id: string;
+    code: string;
     taxonomy: FossilTaxonomy;
     description: string | null;
     stratigraphic_range: string | null;
     ecology: FossilEcology;
     image_url: string | null;
+    authority: TaxonAuthorityInJson | null;
+    owner_id: string | null;
+    catalogue: string; // 'personal' | 'lab' | 'curated'
+    lab_id: string | null;
+    review_status: string; // 'none' | 'pending' | 'approved' | 'rejected'
+    review_note: string | null;
+    reviewed_by: string | null;
+    reviewed_at: string | null;
     created_at: string;
 };
 
+// Represents a row in the 'labs' table: a group sharing a fossil catalogue
+export type LabRow = {
+  id: string;
+  name: string;
+  invite_code: string;
+  created_by: string;
+  created_at: string;
+};
+
+// Represents a row in the 'lab_members' table
+export type LabMemberRow = {
+  lab_id: string;
+  user_id: string;
+  role: string; // 'member' | 'admin'
+  created_at: string;
+};
+
+// Represents a row in the 'catalogue_curators' table
+export type CatalogueCuratorRow = {
+  user_id: string;
+  created_at: string;
+};
+
+// Represents a row in the 'age_models' table: one saved age-model version of a core
+export type AgeModelRow = {
+  id: string; // Primary key (UUID)
+  core_id: string; // Foreign key to cores.id
+  user_id: string;
+  name: string;
+  method: string;
+  parameters: { [key: string]: string | number | boolean } | null;
+  tie_points: TiePointInJson[];
+  splice_intervals: SpliceIntervalInJson[] | null;
+  generated_ages: { [sectionId: string]: GeneratedAgeInJson[] } | null;
+  is_active: boolean;
+  author: string;
+  created_at: string;
+};
+
 export type FolderRow = {
   id: string;
   user_id: string;
@@ -119,6 +332,8 @@ export type Database = {
           location: CoreLocation;
           water_depth: number;
           project: string;
+          reservoir_correction?: CoreReservoirCorrection | null;
+          composite_depth?: CompositeDepthInJson | null;
           folder_id?: string | null;
         };
         Update: {
@@ -126,6 +341,8 @@ export type Database = {
           location?: CoreLocation;
           water_depth?: number;
           project?: string;
+          reservoir_correction?: CoreReservoirCorrection | null;
+          composite_depth?: CompositeDepthInJson | null;
           folder_id?: string | null;
         };
         Relationships: [
@@ -165,7 +382,15 @@ export type Database = {
           munsell_color?: string | null;
           grain_size?: string | null;
           tephra_layers?: string | null;
+          tephra_record?: TephraLayerInJson[] | null;
+          census_samples?: CensusSampleInJson[] | null;
+          assemblage_zones?: AssemblageZoneInJson[] | null;
           paleomagnetic_reversals?: string | null;
+          polarity_record?: PolarityZoneInJson[] | null;
+          sst_calibrations?: SstCalibrationInJson[] | null;
+          seawater_d18o?: SeawaterD18OInJson | null;
+          transfer_function?: TransferFunctionInJson | null;
+          ratio_proxies?: RatioProxyInJson | null;
         };
         Update: {
           name?: string;
@@ -186,7 +411,15 @@ export type Database = {
           munsell_color?: string | null;
           grain_size?: string | null;
           tephra_layers?: string | null;
+          tephra_record?: TephraLayerInJson[] | null;
+          census_samples?: CensusSampleInJson[] | null;
+          assemblage_zones?: AssemblageZoneInJson[] | null;
           paleomagnetic_reversals?: string | null;
+          polarity_record?: PolarityZoneInJson[] | null;
+          sst_calibrations?: SstCalibrationInJson[] | null;
+          seawater_d18o?: SeawaterD18OInJson | null;
+          transfer_function?: TransferFunctionInJson | null;
+          ratio_proxies?: RatioProxyInJson | null;
         };
         Relationships: [
           {
@@ -200,12 +433,18 @@ export type Database = {
       microfossils: {
         Row: MicrofossilRow;
         Insert: {
-            id: string;
+            id?: string;
+            code: string;
             taxonomy: FossilTaxonomy;
             description?: string | null;
             stratigraphic_range?: string | null;
             ecology: FossilEcology;
             image_url?: string | null;
+            authority?: TaxonAuthorityInJson | null;
+            owner_id?: string | null;
+            catalogue?: string;
+            lab_id?: string | null;
+            review_status?: string;
         };
         Update: {
             taxonomy?: FossilTaxonomy;
@@ -213,8 +452,49 @@ export type Database = {
             stratigraphic_range?: string | null;
             ecology?: FossilEcology;
             image_url?: string | null;
+            authority?: TaxonAuthorityInJson | null;
+            catalogue?: string;
+            lab_id?: string | null;
+            review_status?: string;
+            review_note?: string | null;
+            reviewed_by?: string | null;
+            reviewed_at?: string | null;
         };
-        Relationships: [];
+        Relationships: [
+          {
+            foreignKeyName: "microfossils_lab_id_fkey",
+            columns: ["lab_id"],
+            referencedRelation: "labs",
+            referencedColumns: ["id"]
+          }
+        ];
+      };
+      age_models: {
+        Row: AgeModelRow;
+        Insert: {
+          core_id: string;
+          user_id: string;
+          name: string;
+          method: string;
+          parameters?: { [key: string]: string | number | boolean } | null;
+          tie_points: TiePointInJson[];
+          splice_intervals?: SpliceIntervalInJson[] | null;
+          generated_ages?: { [sectionId: string]: GeneratedAgeInJson[] } | null;
+          is_active?: boolean;
+          author: string;
+        };
+        Update: {
+          name?: string;
+          is_active?: boolean;
+        };
+        Relationships: [
+          {
+            foreignKeyName: "age_models_core_id_fkey",
+            columns: ["core_id"],
+            referencedRelation: "cores",
+            referencedColumns: ["id"]
+          }
+        ];
       };
       folders: {
         Row: FolderRow;
@@ -234,9 +514,56 @@ export type Database = {
           }
         ];
       };
+      labs: {
+        Row: LabRow;
+        Insert: {
+          name: string;
+          created_by: string;
+        };
+        Update: {
+          name?: string;
+        };
+        Relationships: [];
+      };
+      lab_members: {
+        Row: LabMemberRow;
+        Insert: {
+          lab_id: string;
+          user_id: string;
+          role?: string;
+        };
+        Update: {
+          role?: string;
+        };
+        Relationships: [
+          {
+            foreignKeyName: "lab_members_lab_id_fkey",
+            columns: ["lab_id"],
+            referencedRelation: "labs",
+            referencedColumns: ["id"]
+          }
+        ];
+      };
+      catalogue_curators: {
+        Row: CatalogueCuratorRow;
+        Insert: {
+          user_id: string;
+        };
+        Update: {};
+        Relationships: [];
+      };
     };
     Views: {};
-    Functions: {};
+    Functions: {
+      create_lab: {
+        Args: { lab_name: string };
+        Returns: string;
+      };
+      join_lab: {
+        Args: { code: string };
+        Returns: string;
+      };
+    };
     Enums: {};
     CompositeTypes: {};
   };
@@ -0,0 +1,181 @@
+import type { Section, TiePoint, AccumulationRateSettings } from '../types';
+import { NON_PROXY_KEYS } from '../constants';
+
+// =================================================================
+// SEDIMENTATION AND MASS ACCUMULATION RATES
+// Linear sedimentation rates (LSR, cm/kyr) are computed per age-model
+// interval, either between consecutive tie-points or between consecutive
+// dated samples. Mass accumulation rates (g/cm²/kyr) follow as
+// MAR = LSR × dry bulk density, and for a component measured in wt%,
+// MAR_i = MAR × C_i / 100. Depths are in cm and ages in ka like everywhere else.
+// =================================================================
+
+// Column keys of the derived values on MAR samples.
+export const LSR_COLUMN = 'lsr';
+export const BULK_MAR_COLUMN = 'bulkMAR';
+export const componentMarColumn = (componentColumn: string) => `${componentColumn}MAR`;
+
+export interface SedimentationInterval {
+    topDepth: number;
+    bottomDepth: number;
+    topAge: number;
+    bottomAge: number;
+    rate: number | null; // cm/kyr; null where the age does not increase with depth (a reversal)
+}
+
+export interface AccumulationSample {
+    depth: number;
+    age?: number;
+    [column: string]: number | undefined;
+}
+
+export interface AccumulationRateResult {
+    sectionId: string;
+    intervals: SedimentationInterval[];
+    samples: AccumulationSample[];
+}
+
+const intervalsFrom = (points: { depth: number; age: number }[]): SedimentationInterval[] => {
+    const sorted = [...points].sort((a, b) => a.depth - b.depth);
+    const intervals: SedimentationInterval[] = [];
+    for (let i = 1; i < sorted.length; i++) {
+        const top = sorted[i - 1];
+        const bottom = sorted[i];
+        if (bottom.depth === top.depth) continue;
+        const ageSpan = bottom.age - top.age;
+        intervals.push({
+            topDepth: top.depth,
+            bottomDepth: bottom.depth,
+            topAge: top.age,
+            bottomAge: bottom.age,
+            rate: ageSpan > 0 ? (bottom.depth - top.depth) / ageSpan : null,
+        });
+    }
+    return intervals;
+};
+
+/** LSR between consecutive tie-points of a section. */
+export const sedimentationRatesFromTiePoints = (tiePoints: TiePoint[], sectionId: string): SedimentationInterval[] =>
+    intervalsFrom(tiePoints.filter(tp => tp.sectionId === sectionId));
+
+/**
+ * LSR between consecutive dated samples of a section. Neighbouring intervals
+ * with the same rate (e.g. from a piecewise-linear model) are merged.
+ */
+export const sedimentationRatesFromAges = (section: Section): SedimentationInterval[] => {
+    const intervals = intervalsFrom(section.dataPoints
+        .filter(dp => typeof dp.depth === 'number' && typeof dp.age === 'number')
+        .map(dp => ({ depth: dp.depth as number, age: dp.age as number })));
+    return intervals.reduce<SedimentationInterval[]>((merged, interval) => {
+        const last = merged[merged.length - 1];
+        const sameRate = last && last.rate !== null && interval.rate !== null && Math.abs(last.rate - interval.rate) <= 1e-6 * Math.abs(last.rate);
+        if (sameRate && last.bottomDepth === interval.topDepth) {
+            merged[merged.length - 1] = { ...last, bottomDepth: interval.bottomDepth, bottomAge: interval.bottomAge };
+        } else {
+            merged.push(interval);
+        }
+        return merged;
+    }, []);
+};
+
+/** The LSR of the interval containing a depth; null outside the intervals or in a reversal. */
+export const rateAtDepth = (intervals: SedimentationInterval[], depth: number): number | null => {
+    const interval = intervals.find((iv, i) => depth >= iv.topDepth && (depth < iv.bottomDepth || (i === intervals.length - 1 && depth === iv.bottomDepth)));
+    return interval ? interval.rate : null;
+};
+
+/**
+ * Bulk and component MARs for every sample with a depth inside the intervals.
+ * Samples without a density value only get the LSR.
+ */
+export const massAccumulationRates = (section: Section, intervals: SedimentationInterval[], settings: Pick<AccumulationRateSettings, 'densityColumn' | 'componentColumns'>): AccumulationSample[] =>
+    section.dataPoints
+        .filter(dp => typeof dp.depth === 'number')
+        .sort((a, b) => (a.depth as number) - (b.depth as number))
+        .flatMap(dp => {
+            const depth = dp.depth as number;
+            const lsr = rateAtDepth(intervals, depth);
+            if (lsr === null) return [];
+            const sample: AccumulationSample = { depth, [LSR_COLUMN]: lsr };
+            if (typeof dp.age === 'number') sample.age = dp.age;
+            const density = dp[settings.densityColumn];
+            if (typeof density === 'number' && density > 0) {
+                const bulk = lsr * density;
+                sample[BULK_MAR_COLUMN] = bulk;
+                settings.componentColumns.forEach(column => {
+                    const concentration = dp[column];
+                    if (typeof concentration === 'number') sample[componentMarColumn(column)] = bulk * concentration / 100;
+                });
+            }
+            return [sample];
+        });
+
+// =================================================================
+// SETTINGS AND REPORTS
+// =================================================================
+
+const DENSITY_PATTERN = /(^|_)dbd$|dry.?bulk|bulk.?dens|^density$/i;
+const COMPONENT_PATTERN = /caco3|carbonate|toc|corg|org.?c|opal|bsi|terrigenous/i;
+
+/** Numeric non-position columns present in any of the sections; the candidates for density and components. */
+export const accumulationColumnOptions = (sections: Section[]) => {
+    const columns = new Set<string>();
+    sections.forEach(s => s.dataPoints.forEach(dp => Object.keys(dp).forEach(key => {
+        if (!NON_PROXY_KEYS.includes(key) && typeof dp[key] === 'number') columns.add(key);
+    })));
+    return Array.from(columns);
+};
+
+/** Guesses the density and concentration columns from the column names. */
+export const defaultAccumulationSettings = (sections: Section[]): AccumulationRateSettings => {
+    const columns = accumulationColumnOptions(sections);
+    return {
+        source: 'ages',
+        densityColumn: columns.find(c => DENSITY_PATTERN.test(c)) ?? '',
+        componentColumns: columns.filter(c => COMPONENT_PATTERN.test(c)),
+    };
+};
+
+/** Rates for every section, from its tie-points or its dated samples as the settings ask. */
+export const calculateAccumulationRates = (sections: Section[], tiePoints: TiePoint[], settings: AccumulationRateSettings): AccumulationRateResult[] =>
+    sections.map(section => {
+        const intervals = settings.source === 'tiePoints'
+            ? sedimentationRatesFromTiePoints(tiePoints, section.id)
+            : sedimentationRatesFromAges(section);
+        return { sectionId: section.id, intervals, samples: massAccumulationRates(section, intervals, settings) };
+    });
+
+/** Depth-weighted mean of a sample column, each sample standing for half the distance to its neighbours. */
+export const depthWeightedMean = (samples: AccumulationSample[], column: string): number | null => {
+    const points = samples.filter(s => typeof s[column] === 'number');
+    if (points.length === 0) return null;
+    if (points.length === 1) return points[0][column] as number;
+    let sum = 0;
+    let thickness = 0;
+    points.forEach((p, i) => {
+        const top = i === 0 ? p.depth : (points[i - 1].depth + p.depth) / 2;
+        const bottom = i === points.length - 1 ? p.depth : (p.depth + points[i + 1].depth) / 2;
+        sum += (p[column] as number) * (bottom - top);
+        thickness += bottom - top;
+    });
+    return thickness > 0 ? sum / thickness : null;
+};
+
+/**
+ * Vertices of a step profile against depth. Intervals are drawn as given;
+ * samples stand for the depth range halfway to their neighbours.
+ */
+export const stepProfile = (ranges: { top: number; bottom: number; value: number | null }[]): { depth: number; value: number | null }[] =>
+    ranges.flatMap(r => [{ depth: r.top, value: r.value }, { depth: r.bottom, value: r.value }]);
+
+export const intervalSteps = (intervals: SedimentationInterval[]) =>
+    stepProfile(intervals.map(iv => ({ top: iv.topDepth, bottom: iv.bottomDepth, value: iv.rate })));
+
+export const sampleSteps = (samples: AccumulationSample[], column: string) => {
+    const points = samples.filter(s => typeof s[column] === 'number');
+    return stepProfile(points.map((p, i) => ({
+        top: i === 0 ? p.depth : (points[i - 1].depth + p.depth) / 2,
+        bottom: i === points.length - 1 ? p.depth : (p.depth + points[i + 1].depth) / 2,
+        value: p[column] as number,
+    })));
+};
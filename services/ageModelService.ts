@@ -0,0 +1,480 @@
+import type { Section, DataPoint, TiePoint, AgeModelMethod, AgeModelVersion, GeneratedAge } from '../types';
+
+// =================================================================
+// LOCAL AGE-DEPTH MODELLING ENGINE
+// A deterministic, offline alternative to the AI-driven `generateAgeModel`.
+// Given the same sections and tie-points it always returns the same ages.
+// =================================================================
+
+export const AGE_MODEL_METHOD_LABELS: Record<AgeModelMethod, string> = {
+    linear: 'Linear Interpolation',
+    piecewise: 'Piecewise Linear (with extrapolation)',
+    spline: 'Smoothing Spline',
+    pchip: 'Monotone Cubic (PCHIP)',
+};
+
+export interface AgeModelOptions {
+    // Only used by the 'spline' method. 0 reproduces the tie-points exactly,
+    // values approaching 1 flatten the curve towards a straight-line fit.
+    smoothing?: number;
+}
+
+type ControlPoint = { depth: number; age: number };
+
+/**
+ * Tie-points sorted by depth with repeats of the same depth and age merged
+ * (the first is kept). Throws if one depth has two different ages; both the
+ * deterministic and the Monte Carlo engine use this.
+ */
+export const mergeDuplicateTiePoints = (tiePoints: TiePoint[], sectionName: string): TiePoint[] => {
+    const sorted = [...tiePoints]
+        .filter(tp => isFinite(tp.depth) && isFinite(tp.age))
+        .sort((a, b) => a.depth - b.depth);
+
+    const merged: TiePoint[] = [];
+    for (const tp of sorted) {
+        const last = merged[merged.length - 1];
+        if (last && last.depth === tp.depth) {
+            if (last.age !== tp.age) {
+                throw new Error(`Section "${sectionName}" has conflicting tie-points at ${tp.depth} cm (${last.age} ka vs ${tp.age} ka).`);
+            }
+            continue;
+        }
+        merged.push(tp);
+    }
+    return merged;
+};
+
+// Sorts tie-points by depth, merges duplicates and rejects age reversals.
+const prepareControlPoints = (tiePoints: TiePoint[], sectionName: string): ControlPoint[] => {
+    const points: ControlPoint[] = [];
+    for (const tp of mergeDuplicateTiePoints(tiePoints, sectionName)) {
+        const last = points[points.length - 1];
+        if (last && tp.age < last.age) {
+            throw new Error(`Age reversal in section "${sectionName}": ${tp.age} ka at ${tp.depth} cm is younger than ${last.age} ka at ${last.depth} cm.`);
+        }
+        points.push({ depth: tp.depth, age: tp.age });
+    }
+    return points;
+};
+
+// Returns the index i such that xs[i] <= x <= xs[i + 1], assuming xs[0] <= x <= xs[n - 1].
+const findSegment = (xs: number[], x: number): number => {
+    let lo = 0;
+    let hi = xs.length - 2;
+    while (lo < hi) {
+        const mid = (lo + hi + 1) >> 1;
+        if (xs[mid] <= x) lo = mid;
+        else hi = mid - 1;
+    }
+    return lo;
+};
+
+// Gaussian elimination with partial pivoting; fine for the handful of tie-points in a section.
+const solveLinearSystem = (matrix: number[][], rhs: number[]): number[] => {
+    const n = rhs.length;
+    const a = matrix.map((row, i) => [...row, rhs[i]]);
+    for (let col = 0; col < n; col++) {
+        let pivot = col;
+        for (let row = col + 1; row < n; row++) {
+            if (Math.abs(a[row][col]) > Math.abs(a[pivot][col])) pivot = row;
+        }
+        [a[col], a[pivot]] = [a[pivot], a[col]];
+        const diag = a[col][col];
+        if (Math.abs(diag) < 1e-12) throw new Error('Singular system while fitting the smoothing spline.');
+        for (let row = col + 1; row < n; row++) {
+            const factor = a[row][col] / diag;
+            for (let k = col; k <= n; k++) a[row][k] -= factor * a[col][k];
+        }
+    }
+    const solution = new Array(n).fill(0);
+    for (let row = n - 1; row >= 0; row--) {
+        let sum = a[row][n];
+        for (let k = row + 1; k < n; k++) sum -= a[row][k] * solution[k];
+        solution[row] = sum / a[row][row];
+    }
+    return solution;
+};
+
+const linearInterpolator = (points: ControlPoint[]) => {
+    const xs = points.map(p => p.depth);
+    const ys = points.map(p => p.age);
+    return (depth: number) => {
+        const i = findSegment(xs, depth);
+        const t = (depth - xs[i]) / (xs[i + 1] - xs[i]);
+        return ys[i] + t * (ys[i + 1] - ys[i]);
+    };
+};
+
+// Fritsch–Carlson monotone piecewise cubic Hermite interpolation.
+const pchipInterpolator = (points: ControlPoint[]) => {
+    const xs = points.map(p => p.depth);
+    const ys = points.map(p => p.age);
+    const n = xs.length;
+    const h = xs.slice(1).map((x, i) => x - xs[i]);
+    const delta = h.map((hi, i) => (ys[i + 1] - ys[i]) / hi);
+
+    const slopes = new Array(n).fill(0);
+    if (n === 2) {
+        slopes[0] = slopes[1] = delta[0];
+    } else {
+        for (let i = 1; i < n - 1; i++) {
+            if (delta[i - 1] === 0 || delta[i] === 0 || Math.sign(delta[i - 1]) !== Math.sign(delta[i])) {
+                slopes[i] = 0;
+            } else {
+                const w1 = 2 * h[i] + h[i - 1];
+                const w2 = h[i] + 2 * h[i - 1];
+                slopes[i] = (w1 + w2) / (w1 / delta[i - 1] + w2 / delta[i]);
+            }
+        }
+        const endSlope = (h0: number, h1: number, d0: number, d1: number) => {
+            let s = ((2 * h0 + h1) * d0 - h0 * d1) / (h0 + h1);
+            if (Math.sign(s) !== Math.sign(d0)) s = 0;
+            else if (Math.sign(d0) !== Math.sign(d1) && Math.abs(s) > Math.abs(3 * d0)) s = 3 * d0;
+            return s;
+        };
+        slopes[0] = endSlope(h[0], h[1], delta[0], delta[1]);
+        slopes[n - 1] = endSlope(h[n - 2], h[n - 3], delta[n - 2], delta[n - 3]);
+    }
+
+    return (depth: number) => {
+        const i = findSegment(xs, depth);
+        const t = (depth - xs[i]) / h[i];
+        const t2 = t * t;
+        const t3 = t2 * t;
+        return (2 * t3 - 3 * t2 + 1) * ys[i]
+            + (t3 - 2 * t2 + t) * h[i] * slopes[i]
+            + (-2 * t3 + 3 * t2) * ys[i + 1]
+            + (t3 - t2) * h[i] * slopes[i + 1];
+    };
+};
+
+// Natural cubic smoothing spline (Reinsch algorithm, Green & Silverman 1994).
+// Depths are rescaled to [0, 1] so the smoothing factor is independent of core length.
+const smoothingSplineInterpolator = (points: ControlPoint[], smoothing: number) => {
+    const n = points.length;
+    if (n < 3 || smoothing <= 0) {
+        return n < 3 ? linearInterpolator(points) : naturalSpline(points.map(p => p.depth), points.map(p => p.age), null);
+    }
+    const x0 = points[0].depth;
+    const span = points[n - 1].depth - x0;
+    const xs = points.map(p => (p.depth - x0) / span);
+    const ys = points.map(p => p.age);
+    const h = xs.slice(1).map((x, i) => x - xs[i]);
+    const m = n - 2;
+    // smoothing = 0.5 matches the default roughness penalty of MATLAB's csaps (mean spacing³ / 6).
+    const s = Math.min(smoothing, 0.999);
+    const alpha = (s / (1 - s)) * Math.pow(1 / (n - 1), 3) / 6;
+
+    // Q is n x (n - 2), R is (n - 2) x (n - 2), both banded.
+    const Q: number[][] = Array.from({ length: n }, () => new Array(m).fill(0));
+    const R: number[][] = Array.from({ length: m }, () => new Array(m).fill(0));
+    for (let j = 0; j < m; j++) {
+        Q[j][j] = 1 / h[j];
+        Q[j + 1][j] = -1 / h[j] - 1 / h[j + 1];
+        Q[j + 2][j] = 1 / h[j + 1];
+        R[j][j] = (h[j] + h[j + 1]) / 3;
+        if (j + 1 < m) {
+            R[j][j + 1] = h[j + 1] / 6;
+            R[j + 1][j] = h[j + 1] / 6;
+        }
+    }
+    const lhs = R.map((row, i) => row.map((r, j) => {
+        let qtq = 0;
+        for (let k = 0; k < n; k++) qtq += Q[k][i] * Q[k][j];
+        return r + alpha * qtq;
+    }));
+    const qty = new Array(m).fill(0).map((_, j) => Q.reduce((sum, row, k) => sum + row[j] * ys[k], 0));
+    const gamma = solveLinearSystem(lhs, qty);
+    const fitted = ys.map((y, k) => y - alpha * Q[k].reduce((sum, q, j) => sum + q * gamma[j], 0));
+
+    const evaluate = naturalSpline(xs, fitted, [0, ...gamma, 0]);
+    return (depth: number) => evaluate((depth - x0) / span);
+};
+
+// Evaluates a natural cubic spline through (xs, ys). When second derivatives are
+// not supplied they are solved for so that the spline interpolates exactly.
+const naturalSpline = (xs: number[], ys: number[], secondDerivatives: number[] | null) => {
+    const n = xs.length;
+    const h = xs.slice(1).map((x, i) => x - xs[i]);
+    let gamma = secondDerivatives;
+    if (!gamma) {
+        const m = n - 2;
+        const lhs: number[][] = Array.from({ length: m }, () => new Array(m).fill(0));
+        const rhs = new Array(m).fill(0);
+        for (let j = 0; j < m; j++) {
+            lhs[j][j] = (h[j] + h[j + 1]) / 3;
+            if (j > 0) lhs[j][j - 1] = h[j] / 6;
+            if (j + 1 < m) lhs[j][j + 1] = h[j + 1] / 6;
+            rhs[j] = (ys[j + 2] - ys[j + 1]) / h[j + 1] - (ys[j + 1] - ys[j]) / h[j];
+        }
+        gamma = [0, ...solveLinearSystem(lhs, rhs), 0];
+    }
+    const g = gamma;
+    return (x: number) => {
+        const i = findSegment(xs, x);
+        const a = x - xs[i];
+        const b = xs[i + 1] - x;
+        return (a * ys[i + 1] + b * ys[i]) / h[i]
+            - (a * b / 6) * ((1 + a / h[i]) * g[i + 1] + (1 + b / h[i]) * g[i]);
+    };
+};
+
+/**
+ * Builds an age(depth) function for a single section's tie-points.
+ * Returns null for depths the method cannot date (outside the tie-point range
+ * for plain linear interpolation). Requires at least two distinct tie-points.
+ */
+export const buildAgeDepthFunction = (
+    tiePoints: TiePoint[],
+    method: AgeModelMethod,
+    options: AgeModelOptions = {},
+    sectionName = 'section'
+): ((depth: number) => number | null) | null => {
+    const points = prepareControlPoints(tiePoints, sectionName);
+    if (points.length < 2) return null;
+
+    const inside = method === 'pchip'
+        ? pchipInterpolator(points)
+        : method === 'spline'
+            ? smoothingSplineInterpolator(points, options.smoothing ?? 0.5)
+            : linearInterpolator(points);
+
+    const top = points[0];
+    const bottom = points[points.length - 1];
+    const topRate = (points[1].age - top.age) / (points[1].depth - top.depth);
+    const bottomPrev = points[points.length - 2];
+    const bottomRate = (bottom.age - bottomPrev.age) / (bottom.depth - bottomPrev.depth);
+    const fittedTop = inside(top.depth);
+    const fittedBottom = inside(bottom.depth);
+
+    return (depth: number) => {
+        if (depth < top.depth) {
+            return method === 'linear' ? null : fittedTop - (top.depth - depth) * topRate;
+        }
+        if (depth > bottom.depth) {
+            return method === 'linear' ? null : fittedBottom + (depth - bottom.depth) * bottomRate;
+        }
+        return inside(depth);
+    };
+};
+
+// Assigns ages to a section's data points, enforcing that age never decreases with depth.
+// Any uncertainty envelope left over from a previous probabilistic run is dropped.
+const applyAgeModel = (dataPoints: DataPoint[], ageAt: (depth: number) => number | null): DataPoint[] => {
+    const ages = new Map<number, number>();
+    const depths = Array.from(new Set(
+        dataPoints.map(dp => dp.depth).filter((d): d is number => typeof d === 'number' && isFinite(d))
+    )).sort((a, b) => a - b);
+
+    let runningMax = -Infinity;
+    for (const depth of depths) {
+        const age = ageAt(depth);
+        if (age === null || !isFinite(age)) continue;
+        runningMax = Math.max(runningMax, age);
+        ages.set(depth, runningMax);
+    }
+
+    return dataPoints.map(dp => {
+        if (typeof dp.depth !== 'number') return dp;
+        const { age: _age, ageLower: _lower, ageUpper: _upper, ...rest } = dp;
+        const age = ages.get(dp.depth);
+        if (age === undefined) return rest;
+        return { ...rest, age: parseFloat(age.toFixed(4)) };
+    });
+};
+
+/**
+ * Deterministic counterpart to `generateAgeModel` in geminiService. Takes the
+ * same inputs and returns sections in the same shape, so the two can be
+ * swapped or compared directly. Sections with fewer than two tie-points are
+ * returned unchanged.
+ */
+export const generateLocalAgeModel = (
+    sections: Section[],
+    tiePoints: TiePoint[],
+    method: AgeModelMethod,
+    options: AgeModelOptions = {}
+): Section[] => {
+    let datedSections = 0;
+
+    const result = sections.map(section => {
+        const sectionTiePoints = tiePoints.filter(tp => tp.sectionId === section.id);
+        const ageAt = buildAgeDepthFunction(sectionTiePoints, method, options, section.name);
+        if (!ageAt) return section;
+        datedSections++;
+        return { ...section, dataPoints: applyAgeModel(section.dataPoints, ageAt) };
+    });
+
+    if (datedSections === 0) {
+        throw new Error('No section has at least two tie-points, so no age model could be calculated.');
+    }
+    return result;
+};
+
+// =================================================================
+// AGE MODEL DIAGNOSTICS
+// =================================================================
+
+export interface AgeModelFlag {
+    kind: 'reversal' | 'rateJump';
+    tiePointIds: string[]; // the tie-points the flag is about
+    depth: number; // where to mark it (cm)
+    message: string;
+}
+
+/**
+ * Checks a section's tie-points, in depth order, for age reversals and for
+ * sedimentation-rate jumps: neighbouring intervals whose rates differ by more
+ * than `maxRateRatio` times. Reversals within the combined 2σ uncertainty of
+ * the two tie-points are reported as such.
+ */
+export const checkTiePoints = (tiePoints: TiePoint[], sectionId: string, options: { maxRateRatio?: number } = {}): AgeModelFlag[] => {
+    const { maxRateRatio = 5 } = options;
+    const sorted = tiePoints.filter(tp => tp.sectionId === sectionId).sort((a, b) => a.depth - b.depth);
+    const flags: AgeModelFlag[] = [];
+
+    const rates: { rate: number; top: TiePoint; bottom: TiePoint }[] = [];
+    for (let i = 1; i < sorted.length; i++) {
+        const top = sorted[i - 1];
+        const bottom = sorted[i];
+        if (bottom.age < top.age || (bottom.age === top.age && bottom.depth > top.depth)) {
+            const sigma = Math.sqrt((top.ageUncertainty ?? 0) ** 2 + (bottom.ageUncertainty ?? 0) ** 2);
+            const withinError = sigma > 0 && top.age - bottom.age <= 2 * sigma;
+            flags.push({
+                kind: 'reversal',
+                tiePointIds: [top.id, bottom.id],
+                depth: bottom.depth,
+                message: `${bottom.age} ka at ${bottom.depth} cm is not older than ${top.age} ka at ${top.depth} cm${withinError ? ' (within 2σ)' : ''}.`,
+            });
+        } else if (bottom.depth > top.depth) {
+            rates.push({ rate: (bottom.depth - top.depth) / (bottom.age - top.age), top, bottom });
+        }
+    }
+
+    for (let i = 1; i < rates.length; i++) {
+        const above = rates[i - 1];
+        const below = rates[i];
+        if (above.bottom.id !== below.top.id) continue;
+        const ratio = Math.max(above.rate, below.rate) / Math.min(above.rate, below.rate);
+        if (ratio > maxRateRatio) {
+            flags.push({
+                kind: 'rateJump',
+                tiePointIds: [below.top.id],
+                depth: below.top.depth,
+                message: `Sedimentation rate changes ${ratio.toFixed(1)}× at ${below.top.depth} cm (${above.rate.toFixed(2)} → ${below.rate.toFixed(2)} cm/kyr).`,
+            });
+        }
+    }
+    return flags;
+};
+
+// =================================================================
+// SAVED AGE-MODEL VERSIONS
+// =================================================================
+
+/** Collects the per-depth ages of every dated section, keyed by section id, for storage. */
+export const extractGeneratedAges = (sections: Section[]): Record<string, GeneratedAge[]> => {
+    const result: Record<string, GeneratedAge[]> = {};
+    sections.forEach(section => {
+        const ages = section.dataPoints
+            .filter(dp => typeof dp.depth === 'number' && typeof dp.age === 'number')
+            .map((dp): GeneratedAge => ({
+                depth: dp.depth as number,
+                age: dp.age as number,
+                ...(typeof dp.ageLower === 'number' && { ageLower: dp.ageLower }),
+                ...(typeof dp.ageUpper === 'number' && { ageUpper: dp.ageUpper }),
+            }));
+        if (ages.length > 0) result[section.id] = ages;
+    });
+    return result;
+};
+
+/**
+ * Applies stored ages to sections by matching depth. Sections without stored
+ * ages are returned unchanged; points at depths the version did not date lose
+ * any stale age.
+ */
+export const applyGeneratedAges = (sections: Section[], generatedAges: Record<string, GeneratedAge[]>): Section[] =>
+    sections.map(section => {
+        const ages = generatedAges[section.id];
+        if (!ages || ages.length === 0) return section;
+        const byDepth = new Map(ages.map(a => [a.depth, a]));
+        return {
+            ...section,
+            dataPoints: section.dataPoints.map(dp => {
+                const { age: _age, ageLower: _lower, ageUpper: _upper, ...rest } = dp;
+                const stored = typeof dp.depth === 'number' ? byDepth.get(dp.depth) : undefined;
+                if (!stored) return rest;
+                return {
+                    ...rest,
+                    age: stored.age,
+                    ...(stored.ageLower !== undefined && { ageLower: stored.ageLower }),
+                    ...(stored.ageUpper !== undefined && { ageUpper: stored.ageUpper }),
+                };
+            }),
+        };
+    });
+
+export interface AgeModelSectionDiff {
+    sectionId: string;
+    comparedDepths: number;
+    maxAbsDifference: number;
+    meanAbsDifference: number;
+}
+
+export interface AgeModelDiff {
+    methodChanged: boolean;
+    changedParameters: { key: string; from?: number | string | boolean; to?: number | string | boolean }[];
+    addedTiePoints: TiePoint[];
+    removedTiePoints: TiePoint[];
+    changedTiePoints: { from: TiePoint; to: TiePoint }[];
+    sections: AgeModelSectionDiff[];
+}
+
+const tiePointKey = (tp: TiePoint) => `${tp.sectionId}@${tp.depth}`;
+
+/**
+ * Compares two saved versions: method and parameter changes, tie-points
+ * added / removed / re-dated (matched by section and depth), and the age
+ * differences (ka) at depths both versions dated.
+ */
+export const diffAgeModelVersions = (from: AgeModelVersion, to: AgeModelVersion): AgeModelDiff => {
+    const parameterKeys = Array.from(new Set([...Object.keys(from.parameters), ...Object.keys(to.parameters)]));
+    const changedParameters = parameterKeys
+        .filter(key => from.parameters[key] !== to.parameters[key])
+        .map(key => ({ key, from: from.parameters[key], to: to.parameters[key] }));
+
+    const fromTiePoints = new Map(from.tiePoints.map(tp => [tiePointKey(tp), tp]));
+    const toTiePoints = new Map(to.tiePoints.map(tp => [tiePointKey(tp), tp]));
+    const addedTiePoints = to.tiePoints.filter(tp => !fromTiePoints.has(tiePointKey(tp)));
+    const removedTiePoints = from.tiePoints.filter(tp => !toTiePoints.has(tiePointKey(tp)));
+    const changedTiePoints = to.tiePoints
+        .map(tp => ({ from: fromTiePoints.get(tiePointKey(tp)), to: tp }))
+        .filter((pair): pair is { from: TiePoint; to: TiePoint } =>
+            !!pair.from && (pair.from.age !== pair.to.age || (pair.from.ageUncertainty ?? 0) !== (pair.to.ageUncertainty ?? 0))
+        );
+
+    const sectionIds = Array.from(new Set([...Object.keys(from.generatedAges), ...Object.keys(to.generatedAges)]));
+    const sections = sectionIds.map(sectionId => {
+        const fromAges = new Map((from.generatedAges[sectionId] || []).map(a => [a.depth, a.age]));
+        const differences = (to.generatedAges[sectionId] || [])
+            .filter(a => fromAges.has(a.depth))
+            .map(a => Math.abs(a.age - (fromAges.get(a.depth) as number)));
+        return {
+            sectionId,
+            comparedDepths: differences.length,
+            maxAbsDifference: differences.length > 0 ? Math.max(...differences) : 0,
+            meanAbsDifference: differences.length > 0 ? differences.reduce((sum, d) => sum + d, 0) / differences.length : 0,
+        };
+    });
+
+    return {
+        methodChanged: from.method !== to.method,
+        changedParameters,
+        addedTiePoints,
+        removedTiePoints,
+        changedTiePoints,
+        sections,
+    };
+};
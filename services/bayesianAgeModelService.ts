@@ -0,0 +1,203 @@
+import type { Section, DataPoint, TiePoint } from '../types';
+import { mergeDuplicateTiePoints } from './ageModelService';
+
+// =================================================================
+// MONTE CARLO / BAYESIAN AGE-DEPTH MODEL
+// A Bchron-style model: each tie-point is a normal distribution (age ± 1σ),
+// and accumulation between tie-points follows a compound gamma process, so
+// uncertainty grows away from the dated levels. Every iteration is a
+// monotone age-depth path; percentiles across iterations give the envelope.
+// =================================================================
+
+export interface BayesianAgeModelOptions {
+    iterations?: number;
+    // Shape of the gamma increments between tie-points. Larger values give
+    // steadier accumulation (narrower envelopes between dates).
+    accumulationShape?: number;
+    // Number of accumulation increments per tie-point interval.
+    stepsPerInterval?: number;
+    // Seed for the pseudo-random generator, so runs are reproducible.
+    seed?: number;
+}
+
+export type RandomSource = () => number;
+
+// Mulberry32: small, fast, seedable PRNG returning values in [0, 1).
+export const createRandom = (seed: number): RandomSource => {
+    let state = seed >>> 0;
+    return () => {
+        state = (state + 0x6D2B79F5) >>> 0;
+        let t = state;
+        t = Math.imul(t ^ (t >>> 15), t | 1);
+        t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+        return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+    };
+};
+
+// Box–Muller transform.
+export const sampleNormal = (random: RandomSource, mean = 0, sd = 1): number => {
+    const u1 = Math.max(random(), Number.EPSILON);
+    const u2 = random();
+    return mean + sd * Math.sqrt(-2 * Math.log(u1)) * Math.cos(2 * Math.PI * u2);
+};
+
+// Marsaglia & Tsang (2000) gamma sampler, unit scale.
+const sampleGamma = (random: RandomSource, shape: number): number => {
+    if (shape < 1) {
+        return sampleGamma(random, shape + 1) * Math.pow(Math.max(random(), Number.EPSILON), 1 / shape);
+    }
+    const d = shape - 1 / 3;
+    const c = 1 / Math.sqrt(9 * d);
+    for (;;) {
+        let x: number;
+        let v: number;
+        do {
+            x = sampleNormal(random);
+            v = 1 + c * x;
+        } while (v <= 0);
+        v = v * v * v;
+        const u = random();
+        if (u < 1 - 0.0331 * x * x * x * x) return d * v;
+        if (Math.log(u) < 0.5 * x * x + d * (1 - v + Math.log(v))) return d * v;
+    }
+};
+
+// Linear-interpolated percentile of an already sorted array (p in [0, 1]).
+export const percentile = (sorted: number[], p: number): number => {
+    if (sorted.length === 0) return NaN;
+    const index = (sorted.length - 1) * p;
+    const lower = Math.floor(index);
+    const upper = Math.ceil(index);
+    return sorted[lower] + (sorted[upper] - sorted[lower]) * (index - lower);
+};
+
+type Knot = { depth: number; age: number };
+
+// Draws one monotone age-depth path through sampled tie-point ages.
+const samplePath = (
+    controls: { depth: number; age: number; sigma: number }[],
+    random: RandomSource,
+    shape: number,
+    steps: number
+): Knot[] | null => {
+    const ages = controls.map(c => c.sigma > 0 ? sampleNormal(random, c.age, c.sigma) : c.age);
+    for (let i = 1; i < ages.length; i++) {
+        if (ages[i] < ages[i - 1]) return null; // reject stratigraphically impossible draws
+    }
+
+    const knots: Knot[] = [{ depth: controls[0].depth, age: ages[0] }];
+    for (let i = 0; i < controls.length - 1; i++) {
+        const span = ages[i + 1] - ages[i];
+        const increments = Array.from({ length: steps }, () => sampleGamma(random, shape));
+        const total = increments.reduce((sum, v) => sum + v, 0);
+        const depthStep = (controls[i + 1].depth - controls[i].depth) / steps;
+        let age = ages[i];
+        for (let k = 0; k < steps; k++) {
+            age += span * (increments[k] / total);
+            knots.push({ depth: controls[i].depth + depthStep * (k + 1), age });
+        }
+    }
+    return knots;
+};
+
+// Evaluates a path at a depth, extrapolating with the mean rate of the outermost interval.
+const evaluatePath = (knots: Knot[], top: Knot & { rate: number }, bottom: Knot & { rate: number }, depth: number): number => {
+    if (depth <= knots[0].depth) return knots[0].age - (knots[0].depth - depth) * top.rate;
+    const last = knots[knots.length - 1];
+    if (depth >= last.depth) return last.age + (depth - last.depth) * bottom.rate;
+    let lo = 0;
+    let hi = knots.length - 1;
+    while (hi - lo > 1) {
+        const mid = (lo + hi) >> 1;
+        if (knots[mid].depth <= depth) lo = mid;
+        else hi = mid;
+    }
+    const t = (depth - knots[lo].depth) / (knots[hi].depth - knots[lo].depth);
+    return knots[lo].age + t * (knots[hi].age - knots[lo].age);
+};
+
+const modelSection = (section: Section, tiePoints: TiePoint[], options: Required<BayesianAgeModelOptions>): DataPoint[] | null => {
+    const controls = mergeDuplicateTiePoints(tiePoints, section.name)
+        .map(tp => ({ depth: tp.depth, age: tp.age, sigma: Math.abs(tp.ageUncertainty ?? 0) }));
+    if (controls.length < 2) return null;
+
+    const depths = Array.from(new Set(
+        section.dataPoints.map(dp => dp.depth).filter((d): d is number => typeof d === 'number' && isFinite(d))
+    )).sort((a, b) => a - b);
+
+    const random = createRandom(options.seed);
+    const samples: number[][] = depths.map(() => []);
+    const maxAttempts = options.iterations * 50;
+    let accepted = 0;
+
+    for (let attempt = 0; attempt < maxAttempts && accepted < options.iterations; attempt++) {
+        const knots = samplePath(controls, random, options.accumulationShape, options.stepsPerInterval);
+        if (!knots) continue;
+        const first = knots[0];
+        const last = knots[knots.length - 1];
+        const topNext = knots[options.stepsPerInterval];
+        const bottomPrev = knots[knots.length - 1 - options.stepsPerInterval];
+        const top = { ...first, rate: (topNext.age - first.age) / (topNext.depth - first.depth) };
+        const bottom = { ...last, rate: (last.age - bottomPrev.age) / (last.depth - bottomPrev.depth) };
+        depths.forEach((depth, i) => samples[i].push(evaluatePath(knots, top, bottom, depth)));
+        accepted++;
+    }
+
+    if (accepted === 0) {
+        throw new Error(`Section "${section.name}": tie-points overlap so strongly in reverse order that no monotone age model could be drawn.`);
+    }
+
+    const summary = new Map<number, { age: number; lower: number; upper: number }>();
+    depths.forEach((depth, i) => {
+        const sorted = samples[i].sort((a, b) => a - b);
+        summary.set(depth, {
+            age: percentile(sorted, 0.5),
+            lower: percentile(sorted, 0.025),
+            upper: percentile(sorted, 0.975),
+        });
+    });
+
+    return section.dataPoints.map(dp => {
+        if (typeof dp.depth !== 'number') return dp;
+        const result = summary.get(dp.depth);
+        if (!result) return dp;
+        return {
+            ...dp,
+            age: parseFloat(result.age.toFixed(4)),
+            ageLower: parseFloat(result.lower.toFixed(4)),
+            ageUpper: parseFloat(result.upper.toFixed(4)),
+        };
+    });
+};
+
+/**
+ * Probabilistic age model. Returns sections shaped like `generateLocalAgeModel`
+ * output, with each dated point carrying the median `age` plus `ageLower` /
+ * `ageUpper` (2.5 / 97.5 percentiles). Sections with fewer than two
+ * tie-points are returned unchanged.
+ */
+export const generateBayesianAgeModel = (
+    sections: Section[],
+    tiePoints: TiePoint[],
+    options: BayesianAgeModelOptions = {}
+): Section[] => {
+    const resolved: Required<BayesianAgeModelOptions> = {
+        iterations: options.iterations ?? 1000,
+        accumulationShape: options.accumulationShape ?? 1.5,
+        stepsPerInterval: options.stepsPerInterval ?? 10,
+        seed: options.seed ?? 1,
+    };
+    let datedSections = 0;
+
+    const result = sections.map(section => {
+        const dataPoints = modelSection(section, tiePoints.filter(tp => tp.sectionId === section.id), resolved);
+        if (!dataPoints) return section;
+        datedSections++;
+        return { ...section, dataPoints };
+    });
+
+    if (datedSections === 0) {
+        throw new Error('No section has at least two tie-points, so no age model could be calculated.');
+    }
+    return result;
+};
@@ -0,0 +1,123 @@
+import type { Section, TiePoint } from '../types';
+import { BIOSTRATIGRAPHIC_DATUMS, type BiostratigraphicDatum } from '../data/biostratigraphicDatums';
+
+// =================================================================
+// BIOSTRATIGRAPHY
+// Turns the presence/absence of datum taxa in a core's sections into age
+// constraints. Sections are treated as one depth-ordered sequence; a section
+// counts as evidence of absence only if it has a non-barren assemblage.
+//  - LAD: the taxon's highest occurrence lies directly below a section
+//    without it, so the top of that occurrence is at about the LAD age.
+//  - FAD: likewise for the lowest occurrence and a section below without it.
+//  - Range: every section with datum taxa is younger than the youngest FAD
+//    and older than the oldest LAD of its taxa; the bracket midpoint becomes
+//    a tie-point whose 1σ is a quarter of the bracket.
+// Datum ages are in Ma in the library and converted to ka here.
+// =================================================================
+
+export type DatumConstraintKind = 'FAD' | 'LAD' | 'range';
+
+export interface DatumProposal {
+    tiePoint: TiePoint;
+    kind: DatumConstraintKind;
+    fossilIds: string[];
+    description: string;
+}
+
+export interface DatumConflict {
+    sectionId: string;
+    message: string;
+}
+
+export const datumForFossil = (fossilId: string): BiostratigraphicDatum | undefined =>
+    BIOSTRATIGRAPHIC_DATUMS.find(d => d.fossilId === fossilId);
+
+export const datumTaxonName = (datum: BiostratigraphicDatum) => `${datum.genus} ${datum.species}`;
+
+const depthRange = (section: Section) => {
+    const depths = section.dataPoints.map(dp => dp.depth).filter((d): d is number => typeof d === 'number');
+    return depths.length > 0
+        ? { top: Math.min(...depths), bottom: Math.max(...depths) }
+        : { top: section.sectionDepth, bottom: section.sectionDepth };
+};
+
+const occurs = (section: Section, fossilId: string) =>
+    section.microfossilRecords.some(r => r.fossilId === fossilId && r.abundance !== 'Barren');
+
+const hasAssemblage = (section: Section) => section.microfossilRecords.some(r => r.abundance !== 'Barren');
+
+const toKa = (ma: number) => parseFloat((ma * 1000).toFixed(1));
+
+/** Proposed tie-points from the datum taxa recorded in the sections, plus conflicting range brackets. */
+export const proposeDatumTiePoints = (sections: Section[]): { proposals: DatumProposal[]; conflicts: DatumConflict[] } => {
+    const ordered = [...sections].sort((a, b) => depthRange(a).top - depthRange(b).top);
+    const stamp = Date.now();
+    const proposals: DatumProposal[] = [];
+    const conflicts: DatumConflict[] = [];
+
+    const recorded = BIOSTRATIGRAPHIC_DATUMS.filter(d => ordered.some(s => occurs(s, d.fossilId)));
+    recorded.forEach(datum => {
+        const withTaxon = ordered.map((s, i) => occurs(s, datum.fossilId) ? i : -1).filter(i => i >= 0);
+        const highest = withTaxon[0];
+        const lowest = withTaxon[withTaxon.length - 1];
+        const above = ordered.slice(0, highest).reverse().find(hasAssemblage);
+        const below = ordered.slice(lowest + 1).find(hasAssemblage);
+        const name = datumTaxonName(datum);
+
+        if (datum.lad !== undefined && above) {
+            const section = ordered[highest];
+            const depth = depthRange(section).top;
+            proposals.push({
+                tiePoint: { id: `lad-${datum.fossilId}-${section.id}-${stamp}`, sectionId: section.id, depth, age: toKa(datum.lad), ageUncertainty: toKa(datum.uncertainty), label: `LAD ${name}` },
+                kind: 'LAD',
+                fossilIds: [datum.fossilId],
+                description: `Highest occurrence in ${section.name}, absent in ${above.name}`,
+            });
+        }
+        if (datum.fad !== undefined && below) {
+            const section = ordered[lowest];
+            const depth = depthRange(section).bottom;
+            proposals.push({
+                tiePoint: { id: `fad-${datum.fossilId}-${section.id}-${stamp}`, sectionId: section.id, depth, age: toKa(datum.fad), ageUncertainty: toKa(datum.uncertainty), label: `FAD ${name}` },
+                kind: 'FAD',
+                fossilIds: [datum.fossilId],
+                description: `Lowest occurrence in ${section.name}, absent in ${below.name}`,
+            });
+        }
+    });
+
+    ordered.forEach(section => {
+        const present = recorded.filter(d => occurs(section, d.fossilId));
+        const fads = present.filter(d => d.fad !== undefined);
+        const lads = present.filter(d => d.lad !== undefined);
+        if (fads.length === 0 || lads.length === 0) return;
+        const older = fads.reduce((a, b) => (b.fad as number) < (a.fad as number) ? b : a);
+        const younger = lads.reduce((a, b) => (b.lad as number) > (a.lad as number) ? b : a);
+        const oldAge = older.fad as number;
+        const youngAge = younger.lad as number;
+        if (youngAge >= oldAge) {
+            // A single taxon has FAD > LAD, so a conflict always involves two taxa: reworking, caving or diachroneity.
+            conflicts.push({
+                sectionId: section.id,
+                message: `${section.name}: LAD of ${datumTaxonName(younger)} (${youngAge} Ma) is older than FAD of ${datumTaxonName(older)} (${oldAge} Ma).`,
+            });
+            return;
+        }
+        const range = depthRange(section);
+        proposals.push({
+            tiePoint: {
+                id: `range-${section.id}-${stamp}`,
+                sectionId: section.id,
+                depth: parseFloat(((range.top + range.bottom) / 2).toFixed(1)),
+                age: toKa((oldAge + youngAge) / 2),
+                ageUncertainty: toKa((oldAge - youngAge) / 4),
+                label: `Biostratigraphic range ${youngAge}–${oldAge} Ma`,
+            },
+            kind: 'range',
+            fossilIds: Array.from(new Set([older.fossilId, younger.fossilId])),
+            description: `Younger than FAD ${datumTaxonName(older)}, older than LAD ${datumTaxonName(younger)}`,
+        });
+    });
+
+    return { proposals, conflicts };
+};
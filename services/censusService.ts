@@ -0,0 +1,144 @@
+import type { Section, CensusSample, DataPoint } from '../types';
+
+// =================================================================
+// CENSUS COUNTS
+// Relative abundance = count / total counted × 100.
+// Absolute abundance = count / split fraction / dry weight, in specimens per
+// gram of dry bulk sediment above the sieve size; it needs the dry weight.
+// Ages come from the section's dated data points, interpolated by depth.
+// =================================================================
+
+export const OTHER_TAXA_KEY = 'other';
+export const UNASSIGNED_KEY = 'unassigned';
+
+// Flag on data points added for census samples that match no existing point,
+// so they can be removed once no census-derived column is left on them.
+export const CENSUS_POINT_KEY = 'censusPoint';
+
+export interface CensusRow {
+    sampleId: string;
+    depth: number;
+    age?: number;
+    totalCounted: number;
+    totalPerGram: number | null;
+    percentages: Record<string, number>;
+    perGram: Record<string, number> | null;
+}
+
+export type CensusMeasure = 'percent' | 'perGram';
+
+/** Parses a split written as a fraction ("1/8") or a decimal ("0.125"). */
+export const parseSplitFraction = (text: string): number => {
+    const [numerator, denominator] = text.split('/').map(part => parseFloat(part.trim()));
+    return denominator !== undefined ? numerator / denominator : numerator;
+};
+
+/** Message describing what is wrong with a census sample, or null if it is usable. */
+export const validateCensusSample = (sample: CensusSample): string | null => {
+    const itemised = Object.values(sample.counts).reduce((sum, n) => sum + n, 0);
+    if (!isFinite(sample.depth)) return 'The sample needs a depth.';
+    if (!(sample.totalCounted > 0)) return 'The total counted must be greater than 0.';
+    if (Object.values(sample.counts).some(n => !Number.isInteger(n) || n < 0)) return 'Counts must be whole numbers of 0 or more.';
+    if (itemised > sample.totalCounted) return `The taxon counts add up to ${itemised}, more than the ${sample.totalCounted} specimens counted.`;
+    if (!(sample.splitFraction > 0 && sample.splitFraction <= 1)) return 'The split fraction must be between 0 and 1 (e.g. 1/8).';
+    if (!(sample.sieveSize > 0)) return 'The sieve size must be greater than 0 µm.';
+    if (sample.dryWeight !== undefined && !(sample.dryWeight > 0)) return 'The dry weight must be greater than 0 g.';
+    for (const split of sample.morphotypes ?? []) {
+        const subCounts = Object.values(split.counts);
+        const subTotal = subCounts.reduce((sum, n) => sum + n, 0);
+        const taxonCount = sample.counts[split.fossilId];
+        if (subCounts.some(n => !Number.isInteger(n) || n < 0)) return 'Morphotype sub-counts must be whole numbers of 0 or more.';
+        if (taxonCount === undefined) return 'Morphotype sub-counts need a count for their taxon.';
+        if (subTotal > taxonCount) return `The morphotype sub-counts add up to ${subTotal}, more than the ${taxonCount} specimens of their taxon.`;
+    }
+    return null;
+};
+
+export const censusPercentages = (sample: CensusSample): Record<string, number> =>
+    Object.fromEntries(Object.entries(sample.counts).map(([fossilId, count]) => [fossilId, (count / sample.totalCounted) * 100]));
+
+/** Specimens per gram of dry sediment, per taxon and in total; null without a dry weight. */
+export const censusPerGram = (sample: CensusSample): { total: number; taxa: Record<string, number> } | null => {
+    if (!sample.dryWeight) return null;
+    const factor = 1 / (sample.splitFraction * sample.dryWeight);
+    return {
+        total: sample.totalCounted * factor,
+        taxa: Object.fromEntries(Object.entries(sample.counts).map(([fossilId, count]) => [fossilId, count * factor])),
+    };
+};
+
+const ageAtDepth = (section: Section, depth: number): number | undefined => {
+    const dated = section.dataPoints
+        .filter(dp => typeof dp.depth === 'number' && typeof dp.age === 'number')
+        .map(dp => ({ depth: dp.depth as number, age: dp.age as number }))
+        .sort((a, b) => a.depth - b.depth);
+    if (dated.length === 0) return undefined;
+    if (dated.length === 1 || depth <= dated[0].depth) return dated[0].age;
+    const upperIndex = dated.findIndex(p => p.depth >= depth);
+    if (upperIndex === -1) return dated[dated.length - 1].age;
+    const lower = dated[upperIndex - 1];
+    const upper = dated[upperIndex];
+    return lower.age + (upper.age - lower.age) * (depth - lower.depth) / (upper.depth - lower.depth);
+};
+
+/** Adds a flagged data point for a census sample, before the first deeper point. */
+export const insertCensusPoint = (dataPoints: DataPoint[], point: DataPoint): DataPoint[] => {
+    const flagged = { ...point, [CENSUS_POINT_KEY]: true };
+    const index = dataPoints.findIndex(dp => typeof dp.depth === 'number' && typeof point.depth === 'number' && dp.depth > point.depth);
+    return index === -1 ? [...dataPoints, flagged] : [...dataPoints.slice(0, index), flagged, ...dataPoints.slice(index)];
+};
+
+/** Removes added census points left with nothing but their subsection and depth. */
+export const dropEmptyCensusPoints = (dataPoints: DataPoint[]): DataPoint[] =>
+    dataPoints.filter(dp => !dp[CENSUS_POINT_KEY] || Object.keys(dp).some(key => key !== 'subsection' && key !== 'depth' && key !== CENSUS_POINT_KEY));
+
+/** Percentages and abundances per gram of a section's census samples, top down. */
+export const censusRows = (section: Section): CensusRow[] =>
+    [...(section.censusSamples ?? [])]
+        .sort((a, b) => a.depth - b.depth)
+        .map(sample => {
+            const perGram = censusPerGram(sample);
+            const age = ageAtDepth(section, sample.depth);
+            return {
+                sampleId: sample.id,
+                depth: sample.depth,
+                ...(age !== undefined && { age }),
+                totalCounted: sample.totalCounted,
+                totalPerGram: perGram?.total ?? null,
+                percentages: censusPercentages(sample),
+                perGram: perGram?.taxa ?? null,
+            };
+        });
+
+/** Taxa counted in the section, most abundant (mean percentage) first. */
+export const censusTaxa = (section: Section): string[] => {
+    const samples = section.censusSamples ?? [];
+    const totals = new Map<string, number>();
+    samples.forEach(sample => Object.entries(censusPercentages(sample)).forEach(([fossilId, pct]) => {
+        totals.set(fossilId, (totals.get(fossilId) ?? 0) + pct);
+    }));
+    return Array.from(totals.entries()).filter(([, sum]) => sum > 0).sort((a, b) => b[1] - a[1]).map(([fossilId]) => fossilId);
+};
+
+/**
+ * Chart rows for a stacked abundance diagram: the given taxa, the rest lumped
+ * as `other`, and specimens counted but not itemised as `unassigned`, so the
+ * percentages of each sample stack to 100.
+ */
+export const stackedCensusData = (rows: CensusRow[], taxa: string[], measure: CensusMeasure) =>
+    rows
+        .filter(row => measure === 'percent' || row.perGram !== null)
+        .map(row => {
+            const values = measure === 'percent' ? row.percentages : row.perGram as Record<string, number>;
+            const total = measure === 'percent' ? 100 : row.totalPerGram as number;
+            const shown = Object.fromEntries(taxa.map(fossilId => [fossilId, values[fossilId] ?? 0]));
+            const itemised = Object.values(values).reduce((sum, v) => sum + v, 0);
+            const other = itemised - Object.values(shown).reduce((sum, v) => sum + v, 0);
+            return {
+                depth: row.depth,
+                ...(row.age !== undefined && { age: row.age }),
+                ...shown,
+                [OTHER_TAXA_KEY]: Math.max(0, other),
+                [UNASSIGNED_KEY]: Math.max(0, total - itemised),
+            };
+        });
@@ -0,0 +1,404 @@
+import type { Core, Section, DataPoint, AffineTableEntry, AffineTie, CompositeDepthModel, DepthSpliceInterval, CorrelationTie, TiePoint } from '../types';
+import { pearsonCorrelation } from './orbitalTuningService';
+import { csvRow } from './csvExportService';
+
+// =================================================================
+// COMPOSITE DEPTH (CCSF-A)
+// ODP/IODP-style composite depth scale for multi-hole sites. Each section
+// gets an affine offset (cm) that is added to its CSF-A depths; offsets are
+// found by correlating a proxy (typically magnetic susceptibility) between a
+// section and an already placed reference. A depth splice then picks one
+// section per CCSF-A interval to build a continuous record. Internally depths
+// are in cm like DataPoint.depth; the IODP table exports are in m.
+// =================================================================
+
+// Column key of the derived composite depth on data points.
+export const CCSF_COLUMN = 'ccsf';
+
+export interface OffsetCorrelation {
+    offset: number; // cm
+    correlation: number;
+    overlap: number;
+    curve: { offset: number; correlation: number }[];
+}
+
+/** Hole designation from a section name such as "Hole B" or "U1385B-2H-3"; '' if none. */
+export const guessHole = (sectionName: string): string => {
+    const hole = sectionName.match(/hole\s*([A-Z])\b/i) ?? sectionName.match(/\d([A-Z])(?:-|\s|$)/);
+    return hole ? hole[1].toUpperCase() : '';
+};
+
+const depthRange = (section: Section) => {
+    const depths = section.dataPoints.map(dp => dp.depth).filter((d): d is number => typeof d === 'number');
+    return depths.length > 0 ? { top: Math.min(...depths), bottom: Math.max(...depths) } : null;
+};
+
+/**
+ * Affine table covering every section, keeping existing entries. New tables
+ * use the shallowest section as the reference (offset 0).
+ */
+export const syncAffineTable = (sections: Section[], existing: AffineTableEntry[] = []): AffineTableEntry[] => {
+    const sorted = [...sections].sort((a, b) => (depthRange(a)?.top ?? a.sectionDepth) - (depthRange(b)?.top ?? b.sectionDepth));
+    return sorted.map((section, index) => existing.find(e => e.sectionId === section.id) ?? {
+        sectionId: section.id,
+        hole: guessHole(section.name),
+        offset: 0,
+        affineType: existing.length === 0 && index === 0 ? 'REF' : 'SET',
+    });
+};
+
+const offsetFor = (model: CompositeDepthModel | undefined, sectionId: string) =>
+    model?.affineTable.find(e => e.sectionId === sectionId)?.offset ?? 0;
+
+/** Adds the CCSF-A depth (cm) to every data point with a depth. */
+export const applyCompositeDepth = (sections: Section[], model: CompositeDepthModel | undefined): Section[] => {
+    if (!model || model.affineTable.length === 0) return sections;
+    return sections.map(section => {
+        const offset = offsetFor(model, section.id);
+        return {
+            ...section,
+            dataPoints: section.dataPoints.map(dp => typeof dp.depth === 'number'
+                ? { ...dp, [CCSF_COLUMN]: parseFloat((dp.depth + offset).toFixed(2)) }
+                : dp),
+        };
+    });
+};
+
+const proxySeries = (section: Section, proxyKey: string) =>
+    section.dataPoints
+        .filter(dp => typeof dp.depth === 'number' && typeof dp[proxyKey] === 'number')
+        .map(dp => ({ depth: dp.depth as number, value: dp[proxyKey] as number }))
+        .sort((a, b) => a.depth - b.depth);
+
+// Series are sorted by depth; the bracketing samples are found by binary search.
+const interpolate = (series: { depth: number; value: number }[], depth: number): number | null => {
+    if (series.length < 2 || depth < series[0].depth || depth > series[series.length - 1].depth) return null;
+    let lo = 0;
+    let hi = series.length - 1;
+    while (hi - lo > 1) {
+        const mid = (lo + hi) >> 1;
+        if (series[mid].depth < depth) lo = mid;
+        else hi = mid;
+    }
+    const a = series[lo];
+    const b = series[hi];
+    return b.depth === a.depth ? a.value : a.value + (depth - a.depth) / (b.depth - a.depth) * (b.value - a.value);
+};
+
+// Coarse-to-fine search: the coarse pass moves by the section's sample
+// spacing, then `step` increments are tried around every coarse peak whose
+// correlation is within PEAK_MARGIN of the best one.
+const PEAK_MARGIN = 0.1;
+
+const medianSpacing = (series: { depth: number }[]): number => {
+    const gaps = series.slice(1).map((p, i) => p.depth - series[i].depth).filter(gap => gap > 0).sort((a, b) => a - b);
+    return gaps.length > 0 ? gaps[Math.floor(gaps.length / 2)] : 0;
+};
+
+/**
+ * Offset (cm) that best aligns `section` with `reference` (already at
+ * `referenceOffset`) on a proxy: the section is shifted within ±maxShift of
+ * its current offset and the Pearson correlation of the overlapping samples
+ * is maximized. The range is scanned coarsely first, then in `step`
+ * increments around the highest coarse peaks; `curve` holds every shift
+ * evaluated.
+ */
+export const correlateOffset = (
+    section: Section,
+    reference: Section,
+    proxyKey: string,
+    referenceOffset: number,
+    options: { currentOffset?: number; maxShift?: number; step?: number; minOverlap?: number } = {},
+): OffsetCorrelation => {
+    const { currentOffset = 0, maxShift = 500, step = 1, minOverlap = 10 } = options;
+    const target = proxySeries(section, proxyKey);
+    const ref = proxySeries(reference, proxyKey).map(p => ({ depth: p.depth + referenceOffset, value: p.value }));
+    if (target.length < minOverlap || ref.length < 2) {
+        throw new Error(`Both sections need at least ${minOverlap} depth-registered samples of this proxy.`);
+    }
+
+    const scores = new Map<number, Omit<OffsetCorrelation, 'curve'> | null>();
+    const score = (index: number) => {
+        if (scores.has(index)) return scores.get(index)!;
+        const offset = currentOffset - maxShift + index * step;
+        const values: number[] = [];
+        const references: number[] = [];
+        target.forEach(p => {
+            const value = interpolate(ref, p.depth + offset);
+            if (value === null) return;
+            values.push(p.value);
+            references.push(value);
+        });
+        const correlation = values.length >= minOverlap ? pearsonCorrelation(values, references) : NaN;
+        const result = isFinite(correlation) ? { offset, correlation, overlap: values.length } : null;
+        scores.set(index, result);
+        return result;
+    };
+
+    // Shifts are indexed on the `step` grid so coarse and fine passes land on the same offsets.
+    const lastIndex = Math.floor((2 * maxShift) / step + 1e-9);
+    const coarseStride = Math.max(1, Math.floor(medianSpacing(target) / step));
+    const coarse: number[] = [];
+    for (let index = 0; index <= lastIndex; index += coarseStride) coarse.push(index);
+    if (coarse[coarse.length - 1] !== lastIndex) coarse.push(lastIndex);
+    coarse.forEach(score);
+
+    const bestCoarse = Math.max(...coarse.map(index => scores.get(index)?.correlation ?? -Infinity));
+    const peaks = coarse.filter((index, i) => {
+        const here = scores.get(index);
+        if (!here || here.correlation < bestCoarse - PEAK_MARGIN) return false;
+        const neighbours = [coarse[i - 1], coarse[i + 1]].map(n => n === undefined ? null : scores.get(n));
+        return neighbours.every(n => !n || n.correlation <= here.correlation);
+    });
+    peaks.forEach(peak => {
+        for (let index = Math.max(0, peak - coarseStride + 1); index <= Math.min(lastIndex, peak + coarseStride - 1); index++) score(index);
+    });
+
+    const evaluated = Array.from(scores.entries())
+        .filter((entry): entry is [number, Omit<OffsetCorrelation, 'curve'>] => entry[1] !== null)
+        .sort((a, b) => a[0] - b[0])
+        .map(([, result]) => result);
+    if (evaluated.length === 0) throw new Error('The sections do not overlap enough within the search range.');
+    const best = evaluated.reduce((top, result) => result.correlation > top.correlation ? result : top);
+    return { ...best, curve: evaluated.map(({ offset, correlation }) => ({ offset, correlation })) };
+};
+
+/** Records a correlation result as a TIE in the affine table. */
+export const applyTie = (table: AffineTableEntry[], sectionId: string, result: OffsetCorrelation, tie: Omit<AffineTie, 'correlation' | 'overlap'>): AffineTableEntry[] =>
+    table.map(entry => entry.sectionId === sectionId
+        ? { ...entry, offset: result.offset, affineType: 'TIE', tie: { ...tie, correlation: result.correlation, overlap: result.overlap } }
+        : entry);
+
+/**
+ * Default splice: walking down the composite scale, each interval comes from
+ * the section that extends deepest from the current splice depth; where
+ * sections overlap the switch is a TIE, across a gap an APPEND.
+ */
+export const buildDefaultSplice = (sections: Section[], model: CompositeDepthModel): DepthSpliceInterval[] => {
+    const ranges = sections
+        .map(section => {
+            const range = depthRange(section);
+            const offset = offsetFor(model, section.id);
+            return range ? { sectionId: section.id, top: range.top + offset, bottom: range.bottom + offset } : null;
+        })
+        .filter((r): r is { sectionId: string; top: number; bottom: number } => r !== null)
+        .sort((a, b) => a.top - b.top);
+
+    const splice: DepthSpliceInterval[] = [];
+    let current = ranges.length > 0 ? ranges[0].top : 0;
+    while (true) {
+        const covering = ranges.filter(r => r.top <= current && r.bottom > current);
+        const next = covering.length > 0
+            ? covering.reduce((a, b) => b.bottom > a.bottom ? b : a)
+            : ranges.find(r => r.top > current);
+        if (!next) break;
+        const overlapping = covering.length > 0;
+        splice.push({ sectionId: next.sectionId, topDepth: overlapping ? current : next.top, bottomDepth: next.bottom, spliceType: overlapping ? 'TIE' : 'APPEND' });
+        current = next.bottom;
+    }
+    return splice;
+};
+
+/**
+ * Data points of the splice, ordered by CCSF-A, each carrying the CCSF column.
+ * Interval bottoms are exclusive (the next interval starts there), except the last.
+ */
+export const spliceDataPoints = (sections: Section[], model: CompositeDepthModel): DataPoint[] =>
+    model.splice.flatMap((interval, index) => {
+        const section = sections.find(s => s.id === interval.sectionId);
+        if (!section) return [];
+        const offset = offsetFor(model, section.id);
+        const isLast = index === model.splice.length - 1;
+        return section.dataPoints
+            .filter(dp => {
+                if (typeof dp.depth !== 'number') return false;
+                const ccsf = dp.depth + offset;
+                return ccsf >= interval.topDepth && (ccsf < interval.bottomDepth || (isLast && ccsf === interval.bottomDepth));
+            })
+            .map(dp => ({ ...dp, [CCSF_COLUMN]: parseFloat(((dp.depth as number) + offset).toFixed(2)) }));
+    }).sort((a, b) => (a[CCSF_COLUMN] as number) - (b[CCSF_COLUMN] as number));
+
+// =================================================================
+// CORRELATION TIES
+// Tie lines picked by hand between two sections. A pair of sections with one
+// tie is related by a constant offset; with more ties, depths between them are
+// stretched linearly and the end ties' offsets hold beyond them.
+// =================================================================
+
+/** Ties between a section and its reference, each oriented as { depth, referenceDepth } and sorted by depth. */
+const tiesBetween = (ties: CorrelationTie[], sectionId: string, referenceSectionId: string) =>
+    ties
+        .flatMap(t => {
+            if (t.sectionId === sectionId && t.referenceSectionId === referenceSectionId) return [{ depth: t.depth, referenceDepth: t.referenceDepth }];
+            if (t.sectionId === referenceSectionId && t.referenceSectionId === sectionId) return [{ depth: t.referenceDepth, referenceDepth: t.depth }];
+            return [];
+        })
+        .sort((a, b) => a.depth - b.depth);
+
+/** Reference depth (cm) matching a section depth under the given ties; null without ties. */
+export const mapTieDepth = (pairs: { depth: number; referenceDepth: number }[], depth: number): number | null => {
+    if (pairs.length === 0) return null;
+    if (depth <= pairs[0].depth) return depth + pairs[0].referenceDepth - pairs[0].depth;
+    const last = pairs[pairs.length - 1];
+    if (depth >= last.depth) return depth + last.referenceDepth - last.depth;
+    let i = 1;
+    while (pairs[i].depth < depth) i++;
+    const a = pairs[i - 1];
+    const b = pairs[i];
+    return b.depth === a.depth ? a.referenceDepth : a.referenceDepth + (depth - a.depth) / (b.depth - a.depth) * (b.referenceDepth - a.referenceDepth);
+};
+
+/**
+ * Pearson correlation of a proxy between two sections after mapping the
+ * section onto the reference through their ties. Null when they have no ties
+ * or fewer than `minOverlap` samples overlap.
+ */
+export const tieCorrelation = (
+    section: Section,
+    reference: Section,
+    proxyKey: string,
+    ties: CorrelationTie[],
+    minOverlap = 5,
+): { correlation: number; overlap: number } | null => {
+    const pairs = tiesBetween(ties, section.id, reference.id);
+    const ref = proxySeries(reference, proxyKey);
+    if (pairs.length === 0 || ref.length < 2) return null;
+    const matched = proxySeries(section, proxyKey)
+        .map(p => ({ value: p.value, reference: interpolate(ref, mapTieDepth(pairs, p.depth) as number) }))
+        .filter((p): p is { value: number; reference: number } => p.reference !== null);
+    if (matched.length < minOverlap) return null;
+    return { correlation: pearsonCorrelation(matched.map(p => p.value), matched.map(p => p.reference)), overlap: matched.length };
+};
+
+/**
+ * Affine offsets implied by the ties: every section tied to an already placed
+ * one (starting from the REF sections) gets the mean offset of its ties and
+ * becomes a TIE entry. Sections without ties keep their entries.
+ */
+export const offsetsFromTies = (table: AffineTableEntry[], sections: Section[], ties: CorrelationTie[], proxyKey: string): AffineTableEntry[] => {
+    const placed = new Map<string, number>();
+    table.filter(e => e.affineType === 'REF').forEach(e => placed.set(e.sectionId, e.offset));
+    if (placed.size === 0 && table.length > 0) placed.set(table[0].sectionId, table[0].offset);
+
+    const result = [...table];
+    let changed = true;
+    while (changed) {
+        changed = false;
+        for (const [index, entry] of result.entries()) {
+            if (placed.has(entry.sectionId)) continue;
+            const referenceId = Array.from(placed.keys()).find(id => tiesBetween(ties, entry.sectionId, id).length > 0);
+            if (!referenceId) continue;
+            const pairs = tiesBetween(ties, entry.sectionId, referenceId);
+            const referenceOffset = placed.get(referenceId) as number;
+            const offset = parseFloat((pairs.reduce((sum, p) => sum + p.referenceDepth + referenceOffset - p.depth, 0) / pairs.length).toFixed(2));
+            const section = sections.find(s => s.id === entry.sectionId);
+            const reference = sections.find(s => s.id === referenceId);
+            const fit = section && reference ? tieCorrelation(section, reference, proxyKey, ties) : null;
+            result[index] = {
+                ...entry,
+                offset,
+                affineType: 'TIE',
+                tie: fit ? { referenceSectionId: referenceId, proxyKey, ...fit } : undefined,
+            };
+            placed.set(entry.sectionId, offset);
+            changed = true;
+        }
+    }
+    return result;
+};
+
+// Age at a depth from a section's tie points, or else from its dated samples; null outside their range.
+const ageAtDepth = (section: Section, tiePoints: TiePoint[], depth: number): number | null => {
+    const fromTiePoints = tiePoints
+        .filter(tp => tp.sectionId === section.id)
+        .map(tp => ({ depth: tp.depth, value: tp.age }))
+        .sort((a, b) => a.depth - b.depth);
+    const fromSamples = proxySeries(section, 'age');
+    return interpolate(fromTiePoints, depth) ?? interpolate(fromSamples, depth);
+};
+
+/**
+ * Age-model tie points transferred along correlation ties: where one end of a
+ * tie has an age (from its section's tie points or dated samples), the other
+ * end gets that age, preferring the reference end as the source. Depths that
+ * already have a tie point are skipped.
+ */
+export const correlationTiesToTiePoints = (ties: CorrelationTie[], sections: Section[], tiePoints: TiePoint[]): TiePoint[] => {
+    const stamp = Date.now();
+    const created: TiePoint[] = [];
+    ties.forEach(tie => {
+        const ends = [
+            { sectionId: tie.sectionId, depth: tie.depth, fromId: tie.referenceSectionId, fromDepth: tie.referenceDepth },
+            { sectionId: tie.referenceSectionId, depth: tie.referenceDepth, fromId: tie.sectionId, fromDepth: tie.depth },
+        ];
+        for (const end of ends) {
+            const from = sections.find(s => s.id === end.fromId);
+            if (!from || [...tiePoints, ...created].some(tp => tp.sectionId === end.sectionId && tp.depth === end.depth)) continue;
+            const age = ageAtDepth(from, tiePoints, end.fromDepth);
+            if (age === null) continue;
+            created.push({
+                id: `corr-${end.sectionId}-${end.depth}-${stamp}`,
+                sectionId: end.sectionId,
+                depth: end.depth,
+                age: parseFloat(age.toFixed(3)),
+                label: `Correlated to ${from.name} at ${end.fromDepth} cm`,
+            });
+            break;
+        }
+    });
+    return created;
+};
+
+// =================================================================
+// IODP TABLE EXPORT
+// =================================================================
+
+const metres = (cm: number) => (cm / 100).toFixed(3);
+
+// IODP sites are the core ID without its hole letter, e.g. "U1385" from "U1385B".
+const siteOf = (core: Core) => core.id.replace(/[A-Z]$/, '');
+
+/** Affine table in the column layout of IODP LIMS affine tables (depths in m). */
+export const exportAffineTableCsv = (core: Core, sections: Section[], model: CompositeDepthModel): string => {
+    const rows = model.affineTable.map(entry => {
+        const section = sections.find(s => s.id === entry.sectionId);
+        const top = section ? depthRange(section)?.top ?? 0 : 0;
+        const reference = entry.tie ? sections.find(s => s.id === entry.tie?.referenceSectionId) : undefined;
+        return csvRow([
+            siteOf(core), entry.hole, section?.name ?? entry.sectionId,
+            metres(top), metres(top + entry.offset), metres(entry.offset), entry.affineType,
+            reference ? `${reference.name} (${entry.tie?.proxyKey}, r = ${entry.tie?.correlation.toFixed(3)})` : '',
+        ]);
+    });
+    return [
+        csvRow(['Site', 'Hole', 'Core', 'Core top depth CSF-A (m)', 'Core top depth CCSF-A (m)', 'Cumulative offset (m)', 'Affine type', 'Comment']),
+        ...rows,
+    ].join('\n');
+};
+
+/** Splice interval table in the column layout of IODP LIMS splice tables (depths in m). */
+export const exportSpliceTableCsv = (core: Core, sections: Section[], model: CompositeDepthModel): string => {
+    const rows = model.splice.map(interval => {
+        const section = sections.find(s => s.id === interval.sectionId);
+        const entry = model.affineTable.find(e => e.sectionId === interval.sectionId);
+        const offset = entry?.offset ?? 0;
+        const sectionTop = section ? depthRange(section)?.top ?? 0 : 0;
+        const topCsf = interval.topDepth - offset;
+        const bottomCsf = interval.bottomDepth - offset;
+        return csvRow([
+            siteOf(core), entry?.hole ?? '', section?.name ?? interval.sectionId,
+            (topCsf - sectionTop).toFixed(1), metres(topCsf), metres(interval.topDepth),
+            (bottomCsf - sectionTop).toFixed(1), metres(bottomCsf), metres(interval.bottomDepth),
+            interval.spliceType, entry?.tie?.proxyKey ?? '',
+        ]);
+    });
+    return [
+        csvRow([
+            'Site', 'Hole', 'Core',
+            'Top offset on core (cm)', 'Top depth CSF-A (m)', 'Top depth CCSF-A (m)',
+            'Bottom offset on core (cm)', 'Bottom depth CSF-A (m)', 'Bottom depth CCSF-A (m)',
+            'Splice type', 'Data used',
+        ]),
+        ...rows,
+    ].join('\n');
+};
@@ -1,18 +1,80 @@
 import { supabase } from './supabaseClient';
-import type { Core, Section, Microfossil, Folder, DataPoint, Taxonomy, EcologicalData, SectionFossilRecord, SampleCore } from '../types';
-import type { CoreRow, SectionRow, MicrofossilRow, FolderRow, SectionFossilRecordInJson, CoreLocation, Database, CoreLabAnalysis, FossilTaxonomy, FossilEcology } from '../database.types';
+import type { Core, Section, Microfossil, Folder, DataPoint, Taxonomy, EcologicalData, SectionFossilRecord, SampleCore, AgeModelVersion, AgeModelEngine, GeneratedAge, SstCalibrationId, SstCalibrationRecord, SeawaterD18OSettings, PaleotemperatureEquationId, PolarityZone, TephraLayer, CensusSample, MorphotypeCount, RatioProxyRecord, AssemblageZone, TransferFunctionRecord, CompositeDepthModel, AffineType, TaxonAuthority, FossilCatalogue, FossilReviewStatus, CatalogueAccess, LabRole } from '../types';
+import type { CoreRow, SectionRow, MicrofossilRow, LabRow, FolderRow, AgeModelRow, GeneratedAgeInJson, SstCalibrationInJson, SeawaterD18OInJson, PolarityZoneInJson, TephraLayerInJson, CensusSampleInJson, MorphotypeCountInJson, RatioProxyInJson, AssemblageZoneInJson, TransferFunctionInJson, TaxonAuthorityInJson, CompositeDepthInJson, SectionFossilRecordInJson, CoreLocation, Database, CoreLabAnalysis, FossilTaxonomy, FossilEcology } from '../database.types';
 
 
 // =================================================================
 // DATABASE TO APPLICATION TYPE MAPPERS
 // =================================================================
 
+const dbCompositeDepthToApp = (db: CompositeDepthInJson): CompositeDepthModel => ({
+    affineTable: db.affine_table.map(entry => ({
+        sectionId: entry.section_id,
+        hole: entry.hole,
+        offset: entry.offset,
+        affineType: entry.affine_type as AffineType,
+        ...(entry.tie && {
+            tie: {
+                referenceSectionId: entry.tie.reference_section_id,
+                proxyKey: entry.tie.proxy_key,
+                correlation: entry.tie.correlation,
+                overlap: entry.tie.overlap,
+            },
+        }),
+    })),
+    splice: db.splice.map(interval => ({
+        sectionId: interval.section_id,
+        topDepth: interval.top_depth,
+        bottomDepth: interval.bottom_depth,
+        spliceType: interval.splice_type === 'APPEND' ? 'APPEND' : 'TIE',
+    })),
+    ties: (db.ties ?? []).map(tie => ({
+        id: tie.id,
+        sectionId: tie.section_id,
+        depth: tie.depth,
+        referenceSectionId: tie.reference_section_id,
+        referenceDepth: tie.reference_depth,
+    })),
+    updatedAt: db.updated_at,
+});
+
+const appCompositeDepthToDb = (model: CompositeDepthModel): CompositeDepthInJson => ({
+    affine_table: model.affineTable.map(entry => ({
+        section_id: entry.sectionId,
+        hole: entry.hole,
+        offset: entry.offset,
+        affine_type: entry.affineType,
+        tie: entry.tie ? {
+            reference_section_id: entry.tie.referenceSectionId,
+            proxy_key: entry.tie.proxyKey,
+            correlation: entry.tie.correlation,
+            overlap: entry.tie.overlap,
+        } : null,
+    })),
+    splice: model.splice.map(interval => ({
+        section_id: interval.sectionId,
+        top_depth: interval.topDepth,
+        bottom_depth: interval.bottomDepth,
+        splice_type: interval.spliceType,
+    })),
+    ties: (model.ties ?? []).map(tie => ({
+        id: tie.id,
+        section_id: tie.sectionId,
+        depth: tie.depth,
+        reference_section_id: tie.referenceSectionId,
+        reference_depth: tie.referenceDepth,
+    })),
+    updated_at: model.updatedAt,
+});
+
 const dbCoreToAppCore = (dbCore: CoreRow): Core => ({
     id: dbCore.id,
     name: dbCore.name,
     location: dbCore.location,
     waterDepth: dbCore.water_depth,
     project: dbCore.project,
+    reservoirCorrection: dbCore.reservoir_correction ?? undefined,
+    compositeDepth: dbCore.composite_depth ? dbCompositeDepthToApp(dbCore.composite_depth) : undefined,
     user_id: dbCore.user_id,
     folder_id: dbCore.folder_id ?? undefined,
     createdAt: dbCore.created_at,
@@ -25,10 +87,176 @@ const appCoreToDbCore = (appCore: Core, userId: string): Database['public']['Tab
     location: appCore.location,
     water_depth: appCore.waterDepth,
     project: appCore.project,
+    reservoir_correction: appCore.reservoirCorrection ?? null,
+    composite_depth: appCore.compositeDepth ? appCompositeDepthToDb(appCore.compositeDepth) : null,
     folder_id: appCore.folder_id ?? null,
 });
 
 
+const dbSeawaterD18OToApp = (db: SeawaterD18OInJson): SeawaterD18OSettings => ({
+    equationId: db.equation_id as PaleotemperatureEquationId,
+    constants: db.constants,
+    temperatureColumn: db.temperature_column,
+    d18OError: db.d18o_error,
+    temperatureError: db.temperature_error,
+    ...(db.ice_volume_correction && {
+        iceVolumeCorrection: {
+            curveId: db.ice_volume_correction.curve_id,
+            permilPerMetre: db.ice_volume_correction.permil_per_metre,
+            seaLevelError: db.ice_volume_correction.sea_level_error,
+        },
+    }),
+    computedAt: db.computed_at,
+});
+
+const appSeawaterD18OToDb = (app: SeawaterD18OSettings): SeawaterD18OInJson => ({
+    equation_id: app.equationId,
+    constants: app.constants,
+    temperature_column: app.temperatureColumn,
+    d18o_error: app.d18OError,
+    temperature_error: app.temperatureError,
+    ice_volume_correction: app.iceVolumeCorrection ? {
+        curve_id: app.iceVolumeCorrection.curveId,
+        permil_per_metre: app.iceVolumeCorrection.permilPerMetre,
+        sea_level_error: app.iceVolumeCorrection.seaLevelError,
+    } : null,
+    computed_at: app.computedAt,
+});
+
+const dbAssemblageZonesToApp = (zones: AssemblageZoneInJson[]): AssemblageZone[] =>
+    zones.map(z => ({ id: z.id, label: z.label, topDepth: z.top_depth, bottomDepth: z.bottom_depth, sampleCount: z.sample_count }));
+
+const appAssemblageZonesToDb = (zones: AssemblageZone[]): AssemblageZoneInJson[] =>
+    zones.map(z => ({ id: z.id, label: z.label, top_depth: z.topDepth, bottom_depth: z.bottomDepth, sample_count: z.sampleCount }));
+
+const dbTransferFunctionToApp = (db: TransferFunctionInJson): TransferFunctionRecord => ({
+    method: db.method as TransferFunctionRecord['method'],
+    calibrationName: db.calibration_name,
+    calibrationSize: db.calibration_size,
+    ...(typeof db.k === 'number' && { k: db.k }),
+    ...(typeof db.components === 'number' && { components: db.components }),
+    rmsep: db.rmsep,
+    r2: db.r2,
+    noAnalogueThreshold: db.no_analogue_threshold,
+    fillCalculatedSST: db.fill_calculated_sst,
+    computedAt: db.computed_at,
+});
+
+const appTransferFunctionToDb = (app: TransferFunctionRecord): TransferFunctionInJson => ({
+    method: app.method,
+    calibration_name: app.calibrationName,
+    calibration_size: app.calibrationSize,
+    k: app.k ?? null,
+    components: app.components ?? null,
+    rmsep: app.rmsep,
+    r2: app.r2,
+    no_analogue_threshold: app.noAnalogueThreshold,
+    fill_calculated_sst: app.fillCalculatedSST,
+    computed_at: app.computedAt,
+});
+
+const dbTaxonAuthorityToApp = (db: TaxonAuthorityInJson): TaxonAuthority => ({
+    acceptedName: db.accepted_name,
+    authorship: db.authorship,
+    ...(typeof db.year === 'number' && { year: db.year }),
+    source: db.source,
+    ...(db.source_id && { sourceId: db.source_id }),
+    ...(db.verbatim_name && { verbatimName: db.verbatim_name }),
+});
+
+const appTaxonAuthorityToDb = (app: TaxonAuthority): TaxonAuthorityInJson => ({
+    accepted_name: app.acceptedName,
+    authorship: app.authorship,
+    year: app.year ?? null,
+    source: app.source,
+    source_id: app.sourceId ?? null,
+    verbatim_name: app.verbatimName ?? null,
+});
+
+const dbPolarityRecordToApp = (zones: PolarityZoneInJson[]): PolarityZone[] =>
+    zones.map(z => ({
+        topDepth: z.top_depth,
+        bottomDepth: z.bottom_depth,
+        polarity: z.polarity as PolarityZone['polarity'],
+        ...(typeof z.inclination === 'number' && { inclination: z.inclination }),
+        confidence: z.confidence as PolarityZone['confidence'],
+    }));
+
+const appPolarityRecordToDb = (zones: PolarityZone[]): PolarityZoneInJson[] =>
+    zones.map(z => ({
+        top_depth: z.topDepth,
+        bottom_depth: z.bottomDepth,
+        polarity: z.polarity,
+        inclination: z.inclination ?? null,
+        confidence: z.confidence,
+    }));
+
+const dbTephraRecordToApp = (layers: TephraLayerInJson[]): TephraLayer[] =>
+    layers.map(l => ({
+        id: l.id,
+        depth: l.depth,
+        thickness: l.thickness,
+        ...(l.glass_mean && { glassMean: l.glass_mean }),
+        ...(l.glass_sd && { glassSd: l.glass_sd }),
+        ...(typeof l.shard_count === 'number' && { shardCount: l.shard_count }),
+        ...(l.correlative_id && { correlativeId: l.correlative_id }),
+        ...(l.notes && { notes: l.notes }),
+    }));
+
+const appTephraRecordToDb = (layers: TephraLayer[]): TephraLayerInJson[] =>
+    layers.map(l => ({
+        id: l.id,
+        depth: l.depth,
+        thickness: l.thickness,
+        glass_mean: l.glassMean ?? null,
+        glass_sd: l.glassSd ?? null,
+        shard_count: l.shardCount ?? null,
+        correlative_id: l.correlativeId ?? null,
+        notes: l.notes ?? null,
+    }));
+
+const dbMorphotypesToApp = (morphotypes: MorphotypeCountInJson[]): MorphotypeCount[] =>
+    morphotypes.map(m => ({ fossilId: m.fossil_id, scheme: m.scheme as MorphotypeCount['scheme'], counts: m.counts }));
+
+const appMorphotypesToDb = (morphotypes: MorphotypeCount[]): MorphotypeCountInJson[] =>
+    morphotypes.map(m => ({ fossil_id: m.fossilId, scheme: m.scheme, counts: m.counts }));
+
+const dbCensusSamplesToApp = (samples: CensusSampleInJson[]): CensusSample[] =>
+    samples.map(s => ({
+        id: s.id,
+        ...(s.subsection && { subsection: s.subsection }),
+        depth: s.depth,
+        counts: s.counts,
+        totalCounted: s.total_counted,
+        splitFraction: s.split_fraction,
+        sieveSize: s.sieve_size,
+        ...(typeof s.dry_weight === 'number' && { dryWeight: s.dry_weight }),
+        ...(s.morphotypes && s.morphotypes.length > 0 && { morphotypes: dbMorphotypesToApp(s.morphotypes) }),
+    }));
+
+const appCensusSamplesToDb = (samples: CensusSample[]): CensusSampleInJson[] =>
+    samples.map(s => ({
+        id: s.id,
+        subsection: s.subsection ?? null,
+        depth: s.depth,
+        counts: s.counts,
+        total_counted: s.totalCounted,
+        split_fraction: s.splitFraction,
+        sieve_size: s.sieveSize,
+        dry_weight: s.dryWeight ?? null,
+        morphotypes: s.morphotypes ? appMorphotypesToDb(s.morphotypes) : null,
+    }));
+
+const dbRatioProxiesToApp = (db: RatioProxyInJson): RatioProxyRecord => ({
+    speciesRatios: db.species_ratios.map(r => ({ ...r })),
+    columns: db.columns,
+});
+
+const appRatioProxiesToDb = (app: RatioProxyRecord): RatioProxyInJson => ({
+    species_ratios: app.speciesRatios.map(r => ({ ...r })),
+    columns: app.columns,
+});
+
 const dbSectionToAppSection = (dbSection: SectionRow): Section => ({
     id: dbSection.id,
     core_id: dbSection.core_id,
@@ -60,10 +288,35 @@ const dbSectionToAppSection = (dbSection: SectionRow): Section => ({
     munsellColor: dbSection.munsell_color ?? undefined,
     grainSize: dbSection.grain_size ?? undefined,
     tephraLayers: dbSection.tephra_layers ?? undefined,
+    tephraRecord: dbSection.tephra_record ? dbTephraRecordToApp(dbSection.tephra_record) : undefined,
+    censusSamples: dbSection.census_samples ? dbCensusSamplesToApp(dbSection.census_samples) : undefined,
+    assemblageZones: dbSection.assemblage_zones ? dbAssemblageZonesToApp(dbSection.assemblage_zones) : undefined,
     paleomagneticReversals: dbSection.paleomagnetic_reversals ?? undefined,
+    polarityRecord: dbSection.polarity_record ? dbPolarityRecordToApp(dbSection.polarity_record) : undefined,
+    sstCalibrations: dbSection.sst_calibrations?.map(c => ({
+        calibrationId: c.calibration_id as SstCalibrationId,
+        sourceColumn: c.source_column,
+        targetColumn: c.target_column,
+        equation: c.equation,
+        constants: c.constants,
+        computedAt: c.computed_at,
+    })),
+    seawaterD18O: dbSection.seawater_d18o ? dbSeawaterD18OToApp(dbSection.seawater_d18o) : undefined,
+    transferFunction: dbSection.transfer_function ? dbTransferFunctionToApp(dbSection.transfer_function) : undefined,
+    ratioProxies: dbSection.ratio_proxies ? dbRatioProxiesToApp(dbSection.ratio_proxies) : undefined,
     createdAt: dbSection.created_at,
 });
 
+const appSstCalibrationsToDb = (calibrations: SstCalibrationRecord[]): SstCalibrationInJson[] =>
+    calibrations.map(c => ({
+        calibration_id: c.calibrationId,
+        source_column: c.sourceColumn,
+        target_column: c.targetColumn,
+        equation: c.equation,
+        constants: c.constants,
+        computed_at: c.computedAt,
+    }));
+
 const appSectionToDbPayload = (appSection: Partial<Section>): Database['public']['Tables']['sections']['Update'] => ({
     name: appSection.name,
     section_depth: appSection.sectionDepth,
@@ -88,7 +341,15 @@ const appSectionToDbPayload = (appSection: Partial<Section>): Database['public']
     munsell_color: appSection.munsellColor ?? null,
     grain_size: appSection.grainSize ?? null,
     tephra_layers: appSection.tephraLayers ?? null,
+    tephra_record: appSection.tephraRecord ? appTephraRecordToDb(appSection.tephraRecord) : null,
+    census_samples: appSection.censusSamples ? appCensusSamplesToDb(appSection.censusSamples) : null,
+    assemblage_zones: appSection.assemblageZones ? appAssemblageZonesToDb(appSection.assemblageZones) : null,
     paleomagnetic_reversals: appSection.paleomagneticReversals ?? null,
+    polarity_record: appSection.polarityRecord ? appPolarityRecordToDb(appSection.polarityRecord) : null,
+    sst_calibrations: appSection.sstCalibrations ? appSstCalibrationsToDb(appSection.sstCalibrations) : null,
+    seawater_d18o: appSection.seawaterD18O ? appSeawaterD18OToDb(appSection.seawaterD18O) : null,
+    transfer_function: appSection.transferFunction ? appTransferFunctionToDb(appSection.transferFunction) : null,
+    ratio_proxies: appSection.ratioProxies ? appRatioProxiesToDb(appSection.ratioProxies) : null,
 });
 
 const appSectionToDbInsertPayload = (appSection: Omit<Section, 'id' | 'createdAt'>): Database['public']['Tables']['sections']['Insert'] => ({
@@ -116,26 +377,123 @@ const appSectionToDbInsertPayload = (appSection: Omit<Section, 'id' | 'createdAt
     munsell_color: appSection.munsellColor ?? null,
     grain_size: appSection.grainSize ?? null,
     tephra_layers: appSection.tephraLayers ?? null,
+    tephra_record: appSection.tephraRecord ? appTephraRecordToDb(appSection.tephraRecord) : null,
+    census_samples: appSection.censusSamples ? appCensusSamplesToDb(appSection.censusSamples) : null,
+    assemblage_zones: appSection.assemblageZones ? appAssemblageZonesToDb(appSection.assemblageZones) : null,
     paleomagnetic_reversals: appSection.paleomagneticReversals ?? null,
+    polarity_record: appSection.polarityRecord ? appPolarityRecordToDb(appSection.polarityRecord) : null,
+    sst_calibrations: appSection.sstCalibrations ? appSstCalibrationsToDb(appSection.sstCalibrations) : null,
+    seawater_d18o: appSection.seawaterD18O ? appSeawaterD18OToDb(appSection.seawaterD18O) : null,
+    transfer_function: appSection.transferFunction ? appTransferFunctionToDb(appSection.transferFunction) : null,
+    ratio_proxies: appSection.ratioProxies ? appRatioProxiesToDb(appSection.ratioProxies) : null,
 });
 
 
-const dbFossilToAppFossil = (dbFossil: MicrofossilRow): Microfossil => ({
+// Microfossil rows are read with the name of their lab embedded.
+type MicrofossilWithLab = MicrofossilRow & { labs?: { name: string } | null };
+const FOSSIL_SELECT = '*, labs(name)';
+
+const dbFossilToAppFossil = (dbFossil: MicrofossilWithLab): Microfossil => ({
     id: dbFossil.id,
+    code: dbFossil.code,
     taxonomy: dbFossil.taxonomy as Taxonomy || { kingdom: '', phylum: '', class: '', order: '', family: '', genus: 'Unknown', species: 'Fossil' },
     description: dbFossil.description ?? '',
     stratigraphicRange: dbFossil.stratigraphic_range ?? '',
     ecology: dbFossil.ecology as EcologicalData || { temperatureRange: '', depthHabitat: '', notes: '' },
     imageUrl: dbFossil.image_url ?? '',
+    ...(dbFossil.authority && { authority: dbTaxonAuthorityToApp(dbFossil.authority) }),
+    ownership: {
+        catalogue: (dbFossil.catalogue ?? 'curated') as FossilCatalogue,
+        ownerId: dbFossil.owner_id ?? null,
+        labId: dbFossil.lab_id ?? null,
+        ...(dbFossil.labs?.name && { labName: dbFossil.labs.name }),
+        reviewStatus: (dbFossil.review_status ?? 'none') as FossilReviewStatus,
+        ...(dbFossil.review_note && { reviewNote: dbFossil.review_note }),
+        ...(dbFossil.reviewed_at && { reviewedAt: dbFossil.reviewed_at }),
+    },
 });
 
-const appFossilToDbFossil = (appFossil: Microfossil): Database['public']['Tables']['microfossils']['Insert'] => ({
+// New entries are always personal or lab entries of their creator; the
+// curated catalogue is only reached through review.
+const appFossilToDbFossil = (appFossil: Microfossil, userId: string): Database['public']['Tables']['microfossils']['Insert'] => ({
     id: appFossil.id,
+    code: appFossil.code.trim(),
     taxonomy: appFossil.taxonomy as FossilTaxonomy,
     description: appFossil.description,
     stratigraphic_range: appFossil.stratigraphicRange,
     ecology: appFossil.ecology as FossilEcology,
     image_url: appFossil.imageUrl,
+    authority: appFossil.authority ? appTaxonAuthorityToDb(appFossil.authority) : null,
+    owner_id: userId,
+    catalogue: appFossil.ownership?.catalogue === 'lab' && appFossil.ownership.labId ? 'lab' : 'personal',
+    lab_id: appFossil.ownership?.catalogue === 'lab' ? appFossil.ownership.labId : null,
+    review_status: appFossil.ownership?.reviewStatus === 'pending' ? 'pending' : 'none',
+});
+
+const dbAgeModelToAppAgeModel = (dbModel: AgeModelRow): AgeModelVersion => ({
+    id: dbModel.id,
+    coreId: dbModel.core_id,
+    name: dbModel.name,
+    method: dbModel.method as AgeModelEngine,
+    parameters: dbModel.parameters ?? {},
+    tiePoints: (dbModel.tie_points || []).map(tp => ({
+        id: tp.id,
+        sectionId: tp.section_id,
+        depth: tp.depth,
+        age: tp.age,
+        ageUncertainty: tp.age_uncertainty ?? undefined,
+        label: tp.label ?? undefined,
+    })),
+    spliceIntervals: (dbModel.splice_intervals || []).map(si => ({
+        sectionId: si.section_id,
+        startAge: si.start_age,
+        endAge: si.end_age,
+    })),
+    generatedAges: Object.fromEntries(Object.entries(dbModel.generated_ages || {}).map(([sectionId, ages]) => [
+        sectionId,
+        ages.map((a): GeneratedAge => ({
+            depth: a.depth,
+            age: a.age,
+            ageLower: a.age_lower ?? undefined,
+            ageUpper: a.age_upper ?? undefined,
+        })),
+    ])),
+    isActive: dbModel.is_active,
+    author: dbModel.author,
+    user_id: dbModel.user_id,
+    createdAt: dbModel.created_at,
+});
+
+const appAgeModelToDbAgeModel = (appModel: Omit<AgeModelVersion, 'id' | 'createdAt'>, userId: string): Database['public']['Tables']['age_models']['Insert'] => ({
+    core_id: appModel.coreId,
+    user_id: userId,
+    name: appModel.name,
+    method: appModel.method,
+    parameters: appModel.parameters,
+    tie_points: appModel.tiePoints.map(tp => ({
+        id: tp.id,
+        section_id: tp.sectionId,
+        depth: tp.depth,
+        age: tp.age,
+        age_uncertainty: tp.ageUncertainty ?? null,
+        label: tp.label ?? null,
+    })),
+    splice_intervals: appModel.spliceIntervals.map(si => ({
+        section_id: si.sectionId,
+        start_age: si.startAge,
+        end_age: si.endAge,
+    })),
+    generated_ages: Object.fromEntries(Object.entries(appModel.generatedAges).map(([sectionId, ages]) => [
+        sectionId,
+        ages.map((a): GeneratedAgeInJson => ({
+            depth: a.depth,
+            age: a.age,
+            age_lower: a.ageLower ?? null,
+            age_upper: a.ageUpper ?? null,
+        })),
+    ])),
+    is_active: appModel.isActive,
+    author: appModel.author,
 });
 
 const dbFolderToAppFolder = (dbFolder: FolderRow): Folder => ({
@@ -171,11 +529,29 @@ export const fetchSectionsForCore = async (coreId: string) => {
     return (data as unknown as SectionRow[] | null)?.map(dbSectionToAppSection) ?? [];
 };
 
-export const fetchMicrofossils = async () => {
-    const { data, error } = await supabase.from('microfossils').select('*');
+/** The curated catalogue plus the user's own entries and those of their labs. */
+export const fetchMicrofossils = async (userId: string, labIds: string[] = []) => {
+    const scopes = ['catalogue.eq.curated', `owner_id.eq.${userId}`];
+    if (labIds.length > 0) scopes.push(`and(catalogue.eq.lab,lab_id.in.(${labIds.join(',')}))`);
+    const { data, error } = await supabase.from('microfossils').select(FOSSIL_SELECT).or(scopes.join(','));
     if (error) throw error;
     return {
-        microfossils: (data as unknown as MicrofossilRow[] | null)?.map(dbFossilToAppFossil) ?? [],
+        microfossils: (data as unknown as MicrofossilWithLab[] | null)?.map(dbFossilToAppFossil) ?? [],
+    };
+};
+
+export const fetchCatalogueAccess = async (userId: string): Promise<CatalogueAccess> => {
+    const { data: memberships, error } = await supabase.from('lab_members').select('role, labs(id, name, invite_code)').eq('user_id', userId);
+    if (error) throw error;
+    const { data: curator, error: curatorError } = await supabase.from('catalogue_curators').select('user_id').eq('user_id', userId).maybeSingle();
+    if (curatorError) throw curatorError;
+    const rows = (memberships as unknown as { role: string; labs: Pick<LabRow, 'id' | 'name' | 'invite_code'> | null }[] | null) ?? [];
+    return {
+        labs: rows
+            .filter(m => m.labs)
+            .map(m => ({ id: m.labs!.id, name: m.labs!.name, role: m.role as LabRole, inviteCode: m.labs!.invite_code }))
+            .sort((a, b) => a.name.localeCompare(b.name)),
+        isCurator: !!curator,
     };
 };
 
@@ -238,7 +614,10 @@ export const updateSection = async (sectionToUpdate: Section) => {
 
 
 export const deleteCore = async (coreId: string) => {
-    // Cascade delete: first sections, then core
+    // Cascade delete: first age models and sections, then core
+    const { error: ageModelError } = await supabase.from('age_models').delete().eq('core_id', coreId);
+    if (ageModelError) throw ageModelError;
+
     const { error: sectionError } = await supabase.from('sections').delete().eq('core_id', coreId);
     if (sectionError) throw sectionError;
 
@@ -251,12 +630,97 @@ export const deleteSection = async (sectionId: string) => {
     if (error) throw error;
 };
 
-export const addFossil = async (newFossil: Microfossil) => {
-    const dbFossil = appFossilToDbFossil(newFossil);
-    const { data, error } = await supabase.from('microfossils').insert(dbFossil).select();
+export const addFossil = async (newFossil: Microfossil, userId: string) => {
+    const dbFossil = appFossilToDbFossil(newFossil, userId);
+    const { data, error } = await supabase.from('microfossils').insert(dbFossil).select(FOSSIL_SELECT);
+    // Codes are only unique within one catalogue, and the user can see all of that catalogue.
+    if (error?.code === '23505') throw new Error(`This catalogue already has an entry with the code "${newFossil.code}". Please choose a different code.`);
     if (error) throw error;
     if (!data || data.length === 0) throw new Error("Failed to add fossil.");
-    return dbFossilToAppFossil(data[0] as unknown as MicrofossilRow);
+    return dbFossilToAppFossil(data[0] as unknown as MicrofossilWithLab);
+};
+
+const updateFossil = async (fossilId: string, update: Database['public']['Tables']['microfossils']['Update']) => {
+    const { data, error } = await supabase.from('microfossils').update(update).eq('id', fossilId).select(FOSSIL_SELECT);
+    if (error?.code === '23505') throw new Error("The target catalogue already has an entry with this code.");
+    if (error) throw error;
+    if (!data || data.length === 0) throw new Error("Failed to update fossil (you may not have permission to change it).");
+    return dbFossilToAppFossil(data[0] as unknown as MicrofossilWithLab);
+};
+
+/** Moves one of the user's entries between their personal catalogue and a lab. */
+export const moveFossilToCatalogue = (fossilId: string, catalogue: 'personal' | 'lab', labId: string | null) =>
+    updateFossil(fossilId, { catalogue, lab_id: catalogue === 'lab' ? labId : null });
+
+/** Asks the curators to promote an entry into the curated catalogue. */
+export const submitFossilForReview = (fossilId: string) =>
+    updateFossil(fossilId, { review_status: 'pending', review_note: null });
+
+export const fetchPendingReviews = async () => {
+    const { data, error } = await supabase.from('microfossils').select(FOSSIL_SELECT).eq('review_status', 'pending').order('created_at', { ascending: true });
+    if (error) throw error;
+    return (data as unknown as MicrofossilWithLab[] | null)?.map(dbFossilToAppFossil) ?? [];
+};
+
+/** Curators only: an approved entry joins the curated catalogue, a rejected one stays where it was. */
+export const reviewFossil = (fossilId: string, approve: boolean, note: string, curatorId: string) =>
+    updateFossil(fossilId, {
+        ...(approve && { catalogue: 'curated', lab_id: null }),
+        review_status: approve ? 'approved' : 'rejected',
+        review_note: note.trim() || null,
+        reviewed_by: curatorId,
+        reviewed_at: new Date().toISOString(),
+    });
+
+export const createLab = async (name: string) => {
+    const { data, error } = await supabase.rpc('create_lab', { lab_name: name });
+    if (error) throw error;
+    return data as string;
+};
+
+export const joinLab = async (inviteCode: string) => {
+    const { data, error } = await supabase.rpc('join_lab', { code: inviteCode });
+    if (error) throw error;
+    return data as string;
+};
+
+export const leaveLab = async (labId: string, userId: string) => {
+    const { error } = await supabase.from('lab_members').delete().eq('lab_id', labId).eq('user_id', userId);
+    if (error) throw error;
+};
+
+export const fetchAgeModels = async (coreId: string) => {
+    const { data, error } = await supabase.from('age_models').select('*').eq('core_id', coreId).order('created_at', { ascending: false });
+    if (error) throw error;
+    return (data as unknown as AgeModelRow[] | null)?.map(dbAgeModelToAppAgeModel) ?? [];
+};
+
+export const saveAgeModel = async (ageModel: Omit<AgeModelVersion, 'id' | 'createdAt'>, userId: string) => {
+    // Only one version per core may be active at a time.
+    if (ageModel.isActive) {
+        const { error: resetError } = await supabase.from('age_models').update({ is_active: false }).eq('core_id', ageModel.coreId);
+        if (resetError) throw resetError;
+    }
+    const { data, error } = await supabase.from('age_models').insert(appAgeModelToDbAgeModel(ageModel, userId)).select();
+    if (error) throw error;
+    if (!data || data.length === 0) throw new Error("Failed to save age model.");
+    return dbAgeModelToAppAgeModel(data[0] as unknown as AgeModelRow);
+};
+
+export const setActiveAgeModel = async (coreId: string, ageModelId: string | null) => {
+    const { error: resetError } = await supabase.from('age_models').update({ is_active: false }).eq('core_id', coreId);
+    if (resetError) throw resetError;
+    if (!ageModelId) return null;
+
+    const { data, error } = await supabase.from('age_models').update({ is_active: true }).eq('id', ageModelId).select();
+    if (error) throw error;
+    if (!data || data.length === 0) throw new Error("Failed to activate age model.");
+    return dbAgeModelToAppAgeModel(data[0] as unknown as AgeModelRow);
+};
+
+export const deleteAgeModel = async (ageModelId: string) => {
+    const { error } = await supabase.from('age_models').delete().eq('id', ageModelId);
+    if (error) throw error;
 };
 
 export const createFolder = async (folderName: string, userId: string) => {
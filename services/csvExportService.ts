@@ -0,0 +1,24 @@
+// =================================================================
+// CSV EXPORT
+// Quoting of CSV fields and browser download of the finished text, shared
+// by the table exports.
+// =================================================================
+
+/** One CSV line; fields containing quotes, commas or newlines are quoted. */
+export const csvRow = (values: (string | number)[]) => values.map(v => {
+    const text = String(v);
+    return /[",\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}).join(',');
+
+/** Saves CSV text as a file download. */
+export const downloadCsv = (content: string, filename: string) => {
+    const blob = new Blob([content], { type: 'text/csv;charset=utf-8;' });
+    const link = document.createElement('a');
+    const url = URL.createObjectURL(blob);
+    link.setAttribute('href', url);
+    link.setAttribute('download', filename);
+    document.body.appendChild(link);
+    link.click();
+    document.body.removeChild(link);
+    URL.revokeObjectURL(url);
+};
@@ -0,0 +1,237 @@
+import type { Section, CensusSample, AssemblageZone } from '../types';
+import { censusRows } from './censusService';
+import { csvRow } from './csvExportService';
+
+// =================================================================
+// FAUNAL DIVERSITY & ASSEMBLAGE ZONES
+// Indices use the itemised counts of each census sample (specimens counted
+// but not identified are left out):
+//  - Shannon H' = −Σ pᵢ ln pᵢ; Simpson 1 − D = 1 − Σ pᵢ².
+//  - Fisher's α solves S = α ln(1 + N/α) (Fisher et al., 1943); undefined
+//    when every specimen is a different taxon.
+//  - Rarefied richness E(Sₙ) = Σ [1 − C(N − Nᵢ, n) / C(N, n)] (Hurlbert, 1971),
+//    by default at the smallest count of the section.
+//  - Dominance is the Berger–Parker index, the share of the commonest taxon.
+// Zones come from CONISS (Grimm, 1987): stratigraphically constrained
+// incremental sum-of-squares clustering on square-root transformed
+// percentages (chord distance). The broken-stick model (Bennett, 1996)
+// suggests how many zones are significant.
+// =================================================================
+
+export interface DiversityRow {
+    sampleId: string;
+    depth: number;
+    age?: number;
+    specimens: number; // N, itemised
+    richness: number; // S
+    shannon: number;
+    simpson: number;
+    fisherAlpha: number | null;
+    rarefied: number | null;
+    dominance: number;
+}
+
+export type DiversityIndex = 'shannon' | 'simpson' | 'fisherAlpha' | 'rarefied' | 'dominance';
+
+export const DIVERSITY_LABELS: Record<DiversityIndex, string> = {
+    shannon: "Shannon H'",
+    simpson: 'Simpson 1 − D',
+    fisherAlpha: "Fisher's α",
+    rarefied: 'Rarefied richness',
+    dominance: 'Dominance (Berger–Parker)',
+};
+
+export interface ConissMerge {
+    left: number; // first sample index of the upper cluster
+    right: number; // first sample index of the lower cluster
+    dispersion: number; // total within-cluster sum of squares after the merge
+}
+
+export interface ConissResult {
+    sampleIds: string[];
+    depths: number[];
+    merges: ConissMerge[];
+    totalDispersion: number;
+    /** Zones supported by the broken-stick model (at least 1). */
+    significantZones: number;
+}
+
+// Lanczos approximation (Numerical Recipes gammln).
+const logGamma = (x: number): number => {
+    const c = [76.18009172947146, -86.50532032941677, 24.01409824083091, -1.231739572450155, 0.1208650973866179e-2, -0.5395239384953e-5];
+    let y = x;
+    const tmp = x + 5.5 - (x + 0.5) * Math.log(x + 5.5);
+    let ser = 1.000000000190015;
+    for (const coefficient of c) ser += coefficient / ++y;
+    return -tmp + Math.log(2.5066282746310005 * ser / x);
+};
+
+const logChoose = (n: number, k: number) => logGamma(n + 1) - logGamma(k + 1) - logGamma(n - k + 1);
+
+const presentCounts = (sample: CensusSample) => Object.values(sample.counts).filter(n => n > 0);
+
+/** Fisher's α by bisection on α ln(1 + N/α) − S, which increases with α. */
+export const fishersAlpha = (richness: number, specimens: number): number | null => {
+    if (richness < 2 || richness >= specimens) return null;
+    let low = 1e-6;
+    let high = 1e6;
+    for (let i = 0; i < 200 && high - low > 1e-9 * high; i++) {
+        const mid = Math.sqrt(low * high);
+        if (mid * Math.log(1 + specimens / mid) < richness) low = mid;
+        else high = mid;
+    }
+    return Math.sqrt(low * high);
+};
+
+/** Expected number of taxa in a random subsample of n specimens; null if the sample is smaller. */
+export const rarefiedRichness = (counts: number[], n: number): number | null => {
+    const total = counts.reduce((sum, c) => sum + c, 0);
+    if (n < 1 || n > total) return null;
+    const denominator = logChoose(total, n);
+    return counts.reduce((sum, c) => sum + (total - c < n ? 1 : 1 - Math.exp(logChoose(total - c, n) - denominator)), 0);
+};
+
+/** Smallest itemised count of the section's samples: the default rarefaction size. */
+export const defaultRarefactionSize = (section: Section): number => {
+    const totals = (section.censusSamples ?? []).map(s => presentCounts(s).reduce((sum, c) => sum + c, 0)).filter(n => n > 0);
+    return totals.length > 0 ? Math.min(...totals) : 0;
+};
+
+/** Diversity indices of each census sample with specimens, top down. */
+export const diversityRows = (section: Section, rarefactionSize = defaultRarefactionSize(section)): DiversityRow[] => {
+    const ages = new Map(censusRows(section).map(row => [row.sampleId, row.age]));
+    return [...(section.censusSamples ?? [])]
+        .sort((a, b) => a.depth - b.depth)
+        .flatMap((sample): DiversityRow[] => {
+            const counts = presentCounts(sample);
+            const specimens = counts.reduce((sum, c) => sum + c, 0);
+            if (specimens === 0) return [];
+            const proportions = counts.map(c => c / specimens);
+            const age = ages.get(sample.id);
+            return [{
+                sampleId: sample.id,
+                depth: sample.depth,
+                ...(age !== undefined && { age }),
+                specimens,
+                richness: counts.length,
+                shannon: -proportions.reduce((sum, p) => sum + p * Math.log(p), 0),
+                simpson: 1 - proportions.reduce((sum, p) => sum + p * p, 0),
+                fisherAlpha: fishersAlpha(counts.length, specimens),
+                rarefied: rarefiedRichness(counts, rarefactionSize),
+                dominance: Math.max(...proportions),
+            }];
+        });
+};
+
+// --- CONISS ----------------------------------------------------------
+
+interface Cluster {
+    first: number;
+    size: number;
+    sum: number[];
+}
+
+const mergeCost = (a: Cluster, b: Cluster) =>
+    a.sum.reduce((sum, value, k) => sum + (value / a.size - b.sum[k] / b.size) ** 2, 0) * a.size * b.size / (a.size + b.size);
+
+/** Number of zones whose splits each explain more dispersion than the broken-stick expectation. */
+const brokenStickZones = (merges: ConissMerge[], totalDispersion: number): number => {
+    const pieces = merges.length;
+    if (pieces === 0 || totalDispersion <= 0) return 1;
+    let zones = 1;
+    for (let g = 1; g <= pieces; g++) {
+        const after = merges[pieces - g].dispersion;
+        const before = pieces - g - 1 >= 0 ? merges[pieces - g - 1].dispersion : 0;
+        let expected = 0;
+        for (let i = g; i <= pieces; i++) expected += 1 / i;
+        if ((after - before) / totalDispersion <= expected / pieces) break;
+        zones++;
+    }
+    return zones;
+};
+
+/** Constrained clustering of the section's census samples (needs at least three). */
+export const runConiss = (section: Section): ConissResult | null => {
+    const samples = [...(section.censusSamples ?? [])]
+        .filter(s => presentCounts(s).length > 0)
+        .sort((a, b) => a.depth - b.depth);
+    if (samples.length < 3) return null;
+    const taxa = Array.from(new Set(samples.flatMap(s => Object.keys(s.counts))));
+    let clusters: Cluster[] = samples.map((sample, index) => {
+        const specimens = presentCounts(sample).reduce((sum, c) => sum + c, 0);
+        return { first: index, size: 1, sum: taxa.map(t => Math.sqrt((sample.counts[t] ?? 0) / specimens)) };
+    });
+
+    const merges: ConissMerge[] = [];
+    let dispersion = 0;
+    while (clusters.length > 1) {
+        let best = 0;
+        let bestCost = Infinity;
+        for (let i = 0; i < clusters.length - 1; i++) {
+            const cost = mergeCost(clusters[i], clusters[i + 1]);
+            if (cost < bestCost) { best = i; bestCost = cost; }
+        }
+        const [upper, lower] = [clusters[best], clusters[best + 1]];
+        dispersion += bestCost;
+        merges.push({ left: upper.first, right: lower.first, dispersion });
+        clusters = [
+            ...clusters.slice(0, best),
+            { first: upper.first, size: upper.size + lower.size, sum: upper.sum.map((v, k) => v + lower.sum[k]) },
+            ...clusters.slice(best + 2),
+        ];
+    }
+
+    return {
+        sampleIds: samples.map(s => s.id),
+        depths: samples.map(s => s.depth),
+        merges,
+        totalDispersion: dispersion,
+        significantZones: brokenStickZones(merges, dispersion),
+    };
+};
+
+/**
+ * Cuts the CONISS tree into the given number of zones. Boundaries fall midway
+ * between the adjacent samples of neighbouring zones; the outer zones end at
+ * the first and last samples. Zones are numbered from the base upward.
+ */
+export const conissZones = (result: ConissResult, zoneCount: number): AssemblageZone[] => {
+    const n = result.depths.length;
+    const count = Math.max(1, Math.min(zoneCount, n));
+    // Replaying all but the last (count − 1) merges leaves `count` clusters; their first samples start the zones.
+    const merged = new Set(result.merges.slice(0, n - count).map(m => m.right));
+    const starts = Array.from({ length: n }, (_, i) => i).filter(i => !merged.has(i));
+    const boundary = (i: number) => (result.depths[i - 1] + result.depths[i]) / 2;
+    const stamp = Date.now();
+    return starts.map((start, z) => {
+        const end = z + 1 < starts.length ? starts[z + 1] : n;
+        return {
+            id: `zone-${stamp}-${z}`,
+            label: `AZ-${starts.length - z}`,
+            topDepth: parseFloat((z === 0 ? result.depths[0] : boundary(start)).toFixed(1)),
+            bottomDepth: parseFloat((end === n ? result.depths[n - 1] : boundary(end)).toFixed(1)),
+            sampleCount: end - start,
+        };
+    });
+};
+
+const fixed = (value: number | null | undefined, digits: number) => typeof value === 'number' ? value.toFixed(digits) : '';
+
+/** Per-sample indices with the assemblage zone of each sample. */
+export const exportDiversityCsv = (rows: DiversityRow[], zones: AssemblageZone[], rarefactionSize: number): string => {
+    const zoneOf = (depth: number) => zones.find(z => depth >= z.topDepth && depth <= z.bottomDepth)?.label ?? '';
+    return [
+        csvRow(['Sample', 'Depth (cmbsf)', 'Age (ka)', 'N', 'S', "Shannon H'", 'Simpson 1-D', 'Fisher alpha', `E(S${rarefactionSize})`, 'Berger-Parker', 'Zone']),
+        ...rows.map(row => csvRow([
+            row.sampleId, row.depth, fixed(row.age, 2), row.specimens, row.richness,
+            row.shannon.toFixed(3), row.simpson.toFixed(3), fixed(row.fisherAlpha, 2), fixed(row.rarefied, 2), row.dominance.toFixed(3), zoneOf(row.depth),
+        ])),
+    ].join('\n');
+};
+
+/** Zone table: label, top and bottom depth, number of samples. */
+export const exportZonesCsv = (zones: AssemblageZone[]): string =>
+    [
+        csvRow(['Zone', 'Top (cmbsf)', 'Bottom (cmbsf)', 'Samples']),
+        ...zones.map(z => csvRow([z.label, z.topDepth, z.bottomDepth, z.sampleCount])),
+    ].join('\n');
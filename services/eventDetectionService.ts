@@ -0,0 +1,262 @@
+import type { DataPoint, PaleoEvent } from '../types';
+import { PALEO_EVENT_CATALOGUE, type CatalogueEvent } from '../data/paleoEventCatalogue';
+
+// =================================================================
+// STATISTICAL EVENT DETECTION
+// A deterministic counterpart to the AI event detector. Two detectors run on
+// a dated proxy series:
+// - mean shifts: PELT changepoints (Killick et al., 2012) with a normal
+//   mean-change cost and BIC penalty, kept when adjacent segments differ
+//   by a Welch t-test;
+// - excursions: runs of samples whose robust z-score against a running
+//   median baseline exceeds a threshold.
+// Detections are matched to the bundled event catalogue by age.
+// =================================================================
+
+export interface EventDetectionOptions {
+    significance?: number; // two-sided p-value threshold
+    minSegmentSize?: number; // samples per changepoint segment
+    penaltyFactor?: number; // multiplies the BIC penalty; larger = fewer changepoints
+    baselineWindow?: number; // kyr, running-median window for excursions
+    zThreshold?: number;
+    matchTolerance?: number; // kyr
+}
+
+const DEFAULTS: Required<EventDetectionOptions> = {
+    significance: 0.01,
+    minSegmentSize: 5,
+    penaltyFactor: 1,
+    baselineWindow: 10,
+    zThreshold: 3,
+    matchTolerance: 1.5,
+};
+
+const median = (values: number[]) => {
+    const sorted = [...values].sort((a, b) => a - b);
+    const mid = Math.floor(sorted.length / 2);
+    return sorted.length % 2 ? sorted[mid] : (sorted[mid - 1] + sorted[mid]) / 2;
+};
+
+const mad = (values: number[]) => {
+    const m = median(values);
+    return 1.4826 * median(values.map(v => Math.abs(v - m)));
+};
+
+// Abramowitz & Stegun 7.1.26
+const erf = (x: number) => {
+    const sign = x < 0 ? -1 : 1;
+    const t = 1 / (1 + 0.3275911 * Math.abs(x));
+    const y = 1 - ((((1.061405429 * t - 1.453152027) * t + 1.421413741) * t - 0.284496736) * t + 0.254829592) * t * Math.exp(-x * x);
+    return sign * y;
+};
+
+const twoSidedNormalP = (z: number) => 1 - erf(Math.abs(z) / Math.SQRT2);
+
+const logGamma = (x: number): number => {
+    const c = [76.18009172947146, -86.50532032941677, 24.01409824083091, -1.231739572450155, 0.1208650973866179e-2, -0.5395239384953e-5];
+    let y = x;
+    const tmp = x + 5.5 - (x + 0.5) * Math.log(x + 5.5);
+    let ser = 1.000000000190015;
+    for (const coefficient of c) ser += coefficient / ++y;
+    return -tmp + Math.log(2.5066282746310005 * ser / x);
+};
+
+// Continued fraction for the regularized incomplete beta function (Numerical Recipes betacf).
+const betaContinuedFraction = (a: number, b: number, x: number) => {
+    const tiny = 1e-30;
+    let c = 1;
+    let d = 1 - (a + b) * x / (a + 1);
+    if (Math.abs(d) < tiny) d = tiny;
+    d = 1 / d;
+    let h = d;
+    for (let m = 1; m <= 200; m++) {
+        const m2 = 2 * m;
+        let aa = m * (b - m) * x / ((a - 1 + m2) * (a + m2));
+        d = 1 + aa * d; if (Math.abs(d) < tiny) d = tiny;
+        c = 1 + aa / c; if (Math.abs(c) < tiny) c = tiny;
+        d = 1 / d; h *= d * c;
+        aa = -(a + m) * (a + b + m) * x / ((a + m2) * (a + 1 + m2));
+        d = 1 + aa * d; if (Math.abs(d) < tiny) d = tiny;
+        c = 1 + aa / c; if (Math.abs(c) < tiny) c = tiny;
+        d = 1 / d;
+        const delta = d * c;
+        h *= delta;
+        if (Math.abs(delta - 1) < 3e-12) break;
+    }
+    return h;
+};
+
+const incompleteBeta = (a: number, b: number, x: number) => {
+    if (x <= 0) return 0;
+    if (x >= 1) return 1;
+    const front = Math.exp(logGamma(a + b) - logGamma(a) - logGamma(b) + a * Math.log(x) + b * Math.log(1 - x));
+    return x < (a + 1) / (a + b + 2)
+        ? front * betaContinuedFraction(a, b, x) / a
+        : 1 - front * betaContinuedFraction(b, a, 1 - x) / b;
+};
+
+const twoSidedStudentP = (t: number, dof: number) => incompleteBeta(dof / 2, 0.5, dof / (dof + t * t));
+
+interface SegmentStats { mean: number; variance: number; n: number }
+
+const segmentStats = (values: number[]): SegmentStats => {
+    const n = values.length;
+    const mean = values.reduce((s, v) => s + v, 0) / n;
+    const variance = values.reduce((s, v) => s + (v - mean) ** 2, 0) / Math.max(n - 1, 1);
+    return { mean, variance, n };
+};
+
+/** PELT changepoints (indices where a new segment starts) for a change in mean. */
+export const findChangepoints = (values: number[], minSegmentSize: number, penaltyFactor = 1): number[] => {
+    const n = values.length;
+    if (n < 2 * minSegmentSize) return [];
+    // Noise level from first differences, so that the shifts themselves don't inflate it.
+    const sigma = mad(values.slice(1).map((v, i) => v - values[i])) / Math.SQRT2 || 1;
+    const cumSum = [0];
+    const cumSq = [0];
+    values.forEach((v, i) => {
+        cumSum.push(cumSum[i] + v / sigma);
+        cumSq.push(cumSq[i] + (v / sigma) ** 2);
+    });
+    const cost = (from: number, to: number) => {
+        const sum = cumSum[to] - cumSum[from];
+        return cumSq[to] - cumSq[from] - sum * sum / (to - from);
+    };
+    const penalty = 2 * Math.log(n) * penaltyFactor;
+
+    const best = new Array<number>(n + 1).fill(Infinity);
+    const previous = new Array<number>(n + 1).fill(0);
+    best[0] = -penalty;
+    let candidates = [0];
+    for (let t = minSegmentSize; t <= n; t++) {
+        let bestValue = Infinity;
+        let bestFrom = 0;
+        candidates.forEach(s => {
+            if (t - s < minSegmentSize) return;
+            const value = best[s] + cost(s, t) + penalty;
+            if (value < bestValue) { bestValue = value; bestFrom = s; }
+        });
+        best[t] = bestValue;
+        previous[t] = bestFrom;
+        candidates = candidates.filter(s => t - s < minSegmentSize || best[s] + cost(s, t) <= bestValue);
+        candidates.push(t);
+    }
+
+    const changepoints: number[] = [];
+    for (let t = previous[n]; t > 0; t = previous[t]) changepoints.unshift(t);
+    return changepoints;
+};
+
+const matchCatalogue = (youngAge: number, oldAge: number, tolerance: number): CatalogueEvent | null => {
+    let bestMatch: CatalogueEvent | null = null;
+    let bestDistance = Infinity;
+    PALEO_EVENT_CATALOGUE.forEach(event => {
+        // Distance from the detection to the catalogue event's nearest boundary (or to the event if they overlap).
+        const overlaps = youngAge <= event.endAge && oldAge >= event.startAge;
+        const distance = overlaps && event.startAge !== event.endAge
+            ? Math.min(Math.abs(youngAge - event.startAge), Math.abs(oldAge - event.endAge), Math.abs(youngAge - event.endAge), Math.abs(oldAge - event.startAge))
+            : Math.min(Math.abs(youngAge - event.startAge), Math.abs(oldAge - event.endAge), Math.abs((youngAge + oldAge) / 2 - (event.startAge + event.endAge) / 2));
+        if (distance <= tolerance && distance < bestDistance) {
+            bestDistance = distance;
+            bestMatch = event;
+        }
+    });
+    return bestMatch;
+};
+
+// A shift at the older boundary of a catalogue interval is its onset, at the younger boundary its end.
+const shiftName = (event: CatalogueEvent, age: number) => {
+    if (event.startAge === event.endAge) return event.name;
+    return `${event.name} ${Math.abs(age - event.endAge) <= Math.abs(age - event.startAge) ? 'onset' : 'end'}`;
+};
+
+const formatP = (p: number) => p < 0.001 ? 'p < 0.001' : `p = ${p.toFixed(3)}`;
+
+/**
+ * Finds significant mean shifts and excursions in one proxy of a dated series
+ * and returns them as PaleoEvents (source 'statistical'), youngest first.
+ */
+export const detectStatisticalEvents = (dataPoints: DataPoint[], proxyKey: string, options: EventDetectionOptions = {}): PaleoEvent[] => {
+    const settings = { ...DEFAULTS, ...options };
+    const points = dataPoints
+        .filter(dp => typeof dp.age === 'number' && typeof dp[proxyKey] === 'number' && isFinite(dp[proxyKey]))
+        .sort((a, b) => (a.age as number) - (b.age as number));
+    if (points.length < 2 * settings.minSegmentSize) {
+        throw new Error(`At least ${2 * settings.minSegmentSize} dated samples of this proxy are needed.`);
+    }
+    const ages = points.map(dp => dp.age as number);
+    const values = points.map(dp => dp[proxyKey] as number);
+    const events: PaleoEvent[] = [];
+
+    // Mean shifts between adjacent PELT segments.
+    const changepoints = findChangepoints(values, settings.minSegmentSize, settings.penaltyFactor);
+    const bounds = [0, ...changepoints, values.length];
+    changepoints.forEach((cp, k) => {
+        const younger = segmentStats(values.slice(bounds[k], cp));
+        const older = segmentStats(values.slice(cp, bounds[k + 2]));
+        const se2Young = younger.variance / younger.n;
+        const se2Old = older.variance / older.n;
+        const t = (younger.mean - older.mean) / Math.sqrt(se2Young + se2Old || 1e-12);
+        const dof = (se2Young + se2Old) ** 2 / ((se2Young ** 2) / (younger.n - 1) + (se2Old ** 2) / (older.n - 1) || 1e-12);
+        const pValue = twoSidedStudentP(t, Math.max(dof, 1));
+        if (pValue >= settings.significance) return;
+        const pooledSd = Math.sqrt(((younger.n - 1) * younger.variance + (older.n - 1) * older.variance) / (younger.n + older.n - 2));
+        const effectSize = pooledSd > 0 ? (younger.mean - older.mean) / pooledSd : 0;
+        const startAge = ages[cp - 1];
+        const endAge = ages[cp];
+        const match = matchCatalogue(startAge, endAge, settings.matchTolerance);
+        events.push({
+            eventName: match ? shiftName(match, (startAge + endAge) / 2) : `Shift at ${((startAge + endAge) / 2).toFixed(1)} ka`,
+            startAge,
+            endAge,
+            description: `Mean ${younger.mean > older.mean ? 'increase' : 'decrease'} from ${older.mean.toFixed(3)} to ${younger.mean.toFixed(3)} (d = ${effectSize.toFixed(2)}, Welch ${formatP(pValue)}).${match ? ` ${match.description}` : ''}`,
+            source: 'statistical',
+            kind: 'shift',
+            effectSize,
+            pValue,
+            ...(match && { catalogueMatch: match.name }),
+        });
+    });
+
+    // Excursions: runs of robust z-scores beyond the threshold against a running median.
+    const zScores = ages.map((age, i) => {
+        const neighbours = values.filter((_, j) => j !== i && Math.abs(ages[j] - age) <= settings.baselineWindow / 2);
+        if (neighbours.length < 4) return 0;
+        const scale = mad(neighbours);
+        return scale > 0 ? (values[i] - median(neighbours)) / scale : 0;
+    });
+    const runs: [number, number][] = [];
+    let runStart = -1;
+    zScores.forEach((z, i) => {
+        const inRun = Math.abs(z) >= settings.zThreshold;
+        if (runStart >= 0 && (!inRun || Math.sign(z) !== Math.sign(zScores[runStart]))) {
+            runs.push([runStart, i - 1]);
+            runStart = -1;
+        }
+        if (inRun && runStart < 0) runStart = i;
+    });
+    if (runStart >= 0) runs.push([runStart, zScores.length - 1]);
+
+    runs.forEach(([from, to]) => {
+        if (to - from < 1) return; // single-sample spikes are more likely analytical outliers
+        const peak = zScores.slice(from, to + 1).reduce((p, z) => Math.abs(z) > Math.abs(p) ? z : p, 0);
+        const pValue = Math.min(1, twoSidedNormalP(peak) * values.length); // Bonferroni over all samples
+        if (pValue >= settings.significance) return;
+        const startAge = ages[from];
+        const endAge = ages[to];
+        const match = matchCatalogue(startAge, endAge, settings.matchTolerance);
+        events.push({
+            eventName: match ? match.name : `${peak > 0 ? 'Positive' : 'Negative'} excursion at ${((startAge + endAge) / 2).toFixed(1)} ka`,
+            startAge,
+            endAge,
+            description: `${to - from + 1} samples up to ${Math.abs(peak).toFixed(1)} robust SD ${peak > 0 ? 'above' : 'below'} the ${settings.baselineWindow} kyr running median (${formatP(pValue)}, Bonferroni).${match ? ` ${match.description}` : ''}`,
+            source: 'statistical',
+            kind: 'excursion',
+            effectSize: peak,
+            pValue,
+            ...(match && { catalogueMatch: match.name }),
+        });
+    });
+
+    return events.sort((a, b) => a.startAge - b.startAge);
+};
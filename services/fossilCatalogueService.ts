@@ -0,0 +1,69 @@
+import type { Microfossil, FossilCatalogue, FossilOwnership } from '../types';
+
+// =================================================================
+// FOSSIL CATALOGUES
+// Labels and grouping for the catalogue a species belongs to (personal,
+// lab or curated), shared by the fossil pickers, the record cards and the
+// catalogue manager. Entries loaded before ownership existed count as
+// curated, which is what the database migration makes of them.
+// =================================================================
+
+export const CATALOGUE_LABELS: Record<FossilCatalogue, string> = {
+    personal: 'Personal',
+    lab: 'Lab',
+    curated: 'Curated',
+};
+
+export const catalogueOf = (fossil: Microfossil): FossilCatalogue => fossil.ownership?.catalogue ?? 'curated';
+
+/** "Curated", "Personal" or "Lab · <name>". */
+export const ownershipLabel = (fossil: Microfossil): string => {
+    const catalogue = catalogueOf(fossil);
+    return catalogue === 'lab' ? `Lab · ${fossil.ownership?.labName ?? 'shared'}` : CATALOGUE_LABELS[catalogue];
+};
+
+/** Review state worth showing next to the catalogue, if any. */
+export const reviewLabel = (fossil: Microfossil): string | null => {
+    if (fossil.ownership?.reviewStatus === 'pending') return 'Awaiting curation';
+    if (fossil.ownership?.reviewStatus === 'rejected') return 'Curation declined';
+    return null;
+};
+
+export const isOwnEntry = (fossil: Microfossil, userId: string) => fossil.ownership?.ownerId === userId;
+
+/**
+ * Whether the catalogue a new entry goes into already has this code. Codes
+ * only have to be unique within one catalogue: the user's personal entries,
+ * one lab, or the curated catalogue.
+ */
+export const isCodeTaken = (code: string, target: Pick<FossilOwnership, 'catalogue' | 'labId'>, fossils: Microfossil[], userId?: string) => {
+    const wanted = code.trim().toLowerCase();
+    return fossils.some(fossil => {
+        if (fossil.code.toLowerCase() !== wanted || catalogueOf(fossil) !== target.catalogue) return false;
+        if (target.catalogue === 'lab') return fossil.ownership?.labId === target.labId;
+        return target.catalogue === 'curated' || !userId || isOwnEntry(fossil, userId);
+    });
+};
+
+export interface CatalogueGroup {
+    key: string;
+    label: string;
+    fossils: Microfossil[];
+}
+
+/** Fossils grouped for pickers: curated first, then each lab, then personal entries; names sorted within groups. */
+export const groupByCatalogue = (fossils: Microfossil[]): CatalogueGroup[] => {
+    const groups = new Map<string, CatalogueGroup>();
+    fossils.forEach(fossil => {
+        const catalogue = catalogueOf(fossil);
+        const key = catalogue === 'lab' ? `lab:${fossil.ownership?.labId}` : catalogue;
+        const label = catalogue === 'lab' ? ownershipLabel(fossil) : `${CATALOGUE_LABELS[catalogue]} catalogue`;
+        if (!groups.has(key)) groups.set(key, { key, label, fossils: [] });
+        groups.get(key)!.fossils.push(fossil);
+    });
+    const rank = (key: string) => key === 'curated' ? 0 : key === 'personal' ? 2 : 1;
+    const name = (f: Microfossil) => `${f.taxonomy.genus} ${f.taxonomy.species}`;
+    return Array.from(groups.values())
+        .map(group => ({ ...group, fossils: [...group.fossils].sort((a, b) => name(a).localeCompare(name(b))) }))
+        .sort((a, b) => rank(a.key) - rank(b.key) || a.label.localeCompare(b.label));
+};
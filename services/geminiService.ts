@@ -1,6 +1,6 @@
 import { GoogleGenAI, GenerateContentResponse, Type, Content } from "@google/genai";
 import type { Section, DataPoint, Microfossil, PartialMicrofossil, Taxonomy, EcologicalData, TiePoint, PaleoEvent } from '../types';
-import { COMMON_DATA_KEYS } from "../constants";
+import { COMMON_DATA_KEYS, NON_PROXY_KEYS } from "../constants";
 
 // Se inicializa 'ai' de manera laxa para poder manejar el caso de que la clave no esté configurada
 let ai: GoogleGenAI | null = null;
@@ -422,7 +422,7 @@ export const detectPaleoEvents = async (dataPoints: DataPoint[]): Promise<PaleoE
     // If no priority proxy found, take the first available key that is not age/depth/subsection
     if (primaryProxy === 'age') {
         const firstPointKeys = Object.keys(pointsWithAge[0]);
-        primaryProxy = firstPointKeys.find(k => k !== 'age' && k !== 'depth' && k !== 'subsection') || 'value';
+        primaryProxy = firstPointKeys.find(k => !NON_PROXY_KEYS.includes(k)) || 'value';
     }
 
 
@@ -466,6 +466,7 @@ export const detectPaleoEvents = async (dataPoints: DataPoint[]): Promise<PaleoE
             ...event,
             startAge: Math.min(event.startAge, event.endAge),
             endAge: Math.max(event.startAge, event.endAge),
+            source: 'ai',
         }));
     } catch (error) {
         console.error("Gemini Paleo-Event Detection Error:", error);
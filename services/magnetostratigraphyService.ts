@@ -0,0 +1,179 @@
+import type { Section, TiePoint, PolarityZone } from '../types';
+import type { PolarityInterval } from '../data/referenceCurves';
+
+// =================================================================
+// MAGNETOSTRATIGRAPHY
+// Polarity zones of all sections form one depth-ordered sequence (depths are
+// cmbsf, shared by the sections of a core). Uncertain zones are skipped and
+// neighbouring zones of the same polarity merged, leaving the reversals.
+// Each reversal sits midway between its two zones, and half the gap between
+// them is its depth uncertainty.
+// Matching slides the reversal sequence along the GPTS: every chron boundary
+// whose younger polarity equals the polarity above the first reversal is a
+// candidate start, consecutive reversals take consecutive GPTS boundaries,
+// and candidates are ranked by the scatter about a linear age–depth fit.
+// =================================================================
+
+export type PolarityConfidence = PolarityZone['confidence'];
+
+export interface PolarityReversal {
+    sectionId: string;
+    depth: number;
+    depthUncertainty: number;
+    upperPolarity: 'normal' | 'reversed'; // younger side
+    lowerPolarity: 'normal' | 'reversed';
+    confidence: PolarityConfidence;
+}
+
+export interface GptsBoundary {
+    age: number; // ka
+    youngerChron: string;
+    olderChron: string;
+    youngerPolarity: 'normal' | 'reversed';
+}
+
+export interface GptsMatch {
+    id: string;
+    startBoundary: GptsBoundary;
+    rate: number; // cm/kyr of the linear fit
+    misfit: number; // RMS age residual relative to the matched age span
+    tiePoints: TiePoint[];
+}
+
+export interface GptsMatchOptions {
+    modernTop?: boolean; // the record starts at the sediment surface (0 cm = 0 ka)
+    maxCandidates?: number;
+}
+
+const CONFIDENCE_RANK: Record<PolarityConfidence, number> = { low: 0, medium: 1, high: 2 };
+
+/** Message describing what is wrong with a polarity record, or null if it is usable. */
+export const validatePolarityRecord = (zones: PolarityZone[]): string | null => {
+    const sorted = [...zones].sort((a, b) => a.topDepth - b.topDepth);
+    for (let i = 0; i < sorted.length; i++) {
+        const zone = sorted[i];
+        if (!isFinite(zone.topDepth) || !isFinite(zone.bottomDepth) || zone.bottomDepth <= zone.topDepth) {
+            return `Polarity zone at ${zone.topDepth} cm must have a bottom depth below its top.`;
+        }
+        if (zone.inclination !== undefined && Math.abs(zone.inclination) > 90) {
+            return `Inclination at ${zone.topDepth} cm must be between -90° and 90°.`;
+        }
+        if (i > 0 && zone.topDepth < sorted[i - 1].bottomDepth) {
+            return `Polarity zones at ${sorted[i - 1].topDepth} cm and ${zone.topDepth} cm overlap.`;
+        }
+    }
+    return null;
+};
+
+/** Reversals of the combined polarity record of the sections, top down. */
+export const polarityReversals = (sections: Section[]): PolarityReversal[] => {
+    const zones = sections
+        .flatMap(s => (s.polarityRecord ?? []).map(zone => ({ ...zone, sectionId: s.id })))
+        .filter(zone => zone.polarity !== 'uncertain')
+        .sort((a, b) => a.topDepth - b.topDepth);
+
+    const merged: typeof zones = [];
+    zones.forEach(zone => {
+        const last = merged[merged.length - 1];
+        if (last && last.polarity === zone.polarity) {
+            merged[merged.length - 1] = {
+                ...last,
+                bottomDepth: Math.max(last.bottomDepth, zone.bottomDepth),
+                confidence: CONFIDENCE_RANK[zone.confidence] > CONFIDENCE_RANK[last.confidence] ? zone.confidence : last.confidence,
+            };
+        } else {
+            merged.push(zone);
+        }
+    });
+
+    return merged.slice(1).map((lower, i) => {
+        const upper = merged[i];
+        const gap = Math.max(0, lower.topDepth - upper.bottomDepth);
+        return {
+            sectionId: upper.sectionId,
+            depth: parseFloat((upper.bottomDepth + gap / 2).toFixed(1)),
+            depthUncertainty: parseFloat((gap / 2).toFixed(1)),
+            upperPolarity: upper.polarity as 'normal' | 'reversed',
+            lowerPolarity: lower.polarity as 'normal' | 'reversed',
+            confidence: CONFIDENCE_RANK[upper.confidence] < CONFIDENCE_RANK[lower.confidence] ? upper.confidence : lower.confidence,
+        };
+    });
+};
+
+/** Chron boundaries of a polarity timescale, youngest first. */
+export const gptsBoundaries = (intervals: PolarityInterval[]): GptsBoundary[] => {
+    const sorted = [...intervals].sort((a, b) => a.top - b.top);
+    return sorted.slice(1)
+        .map((older, i) => ({ younger: sorted[i], older }))
+        .filter(({ younger, older }) => younger.polarity !== older.polarity)
+        .map(({ younger, older }) => ({
+            age: younger.base,
+            youngerChron: younger.name ?? `${younger.polarity} ${younger.top}–${younger.base} ka`,
+            olderChron: older.name ?? `${older.polarity} ${older.top}–${older.base} ka`,
+            youngerPolarity: younger.polarity,
+        }));
+};
+
+const linearFit = (points: { depth: number; age: number }[]) => {
+    const n = points.length;
+    const meanDepth = points.reduce((sum, p) => sum + p.depth, 0) / n;
+    const meanAge = points.reduce((sum, p) => sum + p.age, 0) / n;
+    const sxx = points.reduce((sum, p) => sum + (p.depth - meanDepth) ** 2, 0);
+    const sxy = points.reduce((sum, p) => sum + (p.depth - meanDepth) * (p.age - meanAge), 0);
+    const slope = sxx > 0 ? sxy / sxx : NaN; // ka per cm
+    const intercept = meanAge - slope * meanDepth;
+    const rms = Math.sqrt(points.reduce((sum, p) => sum + (p.age - (intercept + slope * p.depth)) ** 2, 0) / n);
+    return { slope, rms };
+};
+
+/**
+ * Candidate correlations of the sections' reversals with a polarity timescale,
+ * best first. A single reversal without a modern top cannot be placed by its
+ * fit, so its candidates are only ordered by age.
+ */
+export const matchToGpts = (sections: Section[], intervals: PolarityInterval[], options: GptsMatchOptions = {}): GptsMatch[] => {
+    const { modernTop = false, maxCandidates = 5 } = options;
+    const reversals = polarityReversals(sections);
+    const boundaries = gptsBoundaries(intervals);
+    if (reversals.length === 0) return [];
+
+    const stamp = Date.now();
+    const matches: GptsMatch[] = [];
+    for (let start = 0; start + reversals.length <= boundaries.length; start++) {
+        if (boundaries[start].youngerPolarity !== reversals[0].upperPolarity) continue;
+        const matched = reversals.map((reversal, i) => ({ reversal, boundary: boundaries[start + i] }));
+        const points = matched.map(m => ({ depth: m.reversal.depth, age: m.boundary.age }));
+        if (modernTop) points.unshift({ depth: 0, age: 0 });
+
+        let slope: number;
+        let misfit = 0;
+        if (points.length > 1) {
+            const fit = linearFit(points);
+            const span = points[points.length - 1].age - points[0].age;
+            slope = fit.slope;
+            misfit = span > 0 ? fit.rms / span : Infinity;
+        } else {
+            slope = points[0].depth > 0 ? points[0].age / points[0].depth : NaN;
+        }
+        if (!(slope > 0)) continue;
+
+        matches.push({
+            id: `gpts-${start}`,
+            startBoundary: boundaries[start],
+            rate: 1 / slope,
+            misfit,
+            tiePoints: matched.map(({ reversal, boundary }, i) => ({
+                id: `pmag-${start}-${i}-${stamp}`,
+                sectionId: reversal.sectionId,
+                depth: reversal.depth,
+                age: boundary.age,
+                ageUncertainty: parseFloat(Math.max(reversal.depthUncertainty * slope, 0.1).toFixed(1)),
+                label: `${boundary.youngerChron} / ${boundary.olderChron}`,
+            })),
+        });
+    }
+
+    return matches
+        .sort((a, b) => a.misfit - b.misfit || a.startBoundary.age - b.startBoundary.age)
+        .slice(0, maxCandidates);
+};
@@ -0,0 +1,38 @@
+import type { DataPoint } from '../types';
+import { MARINE_ISOTOPE_STAGES, type MarineIsotopeStage } from '../data/marineIsotopeStages';
+
+// =================================================================
+// MARINE ISOTOPE STAGES
+// Stage assignment from the bundled LR04 boundary table. The stage is derived
+// from a point's age whenever it is displayed or exported rather than stored,
+// so it always follows the active age model.
+// =================================================================
+
+// Column key used for the derived stage in tables and exports.
+export const MIS_COLUMN = 'mis';
+
+/** The MIS containing an age (ka), or null for undated points and ages beyond the table. */
+export const assignMis = (age: number | null | undefined): number | null => {
+    if (typeof age !== 'number' || !isFinite(age) || age < 0) return null;
+    const stage = MARINE_ISOTOPE_STAGES.find(s => age >= s.top && age < s.base);
+    return stage ? stage.stage : null;
+};
+
+/** Stages overlapping an age range (ka). */
+export const stagesInRange = (minAge: number, maxAge: number): MarineIsotopeStage[] =>
+    MARINE_ISOTOPE_STAGES.filter(s => s.base > minAge && s.top < maxAge);
+
+export const isGlacialStage = (stage: number) => stage % 2 === 0;
+
+/** Inserts the MIS column after 'age' when any of the points is dated. */
+export const withMisHeader = (headers: string[], dataPoints: DataPoint[]): string[] => {
+    if (headers.includes(MIS_COLUMN) || !dataPoints.some(dp => assignMis(dp.age) !== null)) return headers;
+    const ageIndex = headers.indexOf('age');
+    return ageIndex < 0
+        ? [...headers, MIS_COLUMN]
+        : [...headers.slice(0, ageIndex + 1), MIS_COLUMN, ...headers.slice(ageIndex + 1)];
+};
+
+/** A data point's value for a table/export column, deriving the MIS column from its age. */
+export const columnValue = (dp: DataPoint, header: string) =>
+    header === MIS_COLUMN ? assignMis(dp.age) ?? undefined : dp[header];
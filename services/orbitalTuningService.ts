@@ -0,0 +1,236 @@
+import type { Section, TiePoint } from '../types';
+import { LR04_DATA } from '../data/lr04';
+
+// =================================================================
+// ORBITAL TUNING
+// Aligns a section's δ18O record to a dated reference stack (LR04 by
+// default) with a constrained dynamic-time-warping alignment: every sample
+// is assigned an age on a regular grid, ages increase strictly with depth,
+// and the implied sedimentation rate between neighbouring samples must stay
+// within user-given bounds. Proposed tie-points are taken at the main
+// δ18O extrema of the aligned record, each scored by the local correlation
+// between the section and the reference around it.
+// =================================================================
+
+export interface ReferencePoint {
+    age: number; // ka
+    value: number;
+}
+
+export interface OrbitalTuningOptions {
+    proxyKey?: string;
+    minSedimentationRate?: number; // cm/kyr
+    maxSedimentationRate?: number; // cm/kyr
+    maxAge?: number; // ka; oldest age the alignment may reach
+    ageStep?: number; // ka; resolution of the age grid
+    maxTiePoints?: number;
+    scoreWindow?: number; // samples either side used for each correlation score
+}
+
+export interface TiePointProposal {
+    tiePoint: TiePoint;
+    score: number; // local Pearson r between section and reference, -1..1
+}
+
+export interface OrbitalTuningResult {
+    sectionId: string;
+    correlation: number; // Pearson r over the whole aligned record
+    alignedAges: { depth: number; age: number }[];
+    proposals: TiePointProposal[];
+}
+
+export const LR04_REFERENCE: ReferencePoint[] = LR04_DATA.map(d => ({ age: d.age, value: d.d18O }));
+
+const standardize = (values: number[]): number[] => {
+    const mean = values.reduce((sum, v) => sum + v, 0) / values.length;
+    const sd = Math.sqrt(values.reduce((sum, v) => sum + (v - mean) ** 2, 0) / values.length);
+    return values.map(v => sd > 0 ? (v - mean) / sd : 0);
+};
+
+export const pearsonCorrelation = (xs: number[], ys: number[]): number => {
+    const n = Math.min(xs.length, ys.length);
+    if (n < 3) return 0;
+    const meanX = xs.slice(0, n).reduce((s, v) => s + v, 0) / n;
+    const meanY = ys.slice(0, n).reduce((s, v) => s + v, 0) / n;
+    let sxy = 0;
+    let sxx = 0;
+    let syy = 0;
+    for (let i = 0; i < n; i++) {
+        sxy += (xs[i] - meanX) * (ys[i] - meanY);
+        sxx += (xs[i] - meanX) ** 2;
+        syy += (ys[i] - meanY) ** 2;
+    }
+    return sxx > 0 && syy > 0 ? sxy / Math.sqrt(sxx * syy) : 0;
+};
+
+// Linear interpolation of the reference onto a regular age grid.
+const resampleReference = (reference: ReferencePoint[], ageStep: number, maxAge: number): number[] => {
+    const sorted = [...reference].sort((a, b) => a.age - b.age);
+    const grid: number[] = [];
+    let k = 0;
+    for (let age = sorted[0].age; age <= maxAge + 1e-9; age += ageStep) {
+        while (k < sorted.length - 2 && sorted[k + 1].age < age) k++;
+        const a = sorted[k];
+        const b = sorted[Math.min(k + 1, sorted.length - 1)];
+        const t = b.age === a.age ? 0 : Math.min(1, Math.max(0, (age - a.age) / (b.age - a.age)));
+        grid.push(a.value + t * (b.value - a.value));
+    }
+    return grid;
+};
+
+// Averages replicate measurements at the same depth and sorts by depth.
+const extractSeries = (section: Section, proxyKey: string) => {
+    const byDepth = new Map<number, number[]>();
+    section.dataPoints.forEach(dp => {
+        const value = dp[proxyKey];
+        if (typeof dp.depth !== 'number' || typeof value !== 'number' || !isFinite(value)) return;
+        byDepth.set(dp.depth, [...(byDepth.get(dp.depth) || []), value]);
+    });
+    return Array.from(byDepth.entries())
+        .map(([depth, values]) => ({ depth, value: values.reduce((s, v) => s + v, 0) / values.length }))
+        .sort((a, b) => a.depth - b.depth);
+};
+
+/**
+ * Finds the lowest-misfit monotone alignment of the samples onto the age
+ * grid. Returns the grid index assigned to each sample.
+ */
+const alignSeries = (depths: number[], x: number[], y: number[], ageStep: number, minRate: number, maxRate: number): number[] => {
+    const n = x.length;
+    const m = y.length;
+    let previous = new Float64Array(m);
+    let current = new Float64Array(m);
+    const pointers = new Int32Array(n * m).fill(-1);
+
+    for (let j = 0; j < m; j++) previous[j] = (x[0] - y[j]) ** 2;
+
+    for (let i = 1; i < n; i++) {
+        const dDepth = depths[i] - depths[i - 1];
+        const minSteps = Math.max(1, Math.ceil(dDepth / maxRate / ageStep));
+        const maxSteps = Math.max(minSteps, Math.floor(dDepth / minRate / ageStep));
+        // Sliding-window minimum of previous[j - maxSteps .. j - minSteps] via a monotone deque.
+        const deque: number[] = [];
+        let head = 0;
+        for (let j = 0; j < m; j++) {
+            const entering = j - minSteps;
+            if (entering >= 0 && isFinite(previous[entering])) {
+                while (deque.length > head && previous[deque[deque.length - 1]] >= previous[entering]) deque.pop();
+                deque.push(entering);
+            }
+            while (deque.length > head && deque[head] < j - maxSteps) head++;
+            if (deque.length > head) {
+                const best = deque[head];
+                current[j] = previous[best] + (x[i] - y[j]) ** 2;
+                pointers[i * m + j] = best;
+            } else {
+                current[j] = Infinity;
+            }
+        }
+        [previous, current] = [current, previous];
+    }
+
+    let end = -1;
+    for (let j = 0; j < m; j++) {
+        if (isFinite(previous[j]) && (end < 0 || previous[j] < previous[end])) end = j;
+    }
+    if (end < 0) {
+        throw new Error('The record cannot be fitted within the reference age range at these sedimentation rates. Widen the rate bounds or raise the maximum age.');
+    }
+
+    const path = new Array<number>(n);
+    path[n - 1] = end;
+    for (let i = n - 1; i > 0; i--) path[i - 1] = pointers[i * m + path[i]];
+    return path;
+};
+
+// Indices of local extrema, most prominent first.
+const findExtrema = (values: number[]): number[] => {
+    const smoothed = values.map((_, i) => {
+        const window = values.slice(Math.max(0, i - 1), i + 2);
+        return window.reduce((s, v) => s + v, 0) / window.length;
+    });
+    const extrema: { index: number; prominence: number }[] = [];
+    for (let i = 1; i < smoothed.length - 1; i++) {
+        const isMax = smoothed[i] > smoothed[i - 1] && smoothed[i] >= smoothed[i + 1];
+        const isMin = smoothed[i] < smoothed[i - 1] && smoothed[i] <= smoothed[i + 1];
+        if (isMax || isMin) {
+            extrema.push({ index: i, prominence: Math.abs(smoothed[i] - (smoothed[i - 1] + smoothed[i + 1]) / 2) + Math.abs(smoothed[i]) });
+        }
+    }
+    return extrema.sort((a, b) => b.prominence - a.prominence).map(e => e.index);
+};
+
+/**
+ * Tunes one section to a reference stack and proposes tie-points.
+ * Depths are in cm, ages in ka, so sedimentation rates are cm/kyr.
+ */
+export const tuneSectionToReference = (
+    section: Section,
+    reference: ReferencePoint[] = LR04_REFERENCE,
+    options: OrbitalTuningOptions = {}
+): OrbitalTuningResult => {
+    const proxyKey = options.proxyKey ?? 'delta18O';
+    const minRate = options.minSedimentationRate ?? 0.5;
+    const maxRate = options.maxSedimentationRate ?? 10;
+    const ageStep = options.ageStep ?? 1;
+    const maxTiePoints = options.maxTiePoints ?? 6;
+    const scoreWindow = options.scoreWindow ?? 3;
+    const referenceMaxAge = Math.max(...reference.map(r => r.age));
+    const maxAge = Math.min(options.maxAge ?? referenceMaxAge, referenceMaxAge);
+
+    if (!(minRate > 0) || !(maxRate >= minRate)) {
+        throw new Error('Sedimentation-rate bounds must be positive, with the minimum not above the maximum.');
+    }
+    const series = extractSeries(section, proxyKey);
+    if (series.length < 5) {
+        throw new Error(`Section "${section.name}" needs at least five ${proxyKey} measurements for orbital tuning.`);
+    }
+
+    const depths = series.map(s => s.depth);
+    const x = standardize(series.map(s => s.value));
+    const referenceGrid = resampleReference(reference, ageStep, maxAge);
+    const y = standardize(referenceGrid);
+    const gridStart = Math.min(...reference.map(r => r.age));
+
+    const path = alignSeries(depths, x, y, ageStep, minRate, maxRate);
+    const ages = path.map(j => gridStart + j * ageStep);
+    const alignedReference = path.map(j => y[j]);
+
+    const scoreAt = (i: number) => {
+        const from = Math.max(0, i - scoreWindow);
+        const to = Math.min(x.length, i + scoreWindow + 1);
+        return pearsonCorrelation(x.slice(from, to), alignedReference.slice(from, to));
+    };
+
+    // Keep the most prominent extrema, at least one score window apart.
+    let anchors: number[] = [];
+    for (const index of findExtrema(x)) {
+        if (anchors.length >= maxTiePoints) break;
+        if (anchors.every(a => Math.abs(a - index) > scoreWindow)) anchors.push(index);
+    }
+    if (anchors.length < 2) anchors = [0, x.length - 1];
+    const stamp = Date.now();
+
+    const proposals = anchors
+        .sort((a, b) => a - b)
+        .map((i): TiePointProposal => {
+            const score = scoreAt(i);
+            return {
+                tiePoint: {
+                    id: `lr04-${section.id}-${depths[i]}-${stamp}`,
+                    sectionId: section.id,
+                    depth: depths[i],
+                    age: parseFloat(ages[i].toFixed(2)),
+                    label: `Orbital tuning (local r = ${score.toFixed(2)})`,
+                },
+                score,
+            };
+        });
+
+    return {
+        sectionId: section.id,
+        correlation: pearsonCorrelation(x, alignedReference),
+        alignedAges: depths.map((depth, i) => ({ depth, age: ages[i] })),
+        proposals,
+    };
+};
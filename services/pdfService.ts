@@ -1,8 +1,13 @@
 import jsPDF from 'jspdf';
 import autoTable from 'jspdf-autotable';
 import type { jsPDF as jsPDFType } from 'jspdf';
-import type { Core, Section, Microfossil, Folder } from '../types';
+import type { Core, Section, Microfossil, Folder, AccumulationRateSettings } from '../types';
 import { PROXY_LABELS, ODV_PROXY_LABELS } from '../constants';
+import { withMisHeader, columnValue, MIS_COLUMN } from './marineIsotopeStageService';
+import { applyCompositeDepth } from './compositeDepthService';
+import { TEPHRA_REFERENCES } from '../data/tephraReferences';
+import { type AccumulationRateResult, intervalSteps, depthWeightedMean, componentMarColumn, LSR_COLUMN, BULK_MAR_COLUMN } from './accumulationRateService';
+import { buildRangeChart, rangeChartLayout, rangeAxisLabel, ABUNDANCE_RADIUS, PRESERVATION_FILL, RANGE_CHART_INK, DEFAULT_RANGE_CHART_OPTIONS, type RangeChartOptions } from './rangeChartService';
 
 // Constants for layout
 const TOP_MARGIN = 30;
@@ -97,14 +102,20 @@ const generateSectionContent = (doc: jsPDFType, section: Section, microfossils:
         addTable([], [
             ['Epoch', section.epoch], ['Climatic Period', section.geologicalPeriod],
             ['Age Range', section.ageRange],
-            ['Paleomagnetic Reversals', section.paleomagneticReversals || 'N/A'],
+            ['Paleomagnetic Notes', section.paleomagneticReversals || 'N/A'],
+            ['Polarity Zones', section.polarityRecord?.length
+                ? section.polarityRecord.map(z => `${z.polarity === 'normal' ? 'N' : z.polarity === 'reversed' ? 'R' : '?'} ${z.topDepth}-${z.bottomDepth} cm`).join(', ')
+                : 'N/A'],
         ]);
     });
     
     addSectionBlock('Lithology', () => {
         addTable([], [
             ['Primary Lithology', section.lithology || 'N/A'], ['Munsell Color', section.munsellColor || 'N/A'],
-            ['Grain Size', section.grainSize || 'N/A'], ['Tephra Layers', section.tephraLayers || 'N/A'],
+            ['Grain Size', section.grainSize || 'N/A'], ['Tephra Notes', section.tephraLayers || 'N/A'],
+            ['Tephra Layers', section.tephraRecord?.length
+                ? section.tephraRecord.map(l => `${l.depth} cm (${l.thickness} cm)${l.correlativeId ? ` = ${TEPHRA_REFERENCES.find(r => r.id === l.correlativeId)?.name ?? l.correlativeId}` : ''}`).join('; ')
+                : 'N/A'],
         ]);
     });
 
@@ -120,6 +131,10 @@ const generateSectionContent = (doc: jsPDFType, section: Section, microfossils:
             doc.setFontSize(9).setFont('helvetica', 'italic').text('No microfossil records.', LEFT_MARGIN, y);
             y += 10;
         }
+        if (section.assemblageZones?.length) {
+            addTable([['Assemblage Zone (CONISS)', 'Top (cmbsf)', 'Bottom (cmbsf)', 'Samples']],
+                section.assemblageZones.map(z => [z.label, z.topDepth.toString(), z.bottomDepth.toString(), z.sampleCount.toString()]));
+        }
     });
 
     addSectionBlock('Raw Data Series (Subsections)', () => {
@@ -136,13 +151,14 @@ const generateSectionContent = (doc: jsPDFType, section: Section, microfossils:
             } else {
                 orderedHeaders = headerArray;
             }
+            orderedHeaders = withMisHeader(orderedHeaders, section.dataPoints);
 
             const head = [orderedHeaders.map(h => PROXY_LABELS[h] || h.toUpperCase())];
             const body = section.dataPoints.map(dp => 
                 orderedHeaders.map(header => {
-                    const value = dp[header];
+                    const value = columnValue(dp, header);
                     if (value === null || value === undefined) return '-';
-                    if (typeof value === 'number') return value.toFixed(4);
+                    if (typeof value === 'number') return header === MIS_COLUMN ? String(value) : value.toFixed(4);
                     return String(value);
                 })
             );
@@ -174,6 +190,200 @@ const generateSectionContent = (doc: jsPDFType, section: Section, microfossils:
     }
 };
 
+// A depth-down profile panel (depth on the vertical axis) drawn with vector lines.
+// Null values break the line.
+const drawDepthProfile = (
+    doc: jsPDFType,
+    box: { x: number; y: number; width: number; height: number },
+    points: { depth: number; value: number | null }[],
+    depthDomain: [number, number],
+    label: string,
+    color: [number, number, number],
+) => {
+    const values = points.map(p => p.value).filter((v): v is number => v !== null);
+    const minValue = Math.min(0, ...values);
+    const maxValue = values.length > 0 ? Math.max(...values) : 1;
+    const valueSpan = maxValue - minValue || 1;
+    const depthSpan = depthDomain[1] - depthDomain[0] || 1;
+    const toX = (v: number) => box.x + (v - minValue) / valueSpan * box.width;
+    const toY = (d: number) => box.y + (d - depthDomain[0]) / depthSpan * box.height;
+
+    doc.setDrawColor(150, 150, 150);
+    doc.setLineWidth(0.2);
+    doc.rect(box.x, box.y, box.width, box.height);
+    doc.setFontSize(7).setFont('helvetica', 'normal').setTextColor(80);
+    doc.text(minValue.toFixed(minValue === 0 ? 0 : 2), box.x, box.y + box.height + 4);
+    doc.text(maxValue.toFixed(2), box.x + box.width, box.y + box.height + 4, { align: 'right' });
+    doc.text(label, box.x + box.width / 2, box.y + box.height + 8, { align: 'center' });
+
+    doc.setDrawColor(...color);
+    doc.setLineWidth(0.5);
+    for (let i = 1; i < points.length; i++) {
+        const a = points[i - 1];
+        const b = points[i];
+        if (a.value === null || b.value === null) continue;
+        doc.line(toX(a.value), toY(a.depth), toX(b.value), toY(b.depth));
+    }
+    doc.setTextColor(0);
+};
+
+const addAccumulationRatePages = (
+    doc: jsPDFType,
+    core: Core,
+    sections: Section[],
+    accumulation: { results: AccumulationRateResult[]; settings: AccumulationRateSettings },
+    userEmail: string,
+) => {
+    const title = `Sedimentation & Accumulation Rates: ${core.id}`;
+    const creationDate = new Date().toISOString();
+    const pageWidth = doc.internal.pageSize.getWidth();
+    const { settings } = accumulation;
+    const marColumns = [BULK_MAR_COLUMN, ...settings.componentColumns.map(componentMarColumn)];
+
+    accumulation.results.filter(r => r.intervals.length > 0).forEach(result => {
+        const section = sections.find(s => s.id === result.sectionId);
+        if (!section) return;
+        doc.addPage();
+        addHeader(doc, title, userEmail, creationDate);
+        let y = TOP_MARGIN + 4;
+        doc.setFontSize(12).setFont('helvetica', 'bold').text(section.name, LEFT_MARGIN, y);
+        y += 5;
+        doc.setFontSize(8).setFont('helvetica', 'normal').text(
+            `Intervals between ${settings.source === 'tiePoints' ? 'age-model tie-points' : 'dated samples'}.` +
+            (settings.densityColumn ? ` MAR = LSR x dry bulk density (${settings.densityColumn}); components in wt%.` : ''),
+            LEFT_MARGIN, y);
+        y += 6;
+
+        const depths = result.intervals.flatMap(iv => [iv.topDepth, iv.bottomDepth]);
+        const depthDomain: [number, number] = [Math.min(...depths), Math.max(...depths)];
+        const panelHeight = 80;
+        const panelWidth = (pageWidth - LEFT_MARGIN * 2 - 30) / 2;
+        const ageProfile = result.intervals.flatMap((iv, i) => i === 0
+            ? [{ depth: iv.topDepth, value: iv.topAge }, { depth: iv.bottomDepth, value: iv.bottomAge }]
+            : [{ depth: iv.bottomDepth, value: iv.bottomAge }]);
+        doc.setFontSize(7).text(`${depthDomain[0].toFixed(0)} cm`, LEFT_MARGIN + 12, y + 2, { align: 'right' });
+        doc.text(`${depthDomain[1].toFixed(0)} cm`, LEFT_MARGIN + 12, y + panelHeight, { align: 'right' });
+        drawDepthProfile(doc, { x: LEFT_MARGIN + 15, y, width: panelWidth, height: panelHeight }, ageProfile, depthDomain, PROXY_LABELS.age, [74, 144, 226]);
+        drawDepthProfile(doc, { x: LEFT_MARGIN + 30 + panelWidth, y, width: panelWidth, height: panelHeight }, intervalSteps(result.intervals), depthDomain, PROXY_LABELS[LSR_COLUMN], [136, 132, 216]);
+        y += panelHeight + 14;
+
+        const means = [LSR_COLUMN, ...(settings.densityColumn ? marColumns : [])]
+            .map(column => {
+                const mean = depthWeightedMean(result.samples, column);
+                const label = column === LSR_COLUMN ? 'LSR (cm/kyr)' : column === BULK_MAR_COLUMN ? 'Bulk MAR (g/cm²/kyr)' : `${column.replace(/MAR$/, '')} MAR (g/cm²/kyr)`;
+                return mean === null ? null : [`Mean ${label}`, mean.toFixed(3)];
+            })
+            .filter((row): row is string[] => row !== null);
+
+        autoTable(doc, {
+            startY: y,
+            head: [['Top (cm)', 'Bottom (cm)', 'Top age (ka)', 'Bottom age (ka)', 'LSR (cm/kyr)']],
+            body: result.intervals.map(iv => [
+                iv.topDepth.toFixed(1), iv.bottomDepth.toFixed(1), iv.topAge.toFixed(2), iv.bottomAge.toFixed(2),
+                iv.rate === null ? 'reversal' : iv.rate.toFixed(2),
+            ]),
+            theme: 'striped',
+            headStyles: { fillColor: [74, 144, 226] },
+            styles: { fontSize: 8, cellPadding: 1.5 },
+            margin: { top: TOP_MARGIN, bottom: BOTTOM_MARGIN, left: LEFT_MARGIN, right: LEFT_MARGIN },
+            didDrawPage: () => addHeader(doc, title, userEmail, creationDate),
+        });
+        if (means.length > 0) {
+            autoTable(doc, {
+                startY: (doc as any).lastAutoTable.finalY + 6,
+                body: means,
+                theme: 'plain',
+                styles: { fontSize: 8, cellPadding: 1.5 },
+                columnStyles: { 0: { fontStyle: 'bold' } },
+                margin: { top: TOP_MARGIN, bottom: BOTTOM_MARGIN, left: LEFT_MARGIN, right: LEFT_MARGIN },
+                didDrawPage: () => addHeader(doc, title, userEmail, creationDate),
+            });
+        }
+    });
+};
+
+// A page holding a captured chart image, scaled to fit below the header.
+const addChartImagePage = (doc: jsPDFType, title: string, chartData: { dataUrl: string; aspectRatio: number }, userEmail: string) => {
+    doc.addPage();
+    addHeader(doc, title, userEmail, new Date().toISOString());
+
+    const pageWidth = doc.internal.pageSize.getWidth();
+    const pageHeight = doc.internal.pageSize.getHeight();
+    const contentWidth = pageWidth - (LEFT_MARGIN * 2);
+
+    let finalImgWidth = contentWidth;
+    let finalImgHeight = finalImgWidth / chartData.aspectRatio;
+
+    const availableHeight = pageHeight - TOP_MARGIN - BOTTOM_MARGIN - 20; // Extra margin for header and padding
+    if (finalImgHeight > availableHeight) {
+        finalImgHeight = availableHeight;
+        finalImgWidth = finalImgHeight * chartData.aspectRatio;
+    }
+
+    const x = (pageWidth - finalImgWidth) / 2;
+    const y = TOP_MARGIN + 10; // Extra margin below header
+
+    doc.addImage(chartData.dataUrl, 'PNG', x, y, finalImgWidth, finalImgHeight);
+};
+
+// Range chart drawn as vectors from the same layout as the on-screen SVG, scaled to fit the page.
+const addRangeChartPage = (doc: jsPDFType, core: Core, sections: Section[], microfossils: Microfossil[], options: RangeChartOptions, userEmail: string) => {
+    const chart = buildRangeChart(sections, microfossils, options);
+    if (chart.taxa.length === 0) return;
+    const layout = rangeChartLayout(chart);
+    doc.addPage();
+    addHeader(doc, `Range Chart: ${core.id}`, userEmail, new Date().toISOString());
+
+    const pageWidth = doc.internal.pageSize.getWidth();
+    const pageHeight = doc.internal.pageSize.getHeight();
+    const scale = Math.min((pageWidth - LEFT_MARGIN * 2) / layout.width, (pageHeight - TOP_MARGIN - BOTTOM_MARGIN - 10) / layout.height);
+    const originX = (pageWidth - layout.width * scale) / 2;
+    const originY = TOP_MARGIN + 4;
+    const X = (x: number) => originX + x * scale;
+    const Y = (y: number) => originY + y * scale;
+    const fontPt = (px: number) => Math.max(px * scale * 2.835, 4);
+    const plotRight = layout.left + chart.taxa.length * layout.columnWidth;
+
+    chart.intervals.forEach((interval, i) => {
+        if (i % 2 !== 0) return;
+        doc.setFillColor('#f3f4f6');
+        doc.rect(X(layout.left), Y(layout.toY(interval.top)), (plotRight - layout.left) * scale, (layout.toY(interval.bottom) - layout.toY(interval.top)) * scale, 'F');
+    });
+
+    doc.setDrawColor(RANGE_CHART_INK).setTextColor(RANGE_CHART_INK).setLineWidth(0.2);
+    doc.line(X(layout.left), Y(layout.plotTop), X(layout.left), Y(layout.plotTop + layout.plotHeight));
+    doc.setFont('helvetica', 'normal').setFontSize(fontPt(10));
+    layout.ticks.forEach(tick => {
+        doc.line(X(layout.left - 5), Y(layout.toY(tick)), X(layout.left), Y(layout.toY(tick)));
+        doc.text(String(tick), X(layout.left - 8), Y(layout.toY(tick)), { align: 'right', baseline: 'middle' });
+    });
+    doc.setFontSize(fontPt(11)).text(rangeAxisLabel(chart.axis), X(16), Y(layout.plotTop + layout.plotHeight / 2), { angle: 90, align: 'center' });
+
+    chart.taxa.forEach((taxon, index) => {
+        const x = layout.columnX(index);
+        doc.setFont('helvetica', 'italic').setFontSize(fontPt(10)).text(taxon.name, X(x), Y(layout.plotTop - 8), { angle: 70 });
+        doc.setLineWidth(0.35).line(X(x), Y(layout.toY(taxon.last)), X(x), Y(layout.toY(taxon.first)));
+        doc.setLineWidth(0.2);
+        taxon.occurrences.forEach(o => {
+            doc.setFillColor(PRESERVATION_FILL[o.preservation]);
+            doc.circle(X(x), Y(layout.toY(o.position)), ABUNDANCE_RADIUS[o.abundance] * scale, 'FD');
+        });
+    });
+
+    doc.setFont('helvetica', 'normal').setFontSize(fontPt(10));
+    (['Abundant', 'Common', 'Few', 'Rare', 'Present'] as const).forEach((abundance, i) => {
+        const x = layout.left + i * 62;
+        doc.setFillColor(PRESERVATION_FILL.Good).circle(X(x + 8), Y(layout.legendY), ABUNDANCE_RADIUS[abundance] * scale, 'FD');
+        doc.text(abundance, X(x + 18), Y(layout.legendY), { baseline: 'middle' });
+    });
+    (['Good', 'Moderate', 'Poor'] as const).forEach((preservation, i) => {
+        const x = layout.left + i * 82;
+        doc.setFillColor(PRESERVATION_FILL[preservation]).circle(X(x + 8), Y(layout.legendY + 20), ABUNDANCE_RADIUS.Common * scale, 'FD');
+        doc.text(`${preservation} pres.`, X(x + 18), Y(layout.legendY + 20), { baseline: 'middle' });
+    });
+    doc.setTextColor(0);
+};
+
 export const generateSectionReport = (section: Section, microfossils: Microfossil[], userEmail: string) => {
     const doc = new jsPDF('p', 'mm', 'a4');
     const title = `Section Report: ${section.name}`;
@@ -186,7 +396,16 @@ export const generateSectionReport = (section: Section, microfossils: Microfossi
     doc.save(`${section.core_id}_${section.name}_Report.pdf`);
 };
 
-export const generateFullCoreReport = (core: Core, sections: Section[], microfossils: Microfossil[], userEmail: string, synthesisChartData: { dataUrl: string; aspectRatio: number } | null = null) => {
+export const generateFullCoreReport = (
+    core: Core,
+    sections: Section[],
+    microfossils: Microfossil[],
+    userEmail: string,
+    synthesisChartData: { dataUrl: string; aspectRatio: number } | null = null,
+    accumulation: { results: AccumulationRateResult[]; settings: AccumulationRateSettings } | null = null,
+    ageDepthChartData: { dataUrl: string; aspectRatio: number } | null = null,
+    rangeChartOptions: RangeChartOptions = DEFAULT_RANGE_CHART_OPTIONS,
+) => {
     const doc = new jsPDF('p', 'mm', 'a4');
     
     // Title Page
@@ -207,35 +426,19 @@ export const generateFullCoreReport = (core: Core, sections: Section[], microfos
         addHeader(doc, sectionTitle, userEmail, creationDate);
         generateSectionContent(doc, section, microfossils, userEmail, sectionTitle);
     });
-    
-    // Add Synthesis Chart Page if it exists
-    if (synthesisChartData) {
-        doc.addPage();
-        const chartTitle = `Core Synthesis Chart`;
-        const creationDate = new Date().toISOString();
-        addHeader(doc, chartTitle, userEmail, creationDate);
-
-        const pageWidth = doc.internal.pageSize.getWidth();
-        const pageHeight = doc.internal.pageSize.getHeight();
-        const contentWidth = pageWidth - (LEFT_MARGIN * 2);
-        
-        const aspectRatio = synthesisChartData.aspectRatio;
-
-        let finalImgWidth = contentWidth;
-        let finalImgHeight = finalImgWidth / aspectRatio;
-
-        const availableHeight = pageHeight - TOP_MARGIN - BOTTOM_MARGIN - 20; // Extra margin for header and padding
-        if (finalImgHeight > availableHeight) {
-            finalImgHeight = availableHeight;
-            finalImgWidth = finalImgHeight * aspectRatio;
-        }
 
-        const x = (pageWidth - finalImgWidth) / 2;
-        const y = TOP_MARGIN + 10; // Extra margin below header
+    addRangeChartPage(doc, core, sections, microfossils, rangeChartOptions, userEmail);
 
-        doc.addImage(synthesisChartData.dataUrl, 'PNG', x, y, finalImgWidth, finalImgHeight);
+    if (accumulation) {
+        addAccumulationRatePages(doc, core, sections, accumulation, userEmail);
+    }
+    
+    if (synthesisChartData) {
+        addChartImagePage(doc, 'Core Synthesis Chart', synthesisChartData, userEmail);
+    }
+    if (ageDepthChartData) {
+        addChartImagePage(doc, 'Age–Depth Model', ageDepthChartData, userEmail);
     }
-
 
     // Add footers to all pages at the end (including title page initially)
     addFooters(doc);
@@ -248,14 +451,20 @@ export const generateFullCoreReport = (core: Core, sections: Section[], microfos
     doc.save(`${core.id}_Full_Report.pdf`);
 };
 
-export const exportFolderToOdv = (folder: Folder, cores: Core[], allSections: Section[]) => {
-    if (allSections.length === 0 || allSections.every(s => s.dataPoints.length === 0)) {
+export const exportFolderToOdv = (folder: Folder, cores: Core[], sections: Section[]) => {
+    if (sections.length === 0 || sections.every(s => s.dataPoints.length === 0)) {
         // The calling function should handle toast for this case.
         throw new Error("No data points found in any section within this folder.");
     }
     
     const delimiter = ';';
 
+    // Create a map for quick core lookup
+    const coreMap = new Map(cores.map(c => [c.id, c]));
+
+    // Add each core's composite depth (CCSF-A) where it has an affine table
+    const allSections = sections.map(section => applyCompositeDepth([section], coreMap.get(section.core_id)?.compositeDepth)[0]);
+
     // Collect all headers from all data points across all sections
     const allPossibleHeaders = new Set<string>();
     allSections.forEach(section => {
@@ -264,11 +473,11 @@ export const exportFolderToOdv = (folder: Folder, cores: Core[], allSections: Se
         });
     });
 
-    const priority = ['subsection', 'depth', 'age'];
-    const dataPointHeaders = [
+    const priority = ['subsection', 'depth', 'ccsf', 'age'];
+    const dataPointHeaders = withMisHeader([
       ...priority.filter(p => allPossibleHeaders.has(p)),
       ...Array.from(allPossibleHeaders).filter(key => !priority.includes(key) && key !== '$$typeof' && key !== '_owner') // Filter out React internals if they sneak in
-    ];
+    ], allSections.flatMap(s => s.dataPoints));
 
     const staticHeaders = ['Cruise', 'Station', 'Type', 'Longitude', 'Latitude', 'Water_Depth [m]'];
     const dynamicHeaders = dataPointHeaders.map(key => ODV_PROXY_LABELS[key] || key);
@@ -280,9 +489,6 @@ export const exportFolderToOdv = (folder: Folder, cores: Core[], allSections: Se
     odvContent += `//---\n`;
     odvContent += allHeaders.join(delimiter) + '\n';
 
-    // Create a map for quick core lookup
-    const coreMap = new Map(cores.map(c => [c.id, c]));
-
     // Data Rows
     allSections.forEach(section => {
         const core = coreMap.get(section.core_id);
@@ -299,7 +505,7 @@ export const exportFolderToOdv = (folder: Folder, cores: Core[], allSections: Se
             ];
 
             const dynamicValues = dataPointHeaders.map(header => {
-                const value = dp[header];
+                const value = columnValue(dp, header);
                 return (value === null || value === undefined) ? '' : String(value).replace(/;/g,',');
             });
             
@@ -0,0 +1,158 @@
+import type { Section, DataPoint, SstCalibrationId, SstCalibrationRecord, SeawaterD18OSettings } from '../types';
+import { applySeawaterD18O, clearSeawaterD18O } from './seawaterIsotopeService';
+
+// =================================================================
+// PROXY-TO-SST CALIBRATION
+// Published transfer equations that turn a measured proxy column into a
+// temperature column. Each calibration writes its own derived column; the
+// first calibration of a section also fills `calculatedSST`. The record
+// stored on the section (equation, constants, timestamp) is the provenance
+// of the derived values. A census transfer function set to fill
+// `calculatedSST` takes precedence over the calibrations where it has a value
+// and the sample has a good modern analogue.
+// Not implemented yet, left for a follow-up request: the Bayesian BAYSPLINE
+// (UK'37; Tierney & Tingley, 2018) and BAYSPAR (TEX86; Tierney & Tingley,
+// 2014) calibrations, which need their published posterior parameter sets,
+// and the remaining species-specific Mg/Ca equations of Anand et al. (2003).
+// =================================================================
+
+export interface SstCalibrationDefinition {
+    id: SstCalibrationId;
+    label: string;
+    citation: string;
+    sourceColumn: string;
+    targetColumn: string;
+    equation: string;
+    constants: Record<string, number>;
+    presets?: { label: string; constants: Record<string, number> }[];
+    toSst: (value: number, constants: Record<string, number>) => number | null;
+}
+
+export const SST_CALIBRATIONS: Record<SstCalibrationId, SstCalibrationDefinition> = {
+    'mgca-anand2003': {
+        id: 'mgca-anand2003',
+        label: 'Mg/Ca → SST (Anand et al., 2003)',
+        citation: 'Anand, P., Elderfield, H., and Conte, M. H. (2003), Paleoceanography, 18(2), 1050, doi:10.1029/2002PA000846.',
+        sourceColumn: 'mgCaRatio',
+        targetColumn: 'sstMgCa',
+        equation: 'Mg/Ca = B · exp(A · T)',
+        constants: { A: 0.09, B: 0.38 },
+        presets: [
+            { label: 'Multi-species', constants: { A: 0.09, B: 0.38 } },
+            { label: 'G. ruber (white), 250–350 µm', constants: { A: 0.09, B: 0.449 } },
+        ],
+        toSst: (mgCa, { A, B }) => mgCa > 0 && A !== 0 && B > 0 ? Math.log(mgCa / B) / A : null,
+    },
+    'uk37-muller1998': {
+        id: 'uk37-muller1998',
+        label: "Uᴷ'₃₇ → SST (Müller et al., 1998)",
+        citation: 'Müller, P. J., Kirst, G., Ruhland, G., von Storch, I., and Rosell-Melé, A. (1998), Geochimica et Cosmochimica Acta, 62(10), 1757-1772.',
+        sourceColumn: 'uk37',
+        targetColumn: 'sstUk37',
+        equation: "Uᴷ'₃₇ = slope · T + intercept",
+        constants: { slope: 0.033, intercept: 0.044 },
+        toSst: (uk37, { slope, intercept }) => uk37 >= 0 && uk37 <= 1 && slope !== 0 ? (uk37 - intercept) / slope : null,
+    },
+    'tex86h-kim2010': {
+        id: 'tex86h-kim2010',
+        label: 'TEX86ᴴ → SST (Kim et al., 2010)',
+        citation: 'Kim, J.-H., et al. (2010), Geochimica et Cosmochimica Acta, 74(16), 4639-4654, doi:10.1016/j.gca.2010.05.027.',
+        sourceColumn: 'tex86',
+        targetColumn: 'sstTex86',
+        equation: 'T = a · log₁₀(TEX86) + b',
+        constants: { a: 68.4, b: 38.6 },
+        toSst: (tex86, { a, b }) => tex86 > 0 ? a * Math.log10(tex86) + b : null,
+    },
+    'srca-correge2006': {
+        id: 'srca-correge2006',
+        label: 'Coral Sr/Ca → SST (Corrège, 2006)',
+        citation: 'Corrège, T. (2006), Palaeogeography, Palaeoclimatology, Palaeoecology, 232, 408-428, doi:10.1016/j.palaeo.2005.10.014.',
+        sourceColumn: 'srCa',
+        targetColumn: 'sstSrCa',
+        equation: 'Sr/Ca = intercept + slope · T',
+        constants: { intercept: 10.553, slope: -0.0607 },
+        toSst: (srCa, { intercept, slope }) => slope !== 0 ? (srCa - intercept) / slope : null,
+    },
+};
+
+/** A new calibration record with the definition's default (or given) constants. */
+export const createSstCalibration = (calibrationId: SstCalibrationId, constants?: Record<string, number>): SstCalibrationRecord => {
+    const definition = SST_CALIBRATIONS[calibrationId];
+    return {
+        calibrationId,
+        sourceColumn: definition.sourceColumn,
+        targetColumn: definition.targetColumn,
+        equation: definition.equation,
+        constants: { ...definition.constants, ...constants },
+        computedAt: new Date().toISOString(),
+    };
+};
+
+const withoutKeys = (dp: DataPoint, keys: string[]): DataPoint => {
+    const copy = { ...dp };
+    keys.forEach(key => delete copy[key]);
+    return copy;
+};
+
+/**
+ * Recomputes every derived column of a section from its source columns: the
+ * SST calibrations first (rounded to 0.01 °C; points whose source value is
+ * missing or out of the equation's domain get no value), then seawater δ18O,
+ * which may use a calibrated temperature. A transfer-function SST filling
+ * `calculatedSST` is copied in between the two, except for samples flagged
+ * `noAnalogue`. Sections with nothing to
+ * derive are returned unchanged.
+ */
+export const recalculateDerivedColumns = (section: Section): Section => {
+    const calibrations = section.sstCalibrations ?? [];
+    const seawater = section.seawaterD18O;
+    const transferFill = section.transferFunction?.fillCalculatedSST ?? false;
+    if (calibrations.length === 0 && !seawater && !transferFill) return section;
+    const computedAt = new Date().toISOString();
+    const derivedKeys = [...calibrations.map(c => c.targetColumn), 'calculatedSST'];
+
+    let dataPoints = calibrations.length === 0 && !transferFill ? section.dataPoints : section.dataPoints.map(dp => {
+        const updated = withoutKeys(dp, derivedKeys);
+        calibrations.forEach((calibration, index) => {
+            const source = dp[calibration.sourceColumn];
+            if (typeof source !== 'number' || !isFinite(source)) return;
+            const sst = SST_CALIBRATIONS[calibration.calibrationId].toSst(source, calibration.constants);
+            if (sst === null || !isFinite(sst)) return;
+            const rounded = parseFloat(sst.toFixed(2));
+            updated[calibration.targetColumn] = rounded;
+            if (index === 0) updated.calculatedSST = rounded;
+        });
+        if (transferFill && typeof dp.sstTransfer === 'number' && dp.noAnalogue !== true) updated.calculatedSST = dp.sstTransfer;
+        return updated;
+    });
+    if (seawater) dataPoints = applySeawaterD18O(dataPoints, seawater);
+
+    return {
+        ...section,
+        dataPoints,
+        sstCalibrations: calibrations.map(c => ({ ...c, computedAt })),
+        ...(seawater && { seawaterD18O: { ...seawater, computedAt } }),
+    };
+};
+
+/** Replaces a section's calibrations, clearing columns written by calibrations that were removed. */
+export const setSstCalibrations = (section: Section, calibrations: SstCalibrationRecord[]): Section => {
+    const keptColumns = new Set(calibrations.map(c => c.targetColumn));
+    const staleColumns = (section.sstCalibrations ?? []).map(c => c.targetColumn).filter(col => !keptColumns.has(col));
+    if (calibrations.length === 0) staleColumns.push('calculatedSST');
+    const cleaned: Section = {
+        ...section,
+        dataPoints: staleColumns.length > 0 ? section.dataPoints.map(dp => withoutKeys(dp, staleColumns)) : section.dataPoints,
+        sstCalibrations: calibrations,
+    };
+    return recalculateDerivedColumns(cleaned);
+};
+
+/** Sets or clears (undefined) a section's seawater δ18O calculation and recomputes derived columns. */
+export const setSeawaterD18O = (section: Section, settings: SeawaterD18OSettings | undefined): Section => {
+    if (!settings) {
+        const { seawaterD18O: _removed, ...rest } = section;
+        return recalculateDerivedColumns({ ...rest, dataPoints: clearSeawaterD18O(section.dataPoints) });
+    }
+    return recalculateDerivedColumns({ ...section, seawaterD18O: settings });
+};
@@ -0,0 +1,233 @@
+import type { CalibratedDate, CalibratedRange, CalibrationCurveId, CalibrationCurvePoint, ReservoirCorrection, TiePoint } from '../types';
+
+// =================================================================
+// RADIOCARBON CALIBRATION
+// Converts conventional 14C ages into calendar age probability
+// distributions against IntCal20 (atmospheric) or Marine20 (marine, with a
+// local ΔR reservoir correction), following the standard likelihood
+// approach used by OxCal / CALIB:
+//   IntCal20: Reimer, P. J., et al. (2020), Radiocarbon, 62(4), 725-757, doi:10.1017/RDC.2020.41.
+//   Marine20: Heaton, T. J., et al. (2020), Radiocarbon, 62(4), 779-820, doi:10.1017/RDC.2020.68.
+// The curves are not bundled: the published tables (intcal20.14c,
+// marine20.14c from intcal.org, tabulated every 5-20 years) are imported
+// once per browser, and calibration refuses to run without them, since a
+// coarser curve gives ranges that look precise but are wrong.
+// =================================================================
+
+export const CURVE_FILES: Record<CalibrationCurveId, string> = {
+    Marine20: 'marine20.14c',
+    IntCal20: 'intcal20.14c',
+};
+
+const STORAGE_KEY = 'paleocore-calibration-curves';
+
+// Fewest rows accepted as a full table; the published ones have several thousand.
+const MIN_IMPORTED_ROWS = 1000;
+
+interface ImportedCalibrationCurve {
+    fileName: string;
+    points: CalibrationCurvePoint[];
+}
+
+export interface CalibrationCurveSource {
+    points: CalibrationCurvePoint[];
+    importedFrom: string; // file name
+}
+
+const readImportedCurves = (): Partial<Record<CalibrationCurveId, ImportedCalibrationCurve>> => {
+    try {
+        const saved = window.localStorage.getItem(STORAGE_KEY);
+        return saved ? JSON.parse(saved) : {};
+    } catch {
+        return {};
+    }
+};
+
+const writeImportedCurves = (curves: Partial<Record<CalibrationCurveId, ImportedCalibrationCurve>>) => {
+    try {
+        window.localStorage.setItem(STORAGE_KEY, JSON.stringify(curves));
+    } catch (error) {
+        throw new Error('Could not store the calibration curve in this browser (storage may be full).');
+    }
+};
+
+/** The imported curve table, or null if it has not been imported in this browser. */
+export const getCalibrationCurve = (curveId: CalibrationCurveId): CalibrationCurveSource | null => {
+    const imported = readImportedCurves()[curveId];
+    return imported ? { points: imported.points, importedFrom: imported.fileName } : null;
+};
+
+/**
+ * Parses a published .14c table (comma-separated CAL BP, 14C age, error,
+ * Δ14C, sigma; '#' lines are comments) into curve points sorted by calendar age.
+ */
+export const parseCalibrationCurveText = (text: string): CalibrationCurvePoint[] => {
+    const points = text
+        .split(/\r?\n/)
+        .map(line => line.trim())
+        .filter(line => line && !line.startsWith('#'))
+        .map(line => line.split(/[\s,;]+/).map(parseFloat))
+        .filter(cols => cols.length >= 3 && cols.slice(0, 3).every(isFinite) && cols[2] > 0)
+        .map(cols => ({ calBP: cols[0], c14Age: cols[1], sigma: cols[2] }))
+        .sort((a, b) => a.calBP - b.calBP);
+    if (points.length < MIN_IMPORTED_ROWS) {
+        throw new Error(`Found ${points.length} curve rows; expected the full published table (CAL BP, 14C age, error per line).`);
+    }
+    return points;
+};
+
+/** Parses and stores a published curve table, replacing any earlier import. */
+export const importCalibrationCurve = (curveId: CalibrationCurveId, fileName: string, text: string): CalibrationCurveSource => {
+    const points = parseCalibrationCurveText(text);
+    writeImportedCurves({ ...readImportedCurves(), [curveId]: { fileName, points } });
+    return { points, importedFrom: fileName };
+};
+
+/** Drops an imported table; calibration against that curve is unavailable until the next import. */
+export const resetCalibrationCurve = (curveId: CalibrationCurveId) => {
+    const { [curveId]: _removed, ...rest } = readImportedCurves();
+    writeImportedCurves(rest);
+};
+
+// Resolution of the calendar-age grid the distribution is evaluated on.
+const GRID_STEP_YEARS = 5;
+
+// Linear interpolation of the curve mean and 1σ at a calendar age.
+const curveAt = (curve: CalibrationCurvePoint[], calBP: number) => {
+    let lo = 0;
+    let hi = curve.length - 1;
+    while (hi - lo > 1) {
+        const mid = (lo + hi) >> 1;
+        if (curve[mid].calBP <= calBP) lo = mid;
+        else hi = mid;
+    }
+    const a = curve[lo];
+    const b = curve[hi];
+    const t = b.calBP === a.calBP ? 0 : (calBP - a.calBP) / (b.calBP - a.calBP);
+    return {
+        c14Age: a.c14Age + t * (b.c14Age - a.c14Age),
+        sigma: a.sigma + t * (b.sigma - a.sigma),
+    };
+};
+
+// Groups the most probable grid cells until the target mass is reached,
+// then merges contiguous cells into ranges.
+const highestDensityRanges = (distribution: { calBP: number; probability: number }[], mass: number): CalibratedRange[] => {
+    const byProbability = distribution
+        .map((d, index) => ({ ...d, index }))
+        .sort((a, b) => b.probability - a.probability);
+
+    const included = new Set<number>();
+    let cumulative = 0;
+    for (const cell of byProbability) {
+        if (cumulative >= mass) break;
+        included.add(cell.index);
+        cumulative += cell.probability;
+    }
+
+    const ranges: CalibratedRange[] = [];
+    let current: CalibratedRange | null = null;
+    distribution.forEach((d, index) => {
+        if (included.has(index)) {
+            if (current) {
+                current.to = d.calBP;
+                current.probability += d.probability;
+            } else {
+                current = { from: d.calBP, to: d.calBP, probability: d.probability };
+            }
+        } else if (current) {
+            ranges.push(current);
+            current = null;
+        }
+    });
+    if (current) ranges.push(current);
+    return ranges;
+};
+
+/**
+ * Calibrates a conventional radiocarbon age (14C yr BP ± 1σ).
+ * For Marine20 the local reservoir offset ΔR ± σ is added to the curve and
+ * its uncertainty combined in quadrature; it is ignored for IntCal20.
+ */
+export const calibrateRadiocarbonDate = (
+    c14Age: number,
+    c14Error: number,
+    curveId: CalibrationCurveId,
+    reservoirCorrection?: ReservoirCorrection
+): CalibratedDate => {
+    if (!isFinite(c14Age) || !isFinite(c14Error) || c14Error <= 0) {
+        throw new Error('A radiocarbon age and a positive 1σ error are required for calibration.');
+    }
+    const source = getCalibrationCurve(curveId);
+    if (!source) {
+        throw new Error(`Import the published ${curveId} table (${CURVE_FILES[curveId]} from intcal.org) before calibrating.`);
+    }
+    const { points: curve, importedFrom } = source;
+    const deltaR = curveId === 'Marine20' ? reservoirCorrection?.deltaR ?? 0 : 0;
+    const deltaRError = curveId === 'Marine20' ? reservoirCorrection?.deltaRError ?? 0 : 0;
+
+    const minCurveAge = curve[0].c14Age + deltaR;
+    const maxCurveAge = curve[curve.length - 1].c14Age + deltaR;
+    if (c14Age - 4 * c14Error > maxCurveAge || c14Age + 4 * c14Error < minCurveAge) {
+        throw new Error(`${c14Age} ± ${c14Error} 14C yr BP is outside the range of the ${curveId} curve.`);
+    }
+
+    const start = curve[0].calBP;
+    const end = curve[curve.length - 1].calBP;
+    const raw: { calBP: number; probability: number }[] = [];
+    for (let calBP = start; calBP <= end; calBP += GRID_STEP_YEARS) {
+        const { c14Age: mu, sigma } = curveAt(curve, calBP);
+        const totalSigma = Math.sqrt(c14Error * c14Error + sigma * sigma + deltaRError * deltaRError);
+        const z = (c14Age - (mu + deltaR)) / totalSigma;
+        raw.push({ calBP, probability: Math.exp(-0.5 * z * z) / totalSigma });
+    }
+
+    const total = raw.reduce((sum, d) => sum + d.probability, 0);
+    if (total === 0) {
+        throw new Error(`${c14Age} ± ${c14Error} 14C yr BP could not be calibrated against ${curveId}.`);
+    }
+    const normalized = raw.map(d => ({ calBP: d.calBP, probability: d.probability / total }));
+    // Drop negligible tails so stored distributions stay small.
+    const distribution = normalized.filter(d => d.probability > 1e-6);
+
+    const mean = normalized.reduce((sum, d) => sum + d.calBP * d.probability, 0);
+    const variance = normalized.reduce((sum, d) => sum + (d.calBP - mean) ** 2 * d.probability, 0);
+    let cumulative = 0;
+    let median = mean;
+    for (const d of normalized) {
+        cumulative += d.probability;
+        if (cumulative >= 0.5) {
+            median = d.calBP;
+            break;
+        }
+    }
+
+    return {
+        c14Age,
+        c14Error,
+        curve: curveId,
+        curveSource: importedFrom,
+        ...(curveId === 'Marine20' && reservoirCorrection && { reservoirCorrection }),
+        distribution,
+        median,
+        mean,
+        sd: Math.sqrt(variance),
+        hpd68: highestDensityRanges(normalized, 0.682),
+        hpd95: highestDensityRanges(normalized, 0.954),
+    };
+};
+
+/**
+ * Turns a calibrated date into an age-model tie-point (ages in ka), using the
+ * median as the age and the distribution's standard deviation as 1σ.
+ */
+export const calibratedDateToTiePoint = (calibrated: CalibratedDate, sectionId: string, depth: number): TiePoint => ({
+    id: `14C-${sectionId}-${depth}-${Date.now()}`,
+    sectionId,
+    depth,
+    age: parseFloat((calibrated.median / 1000).toFixed(4)),
+    ageUncertainty: parseFloat((calibrated.sd / 1000).toFixed(4)),
+});
+
+export const formatCalibratedRanges = (ranges: CalibratedRange[]): string =>
+    ranges.map(r => `${r.from}–${r.to} (${(r.probability * 100).toFixed(1)}%)`).join(', ');
@@ -0,0 +1,183 @@
+import type { Section, Microfossil, FossilAbundance, FossilPreservation } from '../types';
+
+// =================================================================
+// RANGE CHART
+// Occurrence chart of every taxon recorded in a core's sections. Fossil
+// records belong to a whole section, so each occurrence spans the section's
+// interval on the core (from the previous section's depth to its own, as in
+// the stratigraphic column) and is plotted at its midpoint; against age the
+// interval is the span of the section's dated samples. First occurrence (FO)
+// is the deepest/oldest record of a taxon, last occurrence (LO) the
+// shallowest/youngest. Barren records are not occurrences.
+// Symbol size encodes abundance and fill encodes preservation (solid good,
+// grey moderate, open poor). The same layout drives the on-screen SVG, the
+// SVG export and the PDF report page.
+// =================================================================
+
+export type RangeChartAxis = 'depth' | 'age';
+export type RangeChartSort = 'first' | 'last' | 'taxonomy';
+
+export interface RangeChartOptions {
+    axis: RangeChartAxis;
+    sort: RangeChartSort;
+}
+
+export const DEFAULT_RANGE_CHART_OPTIONS: RangeChartOptions = { axis: 'depth', sort: 'first' };
+
+export interface RangeInterval {
+    sectionId: string;
+    sectionName: string;
+    top: number;
+    bottom: number;
+    position: number;
+}
+
+export interface RangeOccurrence extends RangeInterval {
+    abundance: FossilAbundance;
+    preservation: FossilPreservation;
+    observations: string;
+}
+
+export interface RangeTaxon {
+    fossilId: string;
+    name: string;
+    stratigraphicRange: string;
+    first: number; // FO position (largest depth or age)
+    last: number; // LO position
+    occurrences: RangeOccurrence[];
+}
+
+export interface RangeChart {
+    axis: RangeChartAxis;
+    intervals: RangeInterval[]; // every section with fossil records, top down
+    taxa: RangeTaxon[];
+    min: number;
+    max: number;
+}
+
+export const ABUNDANCE_RADIUS: Record<FossilAbundance, number> = {
+    Abundant: 7, Common: 5.5, Few: 4.2, Rare: 3, Present: 2.2, Barren: 0,
+};
+
+// Colours are fixed rather than themed so exported charts print on white.
+export const PRESERVATION_FILL: Record<FossilPreservation, string> = {
+    Good: '#1f2937', Moderate: '#9ca3af', Poor: '#ffffff',
+};
+
+export const RANGE_CHART_INK = '#1f2937';
+
+const sectionAges = (section: Section) =>
+    section.dataPoints.map(dp => dp.age).filter((age): age is number => typeof age === 'number' && isFinite(age));
+
+/** Whether every section with fossil records has dated samples, so the chart can be drawn against age. */
+export const canPlotAgainstAge = (sections: Section[]): boolean =>
+    sections.filter(s => s.microfossilRecords.length > 0).every(s => sectionAges(s).length > 0);
+
+const taxonomyKey = (fossil: Microfossil | undefined, fossilId: string) =>
+    fossil ? [fossil.taxonomy.class, fossil.taxonomy.order, fossil.taxonomy.family, fossil.taxonomy.genus, fossil.taxonomy.species].join('|').toLowerCase() : `~${fossilId}`;
+
+export const buildRangeChart = (sections: Section[], microfossils: Microfossil[], options: RangeChartOptions): RangeChart => {
+    const axis: RangeChartAxis = options.axis === 'age' && canPlotAgainstAge(sections) ? 'age' : 'depth';
+    const sorted = [...sections].sort((a, b) => a.sectionDepth - b.sectionDepth);
+
+    const intervals = sorted.flatMap((section, index): RangeInterval[] => {
+        if (section.microfossilRecords.length === 0) return [];
+        let top: number;
+        let bottom: number;
+        if (axis === 'age') {
+            const ages = sectionAges(section);
+            top = Math.min(...ages);
+            bottom = Math.max(...ages);
+        } else {
+            top = index > 0 ? sorted[index - 1].sectionDepth : 0;
+            bottom = section.sectionDepth;
+        }
+        return [{ sectionId: section.id, sectionName: section.name, top, bottom, position: (top + bottom) / 2 }];
+    });
+
+    const byTaxon = new Map<string, RangeOccurrence[]>();
+    intervals.forEach(interval => {
+        const section = sorted.find(s => s.id === interval.sectionId) as Section;
+        section.microfossilRecords
+            .filter(record => record.abundance !== 'Barren')
+            .forEach(record => {
+                const occurrence = { ...interval, abundance: record.abundance, preservation: record.preservation, observations: record.observations };
+                byTaxon.set(record.fossilId, [...(byTaxon.get(record.fossilId) ?? []), occurrence]);
+            });
+    });
+
+    const taxa = Array.from(byTaxon.entries()).map(([fossilId, occurrences]): RangeTaxon => {
+        const fossil = microfossils.find(f => f.id === fossilId);
+        const positions = occurrences.map(o => o.position);
+        return {
+            fossilId,
+            name: fossil ? `${fossil.taxonomy.genus} ${fossil.taxonomy.species}` : fossilId,
+            stratigraphicRange: fossil?.stratigraphicRange ?? '',
+            first: Math.max(...positions),
+            last: Math.min(...positions),
+            occurrences,
+        };
+    });
+
+    const taxonomy = new Map(taxa.map(t => [t.fossilId, taxonomyKey(microfossils.find(f => f.id === t.fossilId), t.fossilId)]));
+    taxa.sort((a, b) => {
+        if (options.sort === 'taxonomy') return (taxonomy.get(a.fossilId) as string).localeCompare(taxonomy.get(b.fossilId) as string);
+        // Oldest FO (or LO) on the left gives the usual staircase.
+        if (options.sort === 'last') return b.last - a.last || b.first - a.first || a.name.localeCompare(b.name);
+        return b.first - a.first || b.last - a.last || a.name.localeCompare(b.name);
+    });
+
+    const bounds = intervals.flatMap(i => [i.top, i.bottom]);
+    const min = bounds.length > 0 ? Math.min(...bounds) : 0;
+    const max = bounds.length > 0 ? Math.max(...bounds) : 1;
+    return { axis, intervals, taxa, min, max: max > min ? max : min + 1 };
+};
+
+export const rangeAxisLabel = (axis: RangeChartAxis) => axis === 'age' ? 'Age (ka)' : 'Depth (cmbsf)';
+
+// --- Layout ----------------------------------------------------------
+
+export interface RangeChartLayout {
+    width: number;
+    height: number;
+    left: number; // x of the axis
+    plotTop: number;
+    plotHeight: number;
+    columnWidth: number;
+    legendY: number;
+    ticks: number[];
+    columnX: (index: number) => number;
+    toY: (value: number) => number;
+}
+
+const niceStep = (span: number, target: number) => {
+    const raw = span / target;
+    const magnitude = 10 ** Math.floor(Math.log10(raw));
+    const normalised = raw / magnitude;
+    return (normalised <= 1 ? 1 : normalised <= 2 ? 2 : normalised <= 5 ? 5 : 10) * magnitude;
+};
+
+/** Geometry of a range chart in user units (pixels on screen; scaled to the page in the PDF). */
+export const rangeChartLayout = (chart: RangeChart): RangeChartLayout => {
+    const left = 70;
+    const plotTop = 170; // room for the rotated taxon names
+    const plotHeight = 520;
+    const columnWidth = 22;
+    const legendHeight = 60;
+    const width = Math.max(left + chart.taxa.length * columnWidth + 20, 420);
+    const step = niceStep(chart.max - chart.min, 8);
+    const ticks: number[] = [];
+    for (let t = Math.ceil(chart.min / step) * step; t <= chart.max + 1e-9; t += step) ticks.push(parseFloat(t.toFixed(6)));
+    return {
+        width,
+        height: plotTop + plotHeight + legendHeight,
+        left,
+        plotTop,
+        plotHeight,
+        columnWidth,
+        legendY: plotTop + plotHeight + 30,
+        ticks,
+        columnX: index => left + columnWidth * (index + 0.5),
+        toY: value => plotTop + ((value - chart.min) / (chart.max - chart.min)) * plotHeight,
+    };
+};
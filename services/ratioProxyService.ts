@@ -0,0 +1,186 @@
+import type { Section, Microfossil, CensusSample, DataPoint, MorphotypeSchemeId, SpeciesRatio } from '../types';
+import { NON_PROXY_KEYS } from '../constants';
+import { insertCensusPoint, dropEmptyCensusPoints } from './censusService';
+
+// =================================================================
+// RATIO PROXIES
+// Percentages from census counts that behave like any other proxy column:
+//  - morphotype ratios within one taxon, e.g. % sinistral N. pachyderma =
+//    sinistral / (sinistral + dextral) × 100, high in polar waters. Only the
+//    specimens assigned to a morphotype count, so sub-counts may cover part
+//    of the taxon;
+//  - species ratios between taxa, e.g. N. pachyderma / (N. pachyderma +
+//    N. incompta) when the two coiling forms were counted as species.
+// Values are written into the section's data points (matched by subsection,
+// else by depth) so charts, averages and exports treat them as proxies.
+// =================================================================
+
+export interface MorphotypeScheme {
+    id: MorphotypeSchemeId;
+    label: string;
+    morphotypes: { id: string; label: string }[];
+    numerator: string; // morphotype the percentage is of
+    suffix: string; // appended to the species epithet to name the column
+}
+
+export const MORPHOTYPE_SCHEMES: MorphotypeScheme[] = [
+    {
+        id: 'coiling', label: 'Coiling direction', numerator: 'sinistral', suffix: 'Sinistral',
+        morphotypes: [{ id: 'sinistral', label: 'Sinistral' }, { id: 'dextral', label: 'Dextral' }],
+    },
+    {
+        id: 'colour', label: 'Test colour', numerator: 'pink', suffix: 'Pink',
+        morphotypes: [{ id: 'white', label: 'White' }, { id: 'pink', label: 'Pink' }],
+    },
+    {
+        id: 'sensu', label: 'Sensu stricto / lato', numerator: 'sensuStricto', suffix: 'SensuStricto',
+        morphotypes: [{ id: 'sensuStricto', label: 's.s.' }, { id: 'sensuLato', label: 's.l.' }],
+    },
+];
+
+// Schemes usually recorded for a species, by epithet; offered first when splitting a count.
+const USUAL_SCHEMES: Record<string, MorphotypeSchemeId[]> = {
+    pachyderma: ['coiling'],
+    truncatulinoides: ['coiling'],
+    menardii: ['coiling'],
+    ruber: ['colour', 'sensu'],
+};
+
+export const schemeById = (id: MorphotypeSchemeId): MorphotypeScheme => MORPHOTYPE_SCHEMES.find(s => s.id === id)!;
+
+/** Schemes for a taxon, the ones usually recorded for it first. */
+export const schemesForTaxon = (fossil: Microfossil | undefined): MorphotypeScheme[] => {
+    const usual = USUAL_SCHEMES[fossil?.taxonomy.species.toLowerCase() ?? ''] ?? [];
+    return [...MORPHOTYPE_SCHEMES].sort((a, b) => (usual.includes(a.id) ? usual.indexOf(a.id) : usual.length) - (usual.includes(b.id) ? usual.indexOf(b.id) : usual.length));
+};
+
+const codeKey = (fossilId: string, microfossils: Microfossil[]) =>
+    (microfossils.find(f => f.id === fossilId)?.code ?? fossilId).replace(/[^A-Za-z0-9]/g, '');
+
+const epithetKey = (fossilId: string, microfossils: Microfossil[]) => {
+    const fossil = microfossils.find(f => f.id === fossilId);
+    const epithet = fossil?.taxonomy.species.toLowerCase().replace(/[^a-z]/g, '');
+    return epithet || codeKey(fossilId, microfossils);
+};
+
+const shortName = (fossilId: string, microfossils: Microfossil[]) => {
+    const fossil = microfossils.find(f => f.id === fossilId);
+    return fossil ? `${fossil.taxonomy.genus.charAt(0)}. ${fossil.taxonomy.species}` : fossilId;
+};
+
+export interface RatioColumn {
+    column: string;
+    label: string;
+    kind: 'morphotype' | 'species';
+    fossilId?: string; // morphotype ratios only
+    scheme?: MorphotypeSchemeId;
+}
+
+/**
+ * Columns the section's ratios write: one per taxon and scheme with sub-counts
+ * in any sample (named from the species epithet, e.g. `pachydermaSinistral`),
+ * then the species ratios. A clash between two taxa sharing an epithet falls
+ * back to the fossil code.
+ */
+export const ratioColumns = (section: Section, microfossils: Microfossil[]): RatioColumn[] => {
+    const columns: RatioColumn[] = [];
+    (section.censusSamples ?? []).forEach(sample => (sample.morphotypes ?? []).forEach(split => {
+        if (columns.some(c => c.fossilId === split.fossilId && c.scheme === split.scheme)) return;
+        const scheme = schemeById(split.scheme);
+        let column = `${epithetKey(split.fossilId, microfossils)}${scheme.suffix}`;
+        if (columns.some(c => c.column === column)) column = `${codeKey(split.fossilId, microfossils)}${scheme.suffix}`;
+        const numeratorLabel = scheme.morphotypes.find(m => m.id === scheme.numerator)!.label.toLowerCase();
+        columns.push({ column, label: `${shortName(split.fossilId, microfossils)} ${numeratorLabel} (%)`, kind: 'morphotype', fossilId: split.fossilId, scheme: split.scheme });
+    }));
+    (section.ratioProxies?.speciesRatios ?? []).forEach(ratio => columns.push({ column: ratio.column, label: ratio.label, kind: 'species' }));
+    return columns;
+};
+
+const speciesRatioValue = (sample: CensusSample, ratio: SpeciesRatio): number | null => {
+    const sum = (ids: string[]) => ids.reduce((total, id) => total + (sample.counts[id] ?? 0), 0);
+    const numerator = sum(ratio.numerator);
+    const denominator = numerator + sum(ratio.complement);
+    return denominator > 0 ? (numerator / denominator) * 100 : null;
+};
+
+export interface RatioRow {
+    sampleId: string;
+    subsection?: string;
+    depth: number;
+    values: Record<string, number>;
+}
+
+/** Ratio percentages per census sample; a ratio with nothing to divide by is left out. */
+export const ratioRows = (section: Section, microfossils: Microfossil[]): RatioRow[] => {
+    const columns = ratioColumns(section, microfossils);
+    return [...(section.censusSamples ?? [])].sort((a, b) => a.depth - b.depth).map(sample => {
+        const values: Record<string, number> = {};
+        (sample.morphotypes ?? []).forEach(split => {
+            const scheme = schemeById(split.scheme);
+            const total = Object.values(split.counts).reduce((sum, n) => sum + n, 0);
+            const column = columns.find(c => c.fossilId === split.fossilId && c.scheme === split.scheme)!.column;
+            if (total > 0) values[column] = ((split.counts[scheme.numerator] ?? 0) / total) * 100;
+        });
+        (section.ratioProxies?.speciesRatios ?? []).forEach(ratio => {
+            const value = speciesRatioValue(sample, ratio);
+            if (value !== null) values[ratio.column] = value;
+        });
+        return { sampleId: sample.id, ...(sample.subsection && { subsection: sample.subsection }), depth: sample.depth, values };
+    });
+};
+
+const withoutColumns = (dp: DataPoint, columns: string[]): DataPoint => {
+    const copy = { ...dp };
+    columns.forEach(key => delete copy[key]);
+    return copy;
+};
+
+/**
+ * Rewrites the ratio columns of the section's data points from its census
+ * samples: the columns written last time are cleared, along with added
+ * points left empty by that, then each sample's values go to the data point
+ * with its subsection, else its depth; samples without one get a new point
+ * in depth order. Call it whenever the counts or the species ratios change.
+ */
+export const applyRatioProxies = (section: Section, microfossils: Microfossil[]): Section => {
+    const previous = section.ratioProxies?.columns ?? [];
+    const speciesRatios = section.ratioProxies?.speciesRatios ?? [];
+    const rows = ratioRows(section, microfossils).filter(row => Object.keys(row.values).length > 0);
+    if (previous.length === 0 && rows.length === 0 && speciesRatios.length === 0) return section;
+
+    let dataPoints = dropEmptyCensusPoints(section.dataPoints.map(dp => withoutColumns(dp, previous)));
+    rows.forEach(row => {
+        const index = dataPoints.findIndex(dp => (row.subsection && dp.subsection === row.subsection) || dp.depth === row.depth);
+        if (index === -1) dataPoints = insertCensusPoint(dataPoints, { subsection: row.subsection ?? `Census ${row.depth} cm`, depth: row.depth, ...row.values });
+        else dataPoints[index] = { ...dataPoints[index], ...row.values };
+    });
+    const columns = Array.from(new Set(rows.flatMap(row => Object.keys(row.values))));
+    if (columns.length === 0 && speciesRatios.length === 0) {
+        const { ratioProxies: _removed, ...rest } = section;
+        return { ...rest, dataPoints };
+    }
+    return { ...section, dataPoints, ratioProxies: { speciesRatios, columns } };
+};
+
+/** Message describing what is wrong with a species ratio, or null if it can be added. */
+export const validateSpeciesRatio = (ratio: SpeciesRatio, section: Section, microfossils: Microfossil[]): string | null => {
+    if (!ratio.label.trim()) return 'The ratio needs a name.';
+    if (!/^[A-Za-z][A-Za-z0-9_]*$/.test(ratio.column)) return 'The column key must start with a letter and use only letters, digits and underscores.';
+    if (ratio.numerator.length === 0 || ratio.complement.length === 0) return 'Choose at least one taxon on each side of the ratio.';
+    if (ratio.numerator.some(id => ratio.complement.includes(id))) return 'A taxon cannot be on both sides of the ratio.';
+    if (NON_PROXY_KEYS.includes(ratio.column)) return `"${ratio.column}" is reserved.`;
+    if (ratioColumns(section, microfossils).some(c => c.column === ratio.column)) return `Another ratio already writes "${ratio.column}".`;
+    const written = section.ratioProxies?.columns ?? [];
+    if (section.dataPoints.some(dp => ratio.column in dp) && !written.includes(ratio.column)) return `The data points already have a "${ratio.column}" column.`;
+    return null;
+};
+
+/** Species ratios worth offering for the taxa counted in the section. */
+export const suggestedSpeciesRatios = (taxa: string[], microfossils: Microfossil[]): Omit<SpeciesRatio, 'id'>[] => {
+    const byEpithet = (epithet: string) => taxa.find(id => microfossils.find(f => f.id === id)?.taxonomy.species.toLowerCase() === epithet);
+    const pachyderma = byEpithet('pachyderma');
+    const incompta = byEpithet('incompta');
+    return pachyderma && incompta
+        ? [{ column: 'pachydermaSinistral', label: 'N. pachyderma sinistral (%)', numerator: [pachyderma], complement: [incompta] }]
+        : [];
+};
@@ -0,0 +1,138 @@
+import { REFERENCE_CURVES, type ReferenceCurve, type ReferenceCurveId, type ReferenceAgeUnit, type ReferenceSeriesPoint, type PolarityInterval } from '../data/referenceCurves';
+
+// =================================================================
+// REFERENCE CURVE LIBRARY
+// Bundled curves merged with full records the user has imported from the
+// published data files. Imported curves are kept in localStorage, so they
+// only need to be loaded once per browser.
+// =================================================================
+
+const STORAGE_KEY = 'paleocore-reference-curves';
+
+interface ImportedCurve {
+    fileName: string;
+    data: ReferenceSeriesPoint[];
+    intervals?: PolarityInterval[];
+}
+
+export interface ReferenceCurveImportOptions {
+    ageColumn?: number; // zero-based column index
+    valueColumn?: number;
+}
+
+/** Converts an age from a data file's unit to ka (before 1950). */
+export const toKa = (age: number, unit: ReferenceAgeUnit): number => {
+    switch (unit) {
+        case 'Ma': return age * 1000;
+        case 'yr BP': return age / 1000;
+        case 'yr b2k': return (age - 50) / 1000;
+        // Past times are negative; some exports drop the sign, so only the magnitude is used.
+        case 'kyr J2000': return Math.abs(age) - 0.05;
+        default: return age;
+    }
+};
+
+const readImportedCurves = (): Partial<Record<ReferenceCurveId, ImportedCurve>> => {
+    try {
+        const saved = window.localStorage.getItem(STORAGE_KEY);
+        return saved ? JSON.parse(saved) : {};
+    } catch {
+        return {};
+    }
+};
+
+const writeImportedCurves = (curves: Partial<Record<ReferenceCurveId, ImportedCurve>>) => {
+    try {
+        window.localStorage.setItem(STORAGE_KEY, JSON.stringify(curves));
+    } catch (error) {
+        throw new Error('Could not store the reference curve in this browser (storage may be full).');
+    }
+};
+
+/** All library curves, with imported records replacing the bundled values. */
+export const getReferenceCurves = (): ReferenceCurve[] => {
+    const imported = readImportedCurves();
+    return REFERENCE_CURVES.map(curve => {
+        const saved = imported[curve.id];
+        if (!saved) return curve;
+        return {
+            ...curve,
+            bundled: 'full',
+            importedFrom: saved.fileName,
+            data: saved.data,
+            ...(saved.intervals && { intervals: saved.intervals }),
+        };
+    });
+};
+
+export const hasCurveData = (curve: ReferenceCurve): boolean =>
+    curve.kind === 'polarity' ? (curve.intervals?.length ?? 0) > 0 : curve.data.length > 0;
+
+const parsePolarity = (token: string): PolarityInterval['polarity'] | null => {
+    const t = token.toLowerCase();
+    if (['n', 'normal', '1', '+', '+1'].includes(t)) return 'normal';
+    if (['r', 'reversed', 'reverse', '-1', '-', '0'].includes(t)) return 'reversed';
+    return null;
+};
+
+/**
+ * Parses a published data file (whitespace-, comma- or tab-separated; header
+ * and comment lines are skipped). Series files need an age and a value
+ * column; polarity files need top age, base age and polarity (N/R) columns.
+ */
+export const parseReferenceCurveText = (
+    text: string,
+    curve: ReferenceCurve,
+    options: ReferenceCurveImportOptions = {}
+): Pick<ImportedCurve, 'data' | 'intervals'> => {
+    const rows = text
+        .split(/\r?\n/)
+        .map(line => line.trim())
+        .filter(line => line && !line.startsWith('#'))
+        .map(line => line.split(/[\s,;]+/));
+
+    if (curve.kind === 'polarity') {
+        const intervals = rows
+            .map((cols): PolarityInterval | null => {
+                const top = parseFloat(cols[0]);
+                const base = parseFloat(cols[1]);
+                const polarity = cols[2] ? parsePolarity(cols[2]) : null;
+                if (!isFinite(top) || !isFinite(base) || !polarity) return null;
+                return { top: toKa(top, curve.ageUnit), base: toKa(base, curve.ageUnit), polarity, ...(cols[3] && { name: cols.slice(3).join(' ') }) };
+            })
+            .filter((i): i is PolarityInterval => i !== null)
+            .sort((a, b) => a.top - b.top);
+        if (intervals.length === 0) throw new Error(`No polarity intervals (top, base, N/R) found for ${curve.name}.`);
+        return { data: [], intervals };
+    }
+
+    const ageColumn = options.ageColumn ?? 0;
+    const valueColumn = options.valueColumn ?? 1;
+    const data = rows
+        .map(cols => ({ age: parseFloat(cols[ageColumn]), value: parseFloat(cols[valueColumn]) }))
+        .filter(p => isFinite(p.age) && isFinite(p.value))
+        .map(p => ({ age: toKa(p.age, curve.ageUnit), value: p.value }))
+        .sort((a, b) => a.age - b.age);
+    if (data.length < 2) throw new Error(`No numeric age/value rows found for ${curve.name}.`);
+    return { data };
+};
+
+/** Parses and stores a full record for a library curve; returns the updated curve. */
+export const importReferenceCurve = (
+    curveId: ReferenceCurveId,
+    fileName: string,
+    text: string,
+    options: ReferenceCurveImportOptions = {}
+): ReferenceCurve => {
+    const curve = REFERENCE_CURVES.find(c => c.id === curveId);
+    if (!curve) throw new Error(`Unknown reference curve "${curveId}".`);
+    const parsed = parseReferenceCurveText(text, curve, options);
+    writeImportedCurves({ ...readImportedCurves(), [curveId]: { fileName, ...parsed } });
+    return getReferenceCurves().find(c => c.id === curveId) as ReferenceCurve;
+};
+
+/** Drops an imported record, falling back to the bundled values. */
+export const resetReferenceCurve = (curveId: ReferenceCurveId) => {
+    const { [curveId]: _removed, ...rest } = readImportedCurves();
+    writeImportedCurves(rest);
+};
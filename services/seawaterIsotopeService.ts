@@ -0,0 +1,140 @@
+import type { DataPoint, PaleotemperatureEquationId, SeawaterD18OSettings } from '../types';
+import { getReferenceCurves } from './referenceCurveService';
+
+// =================================================================
+// SEAWATER δ18O
+// Solves a calcite–water paleotemperature equation for the δ18O of the
+// water the shell grew in, given measured calcite δ18O (‰ VPDB) and an
+// independent temperature. Results are reported on the VSMOW scale.
+// An optional ice-volume correction removes the global signal implied by
+// a sea-level reference curve. Uncertainties are propagated to first order
+// from the δ18O, temperature and sea-level 1σ values.
+// =================================================================
+
+// δw(VSMOW) = δw(VPDB) + 0.27 (Hut, 1987)
+const VPDB_TO_VSMOW_WATER = 0.27;
+
+export const DERIVED_SEAWATER_COLUMNS = ['d18Osw', 'd18OswError', 'd18OswIvc', 'd18OswIvcError'];
+
+export interface PaleotemperatureEquation {
+    id: PaleotemperatureEquationId;
+    label: string;
+    citation: string;
+    equation: string;
+    constants: Record<string, number>;
+    presets?: { label: string; constants: Record<string, number> }[];
+    // δ18O of water (‰ VSMOW) from calcite δ18O (‰ VPDB) and temperature (°C).
+    toSeawater: (d18Oc: number, temperature: number, constants: Record<string, number>) => number | null;
+}
+
+export const PALEOTEMPERATURE_EQUATIONS: Record<PaleotemperatureEquationId, PaleotemperatureEquation> = {
+    shackleton1974: {
+        id: 'shackleton1974',
+        label: 'Shackleton (1974)',
+        citation: 'Shackleton, N. J. (1974), Attainment of isotopic equilibrium between ocean water and the benthonic foraminifera genus Uvigerina, Colloques Internationaux du CNRS, 219, 203-209.',
+        equation: 'T = a − b(δc − δw) + c(δc − δw)²',
+        constants: { a: 16.9, b: 4.38, c: 0.10 },
+        toSeawater: (d18Oc, temperature, { a, b, c }) => {
+            // Smaller root of c·d² − b·d + (a − T) = 0, with d = δc − δw.
+            const discriminant = b * b - 4 * c * (a - temperature);
+            if (discriminant < 0 || c === 0) return null;
+            const d = (b - Math.sqrt(discriminant)) / (2 * c);
+            return d18Oc - d + VPDB_TO_VSMOW_WATER;
+        },
+    },
+    bemis1998: {
+        id: 'bemis1998',
+        label: 'Bemis et al. (1998)',
+        citation: 'Bemis, B. E., Spero, H. J., Bijma, J., and Lea, D. W. (1998), Reevaluation of the oxygen isotopic composition of planktonic foraminifera, Paleoceanography, 13(2), 150-160.',
+        equation: 'T = a − b(δc − δw)',
+        constants: { a: 16.5, b: 4.80 },
+        presets: [
+            { label: 'O. universa, high light', constants: { a: 16.5, b: 4.80 } },
+            { label: 'O. universa, low light', constants: { a: 14.9, b: 4.80 } },
+        ],
+        toSeawater: (d18Oc, temperature, { a, b }) => b === 0 ? null : d18Oc - (a - temperature) / b + VPDB_TO_VSMOW_WATER,
+    },
+    kimOneil1997: {
+        id: 'kimOneil1997',
+        label: "Kim & O'Neil (1997)",
+        citation: "Kim, S.-T., and O'Neil, J. R. (1997), Equilibrium and nonequilibrium oxygen isotope effects in synthetic carbonates, Geochimica et Cosmochimica Acta, 61(16), 3461-3475.",
+        equation: '1000 ln α = a(10³/T) − b',
+        constants: { a: 18.03, b: 32.42 },
+        toSeawater: (d18Oc, temperature, { a, b }) => {
+            const kelvin = temperature + 273.15;
+            if (kelvin <= 0) return null;
+            const alpha = Math.exp((a * 1000 / kelvin - b) / 1000);
+            const calciteVsmow = 1.03091 * d18Oc + 30.91; // Coplen et al. (1983)
+            return (1000 + calciteVsmow) / alpha - 1000;
+        },
+    },
+};
+
+// Linear interpolation of a reference series at an age (ka); null outside its range.
+const interpolateAt = (series: { age: number; value: number }[], age: number): number | null => {
+    if (series.length === 0 || age < series[0].age || age > series[series.length - 1].age) return null;
+    let lo = 0;
+    let hi = series.length - 1;
+    while (hi - lo > 1) {
+        const mid = (lo + hi) >> 1;
+        if (series[mid].age <= age) lo = mid;
+        else hi = mid;
+    }
+    const a = series[lo];
+    const b = series[hi];
+    return b.age === a.age ? a.value : a.value + (age - a.age) / (b.age - a.age) * (b.value - a.value);
+};
+
+const round = (value: number, digits: number) => parseFloat(value.toFixed(digits));
+
+/**
+ * Adds d18Osw (and, with an ice-volume correction and a dated point,
+ * d18OswIvc) plus their 1σ columns to every point that has both δ18O and the
+ * chosen temperature column. Previously derived seawater columns are cleared.
+ */
+export const applySeawaterD18O = (dataPoints: DataPoint[], settings: SeawaterD18OSettings): DataPoint[] => {
+    const equation = PALEOTEMPERATURE_EQUATIONS[settings.equationId];
+    const solve = (d18Oc: number, temperature: number) => equation.toSeawater(d18Oc, temperature, settings.constants);
+    const seaLevel = settings.iceVolumeCorrection
+        ? getReferenceCurves().find(c => c.id === settings.iceVolumeCorrection?.curveId)?.data ?? []
+        : [];
+
+    return dataPoints.map(dp => {
+        const updated = { ...dp };
+        DERIVED_SEAWATER_COLUMNS.forEach(key => delete updated[key]);
+
+        const d18Oc = dp.delta18O;
+        const temperature = dp[settings.temperatureColumn];
+        if (typeof d18Oc !== 'number' || typeof temperature !== 'number') return updated;
+        const d18Osw = solve(d18Oc, temperature);
+        if (d18Osw === null || !isFinite(d18Osw)) return updated;
+
+        // First-order propagation with numerical partial derivatives.
+        const h = 1e-3;
+        const dW_dC = ((solve(d18Oc + h, temperature) ?? d18Osw) - d18Osw) / h;
+        const dW_dT = ((solve(d18Oc, temperature + h) ?? d18Osw) - d18Osw) / h;
+        const variance = (dW_dC * settings.d18OError) ** 2 + (dW_dT * settings.temperatureError) ** 2;
+        updated.d18Osw = round(d18Osw, 3);
+        updated.d18OswError = round(Math.sqrt(variance), 3);
+
+        const correction = settings.iceVolumeCorrection;
+        if (correction && typeof dp.age === 'number') {
+            const level = interpolateAt(seaLevel, dp.age);
+            if (level !== null) {
+                // A lower sea level (negative, m) means more 16O stored in ice and heavier seawater.
+                const iceVolumeEffect = -level * correction.permilPerMetre;
+                updated.d18OswIvc = round(d18Osw - iceVolumeEffect, 3);
+                updated.d18OswIvcError = round(Math.sqrt(variance + (correction.seaLevelError * correction.permilPerMetre) ** 2), 3);
+            }
+        }
+        return updated;
+    });
+};
+
+/** Removes all seawater δ18O columns, e.g. when the calculation is switched off. */
+export const clearSeawaterD18O = (dataPoints: DataPoint[]): DataPoint[] =>
+    dataPoints.map(dp => {
+        const updated = { ...dp };
+        DERIVED_SEAWATER_COLUMNS.forEach(key => delete updated[key]);
+        return updated;
+    });
@@ -0,0 +1,300 @@
+import type { DataPoint } from '../types';
+
+// =================================================================
+// SPECTRAL ANALYSIS
+// Periodograms and wavelets for proxy time series on an age scale (ka, so
+// frequencies are in cycles/kyr and periods in kyr):
+// - Lomb–Scargle for unevenly sampled records (Scargle, 1982), with
+//   false-alarm levels;
+// - Blackman–Tukey with a Tukey lag window and AR(1) red-noise confidence
+//   levels (chi-squared, Wilson–Hilferty quantiles);
+// - Morlet continuous wavelet transform (Torrence & Compo, 1998).
+// Every method removes a linear trend first.
+// =================================================================
+
+export interface TimeSeries {
+    age: number[];
+    value: number[];
+}
+
+export interface SpectrumPoint {
+    frequency: number;
+    period: number;
+    power: number;
+    conf90?: number;
+    conf95?: number;
+    conf99?: number;
+}
+
+export interface WaveletResult {
+    times: number[];
+    periods: number[];
+    power: number[][]; // [period index][time index], normalized by the variance
+    coi: number[]; // cone of influence (kyr) per time
+}
+
+export const ORBITAL_BANDS = [
+    { label: 'Eccentricity', period: 100 },
+    { label: 'Obliquity', period: 41 },
+    { label: 'Precession', period: 23 },
+    { label: 'Precession', period: 19 },
+];
+
+const CONFIDENCE_Z = { conf90: 1.2816, conf95: 1.6449, conf99: 2.3263 };
+
+/** Sorted, de-duplicated (averaged) age/value pairs of a proxy. */
+export const extractTimeSeries = (points: DataPoint[], proxyKey: string): TimeSeries => {
+    const byAge = new Map<number, number[]>();
+    points.forEach(dp => {
+        const value = dp[proxyKey];
+        if (typeof dp.age !== 'number' || typeof value !== 'number' || !isFinite(value)) return;
+        byAge.set(dp.age, [...(byAge.get(dp.age) || []), value]);
+    });
+    const sorted = Array.from(byAge.entries()).sort((a, b) => a[0] - b[0]);
+    return {
+        age: sorted.map(([age]) => age),
+        value: sorted.map(([, values]) => values.reduce((s, v) => s + v, 0) / values.length),
+    };
+};
+
+const mean = (values: number[]) => values.reduce((s, v) => s + v, 0) / values.length;
+
+const detrend = (t: number[], y: number[]): number[] => {
+    const tMean = mean(t);
+    const yMean = mean(y);
+    let sty = 0;
+    let stt = 0;
+    for (let i = 0; i < t.length; i++) {
+        sty += (t[i] - tMean) * (y[i] - yMean);
+        stt += (t[i] - tMean) ** 2;
+    }
+    const slope = stt > 0 ? sty / stt : 0;
+    return y.map((v, i) => v - yMean - slope * (t[i] - tMean));
+};
+
+const assertUsable = (series: TimeSeries) => {
+    if (series.age.length < 8) {
+        throw new Error('At least eight dated samples are needed for spectral analysis.');
+    }
+};
+
+// Linear interpolation onto an even grid at the median sample spacing.
+const resampleEvenly = (series: TimeSeries) => {
+    const spacings = series.age.slice(1).map((a, i) => a - series.age[i]).sort((a, b) => a - b);
+    const dt = spacings[Math.floor(spacings.length / 2)];
+    const start = series.age[0];
+    const n = Math.floor((series.age[series.age.length - 1] - start) / dt) + 1;
+    const values: number[] = [];
+    let k = 0;
+    for (let i = 0; i < n; i++) {
+        const t = start + i * dt;
+        while (k < series.age.length - 2 && series.age[k + 1] < t) k++;
+        const t0 = series.age[k];
+        const t1 = series.age[k + 1];
+        const f = t1 === t0 ? 0 : (t - t0) / (t1 - t0);
+        values.push(series.value[k] + f * (series.value[k + 1] - series.value[k]));
+    }
+    return { dt, start, values };
+};
+
+// Wilson–Hilferty approximation of the chi-squared quantile.
+const chiSquaredQuantile = (z: number, dof: number) => {
+    const a = 2 / (9 * dof);
+    return dof * Math.pow(1 - a + z * Math.sqrt(a), 3);
+};
+
+/**
+ * Lomb–Scargle periodogram, normalized by the variance. Confidence lines are
+ * false-alarm levels for the number of frequencies searched.
+ */
+export const lombScargle = (series: TimeSeries, options: { oversampling?: number } = {}): SpectrumPoint[] => {
+    assertUsable(series);
+    const oversampling = options.oversampling ?? 4;
+    const t = series.age;
+    const y = detrend(t, series.value);
+    const variance = y.reduce((s, v) => s + v * v, 0) / (y.length - 1);
+    const span = t[t.length - 1] - t[0];
+    const n = t.length;
+    const fMin = 1 / (span * oversampling);
+    const fMax = n / (2 * span); // mean Nyquist frequency
+    const count = Math.floor((fMax - fMin) / fMin) + 1;
+    const independent = n;
+    const falseAlarm = (confidence: number) => -Math.log(1 - Math.pow(confidence, 1 / independent));
+    const levels = { conf90: falseAlarm(0.90), conf95: falseAlarm(0.95), conf99: falseAlarm(0.99) };
+
+    const spectrum: SpectrumPoint[] = [];
+    for (let j = 0; j < count; j++) {
+        const frequency = fMin * (j + 1);
+        const omega = 2 * Math.PI * frequency;
+        let s2 = 0;
+        let c2 = 0;
+        for (let i = 0; i < n; i++) {
+            s2 += Math.sin(2 * omega * t[i]);
+            c2 += Math.cos(2 * omega * t[i]);
+        }
+        const tau = Math.atan2(s2, c2) / (2 * omega);
+        let yc = 0;
+        let ys = 0;
+        let cc = 0;
+        let ss = 0;
+        for (let i = 0; i < n; i++) {
+            const arg = omega * (t[i] - tau);
+            const c = Math.cos(arg);
+            const s = Math.sin(arg);
+            yc += y[i] * c;
+            ys += y[i] * s;
+            cc += c * c;
+            ss += s * s;
+        }
+        const power = variance > 0 ? ((yc * yc) / cc + (ys * ys) / ss) / (2 * variance) : 0;
+        spectrum.push({ frequency, period: 1 / frequency, power, ...levels });
+    }
+    return spectrum;
+};
+
+/**
+ * Blackman–Tukey spectrum of the evenly resampled series, with AR(1)
+ * red-noise confidence levels. `lagFraction` sets the maximum lag as a
+ * fraction of the record length (smaller = smoother, more degrees of freedom).
+ */
+export const blackmanTukey = (series: TimeSeries, options: { lagFraction?: number } = {}): { spectrum: SpectrumPoint[]; rho: number; dof: number } => {
+    assertUsable(series);
+    const { dt, start, values } = resampleEvenly(series);
+    const times = values.map((_, i) => start + i * dt);
+    const x = detrend(times, values);
+    const n = x.length;
+    const maxLag = Math.max(2, Math.min(n - 1, Math.round(n * (options.lagFraction ?? 1 / 3))));
+
+    const autocovariance = Array.from({ length: maxLag + 1 }, (_, k) => {
+        let sum = 0;
+        for (let i = 0; i < n - k; i++) sum += x[i] * x[i + k];
+        return sum / n;
+    });
+    const rho = autocovariance[0] > 0 ? Math.max(0, Math.min(0.99, autocovariance[1] / autocovariance[0])) : 0;
+    const dof = 2.67 * n / maxLag; // Tukey window
+
+    const raw: { frequency: number; power: number }[] = [];
+    for (let j = 1; j <= maxLag; j++) {
+        const frequency = j / (2 * maxLag * dt);
+        let sum = autocovariance[0];
+        for (let k = 1; k <= maxLag; k++) {
+            const window = 0.5 * (1 + Math.cos(Math.PI * k / maxLag));
+            sum += 2 * window * autocovariance[k] * Math.cos(2 * Math.PI * frequency * k * dt);
+        }
+        raw.push({ frequency, power: Math.max(0, sum * dt) });
+    }
+
+    // Theoretical AR(1) spectrum scaled to the same mean power.
+    const redShape = raw.map(p => (1 - rho * rho) / (1 - 2 * rho * Math.cos(2 * Math.PI * p.frequency * dt) + rho * rho));
+    const scale = mean(raw.map(p => p.power)) / mean(redShape);
+    const factors = Object.fromEntries(
+        Object.entries(CONFIDENCE_Z).map(([key, z]) => [key, chiSquaredQuantile(z, dof) / dof])
+    ) as Record<keyof typeof CONFIDENCE_Z, number>;
+
+    const spectrum = raw.map((p, i) => {
+        const red = redShape[i] * scale;
+        return {
+            frequency: p.frequency,
+            period: 1 / p.frequency,
+            power: p.power,
+            conf90: red * factors.conf90,
+            conf95: red * factors.conf95,
+            conf99: red * factors.conf99,
+        };
+    });
+    return { spectrum, rho, dof };
+};
+
+// In-place iterative radix-2 FFT (inverse when `inverse` is true, unscaled).
+const fft = (re: Float64Array, im: Float64Array, inverse = false) => {
+    const n = re.length;
+    for (let i = 1, j = 0; i < n; i++) {
+        let bit = n >> 1;
+        for (; j & bit; bit >>= 1) j ^= bit;
+        j ^= bit;
+        if (i < j) {
+            [re[i], re[j]] = [re[j], re[i]];
+            [im[i], im[j]] = [im[j], im[i]];
+        }
+    }
+    for (let len = 2; len <= n; len <<= 1) {
+        const angle = (inverse ? 2 : -2) * Math.PI / len;
+        const wRe = Math.cos(angle);
+        const wIm = Math.sin(angle);
+        for (let i = 0; i < n; i += len) {
+            let curRe = 1;
+            let curIm = 0;
+            for (let k = 0; k < len / 2; k++) {
+                const aRe = re[i + k];
+                const aIm = im[i + k];
+                const bRe = re[i + k + len / 2] * curRe - im[i + k + len / 2] * curIm;
+                const bIm = re[i + k + len / 2] * curIm + im[i + k + len / 2] * curRe;
+                re[i + k] = aRe + bRe;
+                im[i + k] = aIm + bIm;
+                re[i + k + len / 2] = aRe - bRe;
+                im[i + k + len / 2] = aIm - bIm;
+                const nextRe = curRe * wRe - curIm * wIm;
+                curIm = curRe * wIm + curIm * wRe;
+                curRe = nextRe;
+            }
+        }
+    }
+};
+
+/**
+ * Morlet (ω0 = 6) continuous wavelet power of the evenly resampled series,
+ * normalized by its variance, with the cone of influence.
+ */
+export const morletWavelet = (series: TimeSeries, options: { scalesPerOctave?: number } = {}): WaveletResult => {
+    assertUsable(series);
+    const omega0 = 6;
+    const dj = 1 / (options.scalesPerOctave ?? 8);
+    const { dt, start, values } = resampleEvenly(series);
+    const times = values.map((_, i) => start + i * dt);
+    const x = detrend(times, values);
+    const n = x.length;
+    const variance = x.reduce((s, v) => s + v * v, 0) / n;
+
+    let padded = 1;
+    while (padded < 2 * n) padded <<= 1;
+    const xRe = new Float64Array(padded);
+    const xIm = new Float64Array(padded);
+    x.forEach((v, i) => { xRe[i] = v; });
+    fft(xRe, xIm);
+
+    const angular = Array.from({ length: padded }, (_, k) =>
+        (k <= padded / 2 ? k : k - padded) * 2 * Math.PI / (padded * dt)
+    );
+    const fourierFactor = 4 * Math.PI / (omega0 + Math.sqrt(2 + omega0 * omega0));
+    const s0 = 2 * dt;
+    const scaleCount = Math.floor(Math.log2(n * dt / s0) / dj) + 1;
+
+    const periods: number[] = [];
+    const power: number[][] = [];
+    for (let j = 0; j < scaleCount; j++) {
+        const scale = s0 * Math.pow(2, j * dj);
+        const norm = Math.sqrt(2 * Math.PI * scale / dt) * Math.pow(Math.PI, -0.25);
+        const re = new Float64Array(padded);
+        const im = new Float64Array(padded);
+        for (let k = 0; k < padded; k++) {
+            if (angular[k] <= 0) continue;
+            const daughter = norm * Math.exp(-0.5 * (scale * angular[k] - omega0) ** 2);
+            re[k] = xRe[k] * daughter;
+            im[k] = xIm[k] * daughter;
+        }
+        fft(re, im, true);
+        const row: number[] = [];
+        for (let i = 0; i < n; i++) {
+            const wRe = re[i] / padded;
+            const wIm = im[i] / padded;
+            row.push(variance > 0 ? (wRe * wRe + wIm * wIm) / variance : 0);
+        }
+        periods.push(fourierFactor * scale);
+        power.push(row);
+    }
+
+    const coiFactor = fourierFactor / Math.sqrt(2);
+    const coi = times.map((_, i) => coiFactor * dt * Math.max(Math.min(i, n - 1 - i), 1e-5));
+
+    return { times, periods, power, coi };
+};
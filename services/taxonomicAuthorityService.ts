@@ -0,0 +1,542 @@
+import Papa from 'papaparse';
+import type { Microfossil, Taxonomy, TaxonAuthority } from '../types';
+
+// =================================================================
+// TAXONOMIC AUTHORITY
+// A local snapshot of a name list (a WoRMS or Mikrotax CSV export, or a
+// Darwin Core Archive) kept in this browser. Every name points to its
+// accepted name, so synonyms such as Globigerinoides sacculifer resolve to
+// Trilobatus sacculifer, and the catalogue can be checked for species that
+// already exist under another name before a new one is created.
+// Names are compared on genus and epithets only: authorship, subgenera in
+// parentheses, qualifiers (cf., aff., s.s., s.l.) and informal morphotypes
+// ("G. ruber white") are ignored, and an abbreviated genus matches any genus
+// with that initial.
+// =================================================================
+
+const STORAGE_KEY = 'paleocore-taxonomic-authority';
+const MAX_SYNONYM_HOPS = 5;
+
+export interface AuthorityTaxon {
+    id: string;
+    name: string; // without authorship
+    authorship: string;
+    year?: number;
+    rank: string;
+    accepted: boolean;
+    acceptedId: string; // its own id when accepted
+    family: string;
+    order: string;
+    class: string;
+    phylum: string;
+    kingdom: string;
+}
+
+export interface AuthoritySnapshot {
+    source: string; // e.g. "WoRMS"
+    fileName: string;
+    importedAt: string;
+    taxa: AuthorityTaxon[];
+}
+
+export interface AuthorityMatch {
+    matched: AuthorityTaxon; // the name as found in the snapshot
+    accepted: AuthorityTaxon; // what it resolves to (the same taxon when accepted)
+    isSynonym: boolean;
+    alternatives: AuthorityTaxon[]; // other accepted names an abbreviated genus could stand for
+}
+
+export type DuplicateReason = 'name' | 'synonym';
+
+export interface CatalogueDuplicate {
+    fossil: Microfossil;
+    reason: DuplicateReason;
+    acceptedName?: string;
+}
+
+// Lower-cased, alphabetic header → field, in order of preference. Covers the
+// WoRMS "taxon match" and download exports, Darwin Core terms and common
+// hand-made lists.
+const HEADER_ALIASES: Record<string, keyof RawName> = {
+    aphiaid: 'id', taxonid: 'id', id: 'id', nameid: 'id',
+    scientificname: 'name', taxonname: 'name', name: 'name', taxon: 'name',
+    authority: 'authorship', scientificnameauthorship: 'authorship', authorship: 'authorship', author: 'authorship', authors: 'authorship',
+    namepublishedinyear: 'year', year: 'year',
+    rank: 'rank', taxonrank: 'rank',
+    status: 'status', taxonomicstatus: 'status',
+    aphiaidaccepted: 'acceptedId', validaphiaid: 'acceptedId', acceptednameusageid: 'acceptedId', acceptedid: 'acceptedId',
+    authorityaccepted: 'acceptedAuthorship',
+    scientificnameaccepted: 'acceptedName', validname: 'acceptedName', acceptedname: 'acceptedName', acceptednameusage: 'acceptedName', seniorsynonym: 'acceptedName', synonymof: 'acceptedName',
+    kingdom: 'kingdom', phylum: 'phylum', class: 'class', order: 'order', family: 'family',
+};
+
+interface RawName {
+    id: string;
+    name: string;
+    authorship: string;
+    year: string;
+    rank: string;
+    status: string;
+    acceptedId: string;
+    acceptedName: string;
+    acceptedAuthorship: string;
+    kingdom: string;
+    phylum: string;
+    class: string;
+    order: string;
+    family: string;
+}
+
+const SPECIES_RANKS = /^(species|subspecies|variety|forma|form|infraspecies)$/i;
+const ACCEPTED_STATUS = /^(accepted|valid|$)/i;
+const QUALIFIERS = new Set(['cf.', 'cf', 'aff.', 'aff', '?', 's.s.', 's.l.', 'ss', 'sl', 's.str.', 's.lat.', 'sensu', 'stricto', 'lato', 'var.', 'subsp.', 'ssp.', 'f.', 'forma', 'morphotype', 'type']);
+
+// --- Names -----------------------------------------------------------
+
+export interface ParsedName {
+    genus: string; // lower case, without the trailing dot when abbreviated
+    abbreviated: boolean;
+    epithets: string[];
+}
+
+/**
+ * Genus and epithets of a free-text name. Parenthesised text (subgenera,
+ * bracketed authorship) is dropped; parsing stops at the authorship, i.e. the
+ * first capitalised word, year or "sp." after the genus.
+ */
+export const parseTaxonName = (text: string): ParsedName | null => {
+    const words = text.replace(/\([^)]*\)/g, ' ').replace(/[×"]/g, ' ').trim().split(/\s+/).filter(Boolean);
+    if (words.length === 0) return null;
+    const genusWord = words[0];
+    const abbreviated = /^[A-Za-z]\.?$/.test(genusWord);
+    const epithets: string[] = [];
+    for (const word of words.slice(1)) {
+        const lower = word.toLowerCase();
+        if (QUALIFIERS.has(lower)) continue;
+        if (/^spp?\.?$/.test(lower) || /[A-Z0-9&,']/.test(word)) break;
+        if (!/^[a-z-]+$/.test(lower)) continue;
+        epithets.push(lower);
+    }
+    return { genus: genusWord.replace(/\.$/, '').toLowerCase(), abbreviated, epithets };
+};
+
+/** "Genus species" of a catalogue entry; the species field sometimes repeats the genus. */
+export const taxonomyName = (taxonomy: Pick<Taxonomy, 'genus' | 'species'>): string => {
+    const genus = taxonomy.genus.trim();
+    const species = taxonomy.species.trim();
+    return genus && species.toLowerCase().startsWith(`${genus.toLowerCase()} `) ? species : `${genus} ${species}`.trim();
+};
+
+const nameKey = (genus: string, epithets: string[]) => [genus, ...epithets].join(' ');
+
+/** Publication year in an authorship string such as "(Brady, 1877)". */
+export const authorshipYear = (authorship: string): number | undefined => {
+    const years = authorship.match(/\b1[7-9]\d{2}\b|\b20\d{2}\b/g);
+    return years ? parseInt(years[years.length - 1], 10) : undefined;
+};
+
+/**
+ * Removes a trailing authorship that some lists include in the scientific
+ * name. A capitalised word in parentheses followed by an epithet is a subgenus.
+ */
+const stripAuthorship = (name: string, authorship: string) => {
+    const trimmed = name.trim();
+    if (authorship && trimmed.endsWith(authorship)) return trimmed.slice(0, -authorship.length).trim();
+    const words = trimmed.split(/\s+/);
+    const isSubgenus = (i: number) => /^\([A-Z][a-z]+\)$/.test(words[i]) && /^[a-z]/.test(words[i + 1] ?? '');
+    const authorStart = words.findIndex((word, i) => i > 0 && !isSubgenus(i) && /[A-Z0-9(&,']/.test(word));
+    return authorStart === -1 ? trimmed : words.slice(0, authorStart).join(' ');
+};
+
+// --- Import ----------------------------------------------------------
+
+const normaliseHeader = (header: string) => header.toLowerCase().replace(/[^a-z]/g, '');
+
+const toRawNames = (rows: Record<string, string>[]): RawName[] => {
+    if (rows.length === 0) return [];
+    const aliases = Object.keys(HEADER_ALIASES);
+    const columns = new Map<keyof RawName, string>();
+    const preference = new Map<keyof RawName, number>();
+    Object.keys(rows[0]).forEach(header => {
+        // The last path segment of a Darwin Core term URI is the term itself.
+        const alias = normaliseHeader(header.split('/').pop() ?? header);
+        const field = HEADER_ALIASES[alias];
+        if (!field || aliases.indexOf(alias) >= (preference.get(field) ?? Infinity)) return;
+        columns.set(field, header);
+        preference.set(field, aliases.indexOf(alias));
+    });
+    if (!columns.has('name')) throw new Error('No scientific name column found (expected e.g. ScientificName or scientificName).');
+    return rows.map(row => {
+        const value = (field: keyof RawName) => {
+            const header = columns.get(field);
+            return header ? String(row[header] ?? '').trim() : '';
+        };
+        return {
+            id: value('id'), name: value('name'), authorship: value('authorship'), year: value('year'), rank: value('rank'),
+            status: value('status'), acceptedId: value('acceptedId'), acceptedName: value('acceptedName'), acceptedAuthorship: value('acceptedAuthorship'),
+            kingdom: value('kingdom'), phylum: value('phylum'), class: value('class'), order: value('order'), family: value('family'),
+        };
+    });
+};
+
+/**
+ * Builds a snapshot from raw rows. Only species and lower ranks are kept (or
+ * names of two or more words when there is no rank column). Synonyms point to
+ * their accepted name by id, or by name when the list only gives the name; an
+ * accepted name missing from the list is added from the synonym's row.
+ */
+const buildSnapshot = (raw: RawName[], source: string, fileName: string): AuthoritySnapshot => {
+    const taxa: AuthorityTaxon[] = [];
+    const byName = new Map<string, AuthorityTaxon>();
+    const byId = new Map<string, AuthorityTaxon>();
+    const add = (taxon: AuthorityTaxon) => {
+        taxa.push(taxon);
+        byId.set(taxon.id, taxon);
+        const parsed = parseTaxonName(taxon.name);
+        if (parsed && !byName.has(nameKey(parsed.genus, parsed.epithets))) byName.set(nameKey(parsed.genus, parsed.epithets), taxon);
+    };
+
+    raw.forEach((row, index) => {
+        if (!row.name) return;
+        const name = stripAuthorship(row.name, row.authorship);
+        const parsed = parseTaxonName(name);
+        if (!parsed || parsed.epithets.length === 0) return;
+        if (row.rank && !SPECIES_RANKS.test(row.rank)) return;
+        const id = row.id || `row-${index + 1}`;
+        if (byId.has(id)) return;
+        const year = parseInt(row.year, 10);
+        const published = isFinite(year) ? year : authorshipYear(row.authorship);
+        const accepted = row.acceptedId ? row.acceptedId === id : (!row.acceptedName && ACCEPTED_STATUS.test(row.status));
+        add({
+            id,
+            name,
+            authorship: row.authorship,
+            ...(published !== undefined && { year: published }),
+            rank: row.rank || (parsed.epithets.length > 1 ? 'Subspecies' : 'Species'),
+            accepted,
+            acceptedId: row.acceptedId || (accepted ? id : ''),
+            family: row.family, order: row.order, class: row.class, phylum: row.phylum, kingdom: row.kingdom,
+        });
+    });
+
+    // Synonyms whose accepted name is not a row of its own: look it up by
+    // name, else add it from the synonym's row.
+    const rowsById = new Map(raw.map((row, index) => [row.id || `row-${index + 1}`, row]));
+    taxa.filter(t => !t.accepted && !byId.has(t.acceptedId)).forEach(taxon => {
+        const row = rowsById.get(taxon.id);
+        const acceptedName = stripAuthorship(row?.acceptedName ?? '', row?.acceptedAuthorship ?? '');
+        const parsed = parseTaxonName(acceptedName);
+        if (!parsed || parsed.epithets.length === 0) {
+            taxon.accepted = true;
+            taxon.acceptedId = taxon.id;
+            return;
+        }
+        let target = byName.get(nameKey(parsed.genus, parsed.epithets));
+        if (!target) {
+            const id = taxon.acceptedId || `accepted-${taxa.length + 1}`;
+            const authorship = row?.acceptedAuthorship || (row?.acceptedName ?? '').slice(acceptedName.length).trim();
+            const year = authorshipYear(authorship);
+            const { year: _synonymYear, ...higherTaxa } = taxon;
+            target = {
+                ...higherTaxa, id, name: acceptedName, authorship, ...(year !== undefined && { year }),
+                rank: parsed.epithets.length > 1 ? 'Subspecies' : 'Species', accepted: true, acceptedId: id,
+            };
+            add(target);
+        }
+        taxon.acceptedId = target.id;
+    });
+
+    if (taxa.length === 0) throw new Error('The file contains no species-level names.');
+    return { source, fileName, importedAt: new Date().toISOString(), taxa };
+};
+
+const detectSource = (fileName: string, headers: string[], ids: string[]) => {
+    if (/mikrotax/i.test(fileName)) return 'Mikrotax';
+    if (headers.some(h => normaliseHeader(h).startsWith('aphiaid')) || ids.some(id => /marinespecies/.test(id)) || /worms/i.test(fileName)) return 'WoRMS';
+    return 'Imported list';
+};
+
+/** A WoRMS or Mikrotax export, or any delimited list with a header row. */
+export const parseAuthorityCsv = (text: string, fileName: string): AuthoritySnapshot => {
+    const parsed = Papa.parse<Record<string, string>>(text.replace(/^﻿/, ''), { header: true, skipEmptyLines: true });
+    if (parsed.data.length === 0) throw new Error('The file contains no rows.');
+    const raw = toRawNames(parsed.data);
+    return buildSnapshot(raw, detectSource(fileName, parsed.meta.fields ?? [], raw.map(r => r.id)), fileName);
+};
+
+// Darwin Core Archives are zip files: the taxon core is located through meta.xml.
+
+const readUint16 = (view: DataView, offset: number) => view.getUint16(offset, true);
+const readUint32 = (view: DataView, offset: number) => view.getUint32(offset, true);
+
+const inflateRaw = async (data: Uint8Array): Promise<Uint8Array> => {
+    if (typeof DecompressionStream === 'undefined') throw new Error('This browser cannot unpack zip archives; extract taxon.txt and import it instead.');
+    const stream = new Blob([data]).stream().pipeThrough(new DecompressionStream('deflate-raw'));
+    return new Uint8Array(await new Response(stream).arrayBuffer());
+};
+
+/** Text of the zip entries whose names pass the filter (stored or deflated entries only). */
+const readZipEntries = async (buffer: ArrayBuffer, wanted: (name: string) => boolean): Promise<Map<string, string>> => {
+    const view = new DataView(buffer);
+    let end = buffer.byteLength - 22;
+    while (end >= 0 && readUint32(view, end) !== 0x06054b50) end--;
+    if (end < 0) throw new Error('Not a zip archive.');
+    const entryCount = readUint16(view, end + 10);
+    let offset = readUint32(view, end + 16);
+    if (offset === 0xffffffff) throw new Error('Zip64 archives are not supported; extract taxon.txt and import it instead.');
+
+    const decoder = new TextDecoder('utf-8');
+    const entries = new Map<string, string>();
+    for (let i = 0; i < entryCount; i++) {
+        if (readUint32(view, offset) !== 0x02014b50) throw new Error('The zip archive is damaged.');
+        const method = readUint16(view, offset + 10);
+        const compressedSize = readUint32(view, offset + 20);
+        const nameLength = readUint16(view, offset + 28);
+        const headerOffset = readUint32(view, offset + 42);
+        const name = decoder.decode(new Uint8Array(buffer, offset + 46, nameLength));
+        offset += 46 + nameLength + readUint16(view, offset + 30) + readUint16(view, offset + 32);
+        if (!wanted(name)) continue;
+        const dataStart = headerOffset + 30 + readUint16(view, headerOffset + 26) + readUint16(view, headerOffset + 28);
+        const data = new Uint8Array(buffer, dataStart, compressedSize);
+        if (method !== 0 && method !== 8) throw new Error(`Unsupported compression in ${name}.`);
+        entries.set(name, decoder.decode(method === 8 ? await inflateRaw(data) : data));
+    }
+    return entries;
+};
+
+const baseName = (path: string) => path.split('/').pop() ?? path;
+
+const unescapeDelimiter = (value: string) => value.replace(/\\t/g, '\t').replace(/\\n/g, '\n');
+
+/** Core file, delimiter and column terms declared in a DwC-A meta.xml. */
+const parseMetaXml = (xml: string) => {
+    const core = xml.match(/<core\b([^>]*)>([\s\S]*?)<\/core>/);
+    if (!core) throw new Error('meta.xml declares no core file.');
+    const attribute = (name: string) => core[1].match(new RegExp(`${name}="([^"]*)"`))?.[1];
+    const location = core[2].match(/<location>([^<]+)<\/location>/)?.[1]?.trim();
+    if (!location) throw new Error('meta.xml gives no location for the core file.');
+    const columns: string[] = [];
+    const idIndex = core[2].match(/<id\s+index="(\d+)"/)?.[1];
+    if (idIndex !== undefined) columns[parseInt(idIndex, 10)] = 'taxonID';
+    Array.from(core[2].matchAll(/<field\s+([^>]*)\/?>/g)).forEach(([, attributes]) => {
+        const index = attributes.match(/index="(\d+)"/)?.[1];
+        const term = attributes.match(/term="([^"]+)"/)?.[1];
+        if (index !== undefined && term) columns[parseInt(index, 10)] = term.split('/').pop() as string;
+    });
+    return {
+        location,
+        delimiter: unescapeDelimiter(attribute('fieldsTerminatedBy') ?? ','),
+        quoteChar: attribute('fieldsEnclosedBy') ?? '"',
+        ignoreHeaderLines: parseInt(attribute('ignoreHeaderLines') ?? '0', 10) || 0,
+        columns,
+    };
+};
+
+/** A Darwin Core Archive (zip with meta.xml and a taxon core such as taxon.txt). */
+export const parseDarwinCoreArchive = async (buffer: ArrayBuffer, fileName: string): Promise<AuthoritySnapshot> => {
+    const entries = await readZipEntries(buffer, name => /(^|\/)(meta\.xml|taxon\.txt|taxa\.txt)$/i.test(name));
+    const metaEntry = Array.from(entries.keys()).find(name => /meta\.xml$/i.test(name));
+    const meta = metaEntry ? parseMetaXml(entries.get(metaEntry) as string) : null;
+    let coreText = Array.from(entries.entries()).find(([name]) => meta ? baseName(name) === baseName(meta.location) : /taxa?\.txt$/i.test(name))?.[1];
+    if (coreText === undefined && meta) {
+        coreText = (await readZipEntries(buffer, name => baseName(name) === baseName(meta.location))).values().next().value;
+    }
+    if (coreText === undefined) throw new Error('No taxon core file found in the archive.');
+
+    if (!meta || meta.columns.length === 0) return { ...parseAuthorityCsv(coreText, fileName), fileName };
+    const parsed = Papa.parse<string[]>(coreText.replace(/^﻿/, ''), {
+        delimiter: meta.delimiter,
+        quoteChar: meta.quoteChar || '\u0000',
+        skipEmptyLines: true,
+    });
+    const rows = parsed.data.slice(meta.ignoreHeaderLines).map(values => {
+        const row: Record<string, string> = {};
+        meta.columns.forEach((term, index) => { if (term && !(term in row)) row[term] = values[index] ?? ''; });
+        return row;
+    });
+    const raw = toRawNames(rows);
+    return buildSnapshot(raw, detectSource(fileName, meta.columns.filter(Boolean), raw.map(r => r.id)), fileName);
+};
+
+/** Imports a name list from a CSV/TSV export or a Darwin Core Archive. */
+export const importAuthorityFile = async (file: File): Promise<AuthoritySnapshot> =>
+    /\.zip$/i.test(file.name) ? parseDarwinCoreArchive(await file.arrayBuffer(), file.name) : parseAuthorityCsv(await file.text(), file.name);
+
+// --- Storage ---------------------------------------------------------
+
+// Stored as rows rather than objects to keep large lists under the storage quota.
+type StoredTaxon = [string, string, string, number | null, string, 0 | 1, string, string, string, string, string, string];
+
+interface StoredSnapshot {
+    source: string;
+    fileName: string;
+    importedAt: string;
+    taxa: StoredTaxon[];
+}
+
+export const getAuthoritySnapshot = (): AuthoritySnapshot | null => {
+    try {
+        const saved = window.localStorage.getItem(STORAGE_KEY);
+        if (!saved) return null;
+        const stored: StoredSnapshot = JSON.parse(saved);
+        return {
+            ...stored,
+            taxa: stored.taxa.map(([id, name, authorship, year, rank, accepted, acceptedId, family, order, cls, phylum, kingdom]) => ({
+                id, name, authorship, ...(year !== null && { year }), rank, accepted: accepted === 1, acceptedId, family, order, class: cls, phylum, kingdom,
+            })),
+        };
+    } catch {
+        return null;
+    }
+};
+
+export const storeAuthoritySnapshot = (snapshot: AuthoritySnapshot) => {
+    const stored: StoredSnapshot = {
+        ...snapshot,
+        taxa: snapshot.taxa.map(t => [t.id, t.name, t.authorship, t.year ?? null, t.rank, t.accepted ? 1 : 0, t.acceptedId, t.family, t.order, t.class, t.phylum, t.kingdom]),
+    };
+    try {
+        window.localStorage.setItem(STORAGE_KEY, JSON.stringify(stored));
+    } catch (error) {
+        throw new Error('Could not store the name list in this browser (storage may be full).');
+    }
+};
+
+export const clearAuthoritySnapshot = () => {
+    window.localStorage.removeItem(STORAGE_KEY);
+};
+
+// --- Resolution ------------------------------------------------------
+
+interface AuthorityIndex {
+    byId: Map<string, AuthorityTaxon>;
+    byName: Map<string, AuthorityTaxon[]>;
+    byEpithets: Map<string, AuthorityTaxon[]>;
+}
+
+const indexCache = new WeakMap<AuthoritySnapshot, AuthorityIndex>();
+
+const indexSnapshot = (snapshot: AuthoritySnapshot): AuthorityIndex => {
+    const cached = indexCache.get(snapshot);
+    if (cached) return cached;
+    const index: AuthorityIndex = { byId: new Map(), byName: new Map(), byEpithets: new Map() };
+    const push = (map: Map<string, AuthorityTaxon[]>, key: string, taxon: AuthorityTaxon) => map.set(key, [...(map.get(key) ?? []), taxon]);
+    snapshot.taxa.forEach(taxon => {
+        index.byId.set(taxon.id, taxon);
+        const parsed = parseTaxonName(taxon.name);
+        if (!parsed) return;
+        push(index.byName, nameKey(parsed.genus, parsed.epithets), taxon);
+        push(index.byEpithets, parsed.epithets.join(' '), taxon);
+    });
+    indexCache.set(snapshot, index);
+    return index;
+};
+
+const followSynonyms = (taxon: AuthorityTaxon, index: AuthorityIndex): AuthorityTaxon => {
+    let current = taxon;
+    for (let hop = 0; hop < MAX_SYNONYM_HOPS && !current.accepted; hop++) {
+        const next = index.byId.get(current.acceptedId);
+        if (!next || next === current) break;
+        current = next;
+    }
+    return current;
+};
+
+// Accepted names first, then the more complete (infraspecific) name.
+const preferAccepted = (candidates: AuthorityTaxon[]) => [...candidates].sort((a, b) => Number(b.accepted) - Number(a.accepted));
+
+const candidatesFor = (parsed: ParsedName, epithets: string[], index: AuthorityIndex) =>
+    parsed.abbreviated
+        ? (index.byEpithets.get(epithets.join(' ')) ?? []).filter(t => t.name.toLowerCase().startsWith(parsed.genus))
+        : index.byName.get(nameKey(parsed.genus, epithets)) ?? [];
+
+/**
+ * Looks a name up in the snapshot and follows it to its accepted name.
+ * Informal trailing words are dropped one at a time until a name matches, so
+ * "G. ruber white" finds Globigerinoides ruber.
+ */
+export const resolveTaxonName = (name: string, snapshot: AuthoritySnapshot): AuthorityMatch | null => {
+    const parsed = parseTaxonName(name);
+    if (!parsed || parsed.epithets.length === 0) return null;
+    const index = indexSnapshot(snapshot);
+    for (let length = parsed.epithets.length; length >= 1; length--) {
+        const candidates = preferAccepted(candidatesFor(parsed, parsed.epithets.slice(0, length), index));
+        if (candidates.length === 0) continue;
+        const matched = candidates[0];
+        const accepted = followSynonyms(matched, index);
+        const alternatives = Array.from(new Set(candidates.map(c => followSynonyms(c, index)))).filter(t => t !== accepted);
+        return { matched, accepted, isSynonym: accepted !== matched, alternatives };
+    }
+    return null;
+};
+
+/** Authority record to store on a catalogue species. */
+export const authorityFromMatch = (match: AuthorityMatch, snapshot: AuthoritySnapshot, verbatimName: string): TaxonAuthority => ({
+    acceptedName: match.accepted.name,
+    authorship: match.accepted.authorship,
+    ...(match.accepted.year !== undefined && { year: match.accepted.year }),
+    source: snapshot.source,
+    ...(!match.accepted.id.startsWith('accepted-') && !match.accepted.id.startsWith('row-') && { sourceId: match.accepted.id }),
+    ...(match.isSynonym && { verbatimName }),
+});
+
+/** Taxonomy fields for the accepted name, keeping what the list does not give. */
+export const acceptedTaxonomy = (taxonomy: Taxonomy, accepted: AuthorityTaxon): Taxonomy => {
+    const [genus, ...epithets] = accepted.name.replace(/\([^)]*\)/g, ' ').trim().split(/\s+/);
+    return {
+        kingdom: accepted.kingdom || taxonomy.kingdom,
+        phylum: accepted.phylum || taxonomy.phylum,
+        class: accepted.class || taxonomy.class,
+        order: accepted.order || taxonomy.order,
+        family: accepted.family || taxonomy.family,
+        genus,
+        species: epithets.join(' '),
+    };
+};
+
+// --- Catalogue checks ------------------------------------------------
+
+const sameName = (a: ParsedName, b: ParsedName) => {
+    const length = Math.min(a.epithets.length, b.epithets.length);
+    if (length === 0 || a.epithets.slice(0, length).join(' ') !== b.epithets.slice(0, length).join(' ')) return false;
+    return a.abbreviated || b.abbreviated ? a.genus[0] === b.genus[0] : a.genus === b.genus;
+};
+
+const acceptedKey = (name: string) => {
+    const parsed = parseTaxonName(name);
+    return parsed && parsed.epithets.length > 0 && !parsed.abbreviated ? nameKey(parsed.genus, parsed.epithets.slice(0, 2)) : null;
+};
+
+/**
+ * Catalogue species the candidate would duplicate: the same name written
+ * differently, or a name with the same accepted name (from the snapshot,
+ * else from the authority stored on the existing species).
+ */
+export const findCatalogueDuplicates = (
+    candidate: { taxonomy: Pick<Taxonomy, 'genus' | 'species'> },
+    microfossils: Microfossil[],
+    snapshot: AuthoritySnapshot | null,
+): CatalogueDuplicate[] => {
+    const name = taxonomyName(candidate.taxonomy);
+    const parsed = parseTaxonName(name);
+    const hasName = parsed !== null && parsed.epithets.length > 0;
+    const acceptedName = hasName && snapshot ? resolveTaxonName(name, snapshot)?.accepted.name : undefined;
+    const candidateKey = hasName ? acceptedKey(acceptedName ?? name) : null;
+
+    return microfossils.flatMap((fossil): CatalogueDuplicate[] => {
+        if (!hasName) return [];
+        const existingName = taxonomyName(fossil.taxonomy);
+        const existing = parseTaxonName(existingName);
+        if (existing && sameName(parsed, existing)) return [{ fossil, reason: 'name' }];
+        const existingAccepted = (snapshot ? resolveTaxonName(existingName, snapshot)?.accepted.name : undefined) ?? fossil.authority?.acceptedName ?? existingName;
+        if (candidateKey && acceptedKey(existingAccepted) === candidateKey) return [{ fossil, reason: 'synonym', acceptedName: existingAccepted }];
+        return [];
+    });
+};
+
+/** One-line description of a duplicate for the warning banners. */
+export const describeDuplicate = (duplicate: CatalogueDuplicate): string => {
+    const existing = `${taxonomyName(duplicate.fossil.taxonomy)} (${duplicate.fossil.code})`;
+    if (duplicate.reason === 'name') return `${existing} is already in the catalogue.`;
+    return `${existing} is the same species${duplicate.acceptedName ? `, accepted as ${duplicate.acceptedName}` : ''}.`;
+};
@@ -0,0 +1,114 @@
+import type { Section, TiePoint, TephraLayer, MajorOxide, OxideComposition } from '../types';
+import { TEPHRA_REFERENCES, type TephraReference } from '../data/tephraReferences';
+
+// =================================================================
+// TEPHROCHRONOLOGY
+// Glass compositions are normalised to 100 % over the oxides analysed in the
+// layer, then compared with each reference in two ways:
+//  - Similarity coefficient (Borchardt et al., 1972): the mean ratio of the
+//    smaller to the larger value of each oxide, over oxides reaching 1 wt% in
+//    either composition (minor oxides are dominated by analytical error).
+//    Values ≥ 0.95 usually indicate the same eruption.
+//  - Statistical distance (Perkins et al., 1995): D² = Σ (x − y)² / (σx² + σy²),
+//    tested against the 99 % χ² value for one degree of freedom per oxide.
+// A match is confident when it passes both. The tie-point goes at the base of
+// the layer, the part least displaced by bioturbation.
+// =================================================================
+
+export const MAJOR_OXIDES: MajorOxide[] = ['SiO2', 'TiO2', 'Al2O3', 'FeOt', 'MnO', 'MgO', 'CaO', 'Na2O', 'K2O'];
+
+export const OXIDE_LABELS: Record<MajorOxide, string> = {
+    SiO2: 'SiO₂', TiO2: 'TiO₂', Al2O3: 'Al₂O₃', FeOt: 'FeOt', MnO: 'MnO', MgO: 'MgO', CaO: 'CaO', Na2O: 'Na₂O', K2O: 'K₂O',
+};
+
+export const MIN_SIMILARITY = 0.95;
+const SIMILARITY_MIN_WT = 1;
+// χ² at 99 % for 1..9 degrees of freedom.
+const CHI_SQUARE_99 = [6.63, 9.21, 11.34, 13.28, 15.09, 16.81, 18.48, 20.09, 21.67];
+
+export interface TephraMatch {
+    reference: TephraReference;
+    similarity: number;
+    distance: number; // D²
+    criticalDistance: number;
+    oxides: MajorOxide[];
+    confident: boolean;
+}
+
+export interface TephraTiePointProposal {
+    tiePoint: TiePoint;
+    layer: TephraLayer;
+    reference: TephraReference;
+    assigned: boolean; // the correlative was accepted on the layer rather than inferred from the best match
+}
+
+const analysedOxides = (composition: OxideComposition | undefined): MajorOxide[] =>
+    MAJOR_OXIDES.filter(oxide => typeof composition?.[oxide] === 'number' && isFinite(composition[oxide] as number));
+
+/** Normalises a composition to 100 % over the given oxides; the scale factor also applies to its 1σ. */
+const normalise = (composition: OxideComposition, oxides: MajorOxide[]) => {
+    const total = oxides.reduce((sum, oxide) => sum + (composition[oxide] as number), 0);
+    const factor = total > 0 ? 100 / total : 1;
+    return { factor, values: Object.fromEntries(oxides.map(oxide => [oxide, (composition[oxide] as number) * factor])) as Record<MajorOxide, number> };
+};
+
+/** Ranked matches of a layer's glass against the reference set, best similarity first. */
+export const matchTephraLayer = (layer: TephraLayer, references: TephraReference[] = TEPHRA_REFERENCES): TephraMatch[] => {
+    const oxides = analysedOxides(layer.glassMean);
+    if (!layer.glassMean || oxides.length < 3) return [];
+    const sample = normalise(layer.glassMean, oxides);
+
+    return references
+        .map(reference => {
+            const ref = normalise(reference.mean, oxides);
+            const compared = oxides.filter(oxide => Math.max(sample.values[oxide], ref.values[oxide]) >= SIMILARITY_MIN_WT);
+            const similarity = compared.length > 0
+                ? compared.reduce((sum, oxide) => {
+                    const a = sample.values[oxide];
+                    const b = ref.values[oxide];
+                    return sum + Math.min(a, b) / Math.max(a, b);
+                }, 0) / compared.length
+                : 0;
+
+            const distance = oxides.reduce((sum, oxide) => {
+                const sampleSd = (layer.glassSd?.[oxide] ?? 0) * sample.factor;
+                const refSd = reference.sd[oxide] * ref.factor;
+                const variance = sampleSd ** 2 + refSd ** 2;
+                return variance > 0 ? sum + (sample.values[oxide] - ref.values[oxide]) ** 2 / variance : sum;
+            }, 0);
+            const criticalDistance = CHI_SQUARE_99[oxides.length - 1];
+
+            return {
+                reference,
+                similarity,
+                distance,
+                criticalDistance,
+                oxides,
+                confident: similarity >= MIN_SIMILARITY && distance <= criticalDistance,
+            };
+        })
+        .sort((a, b) => b.similarity - a.similarity || a.distance - b.distance);
+};
+
+/** Dated tie-point at the base of a layer correlated with a reference eruption. */
+export const tephraTiePoint = (layer: TephraLayer, sectionId: string, reference: TephraReference): TiePoint => ({
+    id: `tephra-${layer.id}-${Date.now()}`,
+    sectionId,
+    depth: parseFloat((layer.depth + layer.thickness).toFixed(1)),
+    age: reference.age,
+    ageUncertainty: reference.ageUncertainty,
+    label: reference.name,
+});
+
+/**
+ * Tie-points from the sections' tephra layers: the accepted correlative where
+ * one is set, otherwise the best match if it is confident.
+ */
+export const proposeTephraTiePoints = (sections: Section[], references: TephraReference[] = TEPHRA_REFERENCES): TephraTiePointProposal[] =>
+    sections.flatMap(section => (section.tephraRecord ?? []).flatMap((layer): TephraTiePointProposal[] => {
+        const assigned = layer.correlativeId ? references.find(r => r.id === layer.correlativeId) : undefined;
+        const best = matchTephraLayer(layer, references)[0];
+        const reference = assigned ?? (best?.confident ? best.reference : undefined);
+        if (!reference) return [];
+        return [{ tiePoint: tephraTiePoint(layer, section.id, reference), layer, reference, assigned: !!assigned }];
+    }));
@@ -0,0 +1,377 @@
+import Papa from 'papaparse';
+import type { Section, DataPoint, Microfossil, CensusSample, TransferFunctionMethod, TransferFunctionRecord } from '../types';
+import { insertCensusPoint, dropEmptyCensusPoints } from './censusService';
+
+// =================================================================
+// ASSEMBLAGE TRANSFER FUNCTIONS
+// Census assemblages are turned into SST with a core-top calibration set
+// (taxon proportions + observed SST per site) imported as CSV:
+//  - MAT (Hutson, 1980; Prell, 1985): squared chord distance to every
+//    calibration site, SST = inverse-distance weighted mean of the k nearest
+//    analogues. A sample whose closest analogue is further than the 5th
+//    percentile of the calibration set's own pairwise distances has no good
+//    analogue (Simpson, 2007).
+//  - WA-PLS (ter Braak & Juggins, 1993): weighted averaging partial least
+//    squares; each component is fitted to the residuals of the previous ones.
+// Errors are leave-one-out RMSEP. Calibration columns are matched to the
+// catalogue by fossil code or by "Genus species".
+// =================================================================
+
+const STORAGE_KEY = 'paleocore-transfer-calibration';
+const METADATA_COLUMNS = /^(id|sample|site|core|station|lat|latitude|lon|long|longitude|depth|water ?depth|ref|reference)$/i;
+const SST_COLUMN = /sst|temp/i;
+
+export const DEFAULT_ANALOGUES = 5;
+export const DEFAULT_COMPONENTS = 2;
+export const MAX_COMPONENTS = 5;
+export const NO_ANALOGUE_PERCENTILE = 5;
+export const TRANSFER_COLUMNS = ['sstTransfer', 'sstTransferRmsep', 'analogueDistance', 'noAnalogue'];
+
+export interface CalibrationSet {
+    fileName: string;
+    taxa: string[]; // column headers as written in the file
+    sst: number[];
+    proportions: number[][]; // site × taxon, each row summing to 1
+}
+
+export interface TransferFunctionOptions {
+    method: TransferFunctionMethod;
+    k?: number;
+    components?: number;
+}
+
+export interface CrossValidation {
+    rmsep: number;
+    r2: number;
+    /** WA-PLS only: RMSEP and r² for 1..MAX_COMPONENTS components, to choose the model size. */
+    byComponents?: { components: number; rmsep: number; r2: number }[];
+}
+
+export interface SstReconstruction {
+    sampleId: string;
+    subsection?: string;
+    depth: number;
+    sst: number;
+    rmsep: number;
+    minDistance: number; // squared chord distance to the closest calibration site
+    noAnalogue: boolean;
+    matchedPercent: number; // share of the counted specimens in calibration taxa
+}
+
+export interface TransferFunctionResult {
+    record: TransferFunctionRecord;
+    crossValidation: CrossValidation;
+    reconstructions: SstReconstruction[];
+    unmatchedTaxa: string[]; // census taxa absent from the calibration set
+}
+
+const normaliseName = (name: string) => name.toLowerCase().replace(/[^a-z0-9]/g, '');
+
+// --- Calibration set import & storage --------------------------------
+
+/**
+ * Parses a calibration CSV: one row per core-top site, a header row naming the
+ * taxa, and an SST column (header containing "SST" or "temp"). Metadata
+ * columns (id, site, latitude, ...) are ignored. Counts or percentages are
+ * converted to proportions per site.
+ */
+export const parseCalibrationCsv = (text: string, fileName: string): CalibrationSet => {
+    const { data } = Papa.parse<string[]>(text.trim(), { skipEmptyLines: true });
+    const [header, ...rows] = data;
+    if (!header || rows.length === 0) throw new Error('The calibration file needs a header row and at least one site.');
+    const sstIndex = header.findIndex(h => SST_COLUMN.test(h));
+    if (sstIndex === -1) throw new Error('No SST column found: name it "SST" (or include "temp" in the header).');
+    const taxonIndices = header
+        .map((h, i) => i)
+        .filter(i => i !== sstIndex && header[i].trim() && !METADATA_COLUMNS.test(header[i].trim()));
+    if (taxonIndices.length < 2) throw new Error('The calibration file needs at least two taxon columns.');
+
+    const sst: number[] = [];
+    const proportions: number[][] = [];
+    rows.forEach(cols => {
+        const temperature = parseFloat(cols[sstIndex]);
+        const abundances = taxonIndices.map(i => Math.max(0, parseFloat(cols[i]) || 0));
+        const total = abundances.reduce((sum, v) => sum + v, 0);
+        if (!isFinite(temperature) || total <= 0) return;
+        sst.push(temperature);
+        proportions.push(abundances.map(v => v / total));
+    });
+    if (sst.length < 10) throw new Error(`Only ${sst.length} usable sites found; a calibration set needs at least 10.`);
+    return { fileName, taxa: taxonIndices.map(i => header[i].trim()), sst, proportions };
+};
+
+export const getCalibrationSet = (): CalibrationSet | null => {
+    try {
+        const saved = window.localStorage.getItem(STORAGE_KEY);
+        return saved ? JSON.parse(saved) : null;
+    } catch {
+        return null;
+    }
+};
+
+export const storeCalibrationSet = (calibration: CalibrationSet) => {
+    try {
+        window.localStorage.setItem(STORAGE_KEY, JSON.stringify(calibration));
+    } catch (error) {
+        throw new Error('Could not store the calibration set in this browser (storage may be full).');
+    }
+};
+
+export const clearCalibrationSet = () => {
+    window.localStorage.removeItem(STORAGE_KEY);
+};
+
+// --- Taxon matching --------------------------------------------------
+
+/** Calibration column index of each catalogue fossil that appears in the calibration set. */
+export const matchCalibrationTaxa = (calibration: CalibrationSet, microfossils: Microfossil[]): Map<string, number> => {
+    const columns = new Map(calibration.taxa.map((taxon, index) => [normaliseName(taxon), index]));
+    const matched = new Map<string, number>();
+    microfossils.forEach(fossil => {
+        const index = columns.get(normaliseName(fossil.code)) ?? columns.get(normaliseName(`${fossil.taxonomy.genus} ${fossil.taxonomy.species}`));
+        if (index !== undefined) matched.set(fossil.id, index);
+    });
+    return matched;
+};
+
+/** A census sample as proportions of the total counted, in calibration column order. */
+const sampleProportions = (sample: CensusSample, calibration: CalibrationSet, matched: Map<string, number>): number[] => {
+    const proportions = new Array(calibration.taxa.length).fill(0);
+    Object.entries(sample.counts).forEach(([fossilId, count]) => {
+        const index = matched.get(fossilId);
+        if (index !== undefined) proportions[index] += count / sample.totalCounted;
+    });
+    return proportions;
+};
+
+// --- MAT -------------------------------------------------------------
+
+export const squaredChordDistance = (a: number[], b: number[]): number =>
+    a.reduce((sum, p, i) => sum + (Math.sqrt(p) - Math.sqrt(b[i])) ** 2, 0);
+
+const percentile = (values: number[], p: number): number => {
+    const sorted = [...values].sort((a, b) => a - b);
+    const rank = (p / 100) * (sorted.length - 1);
+    const lower = Math.floor(rank);
+    const upper = Math.ceil(rank);
+    return sorted[lower] + (sorted[upper] - sorted[lower]) * (rank - lower);
+};
+
+/** No-analogue threshold: the given percentile of the pairwise distances between calibration sites. */
+export const noAnalogueThreshold = (calibration: CalibrationSet, pct = NO_ANALOGUE_PERCENTILE): number => {
+    const distances: number[] = [];
+    const { proportions } = calibration;
+    for (let i = 0; i < proportions.length; i++) {
+        for (let j = i + 1; j < proportions.length; j++) distances.push(squaredChordDistance(proportions[i], proportions[j]));
+    }
+    return percentile(distances, pct);
+};
+
+const matPredict = (calibration: CalibrationSet, sample: number[], k: number, exclude = -1) => {
+    const nearest = calibration.proportions
+        .map((site, index) => ({ index, distance: index === exclude ? Infinity : squaredChordDistance(sample, site) }))
+        .sort((a, b) => a.distance - b.distance)
+        .slice(0, Math.min(k, calibration.proportions.length - (exclude >= 0 ? 1 : 0)));
+    // An identical assemblage gets (almost) all the weight rather than dividing by zero.
+    const weights = nearest.map(a => 1 / Math.max(a.distance, 1e-6));
+    const total = weights.reduce((sum, w) => sum + w, 0);
+    return {
+        sst: nearest.reduce((sum, a, i) => sum + calibration.sst[a.index] * weights[i], 0) / total,
+        minDistance: nearest[0].distance,
+    };
+};
+
+// --- WA-PLS ----------------------------------------------------------
+
+interface WaplsComponent {
+    optima: number[]; // species scores
+    mean: number; // weighted mean of the raw site scores (centring)
+    orthogonal: number[]; // coefficients on the previous components' site scores
+    slope: number; // regression of the environmental residual on this component
+}
+
+interface WaplsModel {
+    intercept: number;
+    components: WaplsComponent[];
+}
+
+const weightedSum = (weights: number[], a: number[], b: number[]) => a.reduce((sum, v, i) => sum + weights[i] * v * b[i], 0);
+
+const fitWapls = (proportions: number[][], sst: number[], nComponents: number): WaplsModel => {
+    const siteTotals = proportions.map(row => row.reduce((sum, v) => sum + v, 0));
+    const taxonTotals = proportions[0].map((_, k) => proportions.reduce((sum, row) => sum + row[k], 0));
+    const totalWeight = siteTotals.reduce((sum, v) => sum + v, 0);
+    const intercept = weightedSum(siteTotals, sst, siteTotals.map(() => 1)) / totalWeight;
+
+    let residual = sst.map(x => x - intercept);
+    const scores: number[][] = [];
+    const components: WaplsComponent[] = [];
+    for (let c = 0; c < nComponents; c++) {
+        const optima = taxonTotals.map((total, k) => total > 0 ? proportions.reduce((sum, row, i) => sum + row[k] * residual[i], 0) / total : 0);
+        const raw = proportions.map((row, i) => weightedSum(row, optima, row.map(() => 1)) / siteTotals[i]);
+        const mean = weightedSum(siteTotals, raw, raw.map(() => 1)) / totalWeight;
+        let score = raw.map(r => r - mean);
+        const orthogonal = scores.map(previous => {
+            const coefficient = weightedSum(siteTotals, score, previous) / weightedSum(siteTotals, previous, previous);
+            score = score.map((s, i) => s - coefficient * previous[i]);
+            return coefficient;
+        });
+        const variance = weightedSum(siteTotals, score, score);
+        if (variance <= 1e-12) break;
+        const slope = weightedSum(siteTotals, score, residual) / variance;
+        residual = residual.map((r, i) => r - slope * score[i]);
+        scores.push(score);
+        components.push({ optima, mean, orthogonal, slope });
+    }
+    return { intercept, components };
+};
+
+/** WA-PLS estimates of a sample with 1, 2, ... components. */
+const waplsPredict = (model: WaplsModel, sample: number[]): number[] => {
+    const total = sample.reduce((sum, v) => sum + v, 0);
+    const scores: number[] = [];
+    let estimate = model.intercept;
+    return model.components.map(component => {
+        const raw = weightedSum(sample, component.optima, sample.map(() => 1)) / total;
+        const score = component.orthogonal.reduce((s, coefficient, j) => s - coefficient * scores[j], raw - component.mean);
+        scores.push(score);
+        estimate += component.slope * score;
+        return estimate;
+    });
+};
+
+// --- Cross-validation & reconstruction -------------------------------
+
+const errorStatistics = (observed: number[], predicted: number[]) => {
+    const n = observed.length;
+    const rmsep = Math.sqrt(observed.reduce((sum, x, i) => sum + (x - predicted[i]) ** 2, 0) / n);
+    const meanObserved = observed.reduce((s, x) => s + x, 0) / n;
+    const meanPredicted = predicted.reduce((s, x) => s + x, 0) / n;
+    const covariance = observed.reduce((s, x, i) => s + (x - meanObserved) * (predicted[i] - meanPredicted), 0);
+    const varObserved = observed.reduce((s, x) => s + (x - meanObserved) ** 2, 0);
+    const varPredicted = predicted.reduce((s, x) => s + (x - meanPredicted) ** 2, 0);
+    const r2 = varObserved > 0 && varPredicted > 0 ? covariance ** 2 / (varObserved * varPredicted) : 0;
+    return { rmsep, r2 };
+};
+
+/** Leave-one-out RMSEP and r² of the method on the calibration set. */
+export const crossValidate = (calibration: CalibrationSet, options: TransferFunctionOptions): CrossValidation => {
+    const { sst, proportions } = calibration;
+    if (options.method === 'MAT') {
+        const k = options.k ?? DEFAULT_ANALOGUES;
+        const predicted = proportions.map((site, i) => matPredict(calibration, site, k, i).sst);
+        return errorStatistics(sst, predicted);
+    }
+
+    const predictedByComponents: number[][] = Array.from({ length: MAX_COMPONENTS }, () => []);
+    proportions.forEach((site, i) => {
+        const model = fitWapls(proportions.filter((_, j) => j !== i), sst.filter((_, j) => j !== i), MAX_COMPONENTS);
+        const estimates = waplsPredict(model, site);
+        predictedByComponents.forEach((predicted, c) => predicted.push(estimates[Math.min(c, estimates.length - 1)]));
+    });
+    const byComponents = predictedByComponents.map((predicted, c) => ({ components: c + 1, ...errorStatistics(sst, predicted) }));
+    const chosen = byComponents[Math.min(options.components ?? DEFAULT_COMPONENTS, MAX_COMPONENTS) - 1];
+    return { rmsep: chosen.rmsep, r2: chosen.r2, byComponents };
+};
+
+/**
+ * Reconstructs SST for every census sample of the section. Samples with no
+ * specimens in the calibration taxa get no estimate. The analogue distance
+ * and flag are computed for WA-PLS too, as a check on the assemblage.
+ */
+export const runTransferFunction = (
+    section: Section,
+    calibration: CalibrationSet,
+    microfossils: Microfossil[],
+    options: TransferFunctionOptions
+): TransferFunctionResult => {
+    const samples = [...(section.censusSamples ?? [])].sort((a, b) => a.depth - b.depth);
+    if (samples.length === 0) throw new Error('The section has no census samples to reconstruct.');
+    const matched = matchCalibrationTaxa(calibration, microfossils);
+    const censusTaxa = Array.from(new Set(samples.flatMap(s => Object.keys(s.counts))));
+    if (!censusTaxa.some(fossilId => matched.has(fossilId))) {
+        throw new Error('None of the counted taxa appear in the calibration set: check that its column headers use the catalogue names.');
+    }
+
+    const crossValidation = crossValidate(calibration, options);
+    const threshold = noAnalogueThreshold(calibration);
+    const k = options.k ?? DEFAULT_ANALOGUES;
+    const components = options.components ?? DEFAULT_COMPONENTS;
+    const model = options.method === 'WAPLS' ? fitWapls(calibration.proportions, calibration.sst, components) : null;
+
+    const reconstructions = samples.flatMap((sample): SstReconstruction[] => {
+        const proportions = sampleProportions(sample, calibration, matched);
+        const matchedShare = proportions.reduce((sum, v) => sum + v, 0);
+        if (matchedShare <= 0) return [];
+        const mat = matPredict(calibration, proportions, k);
+        const estimates = model ? waplsPredict(model, proportions) : null;
+        const sst = estimates ? estimates[estimates.length - 1] : mat.sst;
+        return [{
+            sampleId: sample.id,
+            ...(sample.subsection && { subsection: sample.subsection }),
+            depth: sample.depth,
+            sst: parseFloat(sst.toFixed(2)),
+            rmsep: parseFloat(crossValidation.rmsep.toFixed(2)),
+            minDistance: parseFloat(mat.minDistance.toFixed(4)),
+            noAnalogue: mat.minDistance > threshold,
+            matchedPercent: matchedShare * 100,
+        }];
+    });
+
+    return {
+        record: {
+            method: options.method,
+            calibrationName: calibration.fileName,
+            calibrationSize: calibration.sst.length,
+            ...(options.method === 'MAT' ? { k } : { components: model?.components.length ?? components }),
+            rmsep: parseFloat(crossValidation.rmsep.toFixed(2)),
+            r2: parseFloat(crossValidation.r2.toFixed(3)),
+            noAnalogueThreshold: parseFloat(threshold.toFixed(4)),
+            fillCalculatedSST: false,
+            computedAt: new Date().toISOString(),
+        },
+        crossValidation,
+        reconstructions,
+        unmatchedTaxa: censusTaxa.filter(fossilId => !matched.has(fossilId)),
+    };
+};
+
+// `calculatedSST` goes too when the previous record filled it; recalculating the
+// derived columns afterwards restores any calibration value.
+const withoutTransferColumns = (dp: DataPoint, record: TransferFunctionRecord | undefined): DataPoint => {
+    const copy = { ...dp };
+    TRANSFER_COLUMNS.forEach(key => delete copy[key]);
+    if (record?.fillCalculatedSST) delete copy.calculatedSST;
+    return copy;
+};
+
+/**
+ * Writes the reconstructions into the section's data points (matched by
+ * subsection, else by depth; unmatched samples get a new point in depth
+ * order) and stores the record. Previous transfer-function columns, and
+ * added points left empty by that, are cleared first; run
+ * `recalculateDerivedColumns` on the result to fill `calculatedSST`.
+ */
+export const applyTransferFunction = (section: Section, result: TransferFunctionResult, fillCalculatedSST: boolean): Section => {
+    let dataPoints = dropEmptyCensusPoints(section.dataPoints.map(dp => withoutTransferColumns(dp, section.transferFunction)));
+    result.reconstructions.forEach(r => {
+        const values = { sstTransfer: r.sst, sstTransferRmsep: r.rmsep, analogueDistance: r.minDistance, noAnalogue: r.noAnalogue };
+        const index = dataPoints.findIndex(dp => (r.subsection && dp.subsection === r.subsection) || dp.depth === r.depth);
+        if (index === -1) dataPoints = insertCensusPoint(dataPoints, { subsection: r.subsection ?? `Census ${r.depth} cm`, depth: r.depth, ...values });
+        else dataPoints[index] = { ...dataPoints[index], ...values };
+    });
+    return {
+        ...section,
+        dataPoints,
+        transferFunction: { ...result.record, fillCalculatedSST },
+    };
+};
+
+/** Removes the transfer-function record, the columns it wrote and the points it added. */
+export const clearTransferFunction = (section: Section): Section => {
+    const { transferFunction, ...rest } = section;
+    return {
+        ...rest,
+        dataPoints: dropEmptyCensusPoints(section.dataPoints.map(dp => withoutTransferColumns(dp, transferFunction))),
+    };
+};
@@ -0,0 +1,9 @@
+-- =================================================================
+-- RESERVOIR CORRECTION
+-- Local marine reservoir offset (ΔR ± σ, 14C yr) of a core, applied when
+-- its radiocarbon dates are calibrated against Marine20:
+--   { "deltaR": number, "deltaRError": number }
+-- =================================================================
+
+alter table public.cores
+    add column if not exists reservoir_correction jsonb;
@@ -0,0 +1,50 @@
+-- =================================================================
+-- AGE MODELS
+-- Named age-model versions of a core: tie-points, method and parameters,
+-- the splice and the ages generated for each section. At most one version
+-- per core is active; charts and reports use that one. Versions belong to
+-- the owner of the core and go with it when the core is deleted.
+-- =================================================================
+
+create extension if not exists pgcrypto;
+
+create table if not exists public.age_models (
+    id uuid primary key default gen_random_uuid(),
+    core_id text not null references public.cores (id) on delete cascade,
+    user_id uuid not null references auth.users (id) on delete cascade,
+    name text not null check (length(trim(name)) > 0),
+    method text not null,
+    parameters jsonb,
+    tie_points jsonb not null default '[]'::jsonb,
+    splice_intervals jsonb,
+    generated_ages jsonb,
+    is_active boolean not null default false,
+    author text not null,
+    created_at timestamptz not null default now()
+);
+
+create index if not exists age_models_core_id_idx on public.age_models (core_id, created_at desc);
+create unique index if not exists age_models_one_active_idx on public.age_models (core_id) where is_active;
+
+-- --- Row-level security ------------------------------------------------
+
+alter table public.age_models enable row level security;
+
+drop policy if exists "Owners read their age models" on public.age_models;
+create policy "Owners read their age models" on public.age_models
+    for select using (user_id = auth.uid());
+
+drop policy if exists "Owners save age models of their cores" on public.age_models;
+create policy "Owners save age models of their cores" on public.age_models
+    for insert with check (
+        user_id = auth.uid()
+        and exists (select 1 from public.cores where cores.id = core_id and cores.user_id = auth.uid())
+    );
+
+drop policy if exists "Owners update their age models" on public.age_models;
+create policy "Owners update their age models" on public.age_models
+    for update using (user_id = auth.uid()) with check (user_id = auth.uid());
+
+drop policy if exists "Owners delete their age models" on public.age_models;
+create policy "Owners delete their age models" on public.age_models
+    for delete using (user_id = auth.uid());
@@ -0,0 +1,9 @@
+-- =================================================================
+-- SST CALIBRATIONS
+-- Provenance of the temperature columns derived from proxy columns: one
+-- record per calibration (equation, constants, source and target column,
+-- timestamp). The first one also fills calculatedSST.
+-- =================================================================
+
+alter table public.sections
+    add column if not exists sst_calibrations jsonb;
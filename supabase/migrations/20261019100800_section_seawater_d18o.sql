@@ -0,0 +1,9 @@
+-- =================================================================
+-- SEAWATER δ18O
+-- Settings of the seawater δ18O calculation of a section: paleotemperature
+-- equation and constants, temperature column, input uncertainties and the
+-- optional ice-volume correction (sea-level curve and scaling).
+-- =================================================================
+
+alter table public.sections
+    add column if not exists seawater_d18o jsonb;
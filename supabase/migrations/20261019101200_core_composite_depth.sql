@@ -0,0 +1,8 @@
+-- =================================================================
+-- COMPOSITE DEPTH
+-- Composite depth model of a core: the affine table of per-section offsets,
+-- the splice intervals and the tie points they were correlated from.
+-- =================================================================
+
+alter table public.cores
+    add column if not exists composite_depth jsonb;
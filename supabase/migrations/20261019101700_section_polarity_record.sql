@@ -0,0 +1,9 @@
+-- =================================================================
+-- POLARITY RECORD
+-- Magnetic polarity zones of a section, top down: depth interval (cm),
+-- normal/reversed/uncertain polarity, optional mean inclination and the
+-- confidence of the interpretation.
+-- =================================================================
+
+alter table public.sections
+    add column if not exists polarity_record jsonb;
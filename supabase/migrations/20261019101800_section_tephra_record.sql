@@ -0,0 +1,9 @@
+-- =================================================================
+-- TEPHRA RECORD
+-- Tephra layers of a section: depth and thickness (cm), glass major-element
+-- means and standard deviations, shard count, the reference tephra the layer
+-- was correlated with and notes.
+-- =================================================================
+
+alter table public.sections
+    add column if not exists tephra_record jsonb;
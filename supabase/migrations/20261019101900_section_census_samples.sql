@@ -0,0 +1,8 @@
+-- =================================================================
+-- CENSUS SAMPLES
+-- Per-sample specimen counts of a section: counts by fossil id, total
+-- counted, split fraction, sieve size (µm) and dry weight (g).
+-- =================================================================
+
+alter table public.sections
+    add column if not exists census_samples jsonb;
@@ -0,0 +1,9 @@
+-- =================================================================
+-- TRANSFER FUNCTION
+-- Settings and provenance of the census-based SST reconstruction of a
+-- section: method (MAT or WA-PLS), calibration data set, parameters,
+-- cross-validated RMSEP and r², and the no-analogue threshold.
+-- =================================================================
+
+alter table public.sections
+    add column if not exists transfer_function jsonb;
@@ -0,0 +1,8 @@
+-- =================================================================
+-- ASSEMBLAGE ZONES
+-- Faunal assemblage zones of a section saved from a CONISS clustering:
+-- label, depth interval (cm) and number of census samples in each zone.
+-- =================================================================
+
+alter table public.sections
+    add column if not exists assemblage_zones jsonb;
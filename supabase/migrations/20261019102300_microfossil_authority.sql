@@ -0,0 +1,9 @@
+-- =================================================================
+-- TAXONOMIC AUTHORITY
+-- Snapshot of the authority record a microfossil entry was checked
+-- against: accepted name, authorship and year, source database and its
+-- record id, and the name as entered when it was a synonym.
+-- =================================================================
+
+alter table public.microfossils
+    add column if not exists authority jsonb;
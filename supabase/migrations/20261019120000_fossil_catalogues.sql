@@ -0,0 +1,222 @@
+-- =================================================================
+-- FOSSIL CATALOGUES
+-- Microfossil entries belong to a catalogue:
+--   personal  visible to their owner only
+--   lab       visible to the members of one lab
+--   curated   visible to everyone; entries get here only through a
+--             curator's review (owners submit, curators approve or reject)
+-- Entries that existed before ownership were shared by every user and
+-- become the curated catalogue.
+-- Curators are added by the project administrators:
+--   insert into public.catalogue_curators (user_id) values ('<auth user id>');
+-- =================================================================
+
+create extension if not exists pgcrypto;
+
+-- --- Labs --------------------------------------------------------------
+
+create table if not exists public.labs (
+    id uuid primary key default gen_random_uuid(),
+    name text not null check (length(trim(name)) > 0),
+    invite_code text not null unique default encode(gen_random_bytes(6), 'hex'),
+    created_by uuid not null references auth.users (id) on delete cascade,
+    created_at timestamptz not null default now()
+);
+
+create table if not exists public.lab_members (
+    lab_id uuid not null references public.labs (id) on delete cascade,
+    user_id uuid not null references auth.users (id) on delete cascade,
+    role text not null default 'member' check (role in ('member', 'admin')),
+    created_at timestamptz not null default now(),
+    primary key (lab_id, user_id)
+);
+
+create index if not exists lab_members_user_id_idx on public.lab_members (user_id);
+
+create table if not exists public.catalogue_curators (
+    user_id uuid primary key references auth.users (id) on delete cascade,
+    created_at timestamptz not null default now()
+);
+
+-- --- Microfossil ownership ---------------------------------------------
+
+alter table public.microfossils
+    add column if not exists owner_id uuid references auth.users (id) on delete set null,
+    add column if not exists catalogue text not null default 'personal',
+    add column if not exists lab_id uuid references public.labs (id) on delete restrict,
+    add column if not exists review_status text not null default 'none',
+    add column if not exists review_note text,
+    add column if not exists reviewed_by uuid references auth.users (id) on delete set null,
+    add column if not exists reviewed_at timestamptz;
+
+update public.microfossils
+    set catalogue = 'curated', review_status = 'approved'
+    where owner_id is null;
+
+alter table public.microfossils
+    drop constraint if exists microfossils_catalogue_check,
+    add constraint microfossils_catalogue_check check (catalogue in ('personal', 'lab', 'curated')),
+    drop constraint if exists microfossils_review_status_check,
+    add constraint microfossils_review_status_check check (review_status in ('none', 'pending', 'approved', 'rejected')),
+    drop constraint if exists microfossils_lab_catalogue_check,
+    add constraint microfossils_lab_catalogue_check check (catalogue <> 'lab' or lab_id is not null);
+
+create index if not exists microfossils_owner_id_idx on public.microfossils (owner_id);
+create index if not exists microfossils_lab_id_idx on public.microfossils (lab_id);
+create index if not exists microfossils_pending_idx on public.microfossils (review_status) where review_status = 'pending';
+
+-- --- Helpers -----------------------------------------------------------
+-- Security definer so policies can look up membership without recursing
+-- through the policies of lab_members itself.
+
+create or replace function public.is_lab_member(lab uuid)
+returns boolean
+language sql stable security definer set search_path = public
+as $$
+    select exists (select 1 from lab_members where lab_id = lab and user_id = auth.uid());
+$$;
+
+create or replace function public.is_lab_admin(lab uuid)
+returns boolean
+language sql stable security definer set search_path = public
+as $$
+    select exists (select 1 from lab_members where lab_id = lab and user_id = auth.uid() and role = 'admin');
+$$;
+
+create or replace function public.is_catalogue_curator()
+returns boolean
+language sql stable security definer set search_path = public
+as $$
+    select exists (select 1 from catalogue_curators where user_id = auth.uid());
+$$;
+
+-- Creates a lab with the caller as its admin.
+create or replace function public.create_lab(lab_name text)
+returns uuid
+language plpgsql security definer set search_path = public
+as $$
+declare
+    new_lab uuid;
+begin
+    if auth.uid() is null then
+        raise exception 'Sign in to create a lab.';
+    end if;
+    insert into labs (name, created_by) values (trim(lab_name), auth.uid()) returning id into new_lab;
+    insert into lab_members (lab_id, user_id, role) values (new_lab, auth.uid(), 'admin');
+    return new_lab;
+end;
+$$;
+
+-- Joins the lab with this invite code as a member.
+create or replace function public.join_lab(code text)
+returns uuid
+language plpgsql security definer set search_path = public
+as $$
+declare
+    target uuid;
+begin
+    if auth.uid() is null then
+        raise exception 'Sign in to join a lab.';
+    end if;
+    select id into target from labs where invite_code = lower(trim(code));
+    if target is null then
+        raise exception 'No lab has this invite code.';
+    end if;
+    insert into lab_members (lab_id, user_id) values (target, auth.uid()) on conflict do nothing;
+    return target;
+end;
+$$;
+
+-- Only curators may record a review or change who owns an entry.
+create or replace function public.protect_microfossil_review()
+returns trigger
+language plpgsql security definer set search_path = public
+as $$
+begin
+    if not public.is_catalogue_curator() then
+        if new.owner_id is distinct from old.owner_id
+            or new.reviewed_by is distinct from old.reviewed_by
+            or new.reviewed_at is distinct from old.reviewed_at
+            or (new.review_status is distinct from old.review_status and new.review_status not in ('none', 'pending')) then
+            raise exception 'Only catalogue curators can review entries.';
+        end if;
+    end if;
+    return new;
+end;
+$$;
+
+drop trigger if exists microfossils_protect_review on public.microfossils;
+create trigger microfossils_protect_review
+    before update on public.microfossils
+    for each row execute function public.protect_microfossil_review();
+
+grant execute on function public.is_lab_member(uuid), public.is_lab_admin(uuid), public.is_catalogue_curator(),
+    public.create_lab(text), public.join_lab(text) to authenticated;
+
+-- --- Row-level security ------------------------------------------------
+
+alter table public.labs enable row level security;
+alter table public.lab_members enable row level security;
+alter table public.catalogue_curators enable row level security;
+alter table public.microfossils enable row level security;
+
+-- The catalogue used to be readable and writable by everyone; replace
+-- whatever policies granted that.
+do $$
+declare
+    existing record;
+begin
+    for existing in select policyname from pg_policies where schemaname = 'public' and tablename = 'microfossils' loop
+        execute format('drop policy %I on public.microfossils', existing.policyname);
+    end loop;
+end;
+$$;
+
+drop policy if exists "Members read their labs" on public.labs;
+create policy "Members read their labs" on public.labs
+    for select using (public.is_lab_member(id));
+
+drop policy if exists "Admins rename their labs" on public.labs;
+create policy "Admins rename their labs" on public.labs
+    for update using (public.is_lab_admin(id)) with check (public.is_lab_admin(id));
+
+drop policy if exists "Members read lab membership" on public.lab_members;
+create policy "Members read lab membership" on public.lab_members
+    for select using (public.is_lab_member(lab_id));
+
+drop policy if exists "Members leave and admins remove members" on public.lab_members;
+create policy "Members leave and admins remove members" on public.lab_members
+    for delete using (user_id = auth.uid() or public.is_lab_admin(lab_id));
+
+drop policy if exists "Curators see their own entry" on public.catalogue_curators;
+create policy "Curators see their own entry" on public.catalogue_curators
+    for select using (user_id = auth.uid());
+
+create policy "Read curated, own, lab and pending entries" on public.microfossils
+    for select using (
+        catalogue = 'curated'
+        or owner_id = auth.uid()
+        or (catalogue = 'lab' and public.is_lab_member(lab_id))
+        or (review_status = 'pending' and public.is_catalogue_curator())
+    );
+
+create policy "Add personal and lab entries" on public.microfossils
+    for insert with check (
+        owner_id = auth.uid()
+        and review_status in ('none', 'pending')
+        and reviewed_by is null
+        and (catalogue = 'personal' or (catalogue = 'lab' and public.is_lab_member(lab_id)))
+    );
+
+create policy "Owners update uncurated entries" on public.microfossils
+    for update using (owner_id = auth.uid() and catalogue <> 'curated')
+    with check (owner_id = auth.uid() and (catalogue = 'personal' or (catalogue = 'lab' and public.is_lab_member(lab_id))));
+
+create policy "Curators review entries" on public.microfossils
+    for update using (public.is_catalogue_curator()) with check (public.is_catalogue_curator());
+
+create policy "Owners delete uncurated entries" on public.microfossils
+    for delete using (owner_id = auth.uid() and catalogue <> 'curated');
+
+create policy "Curators delete entries" on public.microfossils
+    for delete using (public.is_catalogue_curator());
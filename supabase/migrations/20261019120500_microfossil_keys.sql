@@ -0,0 +1,30 @@
+-- =================================================================
+-- MICROFOSSIL KEYS
+-- Entries are keyed by a generated id; the short code users type
+-- (e.g. G_menardii) only has to be unique within its own catalogue, so
+-- a personal or lab code never collides with entries the user cannot see.
+-- Existing entries keep their code as their id, so the fossil ids stored
+-- in section records stay valid.
+-- =================================================================
+
+create extension if not exists pgcrypto;
+
+alter table public.microfossils
+    add column if not exists code text;
+
+update public.microfossils
+    set code = id
+    where code is null;
+
+alter table public.microfossils
+    alter column code set not null,
+    alter column id set default gen_random_uuid()::text,
+    drop constraint if exists microfossils_code_check,
+    add constraint microfossils_code_check check (length(trim(code)) > 0);
+
+create unique index if not exists microfossils_curated_code_key
+    on public.microfossils (lower(code)) where catalogue = 'curated';
+create unique index if not exists microfossils_lab_code_key
+    on public.microfossils (lab_id, lower(code)) where catalogue = 'lab';
+create unique index if not exists microfossils_personal_code_key
+    on public.microfossils (owner_id, lower(code)) where catalogue = 'personal';
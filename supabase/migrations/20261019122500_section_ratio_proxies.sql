@@ -0,0 +1,9 @@
+-- =================================================================
+-- RATIO PROXIES
+-- Species ratios defined on a section and the proxy columns the ratio
+-- proxies last wrote to its data points, so they can be cleared when the
+-- counts or ratios change.
+-- =================================================================
+
+alter table public.sections
+    add column if not exists ratio_proxies jsonb;
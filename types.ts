@@ -3,6 +3,9 @@ export type DataPoint = {
   [key: string]: string | number | boolean | null;
   depth?: number;
   age?: number;
+  // 2.5 and 97.5 percentiles of the age estimate (ka), set by probabilistic age models.
+  ageLower?: number;
+  ageUpper?: number;
 };
 
 export interface Taxonomy {
@@ -21,13 +24,58 @@ export interface EcologicalData {
     notes: string;
 }
 
+// Accepted name and authorship of a catalogue species, resolved against the
+// imported taxonomic authority snapshot (WoRMS, Mikrotax or another Darwin Core list).
+export interface TaxonAuthority {
+    acceptedName: string;
+    authorship: string; // e.g. "(d'Orbigny, 1839)"
+    year?: number;
+    source: string;
+    sourceId?: string; // id of the accepted name in the source, e.g. the AphiaID
+    verbatimName?: string; // the name as entered, when it was a synonym
+}
+
+export type FossilCatalogue = 'personal' | 'lab' | 'curated';
+export type FossilReviewStatus = 'none' | 'pending' | 'approved' | 'rejected';
+
+// Who can see a catalogue species: personal entries their owner, lab entries
+// the lab's members, curated entries everyone. Entries reach the curated
+// catalogue through a curator's review.
+export interface FossilOwnership {
+    catalogue: FossilCatalogue;
+    ownerId: string | null; // null for curated entries that predate ownership
+    labId: string | null;
+    labName?: string;
+    reviewStatus: FossilReviewStatus;
+    reviewNote?: string;
+    reviewedAt?: string;
+}
+
 export interface Microfossil {
-    id: string;
+    id: string; // key that section records refer to
+    code: string; // short name shown to users, unique within its catalogue (e.g. G_ruber)
     taxonomy: Taxonomy;
     description: string;
     stratigraphicRange: string;
     ecology: EcologicalData;
     imageUrl: string;
+    authority?: TaxonAuthority;
+    ownership?: FossilOwnership;
+}
+
+export type LabRole = 'member' | 'admin';
+
+export interface Lab {
+    id: string;
+    name: string;
+    role: LabRole;
+    inviteCode: string;
+}
+
+// The current user's labs and whether they curate the shared catalogue.
+export interface CatalogueAccess {
+    labs: Lab[];
+    isCurator: boolean;
 }
 
 export type PartialMicrofossil = Partial<Omit<Microfossil, 'taxonomy' | 'ecology'>> & {
@@ -45,6 +93,55 @@ export interface SectionFossilRecord {
     observations: string;
 }
 
+// Census count of one sample, for relative and absolute abundances. `counts`
+// are keyed by Microfossil id; taxa that were not itemised are still part of
+// `totalCounted`, so percentages stay comparable between samples.
+export interface CensusSample {
+    id: string;
+    subsection?: string; // DataPoint the sample belongs to
+    depth: number; // cmbsf
+    counts: Record<string, number>;
+    totalCounted: number;
+    splitFraction: number; // fraction of the sample that was counted, e.g. 0.125 for a 1/8 split
+    sieveSize: number; // lower size limit (µm)
+    dryWeight?: number; // g of dry bulk sediment, needed for abundances per gram
+    morphotypes?: MorphotypeCount[]; // sub-counts within counted taxa
+}
+
+export type MorphotypeSchemeId = 'coiling' | 'colour' | 'sensu';
+
+// Specimens of one counted taxon split by morphotype, e.g. by coiling direction.
+export interface MorphotypeCount {
+    fossilId: string;
+    scheme: MorphotypeSchemeId;
+    counts: Record<string, number>; // morphotype -> specimens, e.g. { sinistral: 182, dextral: 18 }
+}
+
+// Percentage of some taxa among themselves plus a complement, per census sample,
+// e.g. N. pachyderma / (N. pachyderma + N. incompta).
+export interface SpeciesRatio {
+    id: string;
+    column: string; // data-point key the percentages are written to
+    label: string;
+    numerator: string[]; // fossil ids
+    complement: string[]; // fossil ids making up the rest of the denominator
+}
+
+// Ratio proxies written from the census samples into the section's data points.
+export interface RatioProxyRecord {
+    speciesRatios: SpeciesRatio[];
+    columns: string[]; // data-point keys written last time, cleared before rewriting
+}
+
+// Faunal zone from constrained cluster analysis (CONISS) of a section's census samples.
+export interface AssemblageZone {
+    id: string;
+    label: string; // numbered from the base upward, e.g. 'AZ-1'
+    topDepth: number; // cmbsf
+    bottomDepth: number;
+    sampleCount: number;
+}
+
 export interface LabAnalysis {
   delta18O?: number | null;
   delta13C?: number | null;
@@ -58,6 +155,132 @@ export interface LabAnalysis {
   radiocarbonDate?: number | null;
 }
 
+// Published proxy-to-SST calibrations offered by the calibration engine.
+export type SstCalibrationId = 'mgca-anand2003' | 'uk37-muller1998' | 'tex86h-kim2010' | 'srca-correge2006';
+
+// A calibration applied to a section. It records how its derived column was
+// computed, so it doubles as the provenance of that column.
+export interface SstCalibrationRecord {
+  calibrationId: SstCalibrationId;
+  sourceColumn: string;
+  targetColumn: string;
+  equation: string;
+  constants: Record<string, number>;
+  computedAt: string; // ISO timestamp of the last recomputation
+}
+
+// Assemblage-based SST reconstruction of a section (provenance of its transfer-function columns).
+export type TransferFunctionMethod = 'MAT' | 'WAPLS';
+
+export interface TransferFunctionRecord {
+  method: TransferFunctionMethod;
+  calibrationName: string; // file name of the core-top calibration dataset
+  calibrationSize: number; // calibration samples
+  k?: number; // MAT analogues
+  components?: number; // WA-PLS components
+  rmsep: number; // °C, leave-one-out cross-validation
+  r2: number; // of cross-validated predictions
+  noAnalogueThreshold: number; // squared chord distance
+  fillCalculatedSST: boolean;
+  computedAt: string;
+}
+
+// Calcite–water oxygen-isotope paleotemperature equations.
+export type PaleotemperatureEquationId = 'shackleton1974' | 'bemis1998' | 'kimOneil1997';
+
+// Settings (and provenance) of the seawater δ18O calculation of a section.
+export interface SeawaterD18OSettings {
+  equationId: PaleotemperatureEquationId;
+  constants: Record<string, number>;
+  temperatureColumn: string; // e.g. 'calculatedSST'
+  d18OError: number; // 1σ of δ18O (‰), analytical
+  temperatureError: number; // 1σ of temperature (°C), calibration
+  iceVolumeCorrection?: {
+    curveId: string; // sea-level reference curve, relative to present (m)
+    permilPerMetre: number;
+    seaLevelError: number; // 1σ (m)
+  };
+  computedAt: string;
+}
+
+// Magnetic polarity of a depth interval, as interpreted from the inclination record.
+export type MagneticPolarity = 'normal' | 'reversed' | 'uncertain';
+
+// A polarity zone of a section's magnetostratigraphy (depths in cmbsf).
+export interface PolarityZone {
+  topDepth: number;
+  bottomDepth: number;
+  polarity: MagneticPolarity;
+  inclination?: number; // mean characteristic inclination (°)
+  confidence: 'high' | 'medium' | 'low';
+}
+
+// Major oxides of volcanic glass, as reported by electron microprobe (FeOt = total iron as FeO).
+export type MajorOxide = 'SiO2' | 'TiO2' | 'Al2O3' | 'FeOt' | 'MnO' | 'MgO' | 'CaO' | 'Na2O' | 'K2O';
+
+export type OxideComposition = Partial<Record<MajorOxide, number>>; // wt%
+
+// A tephra layer of a section, with the mean glass composition of its shards.
+export interface TephraLayer {
+  id: string;
+  depth: number; // top of the layer (cmbsf)
+  thickness: number; // cm
+  glassMean?: OxideComposition; // as analysed, normalised when matched
+  glassSd?: OxideComposition; // 1σ between shards
+  shardCount?: number;
+  correlativeId?: string; // reference eruption accepted as the correlative
+  notes?: string;
+}
+
+// Local marine reservoir offset (ΔR) relative to the Marine20 curve, in 14C years.
+export interface ReservoirCorrection {
+  deltaR: number;
+  deltaRError: number;
+}
+
+// Composite depth scale (CCSF-A). Depths here are in cm, like DataPoint.depth; offsets are
+// added to a section's CSF-A (cmbsf) depths to place it on the composite scale.
+export type AffineType = 'REF' | 'TIE' | 'SET';
+
+export interface AffineTie {
+    referenceSectionId: string;
+    proxyKey: string;
+    correlation: number; // Pearson r of the overlapping, offset records
+    overlap: number; // number of compared samples
+}
+
+export interface AffineTableEntry {
+    sectionId: string;
+    hole: string;
+    offset: number; // cm
+    affineType: AffineType;
+    tie?: AffineTie;
+}
+
+export interface DepthSpliceInterval {
+    sectionId: string;
+    topDepth: number; // CCSF-A, cm
+    bottomDepth: number; // CCSF-A, cm
+    spliceType: 'TIE' | 'APPEND';
+}
+
+// A tie line drawn in the correlation view: `depth` in one section matches
+// `referenceDepth` in another (both CSF-A, cm).
+export interface CorrelationTie {
+    id: string;
+    sectionId: string;
+    depth: number;
+    referenceSectionId: string;
+    referenceDepth: number;
+}
+
+export interface CompositeDepthModel {
+    affineTable: AffineTableEntry[];
+    splice: DepthSpliceInterval[];
+    ties?: CorrelationTie[];
+    updatedAt: string;
+}
+
 // A Core is the main entity, representing a drilling site or expedition core.
 export interface Core {
   id: string; // e.g., ODP-982A
@@ -68,6 +291,8 @@ export interface Core {
   };
   waterDepth: number; // in meters
   project: string;
+  reservoirCorrection?: ReservoirCorrection;
+  compositeDepth?: CompositeDepthModel;
   user_id?: string;
   folder_id?: string;
   createdAt?: string;
@@ -87,6 +312,8 @@ export interface Section {
   ageRange: string; // e.g., '0 - 1.2 Ma'
   dataPoints: DataPoint[];
   microfossilRecords: SectionFossilRecord[];
+  censusSamples?: CensusSample[];
+  assemblageZones?: AssemblageZone[];
   labAnalysis?: LabAnalysis;
   summary?: string;
   sectionImage: string;
@@ -94,8 +321,14 @@ export interface Section {
   lithology?: string;
   munsellColor?: string;
   grainSize?: string;
-  tephraLayers?: string;
-  paleomagneticReversals?: string;
+  tephraLayers?: string; // free-text notes; the structured record is tephraRecord
+  tephraRecord?: TephraLayer[];
+  paleomagneticReversals?: string; // free-text notes; the structured record is polarityRecord
+  polarityRecord?: PolarityZone[];
+  sstCalibrations?: SstCalibrationRecord[]; // the first one also fills calculatedSST
+  seawaterD18O?: SeawaterD18OSettings;
+  transferFunction?: TransferFunctionRecord;
+  ratioProxies?: RatioProxyRecord;
   createdAt?: string;
 }
 
@@ -123,19 +356,94 @@ export interface TiePoint {
     sectionId: string;
     depth: number;
     age: number;
+    ageUncertainty?: number; // 1σ in ka; treated as exact when absent
+    label?: string; // origin of the constraint, e.g. a calibrated 14C date
+}
+
+// Inputs of the sedimentation and mass accumulation rate calculation.
+export interface AccumulationRateSettings {
+    source: 'tiePoints' | 'ages'; // intervals between age-model tie points, or between dated samples
+    densityColumn: string; // dry bulk density, g/cm³
+    componentColumns: string[]; // concentrations in wt%, e.g. 'CaCO3'
 }
 
+// Interpolation schemes offered by the local (deterministic) age-depth engine.
+export type AgeModelMethod = 'linear' | 'piecewise' | 'spline' | 'pchip';
+
 export interface SpliceInterval {
     sectionId: string;
     startAge: number | null;
     endAge: number | null;
 }
 
+// Every way an age model can be produced in the synthesis view.
+export type AgeModelEngine = 'ai' | 'bayesian' | AgeModelMethod;
+
+export interface GeneratedAge {
+    depth: number;
+    age: number;
+    ageLower?: number;
+    ageUpper?: number;
+}
+
+// A named, saved age model for a core. One version per core can be active;
+// the active version supplies the ages used by charts and reports.
+export interface AgeModelVersion {
+    id: string;
+    coreId: string;
+    name: string;
+    method: AgeModelEngine;
+    parameters: Record<string, number | string | boolean>;
+    tiePoints: TiePoint[];
+    spliceIntervals: SpliceInterval[];
+    generatedAges: Record<string, GeneratedAge[]>; // keyed by section id
+    isActive: boolean;
+    author: string;
+    user_id?: string;
+    createdAt?: string;
+}
+
+export type CalibrationCurveId = 'Marine20' | 'IntCal20';
+
+// One row of a calibration curve table.
+export interface CalibrationCurvePoint {
+    calBP: number; // calendar age, years before 1950
+    c14Age: number; // conventional 14C age, 14C yr BP
+    sigma: number; // 1σ of the curve, 14C yr
+}
+
+// Highest posterior density range of a calibrated date, in cal yr BP.
+export interface CalibratedRange {
+    from: number;
+    to: number;
+    probability: number;
+}
+
+export interface CalibratedDate {
+    c14Age: number; // 14C yr BP
+    c14Error: number;
+    curve: CalibrationCurveId;
+    curveSource: string; // file name of the imported curve table
+    reservoirCorrection?: ReservoirCorrection;
+    distribution: { calBP: number; probability: number }[];
+    median: number; // cal yr BP
+    mean: number;
+    sd: number;
+    hpd68: CalibratedRange[];
+    hpd95: CalibratedRange[];
+}
+
 export interface PaleoEvent {
     eventName: string;
     startAge: number;
     endAge: number;
     description: string;
+    source?: 'ai' | 'statistical';
+    // Statistical detections only
+    kind?: 'shift' | 'excursion';
+    effectSize?: number; // Cohen's d for shifts, peak robust z-score for excursions
+    pValue?: number;
+    catalogueMatch?: string;
 }
 
 export interface NearbyCore {